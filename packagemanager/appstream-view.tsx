@@ -0,0 +1,165 @@
+/*
+ * AppStream view components - application icons, app labels and screenshots
+ */
+
+import {
+    Flex,
+    FlexItem,
+    Label,
+} from '@patternfly/react-core';
+import React, { useEffect, useState } from 'react';
+
+import { getComponentsByPackage, isApplication } from './appstream';
+import { readAppStreamCatalog, readAppStreamIcon, readAppStreamMedia } from './apt';
+import { AppStreamComponent, AppStreamScreenshot } from './types';
+
+// The catalog only changes with apt updates and takes a while to read, so it is read once per page load
+let catalogPromise: Promise<Map<string, AppStreamComponent>> | null = null;
+
+// Object URLs of cached icons and local screenshot media by path, null when the file is missing
+const iconUrls = new Map<string, Promise<string | null>>();
+const mediaUrls = new Map<string, Promise<string | null>>();
+
+/**
+ * AppStream components by package name, loaded when the component mounts
+ * Stays empty when no AppStream catalog is installed.
+ */
+export function useAppStream() {
+    const [components, setComponents] = useState<Map<string, AppStreamComponent>>(new Map());
+
+    useEffect(() => {
+        load();
+    }, []);
+
+    async function load() {
+        if (!catalogPromise) {
+            catalogPromise = readAppStreamCatalog().then(getComponentsByPackage);
+        }
+
+        try {
+            setComponents(await catalogPromise);
+        } catch (err) {
+            console.warn('Failed to load AppStream catalog:', err);
+            catalogPromise = null;
+        }
+    }
+
+    return components;
+}
+
+function getObjectUrl(
+    urls: Map<string, Promise<string | null>>,
+    path: string,
+    read: (path: string) => Promise<Uint8Array | null>
+): Promise<string | null> {
+    if (!urls.has(path)) {
+        urls.set(path, read(path)
+            .then(data => data && URL.createObjectURL(new Blob([data as BlobPart])))
+            .catch(err => {
+                console.warn(`Failed to read ${path}:`, err);
+                return null;
+            }));
+    }
+    return urls.get(path)!;
+}
+
+interface AppIconProps {
+    component: AppStreamComponent;
+    size: number;
+}
+
+// Cached application icon; takes its space even while loading so list rows line up
+export const AppIcon: React.FC<AppIconProps> = ({ component, size }) => {
+    const [url, setUrl] = useState<string | null>(null);
+
+    useEffect(() => {
+        let current = true;
+        setUrl(null);
+        if (component.icon) {
+            getObjectUrl(iconUrls, component.icon, readAppStreamIcon).then(iconUrl => current && setUrl(iconUrl));
+        }
+        return () => {
+            current = false;
+        };
+    }, [component.icon]);
+
+    return (
+        <span className="app-icon" style={{ display: 'inline-block', width: size, height: size, verticalAlign: 'middle' }}>
+            {url && <img src={url} width={size} height={size} alt="" />}
+        </span>
+    );
+};
+
+interface AppLabelProps {
+    component: AppStreamComponent | undefined;
+}
+
+// Marks packages that ship an application, as opposed to libraries and other components
+export const AppLabel: React.FC<AppLabelProps> = ({ component }) => {
+    if (!component || !isApplication(component)) {
+        return null;
+    }
+
+    return <Label isCompact color="purple" className="pf-v6-u-ml-sm">App</Label>;
+};
+
+interface AppScreenshotsProps {
+    screenshots: AppStreamScreenshot[];
+}
+
+/**
+ * Screenshots from a local media directory, links to the remote images otherwise
+ * The page makes no network requests itself; screenshots with neither are left out.
+ */
+export const AppScreenshots: React.FC<AppScreenshotsProps> = ({ screenshots }) => {
+    // Object URL of each local thumbnail, null when no media directory has it
+    const [thumbnails, setThumbnails] = useState<Map<string, string | null>>(new Map());
+
+    useEffect(() => {
+        let current = true;
+        setThumbnails(new Map());
+        for (const { thumbnail } of screenshots) {
+            if (!thumbnail) continue;
+            getObjectUrl(mediaUrls, thumbnail, readAppStreamMedia)
+                .then(url => current && setThumbnails(previous => new Map(previous).set(thumbnail, url)));
+        }
+        return () => {
+            current = false;
+        };
+    }, [screenshots]);
+
+    const shown = screenshots.filter(screenshot => screenshot.image || (screenshot.thumbnail && thumbnails.get(screenshot.thumbnail)));
+    if (shown.length === 0) {
+        return null;
+    }
+
+    return (
+        <Flex className="app-screenshots" spaceItems={{ default: 'spaceItemsMd' }}>
+            {shown.map(screenshot => {
+                const thumbnail = screenshot.thumbnail && thumbnails.get(screenshot.thumbnail);
+                const content = thumbnail
+                    ? <img src={thumbnail} alt={screenshot.caption} style={{ maxWidth: '100%' }} />
+                    : screenshot.caption || 'Screenshot';
+                return (
+                    <FlexItem key={screenshot.image ?? screenshot.thumbnail}>
+                        <figure style={{ margin: 0, maxWidth: '24rem' }}>
+                            {screenshot.image
+                                ? (
+                                    <a
+                                        href={screenshot.image}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        aria-label={`Open screenshot ${screenshot.caption} (opens in new tab)`}
+                                    >
+                                        {content}
+                                    </a>
+                                )
+                                : content}
+                            {thumbnail && screenshot.caption && <figcaption className="pf-v6-u-color-200">{screenshot.caption}</figcaption>}
+                        </figure>
+                    </FlexItem>
+                );
+            })}
+        </Flex>
+    );
+};
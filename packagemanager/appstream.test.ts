@@ -0,0 +1,237 @@
+import { describe, it, expect } from 'vitest';
+import {
+    decodeXml,
+    getComponentsByPackage,
+    getSearchTerms,
+    isApplication,
+    parseAppStreamCatalog,
+} from './appstream';
+import { AppStreamComponent } from './types';
+
+const CATALOG = `<?xml version="1.0" encoding="utf-8"?>
+<components version="0.16" origin="debian-bookworm-main" media_baseurl="https://appstream.debian.org/media/bookworm">
+  <component type="desktop-application">
+    <id>org.gnome.gedit</id>
+    <name>Text Editor</name>
+    <summary>Edit text files</summary>
+    <developer id="org.gnome">
+      <name>The GNOME Project</name>
+    </developer>
+    <description>
+      <p>gedit is the official text editor of the GNOME desktop environment.</p>
+      <p>Features include:</p>
+      <ul>
+        <li>Syntax highlighting &amp; search</li>
+        <li>Spell <em>checking</em></li>
+      </ul>
+    </description>
+    <pkgname>gedit</pkgname>
+    <categories>
+      <category>GNOME</category>
+      <category>TextEditor</category>
+    </categories>
+    <keywords>
+      <keyword>text</keyword>
+      <keyword>plaintext</keyword>
+    </keywords>
+    <icon type="stock">org.gnome.gedit</icon>
+    <icon type="cached" width="128" height="128">gedit_org.gnome.gedit.png</icon>
+    <icon type="cached" width="64" height="64">gedit_org.gnome.gedit.png</icon>
+    <icon type="cached" width="64" height="64" scale="2">gedit_org.gnome.gedit.png</icon>
+    <screenshots>
+      <screenshot>
+        <caption>Preferences</caption>
+        <image type="source" width="1200" height="800">org/gnome/gedit/prefs.png</image>
+      </screenshot>
+      <screenshot type="default">
+        <caption>Editing a file</caption>
+        <image type="source" width="1200" height="800">org/gnome/gedit/main.png</image>
+        <image type="thumbnail" width="1248" height="702">org/gnome/gedit/main-1248.png</image>
+        <image type="thumbnail" width="624" height="351">org/gnome/gedit/main-624.png</image>
+        <image type="thumbnail" width="224" height="126">org/gnome/gedit/main-224.png</image>
+      </screenshot>
+    </screenshots>
+    <releases>
+      <release version="43.2">
+        <description><p>Bug fixes</p></description>
+      </release>
+    </releases>
+  </component>
+  <component type="addon">
+    <id>org.gnome.gedit.plugins</id>
+    <name>Extra plugins</name>
+    <summary>Additional gedit plugins</summary>
+    <pkgname>gedit</pkgname>
+  </component>
+  <component>
+    <id>libfoo</id>
+    <name>Foo</name>
+    <pkgname>libfoo1</pkgname>
+  </component>
+  <component type="console-application">
+    <id>no-package</id>
+    <name>Not packaged</name>
+  </component>
+</components>
+`;
+
+function component(overrides: Partial<AppStreamComponent>): AppStreamComponent {
+    return {
+        id: 'example',
+        type: 'generic',
+        pkgname: 'example',
+        name: 'Example',
+        summary: '',
+        description: [],
+        keywords: [],
+        categories: [],
+        screenshots: [],
+        ...overrides,
+    };
+}
+
+describe('decodeXml', () => {
+    it('decodes named and numeric entities', () => {
+        expect(decodeXml('a &amp; b &lt;c&gt; &quot;d&quot; &apos;e&apos; &#233; &#x263A;')).toBe('a & b <c> "d" \'e\' é ☺');
+    });
+});
+
+describe('parseAppStreamCatalog', () => {
+    const components = parseAppStreamCatalog(CATALOG);
+    const gedit = components[0];
+
+    it('skips components without a package', () => {
+        expect(components.map(c => c.id)).toEqual(['org.gnome.gedit', 'org.gnome.gedit.plugins', 'libfoo']);
+    });
+
+    it('reads names, summary and type', () => {
+        expect(gedit.type).toBe('desktop-application');
+        expect(gedit.pkgname).toBe('gedit');
+        expect(gedit.name).toBe('Text Editor');
+        expect(gedit.summary).toBe('Edit text files');
+        expect(components[2].type).toBe('generic');
+    });
+
+    it('turns the description into paragraphs', () => {
+        expect(gedit.description).toEqual([
+            'gedit is the official text editor of the GNOME desktop environment.',
+            'Features include:',
+            '• Syntax highlighting & search',
+            '• Spell checking',
+        ]);
+    });
+
+    it('reads keywords and categories', () => {
+        expect(gedit.keywords).toEqual(['text', 'plaintext']);
+        expect(gedit.categories).toEqual(['GNOME', 'TextEditor']);
+    });
+
+    it('picks the 64x64 cached icon below the catalog origin', () => {
+        expect(gedit.icon).toBe('debian-bookworm-main/64x64/gedit_org.gnome.gedit.png');
+        expect(components[1].icon).toBeUndefined();
+    });
+
+    it('lists the default screenshot first with a fitting thumbnail', () => {
+        expect(gedit.screenshots).toEqual([
+            {
+                caption: 'Editing a file',
+                image: 'https://appstream.debian.org/media/bookworm/org/gnome/gedit/main.png',
+                thumbnail: 'org/gnome/gedit/main-624.png',
+                isDefault: true,
+            },
+            {
+                caption: 'Preferences',
+                image: 'https://appstream.debian.org/media/bookworm/org/gnome/gedit/prefs.png',
+                thumbnail: 'org/gnome/gedit/prefs.png',
+                isDefault: false,
+            },
+        ]);
+    });
+
+    it('keeps remote screenshots as links only', () => {
+        const [remote] = parseAppStreamCatalog(`<components origin="o">
+  <component type="desktop-application">
+    <name>Remote</name>
+    <pkgname>remote</pkgname>
+    <screenshots>
+      <screenshot>
+        <image type="source">https://example.org/shot.png</image>
+      </screenshot>
+    </screenshots>
+  </component>
+</components>`);
+
+        expect(remote.screenshots).toEqual([{ caption: '', image: 'https://example.org/shot.png', isDefault: false }]);
+    });
+
+    it('ignores translated elements', () => {
+        const [translated] = parseAppStreamCatalog(`<components origin="o">
+  <component type="desktop-application">
+    <name xml:lang="de">Texteditor</name>
+    <name>Text Editor</name>
+    <summary xml:lang="de">Textdateien bearbeiten</summary>
+    <summary>Edit text files</summary>
+    <description><p xml:lang="de">Hallo</p><p>Hello</p></description>
+    <pkgname>gedit</pkgname>
+  </component>
+</components>`);
+
+        expect(translated.name).toBe('Text Editor');
+        expect(translated.summary).toBe('Edit text files');
+        expect(translated.description).toEqual(['Hello']);
+    });
+
+    it('reads concatenated catalogs', () => {
+        const both = parseAppStreamCatalog(`${CATALOG}
+<components origin="debian-bookworm-contrib">
+  <component type="desktop-application">
+    <name>Other</name>
+    <pkgname>other</pkgname>
+    <icon type="cached">other.png</icon>
+  </component>
+</components>`);
+
+        expect(both).toHaveLength(4);
+        expect(both[3].icon).toBe('debian-bookworm-contrib/64x64/other.png');
+    });
+});
+
+describe('isApplication', () => {
+    it('accepts desktop and console applications', () => {
+        expect(isApplication(component({ type: 'desktop-application' }))).toBe(true);
+        expect(isApplication(component({ type: 'desktop' }))).toBe(true);
+        expect(isApplication(component({ type: 'console-application' }))).toBe(true);
+    });
+
+    it('rejects other components', () => {
+        expect(isApplication(component({ type: 'addon' }))).toBe(false);
+        expect(isApplication(component({ type: 'generic' }))).toBe(false);
+    });
+});
+
+describe('getComponentsByPackage', () => {
+    it('prefers the application of a package', () => {
+        const addon = component({ id: 'addon', type: 'addon', pkgname: 'gedit' });
+        const app = component({ id: 'app', type: 'desktop-application', pkgname: 'gedit' });
+        const other = component({ id: 'other', type: 'desktop-application', pkgname: 'gedit' });
+
+        const byPackage = getComponentsByPackage([addon, app, other]);
+        expect(byPackage.get('gedit')).toBe(app);
+    });
+
+    it('keeps packages without applications', () => {
+        const font = component({ type: 'font', pkgname: 'fonts-noto' });
+        expect(getComponentsByPackage([font]).get('fonts-noto')).toBe(font);
+    });
+});
+
+describe('getSearchTerms', () => {
+    it('returns name, summary and keywords', () => {
+        expect(getSearchTerms(component({ name: 'Text Editor', summary: 'Edit', keywords: ['text'] })))
+            .toEqual(['Text Editor', 'Edit', 'text']);
+    });
+
+    it('returns nothing without a component', () => {
+        expect(getSearchTerms(undefined)).toEqual([]);
+    });
+});
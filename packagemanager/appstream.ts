@@ -0,0 +1,237 @@
+/*
+ * AppStream - catalog parsing, cached icons and application metadata
+ */
+
+import { AppStreamComponent, AppStreamScreenshot } from './types';
+
+export const CATALOG_DIR = '/usr/share/swcatalog/xml';
+
+// Cached icons live in <dir>/<origin>/<size>/, older AppStream releases used /var/lib/app-info
+export const ICON_DIRS = ['/usr/share/swcatalog/icons', '/var/lib/app-info/icons'];
+
+// Local copies of screenshot media, laid out like the catalog's media_baseurl
+export const MEDIA_DIRS = ['/usr/share/swcatalog/media', '/var/lib/app-info/media'];
+
+// Human-readable AppStream component types
+export const COMPONENT_TYPES: Record<string, string> = {
+    'desktop-application': 'Desktop application',
+    'desktop': 'Desktop application',
+    'console-application': 'Console application',
+    'web-application': 'Web application',
+    'addon': 'Add-on',
+    'codec': 'Codec',
+    'driver': 'Driver',
+    'firmware': 'Firmware',
+    'font': 'Font',
+    'input-method': 'Input method',
+    'localization': 'Localization',
+    'operating-system': 'Operating system',
+    'runtime': 'Runtime',
+    'service': 'Service',
+    'generic': 'Component',
+};
+
+const APPLICATION_TYPES = ['desktop-application', 'desktop', 'console-application', 'web-application'];
+
+// Icon size shown in lists and details; larger cached sizes are only used when it is missing
+const PREFERRED_ICON_SIZE = 64;
+
+// Thumbnails at most this wide fit the details page
+const MAX_THUMBNAIL_WIDTH = 752;
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'' };
+
+/**
+ * Decode the XML entities used in catalog text
+ */
+export function decodeXml(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_match, entity: string) => {
+        if (entity[0] !== '#') return XML_ENTITIES[entity.toLowerCase()];
+        return String.fromCodePoint(entity[1].toLowerCase() === 'x'
+            ? parseInt(entity.slice(2), 16)
+            : parseInt(entity.slice(1), 10));
+    });
+}
+
+/**
+ * Plain text of an element body: inline markup removed, entities decoded, whitespace collapsed
+ */
+function toText(body: string): string {
+    return decodeXml(body.replace(/<[^>]*>/g, '')).replace(/\s+/g, ' ').trim();
+}
+
+function getAttribute(attributes: string, name: string): string | undefined {
+    return attributes.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`))?.[1];
+}
+
+/**
+ * Untranslated elements with the given tag, as [attributes, body] pairs
+ */
+function findElements(xml: string, tag: string): [string, string][] {
+    const elements: [string, string][] = [];
+
+    for (const match of xml.matchAll(new RegExp(`<${tag}(\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g'))) {
+        const attributes = match[1] ?? '';
+        if (!attributes.includes('xml:lang=')) {
+            elements.push([attributes, match[2]]);
+        }
+    }
+
+    return elements;
+}
+
+function findText(xml: string, tag: string): string {
+    const element = findElements(xml, tag)[0];
+    return element ? toText(element[1]) : '';
+}
+
+/**
+ * Paragraphs of a description; list items start with a bullet
+ */
+function parseDescription(body: string): string[] {
+    const paragraphs: string[] = [];
+
+    for (const match of body.matchAll(/<(p|li)(\s[^>]*)?>([\s\S]*?)<\/\1>/g)) {
+        if ((match[2] ?? '').includes('xml:lang=')) continue;
+
+        const text = toText(match[3]);
+        if (text) {
+            paragraphs.push(match[1] === 'li' ? `• ${text}` : text);
+        }
+    }
+
+    return paragraphs;
+}
+
+/**
+ * Path of the cached icon below an icon directory, e.g. "debian-bookworm-main/64x64/gedit_org.gnome.gedit.png"
+ */
+function parseIcon(body: string, origin: string): string | undefined {
+    const icons = findElements(body, 'icon')
+        .filter(([attributes]) => getAttribute(attributes, 'type') === 'cached')
+        .filter(([attributes]) => (getAttribute(attributes, 'scale') ?? '1') === '1')
+        .map(([attributes, name]) => ({
+            width: parseInt(getAttribute(attributes, 'width') ?? String(PREFERRED_ICON_SIZE), 10),
+            height: parseInt(getAttribute(attributes, 'height') ?? String(PREFERRED_ICON_SIZE), 10),
+            name: toText(name),
+        }))
+        .sort((a, b) => Math.abs(a.width - PREFERRED_ICON_SIZE) - Math.abs(b.width - PREFERRED_ICON_SIZE) || a.width - b.width);
+
+    const icon = icons[0];
+    if (!icon || !icon.name || !origin) return undefined;
+    return `${origin}/${icon.width}x${icon.height}/${icon.name}`;
+}
+
+function resolveMediaUrl(path: string, baseUrl: string): string | undefined {
+    if (isRemoteUrl(path)) return path;
+    return baseUrl ? `${baseUrl.replace(/\/$/, '')}/${path.replace(/^\//, '')}` : undefined;
+}
+
+function isRemoteUrl(path: string): boolean {
+    return /^https?:\/\//.test(path);
+}
+
+function parseScreenshots(body: string, baseUrl: string): AppStreamScreenshot[] {
+    const screenshots: AppStreamScreenshot[] = [];
+
+    for (const [attributes, screenshot] of findElements(body, 'screenshot')) {
+        const images = findElements(screenshot, 'image').map(([imageAttributes, path]) => ({
+            type: getAttribute(imageAttributes, 'type') ?? 'source',
+            width: parseInt(getAttribute(imageAttributes, 'width') ?? '0', 10),
+            path: toText(path),
+        }));
+
+        const source = images.find(image => image.type === 'source' && image.path);
+        const thumbnails = images
+            .filter(image => image.type === 'thumbnail' && image.path)
+            .sort((a, b) => b.width - a.width);
+        const thumbnail = thumbnails.find(image => image.width <= MAX_THUMBNAIL_WIDTH) ?? thumbnails[thumbnails.length - 1] ?? source;
+
+        // Only media paths can have a local copy; remote URLs are just linked
+        const image = source && resolveMediaUrl(source.path, baseUrl);
+        const localPath = thumbnail && !isRemoteUrl(thumbnail.path) ? thumbnail.path.replace(/^\//, '') : undefined;
+        if (!image && !localPath) continue;
+
+        screenshots.push({
+            caption: findText(screenshot, 'caption'),
+            ...(image && { image }),
+            ...(localPath && { thumbnail: localPath }),
+            isDefault: getAttribute(attributes, 'type') === 'default',
+        });
+    }
+
+    // The default screenshot comes first
+    return screenshots.sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+}
+
+/**
+ * Parse AppStream catalog XML into components
+ * Several catalogs may be concatenated; each <components> root names the origin its cached icons are stored under.
+ */
+export function parseAppStreamCatalog(xml: string): AppStreamComponent[] {
+    const components: AppStreamComponent[] = [];
+
+    for (const catalog of xml.matchAll(/<components(\s[^>]*)?>([\s\S]*?)<\/components>/g)) {
+        const origin = getAttribute(catalog[1] ?? '', 'origin') ?? '';
+        const baseUrl = getAttribute(catalog[1] ?? '', 'media_baseurl') ?? '';
+
+        for (const match of catalog[2].matchAll(/<component(\s[^>]*)?>([\s\S]*?)<\/component>/g)) {
+            const body = match[2];
+            // <name> also appears inside <developer>, and releases carry descriptions of their own
+            const ownFields = body.replace(/<(developer|screenshots|releases)(\s[^>]*)?>[\s\S]*?<\/\1>/g, '');
+
+            const pkgname = findText(ownFields, 'pkgname');
+            const name = findText(ownFields, 'name');
+            if (!pkgname || !name) continue;
+
+            const description = findElements(ownFields, 'description')[0];
+            const icon = parseIcon(ownFields, origin);
+
+            components.push({
+                id: findText(ownFields, 'id'),
+                type: getAttribute(match[1] ?? '', 'type') ?? 'generic',
+                pkgname,
+                name,
+                summary: findText(ownFields, 'summary'),
+                description: description ? parseDescription(description[1]) : [],
+                keywords: findElements(ownFields, 'keyword').map(([, keyword]) => toText(keyword)),
+                categories: findElements(ownFields, 'category').map(([, category]) => toText(category)),
+                ...(icon ? { icon } : {}),
+                screenshots: parseScreenshots(body, baseUrl),
+            });
+        }
+    }
+
+    return components;
+}
+
+/**
+ * Check whether a component is an application rather than a library, add-on or other component
+ */
+export function isApplication(component: AppStreamComponent): boolean {
+    return APPLICATION_TYPES.includes(component.type);
+}
+
+/**
+ * Index components by package name
+ * A package with several components is represented by its first application.
+ */
+export function getComponentsByPackage(components: AppStreamComponent[]): Map<string, AppStreamComponent> {
+    const byPackage = new Map<string, AppStreamComponent>();
+
+    for (const component of components) {
+        const existing = byPackage.get(component.pkgname);
+        if (!existing || (!isApplication(existing) && isApplication(component))) {
+            byPackage.set(component.pkgname, component);
+        }
+    }
+
+    return byPackage;
+}
+
+/**
+ * Text a package search should also match: the application name, summary and keywords
+ */
+export function getSearchTerms(component: AppStreamComponent | undefined): string[] {
+    return component ? [component.name, component.summary, ...component.keywords] : [];
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import {
+    formatRelation,
+    getOptionalInstallIds,
+    getOptionalRelations,
+    getSourceName,
+    parseAptCacheShow,
+    parseRelationField,
+    resolveRelations,
+} from './apt-cache';
+import { PackageInfo } from './types';
+
+const APT_CACHE_OUTPUT = `Package: signalk-server
+Version: 2.8.0-1
+Architecture: amd64
+Depends: nodejs (>= 20.0)
+Recommends: avahi-daemon, chrony | ntp
+Suggests: influxdb2 (>= 2.0) [amd64], grafana:any
+Description: Signal K server
+ A server for marine data.
+ .
+ Runs on Node.js.
+
+Package: signalk-server
+Version: 2.7.0-1
+Architecture: amd64
+`;
+
+function makePackage(name: string, version: string, arch = 'amd64', installed = false): PackageInfo {
+    return {
+        id: `${name};${version};${arch};${installed ? 'installed:debian' : 'debian'}`,
+        name,
+        version,
+        arch,
+        repo: installed ? 'installed:debian' : 'debian',
+        summary: '',
+        installed,
+    };
+}
+
+describe('parseAptCacheShow', () => {
+    const stanzas = parseAptCacheShow(APT_CACHE_OUTPUT);
+
+    it('parses one field map per stanza', () => {
+        expect(stanzas).toHaveLength(2);
+        expect(stanzas[0].Version).toBe('2.8.0-1');
+        expect(stanzas[1].Version).toBe('2.7.0-1');
+    });
+
+    it('joins continuation lines', () => {
+        expect(stanzas[0].Description).toBe('Signal K server\nA server for marine data.\n.\nRuns on Node.js.');
+    });
+
+    it('returns empty array for empty output', () => {
+        expect(parseAptCacheShow('')).toEqual([]);
+    });
+});
+
+describe('parseRelationField', () => {
+    it('parses alternatives, constraints and architecture qualifiers', () => {
+        expect(parseRelationField('libfoo (>= 1.0) | libbar, baz:any [amd64]')).toEqual([
+            [{ name: 'libfoo', constraint: { operator: '>=', version: '1.0' } }, { name: 'libbar' }],
+            [{ name: 'baz' }],
+        ]);
+    });
+
+    it('returns empty array for missing fields', () => {
+        expect(parseRelationField(undefined)).toEqual([]);
+        expect(parseRelationField('')).toEqual([]);
+    });
+});
+
+describe('getOptionalRelations', () => {
+    it('reads Recommends and Suggests', () => {
+        const { recommends, suggests } = getOptionalRelations(parseAptCacheShow(APT_CACHE_OUTPUT)[0]);
+        expect(recommends.map(formatRelation)).toEqual(['avahi-daemon', 'chrony | ntp']);
+        expect(suggests.map(formatRelation)).toEqual(['influxdb2 (>= 2.0)', 'grafana']);
+        expect(getOptionalRelations(undefined)).toEqual({ recommends: [], suggests: [] });
+    });
+});
+
+describe('getSourceName', () => {
+    it('reads the Source field without its version', () => {
+        expect(getSourceName({ Package: 'libssl3', Source: 'openssl (3.0.11-1)' })).toBe('openssl');
+        expect(getSourceName({ Package: 'libssl3', Source: 'openssl' })).toBe('openssl');
+    });
+
+    it('falls back to the package name', () => {
+        expect(getSourceName(parseAptCacheShow(APT_CACHE_OUTPUT)[0])).toBe('signalk-server');
+    });
+});
+
+describe('resolveRelations', () => {
+    const relations = parseRelationField('chrony | ntp, avahi-daemon, missing');
+
+    it('prefers installed alternatives, then the newest of the first available one', () => {
+        const packages = [
+            makePackage('chrony', '4.3-2'),
+            makePackage('ntp', '4.2.8', 'amd64', true),
+            makePackage('avahi-daemon', '0.8-9'),
+            makePackage('avahi-daemon', '0.8-10'),
+            makePackage('avahi-daemon', '0.9-1', 'arm64'),
+        ];
+        const resolved = resolveRelations(relations, packages, 'amd64');
+        expect(resolved.map(relation => relation.package?.id)).toEqual([packages[1].id, packages[3].id, undefined]);
+    });
+
+    it('accepts architecture independent packages', () => {
+        const resolved = resolveRelations(relations, [makePackage('chrony', '4.3-2', 'all')], 'amd64');
+        expect(resolved[0].package?.name).toBe('chrony');
+    });
+
+    it('skips versions outside the constraint', () => {
+        const packages = [makePackage('foo', '1.5-1'), makePackage('foo', '2.0-1'), makePackage('bar', '3.0-1', 'amd64', true)];
+        const resolved = resolveRelations(parseRelationField('foo (<< 2), bar (>= 4)'), packages, 'amd64');
+        expect(resolved[0].package?.version).toBe('1.5-1');
+        expect(resolved[1].package).toBeUndefined();
+    });
+
+    it('prefers the policy candidate over the newest version', () => {
+        const packages = [makePackage('foo', '1.5-1'), makePackage('foo', '2.0-1')];
+        const resolved = resolveRelations(parseRelationField('foo'), packages, 'amd64', new Map([['foo', '1.5-1']]));
+        expect(resolved[0].package?.version).toBe('1.5-1');
+    });
+});
+
+describe('getOptionalInstallIds', () => {
+    const recommends = resolveRelations(parseRelationField('avahi-daemon, chrony'), [
+        makePackage('avahi-daemon', '0.8-9'),
+        makePackage('chrony', '4.3-2', 'amd64', true),
+    ], 'amd64');
+    const suggests = resolveRelations(parseRelationField('grafana, avahi-daemon, influxdb2'), [
+        makePackage('grafana', '10.0.0'),
+        makePackage('avahi-daemon', '0.8-9'),
+    ], 'amd64');
+
+    it('returns not installed recommends and selected suggests once', () => {
+        expect(getOptionalInstallIds(recommends, suggests, true, new Set(['grafana', 'avahi-daemon']))).toEqual([
+            'avahi-daemon;0.8-9;amd64;debian',
+            'grafana;10.0.0;amd64;debian',
+        ]);
+    });
+
+    it('returns nothing when nothing is chosen', () => {
+        expect(getOptionalInstallIds(recommends, suggests, false, new Set())).toEqual([]);
+    });
+});
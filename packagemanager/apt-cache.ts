@@ -0,0 +1,144 @@
+/*
+ * apt-cache show parsing - package stanzas and their relation fields
+ */
+
+import { satisfiesConstraint } from './conflicts';
+import { PackageInfo, PackageRelation, ResolvedRelation } from './types';
+import { compareDebianVersions } from './utils';
+
+/**
+ * Parse apt-cache show output into one field map per package stanza
+ * Continuation lines are joined to their field with newlines.
+ */
+export function parseAptCacheShow(output: string): Record<string, string>[] {
+    const stanzas: Record<string, string>[] = [];
+    let current: Record<string, string> | null = null;
+    let field = '';
+
+    for (const line of output.split('\n')) {
+        if (line.trim() === '') {
+            current = null;
+            continue;
+        }
+
+        if (/^\s/.test(line)) {
+            if (current && field) {
+                current[field] += `\n${line.trim()}`;
+            }
+            continue;
+        }
+
+        const match = line.match(/^([\w-]+):\s*(.*)$/);
+        if (!match) continue;
+
+        if (!current) {
+            current = {};
+            stanzas.push(current);
+        }
+        field = match[1];
+        current[field] = match[2];
+    }
+
+    return stanzas;
+}
+
+/**
+ * Parse a relation field such as "libfoo (>= 1.0) | libbar, baz [amd64]"
+ * Returns one list of alternatives per comma-separated relation; architecture
+ * qualifiers, architecture restrictions and build profiles are dropped.
+ */
+export function parseRelationField(value: string | undefined): PackageRelation[][] {
+    if (!value) return [];
+
+    return value.split(',')
+        .map(relation => relation.split('|')
+            .map(alternative => alternative.trim().match(/^([a-z0-9][a-z0-9+.-]*)(?::\S+)?\s*(?:\(\s*([<>=]+)\s*([^)\s]+)\s*\))?/))
+            .filter((match): match is RegExpMatchArray => match !== null)
+            .map(match => ({
+                name: match[1],
+                ...(match[2] && { constraint: { operator: match[2], version: match[3] } }),
+            })))
+        .filter(alternatives => alternatives.length > 0);
+}
+
+/**
+ * Get the Recommends and Suggests relations of an apt-cache show stanza
+ */
+export function getOptionalRelations(stanza: Record<string, string> | undefined): {
+    recommends: PackageRelation[][];
+    suggests: PackageRelation[][];
+} {
+    return {
+        recommends: parseRelationField(stanza?.Recommends),
+        suggests: parseRelationField(stanza?.Suggests),
+    };
+}
+
+/**
+ * Get the source package a stanza was built from
+ * The Source field is omitted when it equals the package name and may carry a version.
+ */
+export function getSourceName(stanza: Record<string, string>): string {
+    return (stanza.Source ?? stanza.Package ?? '').split(' ')[0];
+}
+
+/**
+ * Pick the package that would satisfy each relation
+ * An installed alternative wins, otherwise apt's candidate (from apt-cache policy) or else the newest
+ * version of the first alternative available for the architecture. Versions outside a relation's
+ * constraint are skipped. Relations nothing satisfies keep no package; an "all" architecture accepts
+ * every architecture.
+ */
+export function resolveRelations(
+    relations: PackageRelation[][],
+    packages: PackageInfo[],
+    arch: string,
+    candidates: Map<string, string> = new Map()
+): ResolvedRelation[] {
+    const usable = packages.filter(pkg => arch === 'all' || pkg.arch === arch || pkg.arch === 'all');
+
+    return relations.map(alternatives => {
+        const versions = alternatives.map(alternative => usable
+            .filter(pkg => pkg.name === alternative.name)
+            .filter(pkg => !alternative.constraint || satisfiesConstraint(pkg.version, alternative.constraint))
+            .sort((a, b) => Number(b.version === candidates.get(b.name)) - Number(a.version === candidates.get(a.name)) ||
+                compareDebianVersions(b.version, a.version)));
+
+        const installed = versions.flat().find(pkg => pkg.installed);
+        const available = versions.find(matching => matching.length > 0)?.[0];
+        const pkg = installed ?? available;
+        return { alternatives, ...(pkg && { package: pkg }) };
+    });
+}
+
+/**
+ * Package IDs to install along with a package for the chosen optional relations
+ * Relations that are already installed or that nothing satisfies are skipped.
+ */
+export function getOptionalInstallIds(
+    recommends: ResolvedRelation[],
+    suggests: ResolvedRelation[],
+    includeRecommends: boolean,
+    selectedSuggests: Set<string>
+): string[] {
+    const chosen = [
+        ...(includeRecommends ? recommends : []),
+        ...suggests.filter(relation => relation.package && selectedSuggests.has(relation.package.name)),
+    ];
+    const ids = chosen
+        .map(relation => relation.package)
+        .filter((pkg): pkg is PackageInfo => pkg !== undefined && !pkg.installed)
+        .map(pkg => pkg.id);
+    return [...new Set(ids)];
+}
+
+/**
+ * Format a relation's alternatives as apt writes them
+ */
+export function formatRelation(alternatives: PackageRelation[]): string {
+    return alternatives
+        .map(alternative => alternative.constraint
+            ? `${alternative.name} (${alternative.constraint.operator} ${alternative.constraint.version})`
+            : alternative.name)
+        .join(' | ');
+}
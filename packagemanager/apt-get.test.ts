@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { parseAptSimulation, parseAptStatusLine } from './apt-get';
+import { TransactionError } from './types';
+
+const SIMULATION = `Reading package lists...
+Building dependency tree...
+Reading state information...
+The following NEW packages will be installed:
+  nginx nginx-common
+The following packages will be upgraded:
+  libssl3
+Need to get 0 B/1,234 kB of archives.
+After this operation, 3,072 kB of additional disk space will be used.
+Inst nginx-common (1.22.1-9 Debian:12.5/stable [all])
+Inst libssl3 [3.0.11-1~deb12u1] (3.0.11-1~deb12u2 Debian-Security:12/stable-security [amd64])
+Inst libfoo:i386 [2.0] (1.9 Debian:12.5/stable [i386])
+Inst nginx (1.22.1-9 Debian:12.5/stable [amd64])
+Remv apache2 [2.4.57-2]
+Conf nginx-common (1.22.1-9 Debian:12.5/stable [all])
+Conf nginx (1.22.1-9 Debian:12.5/stable [amd64])
+`;
+
+describe('parseAptSimulation', () => {
+    const preview = parseAptSimulation(SIMULATION);
+
+    it('sorts packages by the change apt makes', () => {
+        expect(preview.install).toEqual(['nginx-common;1.22.1-9;all;', 'nginx;1.22.1-9;amd64;']);
+        expect(preview.update).toEqual(['libssl3;3.0.11-1~deb12u2;amd64;']);
+        expect(preview.downgrade).toEqual(['libfoo;1.9;i386;']);
+        expect(preview.remove).toEqual(['apache2;2.4.57-2;;']);
+        expect(preview.reinstall).toEqual([]);
+    });
+
+    it('reads download and disk sizes', () => {
+        expect(preview.downloadSize).toBe(0);
+        expect(preview.installSize).toBe(3072000);
+        expect(parseAptSimulation('Need to get 1.5 MB of archives.\nAfter this operation, 512 B disk space will be freed.\n'))
+            .toMatchObject({ downloadSize: 1500000, installSize: -512 });
+    });
+
+    it('throws apt\'s report when the change cannot be resolved', () => {
+        const report = ' nginx : Depends: libssl3 (>= 3.1) but 3.0.11-1 is to be installed\nE: Unable to correct problems, you have held broken packages.\n';
+        expect(() => parseAptSimulation(report)).toThrow(TransactionError);
+    });
+});
+
+describe('parseAptStatusLine', () => {
+    it('maps downloading to the first half and installing to the second', () => {
+        expect(parseAptStatusLine('dlstatus:1:50:Retrieving file 1 of 2')).toBe(25);
+        expect(parseAptStatusLine('pmstatus:nginx:50:Installing nginx')).toBe(75);
+    });
+
+    it('ignores other output', () => {
+        expect(parseAptStatusLine('Setting up nginx (1.22.1-9) ...')).toBeNull();
+    });
+});
@@ -0,0 +1,95 @@
+/*
+ * apt-get - simulation reports and progress of installs run with apt-get
+ * Used where PackageKit cannot pass an option, such as skipping recommends
+ * for one installation while APT::Install-Recommends is set.
+ */
+
+import { TransactionError, TransactionPreview } from './types';
+import { compareDebianVersions, scaleProgress } from './utils';
+
+// Options that keep apt from installing recommended packages, whatever apt.conf says
+export const NO_RECOMMENDS_OPTIONS = ['-o', 'APT::Install-Recommends=false'];
+
+// "Inst foo [1.0-1] (1.1-1 Debian:12.5/stable [amd64])", the old version only for packages already installed
+const INST_LINE = /^Inst (\S+) (?:\[(\S+)\] )?\((\S+) .*\[(\S+)\]\)/;
+
+// "Remv foo [1.0-1]"
+const REMV_LINE = /^Remv (\S+) \[(\S+)\]/;
+
+const SIZE_UNITS: Record<string, number> = { B: 1, kB: 1e3, MB: 1e6, GB: 1e9 };
+
+function parseSize(amount: string, unit: string): number {
+    return Math.round(parseFloat(amount.replace(/,/g, '')) * (SIZE_UNITS[unit] ?? 1));
+}
+
+function toPackageId(name: string, version: string, arch: string): string {
+    const [bareName, qualifier] = name.split(':');
+    return `${bareName};${version};${qualifier ?? arch};`;
+}
+
+/**
+ * Parse the report of "apt-get install --simulate" into a transaction preview
+ * Throws a dep-resolution-failed error with apt's report when it cannot resolve the change.
+ */
+export function parseAptSimulation(output: string): TransactionPreview {
+    const preview: TransactionPreview = {
+        install: [],
+        update: [],
+        remove: [],
+        downgrade: [],
+        reinstall: [],
+        downloadSize: 0,
+        installSize: 0,
+    };
+
+    if (/^E: /m.test(output)) {
+        throw new TransactionError('dep-resolution-failed', output.trim());
+    }
+
+    for (const line of output.split('\n')) {
+        const inst = line.match(INST_LINE);
+        if (inst) {
+            const [, name, oldVersion, version, arch] = inst;
+            const id = toPackageId(name, version, arch);
+            if (!oldVersion) {
+                preview.install.push(id);
+            } else {
+                const comparison = compareDebianVersions(version, oldVersion);
+                const list = comparison > 0 ? preview.update : comparison < 0 ? preview.downgrade : preview.reinstall;
+                list.push(id);
+            }
+            continue;
+        }
+
+        const remv = line.match(REMV_LINE);
+        if (remv) {
+            preview.remove.push(toPackageId(remv[1], remv[2], ''));
+            continue;
+        }
+
+        // "Need to get 1,234 kB of archives." or "Need to get 0 B/1,234 kB of archives." with some cached
+        const download = line.match(/^Need to get ([\d.,]+) (\w+)(?:\/[\d.,]+ \w+)? of archives/);
+        if (download) {
+            preview.downloadSize = parseSize(download[1], download[2]);
+            continue;
+        }
+
+        const disk = line.match(/^After this operation, ([\d.,]+) (\w+) (?:of additional )?disk space will be (used|freed)/);
+        if (disk) {
+            const size = parseSize(disk[1], disk[2]);
+            preview.installSize = disk[3] === 'freed' ? -size : size;
+        }
+    }
+
+    return preview;
+}
+
+/**
+ * Overall percentage from a line apt writes to APT::Status-Fd, null for other lines
+ * Downloading counts as the first half, unpacking and configuring as the second.
+ */
+export function parseAptStatusLine(line: string): number | null {
+    const match = line.match(/^(dlstatus|pmstatus):[^:]*:([\d.]+):/);
+    if (!match) return null;
+    return scaleProgress(parseFloat(match[2]), match[1] === 'dlstatus' ? 0 : 1, 2);
+}
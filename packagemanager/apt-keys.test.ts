@@ -0,0 +1,258 @@
+import { describe, it, expect } from 'vitest';
+import {
+    daysUntil,
+    formatFingerprint,
+    getExpiringKeyrings,
+    getFirstExpiry,
+    getKeyExpiry,
+    getKeyringExpiry,
+    getKeyringsForSource,
+    getSourcesForRepository,
+    getSourcesUsingKeyring,
+    isTrustedByDefault,
+    parseKeyringListing,
+} from './apt-keys';
+import { ConfiguredSource, Keyring, SigningKey, SigningSubkey } from './types';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+
+const LISTING = `file:/etc/apt/trusted.gpg.d/debian-archive-bookworm-stable.asc
+pub:-:4096:22:F8D2585B8783D481:1674302208:1926591008::-:::scSC::::::23::0:
+fpr:::::::::4D64FEC119C2029067D6E791F8D2585B8783D481:
+uid:-::::1674302208::ABCDEF::Debian Stable Release Key (12/bookworm) <debian-release@lists.debian.org>::::::::::0:
+file:/usr/share/keyrings/example.gpg
+pub:r:2048:1:2F59B5F99B1BE0B4:1464022864:::-:::scESC::::::23::0:
+fpr:::::::::6F71F525282841EEDAF851B42F59B5F99B1BE0B4:
+uid:-::::1464022864::45B5E2::Example <apt\\x3aexample.com>::::::::::0:
+uid:-::::1464022864::45B5E3::Example Archive::::::::::0:
+sub:-:2048:1:7E9656125E955B26:1464022864::::::e::::::23:
+fpr:::::::::0FA5ECC8C0CA58863C0AC5867E9656125E955B26:
+file:/etc/apt/keyrings/broken.gpg
+`;
+
+function makeKey(expires: Date | null, revoked = false): SigningKey {
+    return { fingerprint: 'AAAA', uids: [], created: null, expires, revoked, canSign: true, signingSubkeys: [] };
+}
+
+function makeSubkey(expires: Date | null, revoked = false): SigningSubkey {
+    return { fingerprint: 'BBBB', expires, revoked };
+}
+
+function makeSource(uri: string, signedBy?: string): ConfiguredSource {
+    return {
+        path: '/etc/apt/sources.list.d/test.sources',
+        types: ['deb'],
+        uris: [uri],
+        suites: ['stable'],
+        components: ['main'],
+        ...(signedBy && { signedBy }),
+    };
+}
+
+describe('parseKeyringListing', () => {
+    it('groups keys by keyring file', () => {
+        const keyrings = parseKeyringListing(LISTING);
+        expect(keyrings.map(keyring => keyring.path)).toEqual([
+            '/etc/apt/trusted.gpg.d/debian-archive-bookworm-stable.asc',
+            '/usr/share/keyrings/example.gpg',
+            '/etc/apt/keyrings/broken.gpg',
+        ]);
+        expect(keyrings[2].keys).toEqual([]);
+    });
+
+    it('parses fingerprints, dates and user IDs', () => {
+        const [debian, example] = parseKeyringListing(LISTING);
+        expect(debian.keys[0].fingerprint).toBe('4D64FEC119C2029067D6E791F8D2585B8783D481');
+        expect(debian.keys[0].created).toEqual(new Date(1674302208 * 1000));
+        expect(debian.keys[0].expires).toEqual(new Date(1926591008 * 1000));
+        expect(debian.keys[0].revoked).toBe(false);
+        expect(example.keys[0].expires).toBeNull();
+        expect(example.keys[0].revoked).toBe(true);
+        expect(example.keys[0].uids).toEqual(['Example <apt:example.com>', 'Example Archive']);
+    });
+
+    it('ignores subkey fingerprints', () => {
+        const [, example] = parseKeyringListing(LISTING);
+        expect(example.keys).toHaveLength(1);
+        expect(example.keys[0].fingerprint).toBe('6F71F525282841EEDAF851B42F59B5F99B1BE0B4');
+    });
+
+    it('parses signing subkeys', () => {
+        const [keyring] = parseKeyringListing(`file:/etc/apt/keyrings/docker.gpg
+pub:-:4096:1:8D81803C0EBFCD88:1487788586:::-:::scESC::::::23::0:
+fpr:::::::::9DC858229FC7DD38854AE2D88D81803C0EBFCD88:
+sub:-:4096:1:7EA0A9C3F273FCD8:1487791902:1930560000:::::s::::::23:
+fpr:::::::::D3306A018370199E527AE7017EA0A9C3F273FCD8:
+sub:-:4096:1:1111111111111111:1487791902::::::e::::::23:
+fpr:::::::::AAAA1111111111111111AAAA1111111111111111:
+`);
+        expect(keyring.keys[0].fingerprint).toBe('9DC858229FC7DD38854AE2D88D81803C0EBFCD88');
+        expect(keyring.keys[0].canSign).toBe(true);
+        expect(keyring.keys[0].signingSubkeys).toEqual([
+            { fingerprint: 'D3306A018370199E527AE7017EA0A9C3F273FCD8', expires: new Date(1930560000 * 1000), revoked: false },
+        ]);
+    });
+
+    it('returns empty array for empty output', () => {
+        expect(parseKeyringListing('')).toEqual([]);
+    });
+});
+
+describe('getKeyExpiry', () => {
+    it('treats keys without expiry as valid', () => {
+        expect(getKeyExpiry(makeKey(null), NOW)).toBe('valid');
+    });
+
+    it('flags keys expiring within 30 days', () => {
+        expect(getKeyExpiry(makeKey(new Date(NOW.getTime() + 29 * DAY)), NOW)).toBe('expiring');
+        expect(getKeyExpiry(makeKey(new Date(NOW.getTime() + 31 * DAY)), NOW)).toBe('valid');
+    });
+
+    it('flags expired and revoked keys', () => {
+        expect(getKeyExpiry(makeKey(new Date(NOW.getTime() - DAY)), NOW)).toBe('expired');
+        expect(getKeyExpiry(makeKey(null, true), NOW)).toBe('expired');
+    });
+});
+
+describe('getKeyringExpiry', () => {
+    it('is valid while any key is valid', () => {
+        const keyring: Keyring = { path: '/k.gpg', keys: [makeKey(new Date(NOW.getTime() - DAY)), makeKey(null)] };
+        expect(getKeyringExpiry(keyring, NOW)).toBe('valid');
+    });
+
+    it('reports expiring before expired', () => {
+        const keyring: Keyring = {
+            path: '/k.gpg',
+            keys: [makeKey(new Date(NOW.getTime() - DAY)), makeKey(new Date(NOW.getTime() + 5 * DAY))],
+        };
+        expect(getKeyringExpiry(keyring, NOW)).toBe('expiring');
+        expect(getKeyringExpiry({ path: '/k.gpg', keys: [makeKey(null, true)] }, NOW)).toBe('expired');
+    });
+
+    it('flags a key expiring soon next to one that never expires', () => {
+        const keyring: Keyring = { path: '/k.gpg', keys: [makeKey(null), makeKey(new Date(NOW.getTime() + 5 * DAY))] };
+        expect(getKeyringExpiry(keyring, NOW)).toBe('expiring');
+    });
+
+    it('ignores rotated-out subkeys', () => {
+        const key = { ...makeKey(null), canSign: false, signingSubkeys: [makeSubkey(new Date(NOW.getTime() - DAY)), makeSubkey(null)] };
+        expect(getKeyringExpiry({ path: '/k.gpg', keys: [key] }, NOW)).toBe('valid');
+    });
+
+    it('is expired once no key or subkey can sign', () => {
+        const key = { ...makeKey(null), canSign: false, signingSubkeys: [makeSubkey(new Date(NOW.getTime() - DAY))] };
+        expect(getKeyringExpiry({ path: '/k.gpg', keys: [key] }, NOW)).toBe('expired');
+        const expiredKey = { ...makeKey(new Date(NOW.getTime() - DAY)), signingSubkeys: [makeSubkey(null)] };
+        expect(getKeyringExpiry({ path: '/k.gpg', keys: [expiredKey] }, NOW)).toBe('expired');
+    });
+});
+
+describe('daysUntil', () => {
+    it('counts whole days', () => {
+        expect(daysUntil(new Date(NOW.getTime() + 10.5 * DAY), NOW)).toBe(10);
+        expect(daysUntil(new Date(NOW.getTime() - 0.5 * DAY), NOW)).toBe(-1);
+    });
+});
+
+describe('formatFingerprint', () => {
+    it('groups by four characters', () => {
+        expect(formatFingerprint('4D64FEC119C20290')).toBe('4D64 FEC1 19C2 0290');
+    });
+});
+
+describe('isTrustedByDefault', () => {
+    it('recognizes the default trusted keyrings', () => {
+        expect(isTrustedByDefault('/etc/apt/trusted.gpg')).toBe(true);
+        expect(isTrustedByDefault('/etc/apt/trusted.gpg.d/debian.asc')).toBe(true);
+        expect(isTrustedByDefault('/etc/apt/keyrings/example.gpg')).toBe(false);
+    });
+});
+
+describe('getSourcesUsingKeyring', () => {
+    const signed = makeSource('https://apt.example.com', '/etc/apt/keyrings/example.gpg');
+    const unsigned = makeSource('http://deb.debian.org/debian');
+
+    it('matches Signed-By paths', () => {
+        expect(getSourcesUsingKeyring('/etc/apt/keyrings/example.gpg', [signed, unsigned])).toEqual([signed]);
+    });
+
+    it('uses default keyrings for sources without Signed-By', () => {
+        expect(getSourcesUsingKeyring('/etc/apt/trusted.gpg.d/debian.asc', [signed, unsigned])).toEqual([unsigned]);
+    });
+
+    it('matches one of several Signed-By keyrings', () => {
+        const source = makeSource('https://a.example.com', '/a.gpg, /b.gpg');
+        expect(getSourcesUsingKeyring('/b.gpg', [source])).toEqual([source]);
+    });
+
+    it('finds keyrings for a source', () => {
+        const keyrings: Keyring[] = [{ path: '/etc/apt/keyrings/example.gpg', keys: [] }, { path: '/other.gpg', keys: [] }];
+        expect(getKeyringsForSource(signed, keyrings)).toEqual([keyrings[0]]);
+    });
+});
+
+describe('getSourcesForRepository', () => {
+    it('matches sources by URI in the repository ID or description', () => {
+        const source = makeSource('https://apt.example.com/debian/');
+        const repo = { id: 'test.sources:https://apt.example.com/debian stable/main', description: '', enabled: true };
+        expect(getSourcesForRepository(repo, [source, makeSource('https://other.example.com')])).toEqual([source]);
+    });
+});
+
+describe('getExpiringKeyrings', () => {
+    const expiring: Keyring = { path: '/etc/apt/keyrings/example.gpg', keys: [makeKey(new Date(NOW.getTime() + 3 * DAY))] };
+    const valid: Keyring = { path: '/etc/apt/keyrings/valid.gpg', keys: [makeKey(null)] };
+    const repo = { id: 'https://apt.example.com stable', description: 'Example', enabled: true };
+
+    it('flags keyrings of a repository that expire soon', () => {
+        const sources = [makeSource('https://apt.example.com', expiring.path)];
+        expect(getExpiringKeyrings(repo, sources, [expiring, valid], NOW)).toEqual([expiring]);
+    });
+
+    it('flags the expiring keyring of a source also verified with a valid one', () => {
+        const sources = [makeSource('https://apt.example.com', `${expiring.path} ${valid.path}`)];
+        expect(getExpiringKeyrings(repo, sources, [expiring, valid], NOW)).toEqual([expiring]);
+    });
+
+    it('flags expiring keys next to valid keys in one keyring', () => {
+        const mixed: Keyring = { path: '/etc/apt/keyrings/mixed.gpg', keys: [makeKey(null), makeKey(new Date(NOW.getTime() + 3 * DAY))] };
+        const sources = [makeSource('https://apt.example.com', mixed.path)];
+        expect(getExpiringKeyrings(repo, sources, [mixed], NOW)).toEqual([mixed]);
+    });
+
+    it('flags keys whose signing subkey expires soon', () => {
+        const key = { ...makeKey(null), signingSubkeys: [makeSubkey(new Date(NOW.getTime() + 3 * DAY))] };
+        const withSubkey: Keyring = { path: '/etc/apt/keyrings/subkey.gpg', keys: [key] };
+        const sources = [makeSource('https://apt.example.com', withSubkey.path)];
+        expect(getExpiringKeyrings(repo, sources, [withSubkey], NOW)).toEqual([withSubkey]);
+    });
+
+    it('does not flag keyrings for old expired keys', () => {
+        const rotated: Keyring = { path: '/etc/apt/keyrings/rotated.gpg', keys: [makeKey(new Date(NOW.getTime() - 100 * DAY)), makeKey(null)] };
+        const sources = [makeSource('https://apt.example.com', rotated.path)];
+        expect(getExpiringKeyrings(repo, sources, [rotated], NOW)).toEqual([]);
+    });
+
+    it('returns empty array for repositories without matching sources', () => {
+        expect(getExpiringKeyrings(repo, [], [expiring], NOW)).toEqual([]);
+    });
+});
+
+describe('getFirstExpiry', () => {
+    it('returns the earliest expiry of keys and signing subkeys', () => {
+        const subkeyExpiry = new Date(NOW.getTime() + 2 * DAY);
+        const key = { ...makeKey(new Date(NOW.getTime() + 9 * DAY)), signingSubkeys: [makeSubkey(subkeyExpiry)] };
+        expect(getFirstExpiry({ path: '/k.gpg', keys: [makeKey(null), key] }, NOW)).toEqual(subkeyExpiry);
+    });
+
+    it('skips expired keys and lets subkeys expire with their key', () => {
+        const keyExpiry = new Date(NOW.getTime() + 4 * DAY);
+        const key = { ...makeKey(keyExpiry), signingSubkeys: [makeSubkey(null), makeSubkey(new Date(NOW.getTime() - DAY))] };
+        expect(getFirstExpiry({ path: '/k.gpg', keys: [makeKey(new Date(NOW.getTime() - DAY)), key] }, NOW)).toEqual(keyExpiry);
+    });
+
+    it('returns null when nothing expires', () => {
+        expect(getFirstExpiry({ path: '/k.gpg', keys: [makeKey(null)] })).toBeNull();
+    });
+});
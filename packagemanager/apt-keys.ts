@@ -0,0 +1,194 @@
+/*
+ * apt keys - keyrings apt verifies repositories with, their keys and expiry
+ */
+
+import { ConfiguredSource, KeyExpiry, Keyring, RepositoryInfo, SigningKey, SigningSubkey } from './types';
+
+// Directories with keyrings, in the order they are listed
+export const KEYRING_DIRS = ['/etc/apt/trusted.gpg.d', '/etc/apt/keyrings', '/usr/share/keyrings'];
+
+// Keys expiring within this many days are flagged
+export const EXPIRY_WARNING_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// gpg prints dates as seconds since the epoch, empty if not set
+function parseGpgDate(field: string | undefined): Date | null {
+    return field && /^\d+$/.test(field) ? new Date(Number(field) * 1000) : null;
+}
+
+/**
+ * Parse the keyring listing of readKeyrings
+ * Each keyring starts with a "file:<path>" line, followed by the
+ * `gpg --show-keys --with-colons --fixed-list-mode` records of its keys.
+ */
+export function parseKeyringListing(output: string): Keyring[] {
+    const keyrings: Keyring[] = [];
+    let keyring: Keyring | null = null;
+    let key: SigningKey | null = null;
+    let inSubkey = false;
+    let subkey: SigningSubkey | null = null;
+
+    for (const line of output.split('\n')) {
+        if (line.startsWith('file:')) {
+            keyring = { path: line.slice('file:'.length), keys: [] };
+            keyrings.push(keyring);
+            key = null;
+            continue;
+        }
+        if (!keyring) continue;
+
+        const fields = line.split(':');
+        switch (fields[0]) {
+            case 'pub':
+                key = {
+                    fingerprint: '',
+                    uids: [],
+                    created: parseGpgDate(fields[5]),
+                    expires: parseGpgDate(fields[6]),
+                    revoked: fields[1] === 'r',
+                    // Lowercase capabilities are the key's own, s for sign
+                    canSign: !fields[11] || fields[11].includes('s'),
+                    signingSubkeys: [],
+                };
+                keyring.keys.push(key);
+                inSubkey = false;
+                subkey = null;
+                break;
+            case 'sub':
+                inSubkey = true;
+                subkey = null;
+                // Capabilities: s for sign, e for encrypt
+                if (key && fields[11]?.includes('s')) {
+                    subkey = { fingerprint: '', expires: parseGpgDate(fields[6]), revoked: fields[1] === 'r' };
+                    key.signingSubkeys.push(subkey);
+                }
+                break;
+            case 'fpr':
+                // Subkeys have fingerprints too, the key's own comes first
+                if (key && !inSubkey && !key.fingerprint) {
+                    key.fingerprint = fields[9];
+                } else if (subkey && !subkey.fingerprint) {
+                    subkey.fingerprint = fields[9];
+                }
+                break;
+            case 'uid':
+                if (key && fields[9]) {
+                    key.uids.push(fields[9].replace(/\\x3a/g, ':'));
+                }
+                break;
+        }
+    }
+
+    return keyrings;
+}
+
+/**
+ * Get whether a key has expired or expires soon
+ * Revoked keys count as expired, apt no longer accepts them.
+ */
+export function getKeyExpiry(key: SigningKey | SigningSubkey, now: Date = new Date()): KeyExpiry {
+    if (key.revoked || (key.expires && key.expires <= now)) {
+        return 'expired';
+    }
+    if (key.expires && key.expires.getTime() - now.getTime() < EXPIRY_WARNING_DAYS * DAY_MS) {
+        return 'expiring';
+    }
+    return 'valid';
+}
+
+// Expiry of each key and signing subkey of a keyring that still signs, null for those that never expire
+// A subkey stops working with its key, so it expires no later than the key.
+function getValidSigningExpiries(keyring: Keyring, now: Date): (Date | null)[] {
+    return keyring.keys
+        .filter(key => getKeyExpiry(key, now) !== 'expired')
+        .flatMap(key => [
+            ...(key.canSign ? [key.expires] : []),
+            ...key.signingSubkeys
+                .filter(subkey => getKeyExpiry(subkey, now) !== 'expired')
+                .map(subkey => key.expires && (!subkey.expires || key.expires < subkey.expires) ? key.expires : subkey.expires),
+        ]);
+}
+
+/**
+ * Get when the first key or signing subkey of a keyring that still signs expires, null if none does
+ */
+export function getFirstExpiry(keyring: Keyring, now: Date = new Date()): Date | null {
+    const dates = getValidSigningExpiries(keyring, now).filter((date): date is Date => date !== null);
+    return dates.length > 0 ? new Date(Math.min(...dates.map(date => date.getTime()))) : null;
+}
+
+/**
+ * Get whether a keyring has expired or one of its signing keys expires soon
+ * Keys and subkeys that already expired are ignored, e.g. after the vendor rotated its key;
+ * the keyring only counts as expired once none of them can sign. Files without keys count as valid.
+ */
+export function getKeyringExpiry(keyring: Keyring, now: Date = new Date()): KeyExpiry {
+    if (keyring.keys.length === 0) return 'valid';
+    if (getValidSigningExpiries(keyring, now).length === 0) return 'expired';
+
+    const next = getFirstExpiry(keyring, now);
+    return next && next.getTime() - now.getTime() < EXPIRY_WARNING_DAYS * DAY_MS ? 'expiring' : 'valid';
+}
+
+/**
+ * Days until a date, rounded down, negative once it has passed
+ */
+export function daysUntil(date: Date, now: Date = new Date()): number {
+    return Math.floor((date.getTime() - now.getTime()) / DAY_MS);
+}
+
+/**
+ * Format a fingerprint in groups of four characters
+ */
+export function formatFingerprint(fingerprint: string): string {
+    return fingerprint.replace(/(.{4})(?=.)/g, '$1 ');
+}
+
+/**
+ * Check whether apt trusts a keyring for sources without Signed-By
+ */
+export function isTrustedByDefault(path: string): boolean {
+    return path === '/etc/apt/trusted.gpg' || path.startsWith('/etc/apt/trusted.gpg.d/');
+}
+
+/**
+ * Get the sources verified with a keyring
+ * Sources without Signed-By are verified with the default trusted keyrings.
+ */
+export function getSourcesUsingKeyring(path: string, sources: ConfiguredSource[]): ConfiguredSource[] {
+    return sources.filter(source => source.signedBy
+        ? source.signedBy.split(/[\s,]+/).includes(path)
+        : isTrustedByDefault(path));
+}
+
+/**
+ * Get the keyrings a source is verified with
+ */
+export function getKeyringsForSource(source: ConfiguredSource, keyrings: Keyring[]): Keyring[] {
+    return keyrings.filter(keyring => getSourcesUsingKeyring(keyring.path, [source]).length > 0);
+}
+
+/**
+ * Get the sources a PackageKit repository was created from
+ * PackageKit repository IDs and descriptions contain the URI of the source.
+ */
+export function getSourcesForRepository(repo: RepositoryInfo, sources: ConfiguredSource[]): ConfiguredSource[] {
+    const text = `${repo.id} ${repo.description}`;
+    return sources.filter(source => source.uris.some(uri => text.includes(uri.replace(/\/+$/, ''))));
+}
+
+/**
+ * Get the keyrings of a repository that are expired or expire soon
+ * Each keyring is checked on its own: a source also verified with a valid
+ * keyring still stops working with the keys that expire.
+ */
+export function getExpiringKeyrings(
+    repo: RepositoryInfo,
+    sources: ConfiguredSource[],
+    keyrings: Keyring[],
+    now: Date = new Date()
+): Keyring[] {
+    const used = new Set(getSourcesForRepository(repo, sources).flatMap(source => getKeyringsForSource(source, keyrings)));
+    return [...used].filter(keyring => getKeyringExpiry(keyring, now) !== 'valid');
+}
@@ -0,0 +1,225 @@
+import { describe, it, expect } from 'vitest';
+import {
+    describePinPriority,
+    formatPin,
+    formatPreferences,
+    getPinnedPackageNames,
+    getPreferencesPath,
+    getUnparsedBlocks,
+    parsePin,
+    parsePolicy,
+    parsePreferences,
+    pinAppliesToPackage,
+    validatePinPriority,
+    validatePinValue,
+} from './apt-preferences';
+
+const PREFERENCES = `# Keep the kernel from backports
+Explanation: Newer kernel for our hardware
+Package: linux-image-* firmware-*
+Pin: release a=bookworm-backports
+Pin-Priority: 990
+
+Package: *
+Pin: origin "apt.example.com"
+Pin-Priority: 100
+
+Package: broken
+Pin: version 1.0*
+`;
+
+const POLICY = `nginx:
+  Installed: 1.22.1-9
+  Candidate: 1.24.0-1~bpo12+1
+  Version table:
+     1.24.0-1~bpo12+1 990
+        100 http://deb.debian.org/debian bookworm-backports/main amd64 Packages
+ *** 1.22.1-9 500
+        500 http://deb.debian.org/debian bookworm/main amd64 Packages
+        100 /var/lib/dpkg/status
+libc6:i386:
+  Installed: (none)
+  Candidate: 2.36-9
+  Version table:
+     2.36-9 500
+        500 http://deb.debian.org/debian bookworm/main i386 Packages
+`;
+
+describe('getPreferencesPath', () => {
+    it('builds a .pref path in preferences.d', () => {
+        expect(getPreferencesPath('backports')).toBe('/etc/apt/preferences.d/backports.pref');
+    });
+});
+
+describe('parsePreferences', () => {
+    it('parses stanzas with explanations and comments', () => {
+        const pins = parsePreferences(PREFERENCES);
+        expect(pins).toHaveLength(2);
+        expect(pins[0]).toEqual({
+            packages: 'linux-image-* firmware-*',
+            pin: 'release a=bookworm-backports',
+            priority: 990,
+            explanation: ['Newer kernel for our hardware'],
+            comments: ['# Keep the kernel from backports'],
+        });
+        expect(pins[1].pin).toBe('origin "apt.example.com"');
+    });
+
+    it('skips stanzas without a priority', () => {
+        expect(parsePreferences(PREFERENCES).map(pin => pin.packages)).not.toContain('broken');
+    });
+
+    it('joins continuation lines', () => {
+        const pins = parsePreferences('Package: a\n b\nPin: version 1\nPin-Priority: -1\n');
+        expect(pins[0].packages).toBe('a b');
+        expect(pins[0].priority).toBe(-1);
+    });
+
+    it('returns empty array for empty files', () => {
+        expect(parsePreferences('')).toEqual([]);
+    });
+});
+
+describe('getUnparsedBlocks', () => {
+    it('returns comment-only blocks and stanzas the parser skips', () => {
+        expect(getUnparsedBlocks('# Managed by hand\n\n' + PREFERENCES)).toEqual([
+            '# Managed by hand',
+            'Package: broken\nPin: version 1.0*',
+        ]);
+    });
+});
+
+describe('formatPreferences', () => {
+    it('round-trips parsed stanzas', () => {
+        const pins = parsePreferences(PREFERENCES);
+        expect(parsePreferences(formatPreferences(pins))).toEqual(pins);
+    });
+
+    it('separates stanzas with blank lines', () => {
+        const text = formatPreferences([
+            { packages: 'a', pin: 'version 1', priority: 1001, explanation: [], comments: [] },
+            { packages: 'b', pin: 'version 2', priority: -1, explanation: [], comments: [] },
+        ]);
+        expect(text).toBe(
+            'Package: a\nPin: version 1\nPin-Priority: 1001\n\n' +
+            'Package: b\nPin: version 2\nPin-Priority: -1\n'
+        );
+    });
+
+    it('writes unparsed blocks back unchanged', () => {
+        const text = '# Managed by hand\n\n' + PREFERENCES;
+        const rewritten = formatPreferences(parsePreferences(text).slice(1), getUnparsedBlocks(text));
+        expect(getUnparsedBlocks(rewritten)).toEqual(getUnparsedBlocks(text));
+        expect(parsePreferences(rewritten).map(pin => pin.packages)).toEqual(['*']);
+    });
+});
+
+describe('parsePin and formatPin', () => {
+    it('splits the kind from the selector', () => {
+        expect(parsePin('release a=bookworm-backports')).toEqual({ kind: 'release', value: 'a=bookworm-backports' });
+        expect(parsePin('version 1.2*')).toEqual({ kind: 'version', value: '1.2*' });
+    });
+
+    it('unquotes origins', () => {
+        expect(parsePin('origin "apt.example.com"')).toEqual({ kind: 'origin', value: 'apt.example.com' });
+    });
+
+    it('returns null for unknown pins', () => {
+        expect(parsePin('label foo')).toBeNull();
+    });
+
+    it('quotes origins when formatting', () => {
+        expect(formatPin('origin', 'apt.example.com')).toBe('origin "apt.example.com"');
+        expect(formatPin('release', 'n=bookworm')).toBe('release n=bookworm');
+    });
+});
+
+describe('validatePinValue', () => {
+    it('accepts valid selectors', () => {
+        expect(validatePinValue('release', 'o=Debian,n=bookworm')).toBeNull();
+        expect(validatePinValue('origin', 'apt.example.com')).toBeNull();
+        expect(validatePinValue('version', '1.2.*')).toBeNull();
+    });
+
+    it('rejects invalid selectors', () => {
+        expect(validatePinValue('release', '')).not.toBeNull();
+        expect(validatePinValue('release', 'bookworm')).not.toBeNull();
+        expect(validatePinValue('origin', 'apt example')).not.toBeNull();
+        expect(validatePinValue('version', '1 2')).not.toBeNull();
+    });
+});
+
+describe('validatePinPriority', () => {
+    it('accepts whole numbers', () => {
+        expect(validatePinPriority('990')).toBeNull();
+        expect(validatePinPriority('-1')).toBeNull();
+    });
+
+    it('rejects other text', () => {
+        expect(validatePinPriority('')).not.toBeNull();
+        expect(validatePinPriority('1.5')).not.toBeNull();
+        expect(validatePinPriority('high')).not.toBeNull();
+    });
+});
+
+describe('describePinPriority', () => {
+    it('follows the apt_preferences ranges', () => {
+        expect(describePinPriority(-1)).toBe('Never installed');
+        expect(describePinPriority(100)).toContain('default release');
+        expect(describePinPriority(990)).toContain('not from the target release');
+        expect(describePinPriority(1001)).toContain('downgrade');
+    });
+});
+
+describe('pinAppliesToPackage', () => {
+    it('matches names and globs', () => {
+        expect(pinAppliesToPackage('nginx', 'nginx')).toBe(true);
+        expect(pinAppliesToPackage('nginx', 'nginx-common')).toBe(false);
+        expect(pinAppliesToPackage('linux-image-* firmware-*', 'firmware-iwlwifi')).toBe(true);
+        expect(pinAppliesToPackage('*', 'anything')).toBe(true);
+        expect(pinAppliesToPackage('lib?', 'libc')).toBe(true);
+    });
+
+    it('treats dots and plus signs literally', () => {
+        expect(pinAppliesToPackage('g++', 'g++')).toBe(true);
+        expect(pinAppliesToPackage('python3.11', 'python3x11')).toBe(false);
+    });
+
+    it('matches regular expressions', () => {
+        expect(pinAppliesToPackage('/^php8\\.[0-9]-/', 'php8.2-cli')).toBe(true);
+        expect(pinAppliesToPackage('/^php8\\.[0-9]-/', 'php7.4-cli')).toBe(false);
+        expect(pinAppliesToPackage('/[/', 'anything')).toBe(false);
+    });
+});
+
+describe('getPinnedPackageNames', () => {
+    it('returns literal names only', () => {
+        expect(getPinnedPackageNames('nginx linux-image-* /^php/ g++')).toEqual(['nginx', 'g++']);
+    });
+});
+
+describe('parsePolicy', () => {
+    it('parses installed and candidate versions', () => {
+        const [nginx, libc] = parsePolicy(POLICY);
+        expect(nginx.name).toBe('nginx');
+        expect(nginx.installed).toBe('1.22.1-9');
+        expect(nginx.candidate).toBe('1.24.0-1~bpo12+1');
+        expect(libc.name).toBe('libc6:i386');
+        expect(libc.installed).toBeNull();
+    });
+
+    it('parses the version table with sources', () => {
+        const [nginx] = parsePolicy(POLICY);
+        expect(nginx.versions).toHaveLength(2);
+        expect(nginx.versions[0]).toMatchObject({ version: '1.24.0-1~bpo12+1', priority: 990, installed: false });
+        expect(nginx.versions[1].installed).toBe(true);
+        expect(nginx.versions[1].sources).toEqual([
+            { priority: 500, source: 'http://deb.debian.org/debian bookworm/main amd64 Packages' },
+            { priority: 100, source: '/var/lib/dpkg/status' },
+        ]);
+    });
+
+    it('returns empty array for empty output', () => {
+        expect(parsePolicy('')).toEqual([]);
+    });
+});
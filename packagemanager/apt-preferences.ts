@@ -0,0 +1,230 @@
+/*
+ * apt preferences - pin stanzas of /etc/apt/preferences.d and `apt-cache policy` output
+ */
+
+import { AptPin, PackagePolicy, PinKind } from './types';
+
+export const PREFERENCES_DIR = '/etc/apt/preferences.d';
+
+export const PIN_KINDS: Record<PinKind, { name: string; placeholder: string }> = {
+    release: { name: 'Release', placeholder: 'a=bookworm-backports' },
+    origin: { name: 'Origin', placeholder: 'apt.example.com' },
+    version: { name: 'Version', placeholder: '1.2.*' },
+};
+
+/**
+ * Path of a preferences file for a name
+ */
+export function getPreferencesPath(name: string): string {
+    return `${PREFERENCES_DIR}/${name}.pref`;
+}
+
+function parseStanza(block: string): AptPin | null {
+    const fields = new Map<string, string[]>();
+    const comments: string[] = [];
+    let lastField: string | null = null;
+
+    for (const line of block.split('\n')) {
+        if (line.startsWith('#')) {
+            comments.push(line);
+            continue;
+        }
+        // Indented lines continue the previous field
+        if (/^\s/.test(line) && lastField) {
+            const values = fields.get(lastField) || [];
+            values[values.length - 1] += ' ' + line.trim();
+            continue;
+        }
+
+        const match = line.match(/^([\w-]+):\s*(.*)$/);
+        if (!match) continue;
+
+        lastField = match[1].toLowerCase();
+        fields.set(lastField, [...(fields.get(lastField) || []), match[2].trim()]);
+    }
+
+    const packages = fields.get('package')?.[0];
+    const pin = fields.get('pin')?.[0];
+    const priority = Number(fields.get('pin-priority')?.[0]);
+    if (!packages || !pin || !Number.isInteger(priority)) return null;
+
+    return { packages, pin, priority, explanation: fields.get('explanation') || [], comments };
+}
+
+function splitBlocks(text: string): string[] {
+    return text.split(/\n\s*\n/).map(block => block.replace(/^\n+|\s+$/g, '')).filter(block => block);
+}
+
+/**
+ * Parse an apt preferences file into pin stanzas
+ * Stanzas without Package, Pin or a numeric Pin-Priority are skipped, like apt does.
+ */
+export function parsePreferences(text: string): AptPin[] {
+    return splitBlocks(text).map(parseStanza).filter((pin): pin is AptPin => pin !== null);
+}
+
+/**
+ * Blocks of an apt preferences file that are no pin stanza, such as a header comment or a broken stanza
+ * They are written back as they are so editing pins loses nothing.
+ */
+export function getUnparsedBlocks(text: string): string[] {
+    return splitBlocks(text).filter(block => !parseStanza(block));
+}
+
+/**
+ * Format pin stanzas as an apt preferences file
+ * Unparsed blocks come first, unchanged.
+ */
+export function formatPreferences(pins: AptPin[], unparsed: string[] = []): string {
+    return [
+        ...unparsed,
+        ...pins.map(pin => [
+            ...pin.comments,
+            ...pin.explanation.map(line => `Explanation: ${line}`),
+            `Package: ${pin.packages}`,
+            `Pin: ${pin.pin}`,
+            `Pin-Priority: ${pin.priority}`,
+        ].join('\n')),
+    ].map(block => block + '\n').join('\n');
+}
+
+/**
+ * Split a Pin field into what it selects by and the selector
+ * e.g. "release a=bookworm-backports" -> { kind: 'release', value: 'a=bookworm-backports' }
+ */
+export function parsePin(pin: string): { kind: PinKind; value: string } | null {
+    const match = pin.trim().match(/^(release|origin|version)\s+(.+)$/);
+    if (!match) return null;
+
+    const value = match[2].trim();
+    // apt quotes origins, e.g. origin "apt.example.com"
+    return { kind: match[1] as PinKind, value: value.replace(/^"(.*)"$/, '$1') };
+}
+
+/**
+ * Build a Pin field from what it selects by and the selector
+ */
+export function formatPin(kind: PinKind, value: string): string {
+    return kind === 'origin' ? `origin "${value}"` : `${kind} ${value}`;
+}
+
+/**
+ * Validate a pin selector
+ * Returns an error message, or null if it is valid.
+ */
+export function validatePinValue(kind: PinKind, value: string): string | null {
+    if (!value) {
+        return `${PIN_KINDS[kind].name} is required`;
+    }
+    if (kind === 'origin' && /\s|"/.test(value)) {
+        return 'Enter a host name without spaces or quotes';
+    }
+    if (kind === 'release' && !/^([a-z]=[^,\s]+)(,[a-z]=[^,\s]+)*$/.test(value)) {
+        return 'Enter conditions like a=bookworm-backports or o=Debian,n=bookworm';
+    }
+    if (kind === 'version' && /\s/.test(value)) {
+        return 'Enter a single version, "*" matches any characters';
+    }
+    return null;
+}
+
+/**
+ * Validate a pin priority
+ * Returns an error message, or null if it is valid.
+ */
+export function validatePinPriority(text: string): string | null {
+    if (!/^-?\d+$/.test(text.trim())) {
+        return 'Enter a whole number, e.g. 990 to prefer or -1 to never install';
+    }
+    return null;
+}
+
+/**
+ * Describe the effect of a pin priority, following apt_preferences(5)
+ */
+export function describePinPriority(priority: number): string {
+    if (priority < 0) return 'Never installed';
+    if (priority === 0) return 'Undefined behavior';
+    if (priority < 100) return 'Only installed if no other version is available';
+    if (priority < 500) return 'Installed if no version of the default release is newer';
+    if (priority < 990) return 'Installed if no version of the target release is newer';
+    if (priority < 1000) return 'Installed even if not from the target release';
+    return 'Installed even if it is a downgrade';
+}
+
+/**
+ * Check whether a Package field applies to a package name
+ * The field lists names, glob patterns and /regular expressions/.
+ */
+export function pinAppliesToPackage(packages: string, name: string): boolean {
+    return packages.split(/\s+/).filter(entry => entry).some(entry => {
+        if (entry.length > 2 && entry.startsWith('/') && entry.endsWith('/')) {
+            try {
+                return new RegExp(entry.slice(1, -1)).test(name);
+            } catch {
+                return false;
+            }
+        }
+        const pattern = entry.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+        return new RegExp(`^${pattern}$`).test(name);
+    });
+}
+
+/**
+ * Package names listed literally in a Package field, without patterns
+ */
+export function getPinnedPackageNames(packages: string): string[] {
+    return packages.split(/\s+/).filter(entry => entry && !/[*?/]/.test(entry));
+}
+
+/**
+ * Parse `apt-cache policy <package>...` output
+ * Version lines are indented by five characters, "***" marks the installed one;
+ * their sources follow with deeper indentation.
+ */
+export function parsePolicy(text: string): PackagePolicy[] {
+    const policies: PackagePolicy[] = [];
+    let current: PackagePolicy | null = null;
+
+    for (const line of text.split('\n')) {
+        const header = line.match(/^(\S+):$/);
+        if (header) {
+            current = { name: header[1], installed: null, candidate: null, versions: [] };
+            policies.push(current);
+            continue;
+        }
+        if (!current) continue;
+
+        const field = line.match(/^ {2}(Installed|Candidate): (.+)$/);
+        if (field) {
+            const value = field[2].trim() === '(none)' ? null : field[2].trim();
+            if (field[1] === 'Installed') {
+                current.installed = value;
+            } else {
+                current.candidate = value;
+            }
+            continue;
+        }
+
+        const version = line.match(/^ (\*\*\*| {3}) (\S+) (-?\d+)\s*$/);
+        if (version) {
+            current.versions.push({
+                version: version[2],
+                priority: Number(version[3]),
+                installed: version[1] === '***',
+                sources: [],
+            });
+            continue;
+        }
+
+        const source = line.match(/^ {6,}(-?\d+) (.+)$/);
+        if (source && current.versions.length > 0) {
+            current.versions[current.versions.length - 1].sources.push({
+                priority: Number(source[1]),
+                source: source[2].trim(),
+            });
+        }
+    }
+
+    return policies;
+}
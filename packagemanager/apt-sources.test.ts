@@ -0,0 +1,240 @@
+import { describe, it, expect } from 'vitest';
+import {
+    dearmorKey,
+    formatDeb822Source,
+    getKeyringPath,
+    getRepositoryBaseUri,
+    getSourcePath,
+    groupFetchErrors,
+    isArmoredKey,
+    isSameRepositoryUri,
+    parseDeb822Sources,
+    parseOneLineSources,
+    splitList,
+    validateRepositoryName,
+    validateRepositoryUri,
+    validateSuites,
+} from './apt-sources';
+
+// Armored form of the bytes of "hello"
+const ARMORED_KEY = `-----BEGIN PGP PUBLIC KEY BLOCK-----
+Version: GnuPG v2
+Comment: test key
+
+aGVs
+bG8=
+=AbCd
+-----END PGP PUBLIC KEY BLOCK-----
+`;
+
+describe('splitList', () => {
+    it('splits on spaces and commas', () => {
+        expect(splitList('main contrib,non-free  non-free-firmware')).toEqual([
+            'main', 'contrib', 'non-free', 'non-free-firmware',
+        ]);
+    });
+
+    it('returns empty array for blank text', () => {
+        expect(splitList('  ')).toEqual([]);
+    });
+});
+
+describe('getSourcePath and getKeyringPath', () => {
+    it('builds paths from the repository name', () => {
+        expect(getSourcePath('halos')).toBe('/etc/apt/sources.list.d/halos.sources');
+        expect(getKeyringPath('halos')).toBe('/etc/apt/keyrings/halos.gpg');
+    });
+});
+
+describe('validateRepositoryName', () => {
+    it('accepts file name safe names', () => {
+        expect(validateRepositoryName('halos-stable_1.0')).toBeNull();
+    });
+
+    it('rejects empty names and path characters', () => {
+        expect(validateRepositoryName('')).not.toBeNull();
+        expect(validateRepositoryName('../evil')).not.toBeNull();
+        expect(validateRepositoryName('my repo')).not.toBeNull();
+    });
+});
+
+describe('validateRepositoryUri', () => {
+    it('accepts supported schemes', () => {
+        expect(validateRepositoryUri('https://apt.example.com/debian')).toBeNull();
+        expect(validateRepositoryUri('http://deb.debian.org/debian')).toBeNull();
+        expect(validateRepositoryUri('file:///srv/repo')).toBeNull();
+    });
+
+    it('rejects missing or unknown schemes', () => {
+        expect(validateRepositoryUri('')).not.toBeNull();
+        expect(validateRepositoryUri('apt.example.com')).not.toBeNull();
+        expect(validateRepositoryUri('gopher://example.com')).not.toBeNull();
+    });
+});
+
+describe('validateSuites', () => {
+    it('requires suites and components', () => {
+        expect(validateSuites([], ['main'])).not.toBeNull();
+        expect(validateSuites(['bookworm'], [])).not.toBeNull();
+        expect(validateSuites(['bookworm', 'bookworm-updates'], ['main'])).toBeNull();
+    });
+
+    it('accepts flat repositories without components', () => {
+        expect(validateSuites(['./'], [])).toBeNull();
+        expect(validateSuites(['./'], ['main'])).not.toBeNull();
+        expect(validateSuites(['./', 'bookworm'], [])).not.toBeNull();
+    });
+});
+
+describe('formatDeb822Source', () => {
+    it('formats a signed source', () => {
+        expect(formatDeb822Source({
+            types: ['deb'],
+            uris: ['https://apt.example.com/debian'],
+            suites: ['bookworm'],
+            components: ['main', 'contrib'],
+            signedBy: '/etc/apt/keyrings/example.gpg',
+        })).toBe(
+            'Types: deb\n' +
+            'URIs: https://apt.example.com/debian\n' +
+            'Suites: bookworm\n' +
+            'Components: main contrib\n' +
+            'Signed-By: /etc/apt/keyrings/example.gpg\n'
+        );
+    });
+
+    it('omits components of flat repositories', () => {
+        const text = formatDeb822Source({ types: ['deb'], uris: ['https://example.com/repo'], suites: ['./'], components: [] });
+        expect(text).not.toContain('Components');
+        expect(text).not.toContain('Signed-By');
+    });
+});
+
+describe('isArmoredKey', () => {
+    it('detects armored public keys', () => {
+        expect(isArmoredKey(ARMORED_KEY)).toBe(true);
+        expect(isArmoredKey('-----BEGIN PGP PUBLIC KEY BLOCK-----\nabc')).toBe(false);
+        expect(isArmoredKey('')).toBe(false);
+    });
+});
+
+describe('dearmorKey', () => {
+    it('decodes the armor body and skips headers and checksum', () => {
+        expect(Array.from(dearmorKey(ARMORED_KEY))).toEqual([104, 101, 108, 108, 111]);
+    });
+
+    it('accepts keys without headers and surrounding text', () => {
+        const key = 'Key for example.com:\n-----BEGIN PGP PUBLIC KEY BLOCK-----\n\naGVsbG8=\n-----END PGP PUBLIC KEY BLOCK-----';
+        expect(dearmorKey(key)).toHaveLength(5);
+    });
+
+    it('rejects text that is not an armored key', () => {
+        expect(() => dearmorKey('not a key')).toThrow();
+    });
+
+    it('rejects invalid characters', () => {
+        const key = '-----BEGIN PGP PUBLIC KEY BLOCK-----\n\naGV*sbG8=\n-----END PGP PUBLIC KEY BLOCK-----';
+        expect(() => dearmorKey(key)).toThrow();
+    });
+});
+
+describe('getRepositoryBaseUri', () => {
+    it('strips distribution paths and index files', () => {
+        expect(getRepositoryBaseUri('https://example.com/debian/dists/bookworm/InRelease')).toBe('https://example.com/debian');
+        expect(getRepositoryBaseUri('https://example.com/repo/./Packages.gz')).toBe('https://example.com/repo');
+        expect(getRepositoryBaseUri('https://example.com/debian/')).toBe('https://example.com/debian');
+    });
+});
+
+describe('groupFetchErrors', () => {
+    const output = [
+        'E: Failed to fetch https://apt.example.com/debian/dists/bookworm/InRelease  404  Not Found [IP: 1.2.3.4 443]',
+        'E: The repository \'https://apt.example.com/debian bookworm Release\' does not have a Release file.',
+        'W: GPG error: http://deb.other.org/debian stable InRelease: NO_PUBKEY 0123456789ABCDEF',
+        'Err:5 http://deb.other.org/debian stable InRelease',
+        '  Could not resolve \'deb.other.org\'',
+        'Some unrelated line',
+    ].join('\n');
+
+    it('groups messages by repository', () => {
+        const errors = groupFetchErrors(output);
+        expect([...errors.keys()]).toEqual(['https://apt.example.com/debian', 'http://deb.other.org/debian']);
+        expect(errors.get('https://apt.example.com/debian')).toHaveLength(2);
+    });
+
+    it('strips apt prefixes and attaches continuation lines', () => {
+        const messages = groupFetchErrors(output).get('http://deb.other.org/debian');
+        expect(messages).toEqual([
+            'GPG error: http://deb.other.org/debian stable InRelease: NO_PUBKEY 0123456789ABCDEF',
+            'http://deb.other.org/debian stable InRelease',
+            'Could not resolve \'deb.other.org\'',
+        ]);
+    });
+
+    it('returns empty map for messages without URLs', () => {
+        expect(groupFetchErrors('Transaction failed').size).toBe(0);
+    });
+});
+
+describe('isSameRepositoryUri', () => {
+    it('ignores trailing slashes', () => {
+        expect(isSameRepositoryUri('https://example.com/debian/', 'https://example.com/debian')).toBe(true);
+        expect(isSameRepositoryUri('https://example.com/debian', 'https://example.com/ubuntu')).toBe(false);
+    });
+});
+
+describe('parseDeb822Sources', () => {
+    it('parses stanzas and skips comments', () => {
+        const text = `Types: deb
+# mirror: http://snapshot.debian.org/archive/debian
+URIs: http://deb.debian.org/debian
+Suites: bookworm bookworm-updates
+Components: main
+Signed-By: /usr/share/keyrings/debian-archive-keyring.gpg
+
+Types: deb deb-src
+URIs: https://apt.example.com
+Suites: ./
+`;
+        expect(parseDeb822Sources(text)).toEqual([
+            {
+                types: ['deb'],
+                uris: ['http://deb.debian.org/debian'],
+                suites: ['bookworm', 'bookworm-updates'],
+                components: ['main'],
+                signedBy: '/usr/share/keyrings/debian-archive-keyring.gpg',
+            },
+            { types: ['deb', 'deb-src'], uris: ['https://apt.example.com'], suites: ['./'], components: [] },
+        ]);
+    });
+
+    it('skips disabled stanzas', () => {
+        expect(parseDeb822Sources('Enabled: no\nTypes: deb\nURIs: https://example.com\nSuites: stable\n')).toEqual([]);
+    });
+
+    it('ignores inline keys', () => {
+        const text = 'Types: deb\nURIs: https://example.com\nSuites: stable\nComponents: main\n' +
+            'Signed-By:\n -----BEGIN PGP PUBLIC KEY BLOCK-----\n .\n aGVsbG8=\n -----END PGP PUBLIC KEY BLOCK-----\n';
+        expect(parseDeb822Sources(text)[0].signedBy).toBeUndefined();
+    });
+});
+
+describe('parseOneLineSources', () => {
+    it('parses options and skips comments', () => {
+        const text = `# main archive
+deb http://deb.debian.org/debian bookworm main contrib
+deb [arch=amd64 signed-by=/usr/share/keyrings/nodesource.gpg] https://deb.nodesource.com/node_20.x nodistro main
+# deb-src http://deb.debian.org/debian bookworm main
+`;
+        expect(parseOneLineSources(text)).toEqual([
+            { types: ['deb'], uris: ['http://deb.debian.org/debian'], suites: ['bookworm'], components: ['main', 'contrib'] },
+            {
+                types: ['deb'],
+                uris: ['https://deb.nodesource.com/node_20.x'],
+                suites: ['nodistro'],
+                components: ['main'],
+                signedBy: '/usr/share/keyrings/nodesource.gpg',
+            },
+        ]);
+    });
+});
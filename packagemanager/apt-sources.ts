@@ -0,0 +1,267 @@
+/*
+ * apt sources - deb822 source files, signing keys and repository fetch errors
+ */
+
+import { AptSource } from './types';
+
+export const SOURCES_DIR = '/etc/apt/sources.list.d';
+export const KEYRINGS_DIR = '/etc/apt/keyrings';
+
+const ARMOR_BEGIN = '-----BEGIN PGP PUBLIC KEY BLOCK-----';
+const ARMOR_END = '-----END PGP PUBLIC KEY BLOCK-----';
+
+/**
+ * Split a space or comma separated list, e.g. "main contrib"
+ */
+export function splitList(text: string): string[] {
+    return text.split(/[\s,]+/).filter(item => item.length > 0);
+}
+
+/**
+ * Path of the source file for a repository name
+ */
+export function getSourcePath(name: string): string {
+    return `${SOURCES_DIR}/${name}.sources`;
+}
+
+/**
+ * Path of the keyring for a repository name
+ */
+export function getKeyringPath(name: string): string {
+    return `${KEYRINGS_DIR}/${name}.gpg`;
+}
+
+/**
+ * Validate a repository name, used for the source and keyring file names
+ * Returns an error message, or null if the name is valid.
+ */
+export function validateRepositoryName(name: string): string | null {
+    if (!name) {
+        return 'Name is required';
+    }
+    // apt ignores source files with other characters in their name
+    if (!/^[A-Za-z0-9_.-]+$/.test(name)) {
+        return 'Use only letters, digits, "_", "." and "-"';
+    }
+    return null;
+}
+
+/**
+ * Validate a repository URI
+ * Returns an error message, or null if the URI is valid.
+ */
+export function validateRepositoryUri(uri: string): string | null {
+    if (!uri) {
+        return 'URI is required';
+    }
+    if (!/^(https?|ftp|file|mirror(\+\w+)?):\/\/\S+$/.test(uri)) {
+        return 'Enter a URI like https://example.com/debian';
+    }
+    return null;
+}
+
+/**
+ * Validate suites and components
+ * Flat repositories have a single suite ending in "/" and no components.
+ * Returns an error message, or null if they are valid.
+ */
+export function validateSuites(suites: string[], components: string[]): string | null {
+    if (suites.length === 0) {
+        return 'At least one suite is required';
+    }
+    const flat = suites.filter(suite => suite.endsWith('/'));
+    if (flat.length > 0) {
+        if (suites.length > 1) {
+            return 'A flat repository path ending in "/" must be the only suite';
+        }
+        if (components.length > 0) {
+            return 'Flat repositories have no components';
+        }
+        return null;
+    }
+    if (components.length === 0) {
+        return 'At least one component is required';
+    }
+    return null;
+}
+
+/**
+ * Format an apt source as a deb822 stanza
+ */
+export function formatDeb822Source(source: AptSource): string {
+    const lines = [
+        `Types: ${source.types.join(' ')}`,
+        `URIs: ${source.uris.join(' ')}`,
+        `Suites: ${source.suites.join(' ')}`,
+    ];
+    if (source.components.length > 0) {
+        lines.push(`Components: ${source.components.join(' ')}`);
+    }
+    if (source.signedBy) {
+        lines.push(`Signed-By: ${source.signedBy}`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Check whether text contains an ASCII-armored OpenPGP public key
+ */
+export function isArmoredKey(text: string): boolean {
+    const begin = text.indexOf(ARMOR_BEGIN);
+    return begin >= 0 && text.indexOf(ARMOR_END, begin) > begin;
+}
+
+/**
+ * Convert an ASCII-armored public key to the binary keyring format apt expects
+ * Same as `gpg --dearmor`: the armor body is the base64 encoded key.
+ */
+export function dearmorKey(text: string): Uint8Array {
+    if (!isArmoredKey(text)) {
+        throw new Error('Not an ASCII-armored public key');
+    }
+
+    const armored = text.slice(text.indexOf(ARMOR_BEGIN) + ARMOR_BEGIN.length, text.indexOf(ARMOR_END));
+    const body = armored.split('\n')
+        .map(line => line.trim())
+        // Skip armor headers ("Version: ...") and the CRC24 checksum line ("=abcd")
+        .filter(line => line !== '' && !line.includes(':') && !line.startsWith('='))
+        .join('');
+
+    if (!/^[A-Za-z0-9+/]+={0,2}$/.test(body)) {
+        throw new Error('The key contains invalid characters');
+    }
+
+    const binary = atob(body);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+/**
+ * Get the repository base URI from a URL in an apt message
+ * e.g. "https://example.com/debian/dists/stable/InRelease" -> "https://example.com/debian"
+ */
+export function getRepositoryBaseUri(url: string): string {
+    return url
+        .replace(/\/dists\/.*$/, '')
+        .replace(/\/(\.\/)?(InRelease|Release(\.gpg)?|Packages(\.\w+)?)$/, '')
+        .replace(/\/+$/, '');
+}
+
+/**
+ * Group apt fetch errors by repository base URI
+ * Accepts apt output as found in PackageKit error details, e.g.
+ * "E: Failed to fetch https://example.com/dists/stable/InRelease  404  Not Found"
+ * Indented lines continue the message of the line before them.
+ */
+export function groupFetchErrors(text: string): Map<string, string[]> {
+    const errors = new Map<string, string[]>();
+    let lastUri: string | null = null;
+
+    function add(uri: string, message: string) {
+        const messages = errors.get(uri) || [];
+        if (!messages.includes(message)) {
+            messages.push(message);
+        }
+        errors.set(uri, messages);
+    }
+
+    text.split('\n').forEach(line => {
+        if (!line.trim()) return;
+
+        if (/^\s/.test(line) && lastUri) {
+            add(lastUri, line.trim());
+            return;
+        }
+
+        const url = line.match(/((?:https?|ftp|file|mirror(?:\+\w+)?):\/\/[^\s']+)/);
+        if (!url) return;
+
+        lastUri = getRepositoryBaseUri(url[1]);
+        add(lastUri, line.trim().replace(/^([EW]:|Err:\d+)\s*/, ''));
+    });
+
+    return errors;
+}
+
+/**
+ * Check whether a base URI from groupFetchErrors belongs to a repository URI
+ */
+export function isSameRepositoryUri(a: string, b: string): boolean {
+    return a.replace(/\/+$/, '') === b.replace(/\/+$/, '');
+}
+
+/**
+ * Parse a deb822 source file into its stanzas
+ * Disabled stanzas (Enabled: no) are skipped. Inline keys in Signed-By are not
+ * keyring files, so signedBy is only set for paths and fingerprints.
+ */
+export function parseDeb822Sources(text: string): AptSource[] {
+    const sources: AptSource[] = [];
+
+    for (const block of text.split(/\n\s*\n/)) {
+        const fields = new Map<string, string>();
+        let lastField: string | null = null;
+
+        for (const line of block.split('\n')) {
+            if (line.startsWith('#')) continue;
+
+            // Indented lines continue the previous field
+            if (/^\s/.test(line) && lastField) {
+                fields.set(lastField, `${fields.get(lastField)}\n${line.trim()}`);
+                continue;
+            }
+
+            const match = line.match(/^([\w-]+):\s*(.*)$/);
+            if (!match) continue;
+
+            lastField = match[1].toLowerCase();
+            fields.set(lastField, match[2].trim());
+        }
+
+        const uris = splitList(fields.get('uris') || '');
+        if (uris.length === 0 || fields.get('enabled') === 'no') continue;
+
+        const signedBy = (fields.get('signed-by') || '').trim();
+        sources.push({
+            types: splitList(fields.get('types') || ''),
+            uris,
+            suites: splitList(fields.get('suites') || ''),
+            components: splitList(fields.get('components') || ''),
+            ...(signedBy && !signedBy.includes('-----BEGIN') && { signedBy }),
+        });
+    }
+
+    return sources;
+}
+
+/**
+ * Parse a one-line style source file, e.g. /etc/apt/sources.list
+ * "deb [arch=amd64 signed-by=/usr/share/keyrings/example.gpg] https://example.com stable main"
+ */
+export function parseOneLineSources(text: string): AptSource[] {
+    const sources: AptSource[] = [];
+
+    for (const rawLine of text.split('\n')) {
+        const line = rawLine.replace(/#.*$/, '').trim();
+        const match = line.match(/^(deb|deb-src)\s+(?:\[([^\]]*)\]\s+)?(\S+)\s+(\S+)\s*(.*)$/);
+        if (!match) continue;
+
+        const options = new Map((match[2] || '').trim().split(/\s+/)
+            .map(option => option.split('=') as [string, string])
+            .filter(([key, value]) => key && value !== undefined));
+        const signedBy = options.get('signed-by');
+
+        sources.push({
+            types: [match[1]],
+            uris: [match[3]],
+            suites: [match[4]],
+            components: splitList(match[5]),
+            ...(signedBy && { signedBy }),
+        });
+    }
+
+    return sources;
+}
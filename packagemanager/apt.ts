@@ -0,0 +1,365 @@
+/*
+ * apt and dpkg helpers for what PackageKit does not cover
+ * Files are read and written and commands run through cockpit.spawn/cockpit.file.
+ */
+
+import { CATALOG_DIR, ICON_DIRS, MEDIA_DIRS, parseAppStreamCatalog } from './appstream';
+import { parseAptCacheShow } from './apt-cache';
+import { parseAptStatusLine } from './apt-get';
+import { KEYRING_DIRS, parseKeyringListing } from './apt-keys';
+import { formatPreferences, getUnparsedBlocks, parsePolicy, parsePreferences, PREFERENCES_DIR } from './apt-preferences';
+import { dearmorKey, parseDeb822Sources, parseOneLineSources, SOURCES_DIR } from './apt-sources';
+import { PACKAGE_TAGS_PATH, parsePackageTags, parseVocabulary, VOCABULARY_PATHS } from './debtags';
+import { parseSectionIndex } from './sections';
+import {
+    AppStreamComponent,
+    AptPin,
+    ConfiguredSource,
+    Debtags,
+    DpkgState,
+    Keyring,
+    PackagePolicy,
+    PreferencesFile,
+    ProgressData,
+    SourcePackage,
+} from './types';
+import { parseDpkgStatus, parseInstalledSources, parsePackageNameList } from './utils';
+
+/**
+ * Read a log file together with all of its rotations (log.1, log.2.gz, ...)
+ * Missing files are skipped, compressed rotations are decompressed.
+ */
+export function readRotatedLog(path: string): Promise<string> {
+    // zcat -f passes uncompressed files through unchanged
+    const script = 'for f in "$1" "$1".*; do [ -r "$f" ] && zcat -f "$f" && echo; done; true';
+
+    return cockpit.spawn(['sh', '-c', script, '--', path], { superuser: 'try', err: 'message' });
+}
+
+/**
+ * Read a file, resolving to null if it does not exist
+ */
+export async function readFile(path: string, options: { superuser?: string; binary?: boolean } = {}): Promise<any> {
+    const file = cockpit.file(path, options);
+    try {
+        return await file.read();
+    } finally {
+        file.close();
+    }
+}
+
+/**
+ * Read a binary file from the first directory that has it, resolving to null if none does
+ */
+async function readFirstFile(dirs: string[], path: string): Promise<Uint8Array | null> {
+    for (const dir of dirs) {
+        const data: Uint8Array | null = await readFile(`${dir}/${path}`, { binary: true });
+        if (data !== null) return data;
+    }
+    return null;
+}
+
+/**
+ * Replace the contents of a file as root
+ */
+async function writeFile(path: string, content: string | Uint8Array): Promise<void> {
+    const file = cockpit.file(path, { superuser: 'require', binary: typeof content !== 'string' });
+    try {
+        await file.replace(content);
+    } finally {
+        file.close();
+    }
+}
+
+/**
+ * Add an apt repository: write its keyring, then its deb822 source file
+ * The keyring comes first so apt never sees a source it cannot verify.
+ * Existing files are not overwritten.
+ */
+export async function addRepositoryFiles(
+    sourcePath: string,
+    source: string,
+    keyringPath: string,
+    keyring: Uint8Array
+): Promise<void> {
+    for (const path of [sourcePath, keyringPath]) {
+        if (await readFile(path, { superuser: 'try', binary: true }) !== null) {
+            throw new Error(`${path} already exists`);
+        }
+    }
+
+    await cockpit.spawn(['mkdir', '-p', keyringPath.replace(/\/[^/]+$/, '')], { superuser: 'require', err: 'message' });
+    await writeFile(keyringPath, keyring);
+    await writeFile(sourcePath, source);
+}
+
+/**
+ * Read /etc/apt/preferences and all files in /etc/apt/preferences.d
+ */
+export async function readPreferences(): Promise<PreferencesFile[]> {
+    const script = 'for f in /etc/apt/preferences "$1"/*; do [ -f "$f" ] && echo "$f"; done; true';
+    const output: string = await cockpit.spawn(['sh', '-c', script, '--', PREFERENCES_DIR], { err: 'message' });
+    const paths = output.split('\n').filter(path => path);
+
+    return Promise.all(paths.map(async path => {
+        const text: string = await readFile(path, { superuser: 'try' }) || '';
+        return { path, pins: parsePreferences(text), unparsed: getUnparsedBlocks(text) };
+    }));
+}
+
+/**
+ * Write the pins of a preferences file after its unparsed blocks, deleting the file once nothing is left
+ */
+export async function writePreferences(path: string, pins: AptPin[], unparsed: string[] = []): Promise<void> {
+    if (pins.length === 0 && unparsed.length === 0) {
+        await cockpit.spawn(['rm', '-f', path], { superuser: 'require', err: 'message' });
+        return;
+    }
+    await writeFile(path, formatPreferences(pins, unparsed));
+}
+
+/**
+ * Get installed and candidate versions with their pin priorities
+ */
+export async function getPackagePolicy(names: string[]): Promise<PackagePolicy[]> {
+    if (names.length === 0) return [];
+
+    const output: string = await cockpit.spawn(['apt-cache', 'policy', ...names], { err: 'message' });
+    return parsePolicy(output);
+}
+
+/**
+ * Read the keys of all keyrings apt may verify repositories with
+ * gpg runs with a throwaway home directory so no keyring of root is touched.
+ */
+export async function readKeyrings(): Promise<Keyring[]> {
+    const script = [
+        'command -v gpg >/dev/null || { echo "gpg is not installed" >&2; exit 1; }',
+        'GNUPGHOME=$(mktemp -d) && export GNUPGHOME',
+        'for f in /etc/apt/trusted.gpg; do [ -f "$f" ] && echo "file:$f" && gpg --batch --show-keys --with-colons --fixed-list-mode "$f" 2>/dev/null; done',
+        'for d in "$@"; do for f in "$d"/*; do [ -f "$f" ] || continue; echo "file:$f"; gpg --batch --show-keys --with-colons --fixed-list-mode "$f" 2>/dev/null; done; done',
+        'rm -rf "$GNUPGHOME"',
+        'true',
+    ].join('\n');
+    const output: string = await cockpit.spawn(['sh', '-c', script, '--', ...KEYRING_DIRS], { superuser: 'try', err: 'message' });
+    return parseKeyringListing(output);
+}
+
+/**
+ * Read all apt sources from sources.list and sources.list.d
+ */
+export async function readSources(): Promise<ConfiguredSource[]> {
+    const script = 'for f in /etc/apt/sources.list "$1"/*.list "$1"/*.sources; do [ -f "$f" ] && echo "$f"; done; true';
+    const output: string = await cockpit.spawn(['sh', '-c', script, '--', SOURCES_DIR], { err: 'message' });
+    const paths = output.split('\n').filter(path => path);
+
+    const files = await Promise.all(paths.map(async path => {
+        const text: string = await readFile(path) || '';
+        const sources = path.endsWith('.sources') ? parseDeb822Sources(text) : parseOneLineSources(text);
+        return sources.map(source => ({ ...source, path }));
+    }));
+    return files.flat();
+}
+
+/**
+ * Delete a keyring file
+ */
+export async function removeKeyring(path: string): Promise<void> {
+    await cockpit.spawn(['rm', '-f', path], { superuser: 'require', err: 'message' });
+}
+
+/**
+ * Replace the keys of a keyring with an ASCII-armored key
+ * .asc keyrings keep the armored text, others get the binary form.
+ */
+export async function replaceKeyring(path: string, armoredKey: string): Promise<void> {
+    await writeFile(path, path.endsWith('.asc') ? armoredKey : dearmorKey(armoredKey));
+}
+
+/**
+ * Get the packages held back with apt-mark hold
+ */
+export async function getHeldPackages(): Promise<Set<string>> {
+    const output: string = await cockpit.spawn(['apt-mark', 'showhold'], { err: 'message' });
+    return new Set(parsePackageNameList(output));
+}
+
+/**
+ * Hold packages at their installed version, or release them again
+ */
+export async function setPackagesHeld(names: string[], held: boolean): Promise<void> {
+    await cockpit.spawn(['apt-mark', held ? 'hold' : 'unhold', ...names], { superuser: 'require', err: 'message' });
+}
+
+/**
+ * Get the packages apt installed automatically as dependencies
+ */
+export async function getAutoInstalledPackages(): Promise<Set<string>> {
+    const output: string = await cockpit.spawn(['apt-mark', 'showauto'], { err: 'message' });
+    return new Set(parsePackageNameList(output));
+}
+
+/**
+ * Mark packages as automatically or manually installed
+ * Automatically installed packages are removed by autoremove once nothing depends on them.
+ */
+export async function setPackagesAuto(names: string[], auto: boolean): Promise<void> {
+    await cockpit.spawn(['apt-mark', auto ? 'auto' : 'manual', ...names], { superuser: 'require', err: 'message' });
+}
+
+/**
+ * Get the native architecture and the foreign architectures dpkg installs packages for
+ */
+export async function getArchitectures(): Promise<{ native: string; foreign: string[] }> {
+    const [native, foreign]: string[] = await Promise.all([
+        cockpit.spawn(['dpkg', '--print-architecture'], { err: 'message' }),
+        cockpit.spawn(['dpkg', '--print-foreign-architectures'], { err: 'message' }),
+    ]);
+    return { native: native.trim(), foreign: parsePackageNameList(foreign) };
+}
+
+/**
+ * Add or remove a foreign architecture
+ * The package cache has to be refreshed afterwards; dpkg refuses to remove
+ * an architecture while packages of it are still installed.
+ */
+export async function setArchitectureEnabled(arch: string, enabled: boolean): Promise<void> {
+    await cockpit.spawn(
+        ['dpkg', enabled ? '--add-architecture' : '--remove-architecture', arch],
+        { superuser: 'require', err: 'message' }
+    );
+}
+
+/**
+ * Get the dpkg state of every package dpkg knows, keyed by name:arch
+ */
+export async function getDpkgStatus(): Promise<Map<string, DpkgState>> {
+    const output: string = await cockpit.spawn(
+        ['dpkg-query', '-W', '-f', '${Package}:${Architecture} ${db:Status-Abbrev}\n'],
+        { err: 'message' }
+    );
+    return parseDpkgStatus(output);
+}
+
+/**
+ * Let apt simulate installing packages and return its report
+ * Arguments are package names, name=version, or name- for removal. The output
+ * is returned even when apt fails, as its problem report is what callers need.
+ */
+export function simulateAptInstall(args: string[]): Promise<string> {
+    const script = 'LC_ALL=C apt-get install --simulate --quiet "$@" 2>&1; true';
+    return cockpit.spawn(['sh', '-c', script, '--', ...args], { superuser: 'try', err: 'message' });
+}
+
+/**
+ * Install packages with apt-get, for options PackageKit cannot pass
+ * Arguments are as for simulateAptInstall. Progress comes from apt's status lines.
+ */
+export async function aptInstall(args: string[], progressCb?: (progress: ProgressData) => void): Promise<void> {
+    let pending = '';
+    await cockpit.spawn(
+        ['apt-get', 'install', '--yes', '--quiet', '-o', 'APT::Status-Fd=1', '-o', 'Dpkg::Options::=--force-confold', ...args],
+        { superuser: 'require', err: 'message', environ: ['LC_ALL=C', 'DEBIAN_FRONTEND=noninteractive'] }
+    ).stream(data => {
+        const lines = (pending + data).split('\n');
+        pending = lines.pop() ?? '';
+        for (const line of lines) {
+            const percentage = parseAptStatusLine(line);
+            if (percentage !== null) {
+                progressCb?.({ waiting: false, percentage, cancel: null });
+            }
+        }
+    });
+}
+
+/**
+ * Get the apt-cache show stanza of the candidate version of a package
+ */
+export async function showPackage(name: string): Promise<Record<string, string> | undefined> {
+    const output: string = await cockpit.spawn(['apt-cache', 'show', '--no-all-versions', name], { err: 'message' });
+    return parseAptCacheShow(output)[0];
+}
+
+/**
+ * Get every installed binary package grouped by the source package it was built from
+ */
+export async function getInstalledSources(): Promise<SourcePackage[]> {
+    const output: string = await cockpit.spawn(
+        ['dpkg-query', '-W', '-f', '${db:Status-Abbrev}\t${Package}\t${Architecture}\t${Version}\t${source:Package}\t${source:Version}\n'],
+        { err: 'message' }
+    );
+    return parseInstalledSources(output);
+}
+
+/**
+ * Get the names of the packages apt offers in each Debian section
+ * Only the Package and Section fields of apt-cache dumpavail are transferred.
+ */
+export async function getSectionIndex(): Promise<Map<string, string[]>> {
+    const output: string = await cockpit.spawn(
+        ['sh', '-c', "apt-cache dumpavail | grep -E '^(Package|Section):' || true"],
+        { err: 'message' }
+    );
+    return parseSectionIndex(output);
+}
+
+/**
+ * Read the debtags database and vocabulary
+ * Both are empty when the debtags package is not installed.
+ */
+export async function readDebtags(): Promise<Debtags> {
+    const tags: string = await readFile(PACKAGE_TAGS_PATH) || '';
+
+    let vocabulary = '';
+    for (const path of VOCABULARY_PATHS) {
+        vocabulary = await readFile(path) || '';
+        if (vocabulary) break;
+    }
+
+    return { tags: parsePackageTags(tags), vocabulary: parseVocabulary(vocabulary) };
+}
+
+/**
+ * Read the Debian changelog of an installed package
+ * Native packages ship it as changelog.gz; resolves to an empty string when none is installed.
+ */
+export async function readChangelog(name: string): Promise<string> {
+    const script = 'd=/usr/share/doc/"$1"; for f in "$d"/changelog.Debian.gz "$d"/changelog.gz; do [ -r "$f" ] && exec zcat "$f"; done; true';
+    return cockpit.spawn(['sh', '-c', script, '--', name], { err: 'message' });
+}
+
+/**
+ * Read the AppStream catalogs apt downloaded
+ * Translated lines are dropped before the catalog is transferred, which leaves a fraction of its size.
+ */
+export async function readAppStreamCatalog(): Promise<AppStreamComponent[]> {
+    const script = 'for f in "$1"/*.xml.gz "$1"/*.xml; do [ -r "$f" ] && zcat -f "$f" | grep -v "xml:lang="; done; true';
+    const output: string = await cockpit.spawn(['sh', '-c', script, '--', CATALOG_DIR], { err: 'message' });
+    return parseAppStreamCatalog(output);
+}
+
+/**
+ * Read a cached AppStream icon, resolving to null if no icon directory has it
+ */
+export function readAppStreamIcon(path: string): Promise<Uint8Array | null> {
+    return readFirstFile(ICON_DIRS, path);
+}
+
+/**
+ * Read a local copy of AppStream screenshot media, resolving to null if no media directory has it
+ */
+export function readAppStreamMedia(path: string): Promise<Uint8Array | null> {
+    return readFirstFile(MEDIA_DIRS, path);
+}
+
+/**
+ * Check whether apt installs recommended packages by default (APT::Install-Recommends)
+ */
+export async function getInstallRecommends(): Promise<boolean> {
+    const output: string = await cockpit.spawn(
+        ['apt-config', 'shell', 'VALUE', 'APT::Install-Recommends/b'],
+        { err: 'message' }
+    );
+    // Unset means apt's default, which is to install them
+    return !output.includes("'false'");
+}
@@ -0,0 +1,184 @@
+/*
+ * Architectures - dpkg multiarch settings and the foreign architecture hook
+ */
+
+import {
+    Button,
+    Flex,
+    FlexItem,
+    FormSelect,
+    FormSelectOption,
+    Label,
+    Spinner,
+    Title,
+} from '@patternfly/react-core';
+import { ExclamationCircleIcon } from '@patternfly/react-icons';
+import {
+    Table,
+    Tbody,
+    Td,
+    Th,
+    Thead,
+    Tr,
+} from '@patternfly/react-table';
+import React, { useEffect, useState } from 'react';
+
+import { getArchitectures, setArchitectureEnabled } from './apt';
+import * as PK from './packagekit';
+import { useTransactionManager } from './transaction-manager';
+import { getErrorMessage } from './utils';
+
+// Debian release architectures that can be added as foreign architectures
+const DEBIAN_ARCHITECTURES = ['amd64', 'arm64', 'armel', 'armhf', 'i386', 'mips64el', 'ppc64el', 'riscv64', 's390x'];
+
+/**
+ * Native and foreign dpkg architectures, loaded when the component mounts
+ * native stays empty until loaded or when dpkg cannot be asked.
+ */
+export function useArchitectures() {
+    const [native, setNative] = useState('');
+    const [foreign, setForeign] = useState<string[]>([]);
+    const [loaded, setLoaded] = useState(false);
+
+    useEffect(() => {
+        reload();
+    }, []);
+
+    async function reload() {
+        try {
+            const architectures = await getArchitectures();
+            setNative(architectures.native);
+            setForeign(architectures.foreign);
+        } catch (err) {
+            console.warn('Failed to load architectures:', err);
+        } finally {
+            setLoaded(true);
+        }
+    }
+
+    return { native, foreign, loaded, reload };
+}
+
+export const ArchitecturesView: React.FC = () => {
+    const { native, foreign, loaded, reload } = useArchitectures();
+    const [error, setError] = useState<string | null>(null);
+    const [operatingOn, setOperatingOn] = useState<string | null>(null);
+    const [newArch, setNewArch] = useState('');
+    const { runTransaction, isBusy } = useTransactionManager();
+
+    const addable = DEBIAN_ARCHITECTURES.filter(arch => arch !== native && !foreign.includes(arch));
+
+    async function handleChange(arch: string, enabled: boolean) {
+        setOperatingOn(arch);
+        setError(null);
+
+        try {
+            await setArchitectureEnabled(arch, enabled);
+            await reload();
+            setNewArch('');
+            // Package lists for the architecture are only downloaded by a refresh
+            await runTransaction('Refreshing package cache', progressCb => PK.refreshCache(progressCb));
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setOperatingOn(null);
+        }
+    }
+
+    if (!loaded) {
+        return (
+            <div className="pf-v6-u-text-align-center pf-v6-u-p-xl">
+                <Spinner size="xl" aria-label="Loading architectures" />
+                <p className="pf-v6-u-mt-md" aria-live="polite">Loading architectures...</p>
+            </div>
+        );
+    }
+
+    return (
+        <Flex className="architectures" direction={{ default: 'column' }} spaceItems={{ default: 'spaceItemsMd' }}>
+            <FlexItem>
+                <Title headingLevel="h1" size="2xl" className="pf-v6-u-mb-sm">Architectures</Title>
+                <p>Foreign architectures let dpkg install packages built for other architectures, such as armhf packages on arm64</p>
+            </FlexItem>
+
+            {error && (
+                <FlexItem>
+                    <div className="pf-v6-c-alert pf-m-danger" role="alert" aria-live="assertive">
+                        <div className="pf-v6-c-alert__icon">
+                            <ExclamationCircleIcon />
+                        </div>
+                        <p className="pf-v6-c-alert__title">{error}</p>
+                    </div>
+                </FlexItem>
+            )}
+
+            <FlexItem>
+                <Table aria-label="dpkg architectures" variant="compact">
+                    <Thead>
+                        <Tr>
+                            <Th width={40}>Architecture</Th>
+                            <Th width={40}>Type</Th>
+                            <Th width={20} modifier="fitContent"></Th>
+                        </Tr>
+                    </Thead>
+                    <Tbody>
+                        {native && (
+                            <Tr>
+                                <Td>{native}</Td>
+                                <Td><Label isCompact color="blue">Native</Label></Td>
+                                <Td modifier="fitContent"></Td>
+                            </Tr>
+                        )}
+                        {foreign.map(arch => (
+                            <Tr key={arch}>
+                                <Td>{arch}</Td>
+                                <Td><Label isCompact>Foreign</Label></Td>
+                                <Td modifier="fitContent">
+                                    <Button
+                                        variant="danger"
+                                        size="sm"
+                                        onClick={() => handleChange(arch, false)}
+                                        isDisabled={operatingOn !== null || isBusy}
+                                        isLoading={operatingOn === arch}
+                                        aria-label={`Remove architecture ${arch}`}
+                                    >
+                                        Remove
+                                    </Button>
+                                </Td>
+                            </Tr>
+                        ))}
+                    </Tbody>
+                </Table>
+            </FlexItem>
+
+            {addable.length > 0 && (
+                <FlexItem>
+                    <Flex alignItems={{ default: 'alignItemsCenter' }}>
+                        <FlexItem>
+                            <FormSelect
+                                value={newArch}
+                                onChange={(_, value) => setNewArch(value)}
+                                aria-label="Architecture to add"
+                            >
+                                <FormSelectOption value="" label="Choose an architecture" isPlaceholder />
+                                {addable.map(arch => (
+                                    <FormSelectOption key={arch} value={arch} label={arch} />
+                                ))}
+                            </FormSelect>
+                        </FlexItem>
+                        <FlexItem>
+                            <Button
+                                variant="secondary"
+                                onClick={() => handleChange(newArch, true)}
+                                isDisabled={!newArch || operatingOn !== null || isBusy}
+                                isLoading={operatingOn === newArch && newArch !== ''}
+                            >
+                                Add architecture
+                            </Button>
+                        </FlexItem>
+                    </Flex>
+                </FlexItem>
+            )}
+        </Flex>
+    );
+};
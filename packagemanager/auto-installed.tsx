@@ -0,0 +1,136 @@
+/*
+ * Automatically installed packages - apt-mark auto/manual status and why a package is installed
+ */
+
+import { Button, Label, Spinner } from '@patternfly/react-core';
+import React, { useEffect, useState } from 'react';
+
+import { getAutoInstalledPackages, setPackagesAuto } from './apt';
+import { findInstallChains } from './dependencies';
+import * as PK from './packagekit';
+import { getPackageName, isPackageAutoInstalled } from './utils';
+
+/**
+ * Automatically installed packages, loaded when the component mounts
+ * setAuto runs apt-mark and reloads the list; it rejects if apt-mark fails.
+ */
+export function useAutoInstalledPackages() {
+    const [auto, setAutoPackages] = useState<Set<string>>(new Set());
+    const [loaded, setLoaded] = useState(false);
+
+    useEffect(() => {
+        reload();
+    }, []);
+
+    async function reload() {
+        try {
+            setAutoPackages(await getAutoInstalledPackages());
+        } catch (err) {
+            console.warn('Failed to load automatically installed packages:', err);
+        } finally {
+            setLoaded(true);
+        }
+    }
+
+    async function setAuto(names: string[], isAuto: boolean) {
+        await setPackagesAuto(names, isAuto);
+        await reload();
+    }
+
+    return { auto, loaded, reload, setAuto };
+}
+
+interface InstallReasonLabelProps {
+    isAuto: boolean;
+    isCompact?: boolean;
+}
+
+// Label telling whether an installed package was installed manually or as a dependency
+export const InstallReasonLabel: React.FC<InstallReasonLabelProps> = ({ isAuto, isCompact = false }) => (
+    <Label
+        isCompact={isCompact}
+        color={isAuto ? 'grey' : 'blue'}
+        className="pf-v6-u-ml-sm"
+        title={isAuto ? 'Installed as a dependency, autoremove removes it once nothing needs it' : 'Installed on request'}
+    >
+        {isAuto ? 'Automatic' : 'Manual'}
+    </Label>
+);
+
+interface InstallChainsProps {
+    packageId: string;
+    auto: Set<string>;
+    onPackageSelect: (packageId: string) => void;
+}
+
+// Dependency chains from an automatically installed package to the manually installed packages that need it
+export const InstallChains: React.FC<InstallChainsProps> = ({ packageId, auto, onPackageSelect }) => {
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [chains, setChains] = useState<string[][]>([]);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        async function load() {
+            setLoading(true);
+            setError(null);
+
+            try {
+                const found = await findInstallChains(
+                    packageId,
+                    PK.getReverseDependencies,
+                    id => !isPackageAutoInstalled({ name: getPackageName(id), arch: id.split(';')[2] || '' }, auto)
+                );
+                if (!cancelled) setChains(found);
+            } catch (err) {
+                console.warn('Failed to find why package is installed:', err);
+                if (!cancelled) setError('Could not walk the reverse dependencies');
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        }
+
+        load();
+        return () => {
+            cancelled = true;
+        };
+    }, [packageId, auto]);
+
+    if (loading) {
+        return <Spinner size="md" aria-label="Finding why the package is installed" />;
+    }
+
+    if (error) {
+        return <p>{error}</p>;
+    }
+
+    if (chains.length === 0) {
+        return (
+            <p>
+                No manually installed package requires it anymore; apt autoremove will remove it
+            </p>
+        );
+    }
+
+    return (
+        <ul className="pf-v6-c-list">
+            {chains.map(chain => (
+                <li key={chain.join(' ')}>
+                    {chain.map((id, index) => (
+                        <React.Fragment key={id}>
+                            {index > 0 && ' ← '}
+                            {index === 0 ? (
+                                getPackageName(id)
+                            ) : (
+                                <Button variant="link" isInline onClick={() => onPackageSelect(id)}>
+                                    {getPackageName(id)}
+                                </Button>
+                            )}
+                        </React.Fragment>
+                    ))}
+                </li>
+            ))}
+        </ul>
+    );
+};
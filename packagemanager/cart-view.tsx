@@ -0,0 +1,253 @@
+/*
+ * CartView component - Review and apply queued package changes as one batch
+ */
+
+import {
+    Badge,
+    Button,
+    EmptyState,
+    EmptyStateBody,
+    Flex,
+    FlexItem,
+    Title,
+} from '@patternfly/react-core';
+import { CartArrowDownIcon, CartPlusIcon, ExclamationCircleIcon, TrashIcon } from '@patternfly/react-icons';
+import {
+    Table,
+    Tbody,
+    Td,
+    Th,
+    Thead,
+    Tr,
+} from '@patternfly/react-table';
+import React, { useState } from 'react';
+
+import { useArchitectures } from './architectures';
+import * as PK from './packagekit';
+import { useCart } from './packagemanager';
+import { sequenceTransactions, TransactionTask, useTransactionManager } from './transaction-manager';
+import { useTransactionPreview } from './transaction-preview';
+import { PackageInfo, TransactionPreview } from './types';
+import { EMPTY_PREVIEW, getAptPackageName, getErrorMessage, mergePreviews } from './utils';
+
+interface CartToggleButtonProps {
+    pkg: PackageInfo;
+    isDisabled?: boolean;
+    showLabel?: boolean;     // Render as a labelled button instead of an icon
+}
+
+/**
+ * Button that queues installing (or removing, if installed) a package in the cart
+ */
+export const CartToggleButton: React.FC<CartToggleButtonProps> = ({ pkg, isDisabled = false, showLabel = false }) => {
+    const { items, addItem, removeItem } = useCart();
+    const inCart = items.some(item => item.packageId === pkg.id);
+    const label = inCart
+        ? `Remove ${pkg.name} from cart`
+        : pkg.installed ? `Queue removal of ${pkg.name}` : `Add ${pkg.name} to cart`;
+
+    function handleClick() {
+        if (inCart) {
+            removeItem(pkg.id);
+        } else {
+            addItem({ packageId: pkg.id, name: pkg.name, arch: pkg.arch, action: pkg.installed ? 'remove' : 'install' });
+        }
+    }
+
+    if (showLabel) {
+        return (
+            <Button
+                variant="secondary"
+                onClick={handleClick}
+                isDisabled={isDisabled}
+                icon={inCart ? <CartArrowDownIcon /> : <CartPlusIcon />}
+            >
+                {inCart ? 'Remove from cart' : pkg.installed ? 'Queue removal' : 'Add to cart'}
+            </Button>
+        );
+    }
+
+    return (
+        <Button
+            variant="plain"
+            size="sm"
+            onClick={handleClick}
+            isDisabled={isDisabled}
+            aria-label={label}
+            title={label}
+            icon={inCart ? <CartArrowDownIcon /> : <CartPlusIcon />}
+        />
+    );
+};
+
+interface CartViewProps {
+    onPackageSelect: (packageId: string) => void;
+}
+
+export const CartView: React.FC<CartViewProps> = ({ onPackageSelect }) => {
+    const { items, removeItem, clear } = useCart();
+    const { runTransaction, isBusy } = useTransactionManager();
+    const { confirmTransaction, previewModal } = useTransactionPreview();
+    const { native: nativeArch } = useArchitectures();
+    const [error, setError] = useState<string | null>(null);
+    const [operating, setOperating] = useState(false);
+
+    const installIds = items.filter(item => item.action === 'install').map(item => item.packageId);
+    const removeIds = items.filter(item => item.action === 'remove').map(item => item.packageId);
+
+    async function simulateCart(): Promise<TransactionPreview> {
+        const installPreview = installIds.length > 0 ? await PK.simulateInstall(installIds) : EMPTY_PREVIEW;
+        const removePreview = removeIds.length > 0 ? await PK.simulateRemove(removeIds) : EMPTY_PREVIEW;
+        return mergePreviews(installPreview, removePreview);
+    }
+
+    async function handleApply() {
+        const confirmed = await confirmTransaction({
+            title: `Apply ${items.length} changes`,
+            confirmLabel: 'Apply changes',
+            isDestructive: removeIds.length > 0,
+            // PackageKit cannot simulate the removals on top of the installs
+            ...(installIds.length > 0 && removeIds.length > 0 && {
+                warning: 'Installs and removals are simulated separately. The removals run after the installs ' +
+                    'and may also remove newly installed packages that depend on the removed ones.',
+            }),
+            simulate: simulateCart,
+            aptArgs: items.map(item => {
+                const name = getAptPackageName(item, nativeArch);
+                return item.action === 'install' ? name : `${name}-`;
+            }),
+        });
+        if (!confirmed) return;
+
+        setOperating(true);
+        setError(null);
+
+        // Installs and removals run as two transactions, reported as one progress bar
+        const steps: TransactionTask<void>[] = [];
+        if (installIds.length > 0) {
+            steps.push(progressCb => PK.installPackages(installIds, progressCb));
+        }
+        if (removeIds.length > 0) {
+            steps.push(progressCb => PK.removePackages(removeIds, progressCb));
+        }
+
+        try {
+            await runTransaction(`Applying ${items.length} changes`, sequenceTransactions(steps));
+
+            clear();
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setOperating(false);
+        }
+    }
+
+    return (
+        <Flex className="cart-view" direction={{ default: 'column' }} spaceItems={{ default: 'spaceItemsMd' }}>
+            {previewModal}
+            <FlexItem>
+                <Flex justifyContent={{ default: 'justifyContentSpaceBetween' }} alignItems={{ default: 'alignItemsCenter' }}>
+                    <FlexItem flex={{ default: 'flex_1' }}>
+                        <Title headingLevel="h1" size="2xl" className="pf-v6-u-mb-sm">Cart</Title>
+                        <p>Queued changes are applied together in one batch</p>
+                    </FlexItem>
+                    <FlexItem>
+                        <Button
+                            variant="secondary"
+                            onClick={clear}
+                            isDisabled={operating || items.length === 0}
+                        >
+                            Clear cart
+                        </Button>
+                    </FlexItem>
+                    <FlexItem>
+                        <Button
+                            variant="primary"
+                            onClick={handleApply}
+                            isDisabled={operating || isBusy || items.length === 0}
+                            isLoading={operating}
+                            aria-label={`Apply ${items.length} queued changes`}
+                        >
+                            Apply changes
+                        </Button>
+                    </FlexItem>
+                </Flex>
+            </FlexItem>
+
+            {error && (
+                <FlexItem>
+                    <div className="pf-v6-c-alert pf-m-danger" role="alert" aria-live="assertive">
+                        <div className="pf-v6-c-alert__icon">
+                            <ExclamationCircleIcon />
+                        </div>
+                        <p className="pf-v6-c-alert__title">{error}</p>
+                    </div>
+                </FlexItem>
+            )}
+
+            <FlexItem>
+                {items.length === 0 ? (
+                    <EmptyState>
+                        <Title headingLevel="h2" size="lg">Cart is empty</Title>
+                        <EmptyStateBody>
+                            Add packages to install or remove from any package list
+                        </EmptyStateBody>
+                    </EmptyState>
+                ) : (
+                    <div>
+                        <div style={{ marginBottom: '0.5rem' }}>
+                            <Badge>{installIds.length} to install</Badge>{' '}
+                            <Badge>{removeIds.length} to remove</Badge>
+                        </div>
+                        <Table aria-label="Queued changes" variant="compact">
+                            <Thead>
+                                <Tr>
+                                    <Th width={35}>Name</Th>
+                                    <Th width={25}>Version</Th>
+                                    <Th width={15}>Architecture</Th>
+                                    <Th width={15}>Action</Th>
+                                    <Th width={10} modifier="fitContent"></Th>
+                                </Tr>
+                            </Thead>
+                            <Tbody>
+                                {items.map(item => {
+                                    const pkg = PK.parsePackageId(item.packageId);
+                                    return (
+                                        <Tr key={item.packageId}>
+                                            <Td>
+                                                <Button
+                                                    variant="link"
+                                                    isInline
+                                                    onClick={() => onPackageSelect(item.packageId)}
+                                                >
+                                                    {item.name}
+                                                </Button>
+                                            </Td>
+                                            <Td modifier="truncate">{pkg.version}</Td>
+                                            <Td>{item.arch}</Td>
+                                            <Td>
+                                                <Badge isRead={item.action === 'install'}>
+                                                    {item.action === 'install' ? 'Install' : 'Remove'}
+                                                </Badge>
+                                            </Td>
+                                            <Td modifier="fitContent">
+                                                <Button
+                                                    variant="plain"
+                                                    size="sm"
+                                                    onClick={() => removeItem(item.packageId)}
+                                                    isDisabled={operating}
+                                                    aria-label={`Remove ${item.name} from cart`}
+                                                    icon={<TrashIcon />}
+                                                />
+                                            </Td>
+                                        </Tr>
+                                    );
+                                })}
+                            </Tbody>
+                        </Table>
+                    </div>
+                )}
+            </FlexItem>
+        </Flex>
+    );
+};
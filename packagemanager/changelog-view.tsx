@@ -0,0 +1,164 @@
+/*
+ * PackageChangelog component - Debian changelog of an installed package
+ */
+
+import {
+    Button,
+    EmptyState,
+    EmptyStateBody,
+    Flex,
+    FlexItem,
+    Label,
+    Spinner,
+    Title,
+} from '@patternfly/react-core';
+import { ExclamationCircleIcon } from '@patternfly/react-icons';
+import React, { useEffect, useState } from 'react';
+
+import { readChangelog } from './apt';
+import { isPendingEntry, mergeChangelogs, parseDebianChangelog } from './changelog';
+import * as PK from './packagekit';
+import { ChangelogEntry } from './types';
+import { getErrorMessage } from './utils';
+
+// Entries shown before "Show all"
+const INITIAL_ENTRIES = 20;
+
+const URGENCY_COLORS: Record<string, 'red' | 'orange' | 'grey'> = {
+    emergency: 'red',
+    critical: 'red',
+    high: 'red',
+    medium: 'orange',
+};
+
+interface PackageChangelogProps {
+    name: string;
+    installedVersion: string;
+    candidateVersion?: string;
+    updateId?: string;       // Pending update, whose changelog adds the entries not installed yet
+}
+
+export const PackageChangelog: React.FC<PackageChangelogProps> = ({ name, installedVersion, candidateVersion, updateId }) => {
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [entries, setEntries] = useState<ChangelogEntry[]>([]);
+    const [showAll, setShowAll] = useState(false);
+
+    useEffect(() => {
+        loadChangelog();
+    }, [name, installedVersion, updateId]);
+
+    async function loadChangelog() {
+        setLoading(true);
+        setError(null);
+
+        try {
+            const installed = parseDebianChangelog(await readChangelog(name));
+
+            // The installed changelog ends at the installed version; PackageKit fetches the update's
+            let pending: ChangelogEntry[] = [];
+            if (updateId) {
+                try {
+                    const details = await PK.getUpdateDetail([updateId]);
+                    pending = parseDebianChangelog(details[0]?.changelog ?? '');
+                } catch (err) {
+                    console.warn('Failed to load update changelog:', err);
+                }
+            }
+
+            setEntries(mergeChangelogs(pending, installed));
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    if (loading) {
+        return (
+            <div className="pf-v6-u-text-align-center pf-v6-u-p-xl">
+                <Spinner size="lg" aria-label="Loading changelog" />
+                <p className="pf-v6-u-mt-md" aria-live="polite">Loading changelog...</p>
+            </div>
+        );
+    }
+
+    if (error) {
+        return (
+            <div className="pf-v6-c-alert pf-m-danger" role="alert" aria-live="assertive">
+                <div className="pf-v6-c-alert__icon">
+                    <ExclamationCircleIcon />
+                </div>
+                <p className="pf-v6-c-alert__title">{error}</p>
+            </div>
+        );
+    }
+
+    if (entries.length === 0) {
+        return (
+            <EmptyState>
+                <Title headingLevel="h2" size="lg">No changelog available</Title>
+                <EmptyStateBody>
+                    {name} does not install a Debian changelog in /usr/share/doc/{name}
+                </EmptyStateBody>
+            </EmptyState>
+        );
+    }
+
+    const pendingCount = entries.filter(entry => isPendingEntry(entry, installedVersion, candidateVersion)).length;
+    const shown = showAll ? entries : entries.slice(0, Math.max(INITIAL_ENTRIES, pendingCount + 1));
+
+    return (
+        <Flex className="package-changelog" direction={{ default: 'column' }} spaceItems={{ default: 'spaceItemsMd' }}>
+            {pendingCount > 0 && (
+                <FlexItem>
+                    <p>
+                        {pendingCount} {pendingCount === 1 ? 'entry is' : 'entries are'} new in {candidateVersion}, which is not installed yet
+                    </p>
+                </FlexItem>
+            )}
+            {shown.map(entry => {
+                const isPending = isPendingEntry(entry, installedVersion, candidateVersion);
+                return (
+                    <FlexItem
+                        key={entry.version}
+                        className={isPending ? 'changelog-entry changelog-entry-pending' : 'changelog-entry'}
+                    >
+                        <Flex alignItems={{ default: 'alignItemsCenter' }} spaceItems={{ default: 'spaceItemsSm' }}>
+                            <FlexItem>
+                                <strong>{entry.version}</strong>
+                            </FlexItem>
+                            <FlexItem>{entry.distributions.join(' ')}</FlexItem>
+                            <FlexItem>
+                                <Label isCompact color={URGENCY_COLORS[entry.urgency] ?? 'grey'}>
+                                    Urgency: {entry.urgency}
+                                </Label>
+                            </FlexItem>
+                            {isPending && (
+                                <FlexItem>
+                                    <Label isCompact color="blue">Update</Label>
+                                </FlexItem>
+                            )}
+                            {entry.version === installedVersion && (
+                                <FlexItem>
+                                    <Label isCompact color="green">Installed</Label>
+                                </FlexItem>
+                            )}
+                        </Flex>
+                        <pre className="pf-v6-u-font-size-sm pf-v6-u-my-sm" style={{ whiteSpace: 'pre-wrap' }}>{entry.changes}</pre>
+                        <p className="pf-v6-u-color-200 pf-v6-u-font-size-sm">
+                            {entry.maintainer} &middot; {entry.date}
+                        </p>
+                    </FlexItem>
+                );
+            })}
+            {shown.length < entries.length && (
+                <FlexItem>
+                    <Button variant="link" isInline onClick={() => setShowAll(true)}>
+                        Show all {entries.length} entries
+                    </Button>
+                </FlexItem>
+            )}
+        </Flex>
+    );
+};
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { isPendingEntry, mergeChangelogs, parseDebianChangelog } from './changelog';
+import { ChangelogEntry } from './types';
+
+const CHANGELOG = `openssl (3.0.11-1~deb12u2) bookworm-security; urgency=medium
+
+  * Non-maintainer upload by the Security Team.
+  * Fix CVE-2023-5678:
+    - Excessive time spent in DH check / generation.
+
+ -- Salvatore Bonaccorso <carnil@debian.org>  Sat, 02 Dec 2023 10:15:02 +0100
+
+openssl (3.0.11-1~deb12u1) bookworm; urgency=low
+
+  * Import 3.0.11.
+
+ -- Sebastian Andrzej Siewior <sebastian@breakpoint.cc>  Mon, 25 Sep 2023 21:48:03 +0200
+
+openssl (3.0.9-1) unstable experimental; urgency=HIGH
+
+  [ Kurt Roeckx ]
+  * New upstream version.
+
+ -- Kurt Roeckx <kurt@roeckx.be>  Wed, 31 May 2023 23:58:08 +0200
+`;
+
+function entry(version: string): ChangelogEntry {
+    return {
+        package: 'openssl',
+        version,
+        distributions: ['unstable'],
+        urgency: 'low',
+        changes: '',
+        maintainer: 'Maintainer <maintainer@example.org>',
+        date: 'Mon, 01 Jan 2024 00:00:00 +0000',
+    };
+}
+
+describe('parseDebianChangelog', () => {
+    const entries = parseDebianChangelog(CHANGELOG);
+
+    it('reads every entry in order', () => {
+        expect(entries.map(e => e.version)).toEqual(['3.0.11-1~deb12u2', '3.0.11-1~deb12u1', '3.0.9-1']);
+    });
+
+    it('reads the header fields', () => {
+        expect(entries[0].package).toBe('openssl');
+        expect(entries[0].distributions).toEqual(['bookworm-security']);
+        expect(entries[0].urgency).toBe('medium');
+        expect(entries[2].distributions).toEqual(['unstable', 'experimental']);
+        expect(entries[2].urgency).toBe('high');
+    });
+
+    it('reads the trailer fields', () => {
+        expect(entries[0].maintainer).toBe('Salvatore Bonaccorso <carnil@debian.org>');
+        expect(entries[0].date).toBe('Sat, 02 Dec 2023 10:15:02 +0100');
+    });
+
+    it('keeps the changes without their indentation', () => {
+        expect(entries[0].changes).toBe([
+            '* Non-maintainer upload by the Security Team.',
+            '* Fix CVE-2023-5678:',
+            '  - Excessive time spent in DH check / generation.',
+        ].join('\n'));
+        expect(entries[2].changes).toBe('[ Kurt Roeckx ]\n* New upstream version.');
+    });
+
+    it('defaults the urgency to low', () => {
+        const [withoutUrgency] = parseDebianChangelog('foo (1.0) unstable;\n\n  * Initial release.\n\n -- A <a@b>  Mon, 01 Jan 2024 00:00:00 +0000\n');
+        expect(withoutUrgency.urgency).toBe('low');
+    });
+
+    it('stops at old free-form entries and editor settings', () => {
+        const text = `${CHANGELOG}
+Old Changelog:
+openssl (0.9) unstable; urgency=low
+
+  * Ancient.
+
+ -- Someone <s@example.org>  Mon, 01 Jan 1999 00:00:00 +0000
+`;
+        expect(parseDebianChangelog(text)).toHaveLength(3);
+    });
+
+    it('drops an entry without trailer', () => {
+        expect(parseDebianChangelog('foo (1.0) unstable; urgency=low\n\n  * Unfinished.\n')).toEqual([]);
+    });
+
+    it('returns nothing for other formats', () => {
+        expect(parseDebianChangelog('2023-05-01  Upstream release 1.0\n')).toEqual([]);
+    });
+});
+
+describe('mergeChangelogs', () => {
+    it('sorts by version, newest first', () => {
+        const merged = mergeChangelogs([entry('1.2-1')], [entry('1.1-1'), entry('1.0-1')]);
+        expect(merged.map(e => e.version)).toEqual(['1.2-1', '1.1-1', '1.0-1']);
+    });
+
+    it('lists a version once, from the first changelog', () => {
+        const update = { ...entry('1.1-1'), changes: 'from update' };
+        const merged = mergeChangelogs([entry('1.2-1'), update], [entry('1.1-1')]);
+        expect(merged.map(e => e.version)).toEqual(['1.2-1', '1.1-1']);
+        expect(merged[1].changes).toBe('from update');
+    });
+});
+
+describe('isPendingEntry', () => {
+    it('matches versions after the installed one up to the candidate', () => {
+        expect(isPendingEntry(entry('1.1-1'), '1.0-1', '1.2-1')).toBe(true);
+        expect(isPendingEntry(entry('1.2-1'), '1.0-1', '1.2-1')).toBe(true);
+    });
+
+    it('excludes the installed and older versions', () => {
+        expect(isPendingEntry(entry('1.0-1'), '1.0-1', '1.2-1')).toBe(false);
+        expect(isPendingEntry(entry('0.9-1'), '1.0-1', '1.2-1')).toBe(false);
+    });
+
+    it('excludes versions after the candidate', () => {
+        expect(isPendingEntry(entry('1.3-1'), '1.0-1', '1.2-1')).toBe(false);
+    });
+
+    it('matches nothing without a candidate', () => {
+        expect(isPendingEntry(entry('1.1-1'), '1.0-1', undefined)).toBe(false);
+    });
+});
@@ -0,0 +1,81 @@
+/*
+ * changelog - Debian changelog parsing and the entries a pending update brings
+ */
+
+import { ChangelogEntry } from './types';
+import { compareDebianVersions } from './utils';
+
+// "package (version) distribution(s); urgency=medium"
+const HEADER_PATTERN = /^(\S+) \(([^)]+)\) ([^;]*);(.*)$/;
+
+// " -- Maintainer Name <email>  date"
+const TRAILER_PATTERN = /^ -- (.+?)\s{2}(\S.*)$/;
+
+// Emacs settings or older entries in free form end the parseable part of a changelog
+const END_PATTERN = /^(Local variables:|Old Changelog:)/i;
+
+/**
+ * Parse a changelog in debian/changelog format into entries, newest first as written
+ */
+export function parseDebianChangelog(text: string): ChangelogEntry[] {
+    const entries: ChangelogEntry[] = [];
+    let current: { header: RegExpMatchArray; lines: string[] } | null = null;
+
+    for (const line of text.split('\n')) {
+        if (!current) {
+            if (END_PATTERN.test(line)) break;
+
+            const header = line.match(HEADER_PATTERN);
+            if (header) {
+                current = { header, lines: [] };
+            }
+            continue;
+        }
+
+        const trailer = line.match(TRAILER_PATTERN);
+        if (!trailer) {
+            current.lines.push(line.replace(/^ {2}/, ''));
+            continue;
+        }
+
+        const [, name, version, distributions, keywords] = current.header;
+        const urgency = keywords.match(/urgency=([\w-]+)/i);
+        entries.push({
+            package: name,
+            version,
+            distributions: distributions.trim().split(/\s+/).filter(Boolean),
+            urgency: urgency ? urgency[1].toLowerCase() : 'low',
+            changes: current.lines.join('\n').replace(/^\s*\n/, '').trimEnd(),
+            maintainer: trailer[1].trim(),
+            date: trailer[2].trim(),
+        });
+        current = null;
+    }
+
+    return entries;
+}
+
+/**
+ * Combine changelogs, e.g. the installed one with an update's, newest version first
+ * A version found in several changelogs is listed once.
+ */
+export function mergeChangelogs(...changelogs: ChangelogEntry[][]): ChangelogEntry[] {
+    const byVersion = new Map<string, ChangelogEntry>();
+
+    for (const entry of changelogs.flat()) {
+        if (!byVersion.has(entry.version)) {
+            byVersion.set(entry.version, entry);
+        }
+    }
+
+    return [...byVersion.values()].sort((a, b) => compareDebianVersions(b.version, a.version));
+}
+
+/**
+ * Check whether an entry is newer than the installed version and part of the candidate
+ */
+export function isPendingEntry(entry: ChangelogEntry, installed: string, candidate: string | undefined): boolean {
+    return !!candidate &&
+        compareDebianVersions(entry.version, installed) > 0 &&
+        compareDebianVersions(entry.version, candidate) <= 0;
+}
@@ -0,0 +1,177 @@
+/*
+ * ConflictExplanation component - Explain why dependencies could not be resolved and suggest fixes
+ */
+
+import { Button, Spinner } from '@patternfly/react-core';
+import React, { useEffect, useState } from 'react';
+
+import { getHeldPackages, simulateAptInstall } from './apt';
+import {
+    describeDependencyProblem,
+    describeFix,
+    getTargetName,
+    mergeDependencyProblems,
+    parseDependencyProblems,
+    suggestFixes,
+} from './conflicts';
+import * as PK from './packagekit';
+import { ConflictFix, DependencyProblem, PackageInfo, RepositoryInfo } from './types';
+
+// Cockpit is loaded as a global via script tag
+declare const cockpit: any;
+
+// Problems explained at most; later ones are usually consequences of the first
+const MAX_PROBLEMS = 10;
+
+const FIX_LINKS: Record<ConflictFix['kind'], string> = {
+    'install-version': 'Open package',
+    'remove': 'Open package',
+    'unhold': 'Held packages',
+    'enable-repository': 'Repositories',
+    'add-repository': 'Repositories',
+    'choose-provider': 'Choose provider',
+};
+
+function getFixPath(fix: ConflictFix): string[] | null {
+    switch (fix.kind) {
+        case 'install-version':
+        case 'remove':
+            return fix.packageId ? ['package', fix.packageId] : null;
+        case 'unhold':
+            return ['held'];
+        case 'enable-repository':
+        case 'add-repository':
+            return ['repositories'];
+        case 'choose-provider':
+            return ['provides', fix.package];
+    }
+}
+
+interface ExplainedProblem {
+    problem: DependencyProblem;
+    fixes: ConflictFix[];
+}
+
+interface ConflictExplanationProps {
+    detail: string;          // PackageKit error detail
+    aptArgs?: string[];      // Arguments for simulating the same change with apt-get install
+    onNavigate?: () => void; // Called before following a fix link, e.g. to close a dialog
+}
+
+export const ConflictExplanation: React.FC<ConflictExplanationProps> = ({ detail, aptArgs, onNavigate }) => {
+    const [loading, setLoading] = useState(true);
+    const [aptOutput, setAptOutput] = useState('');
+    const [explained, setExplained] = useState<ExplainedProblem[]>([]);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        async function load() {
+            setLoading(true);
+
+            const output = aptArgs && aptArgs.length > 0
+                ? await simulateAptInstall(aptArgs).catch(err => {
+                    console.warn('Failed to simulate with apt:', err);
+                    return '';
+                })
+                : '';
+            const problems = mergeDependencyProblems(
+                parseDependencyProblems(output),
+                parseDependencyProblems(detail)
+            ).slice(0, MAX_PROBLEMS);
+
+            const [held, repositories] = await Promise.all([
+                getHeldPackages().catch(() => new Set<string>()),
+                PK.getRepoList().catch((): RepositoryInfo[] => []),
+            ]);
+
+            // PackageKit runs one transaction at a time, so look the targets up in turn
+            const versions = new Map<string, PackageInfo[]>();
+            const providers = new Map<string, PackageInfo[]>();
+            for (const problem of problems) {
+                const name = getTargetName(problem);
+                if (!versions.has(name)) {
+                    versions.set(name, await PK.getAvailableVersions(name).catch((): PackageInfo[] => []));
+                }
+                if (problem.reason === 'virtual' && !providers.has(name)) {
+                    providers.set(name, await PK.whatProvides(name).catch((): PackageInfo[] => []));
+                }
+            }
+
+            if (!cancelled) {
+                setAptOutput(output);
+                setExplained(problems.map(problem => ({
+                    problem,
+                    fixes: suggestFixes(problem, {
+                        versions: versions.get(getTargetName(problem)) ?? [],
+                        held,
+                        repositories,
+                        providers: providers.get(getTargetName(problem)) ?? [],
+                    }),
+                })));
+                setLoading(false);
+            }
+        }
+
+        load();
+        return () => {
+            cancelled = true;
+        };
+    }, [detail, aptArgs?.join(' ')]);
+
+    function handleFix(path: string[]) {
+        onNavigate?.();
+        cockpit.location.go(path);
+    }
+
+    if (loading) {
+        return (
+            <div className="pf-v6-u-mt-md">
+                <Spinner size="md" aria-label="Analyzing dependency problems" /> Analyzing dependency problems...
+            </div>
+        );
+    }
+
+    return (
+        <div className="pf-v6-u-mt-md">
+            {explained.length === 0 ? (
+                <p>Neither PackageKit nor apt named the dependency that blocks this change.</p>
+            ) : (
+                <>
+                    <strong>Why the dependencies cannot be resolved:</strong>
+                    <ul className="pf-v6-c-list">
+                        {explained.map(({ problem, fixes }) => (
+                            <li key={`${problem.package} ${problem.relation} ${problem.alternatives}`}>
+                                {describeDependencyProblem(problem)}
+                                {fixes.length > 0 && (
+                                    <ul className="pf-v6-c-list">
+                                        {fixes.map(fix => {
+                                            const path = getFixPath(fix);
+                                            return (
+                                                <li key={`${fix.kind} ${fix.package}`}>
+                                                    {describeFix(fix)}
+                                                    {path && (
+                                                        <>
+                                                            {' '}
+                                                            <Button variant="link" isInline onClick={() => handleFix(path)}>
+                                                                {FIX_LINKS[fix.kind]}
+                                                            </Button>
+                                                        </>
+                                                    )}
+                                                </li>
+                                            );
+                                        })}
+                                    </ul>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+            <details className="pf-v6-u-mt-sm">
+                <summary>Show PackageKit and apt output</summary>
+                <pre className="pf-v6-u-font-size-sm">{[detail, aptOutput].filter(Boolean).join('\n\n')}</pre>
+            </details>
+        </div>
+    );
+};
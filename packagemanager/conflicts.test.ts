@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import {
+    describeDependencyProblem,
+    describeFix,
+    getTargetName,
+    mergeDependencyProblems,
+    parseDependencyProblems,
+    satisfiesConstraint,
+    suggestFixes,
+} from './conflicts';
+import { DependencyProblem, PackageInfo, RepositoryInfo } from './types';
+
+const APT_OUTPUT = `NOTE: This is only a simulation!
+Reading package lists...
+Building dependency tree...
+Some packages could not be installed. This may mean that you have
+requested an impossible situation.
+
+The following information may help to resolve the situation:
+
+The following packages have unmet dependencies:
+ signalk-server : Depends: nodejs (>= 20.0) but 18.19.0+dfsg-6 is to be installed
+                  Depends: libfoo1 but it is not installable
+                  Breaks: opencpn (< 5.8) but 5.6.2-1 is to be installed
+ grafana : PreDepends: adduser | passwd but it is not going to be installed
+           Conflicts: influxdb
+E: Unable to correct problems, you have held broken packages.
+`;
+
+const PK_DETAIL = `The following packages have unmet dependencies:
+signalk-server: Depends: nodejs (>= 20.0) but 18.19.0+dfsg-6 is to be installed
+mailx: Depends: mail-transport-agent but it is a virtual package`;
+
+function makeVersion(name: string, version: string, installed = false): PackageInfo {
+    return {
+        id: `${name};${version};amd64;${installed ? 'installed:debian' : 'debian'}`,
+        name,
+        version,
+        arch: 'amd64',
+        repo: installed ? 'installed:debian' : 'debian',
+        summary: '',
+        installed,
+    };
+}
+
+describe('parseDependencyProblems', () => {
+    const problems = parseDependencyProblems(APT_OUTPUT);
+
+    it('parses every unmet relation', () => {
+        expect(problems).toHaveLength(5);
+        expect(problems.map(problem => problem.package)).toEqual([
+            'signalk-server', 'signalk-server', 'signalk-server', 'grafana', 'grafana',
+        ]);
+    });
+
+    it('parses version constraints and the version apt would use', () => {
+        expect(problems[0]).toEqual({
+            package: 'signalk-server',
+            relation: 'Depends',
+            target: 'nodejs',
+            constraint: { operator: '>=', version: '20.0' },
+            alternatives: 'nodejs (>= 20.0)',
+            reason: 'wrong-version',
+            version: '18.19.0+dfsg-6',
+        });
+    });
+
+    it('recognizes reasons', () => {
+        expect(problems[1].reason).toBe('not-installable');
+        expect(problems[2]).toMatchObject({ relation: 'Breaks', reason: 'conflict', version: '5.6.2-1' });
+        expect(problems[3]).toMatchObject({
+            relation: 'Pre-Depends',
+            target: 'adduser',
+            alternatives: 'adduser | passwd',
+            reason: 'not-going-to-be-installed',
+        });
+        expect(problems[4]).toMatchObject({ relation: 'Conflicts', target: 'influxdb', reason: 'conflict' });
+        expect(problems[4].version).toBeUndefined();
+    });
+
+    it('parses the PackageKit error detail', () => {
+        const fromPk = parseDependencyProblems(PK_DETAIL);
+        expect(fromPk).toHaveLength(2);
+        expect(fromPk[0].target).toBe('nodejs');
+        expect(fromPk[1]).toMatchObject({ package: 'mailx', reason: 'virtual' });
+    });
+
+    it('returns empty array for output without problems', () => {
+        expect(parseDependencyProblems('E: Unable to locate package foo')).toEqual([]);
+        expect(parseDependencyProblems('')).toEqual([]);
+    });
+});
+
+describe('mergeDependencyProblems', () => {
+    it('drops problems reported twice', () => {
+        const merged = mergeDependencyProblems(parseDependencyProblems(APT_OUTPUT), parseDependencyProblems(PK_DETAIL));
+        expect(merged).toHaveLength(6);
+        expect(merged[5].package).toBe('mailx');
+    });
+});
+
+describe('satisfiesConstraint', () => {
+    it('compares with every operator', () => {
+        expect(satisfiesConstraint('2.0', { operator: '>=', version: '2.0' })).toBe(true);
+        expect(satisfiesConstraint('2.0', { operator: '>>', version: '2.0' })).toBe(false);
+        expect(satisfiesConstraint('1.9', { operator: '<<', version: '2.0' })).toBe(true);
+        expect(satisfiesConstraint('2.0~rc1', { operator: '<=', version: '2.0' })).toBe(true);
+        expect(satisfiesConstraint('2.0-1', { operator: '=', version: '2.0-1' })).toBe(true);
+        expect(satisfiesConstraint('2.0', { operator: '!=', version: '2.0' })).toBe(false);
+    });
+});
+
+describe('getTargetName', () => {
+    it('strips architecture qualifiers', () => {
+        const [problem] = parseDependencyProblems(' foo : Depends: python3:any (>= 3.11) but 3.9 is to be installed');
+        expect(getTargetName(problem)).toBe('python3');
+    });
+});
+
+describe('suggestFixes', () => {
+    const [nodeProblem, libProblem, breaksProblem] = parseDependencyProblems(APT_OUTPUT);
+    const none = { versions: [], held: new Set<string>(), repositories: [] as RepositoryInfo[] };
+
+    it('suggests a version that satisfies the constraint', () => {
+        const versions = [makeVersion('nodejs', '18.19.0+dfsg-6', true), makeVersion('nodejs', '20.11.0-1'), makeVersion('nodejs', '22.1.0-1')];
+        expect(suggestFixes(nodeProblem, { ...none, versions })).toEqual([
+            { kind: 'install-version', package: 'nodejs', packageId: versions[2].id, version: '22.1.0-1' },
+        ]);
+    });
+
+    it('suggests repositories when no version fits', () => {
+        const repositories = [
+            { id: 'a', description: 'Bookworm backports', enabled: false },
+            { id: 'b', description: 'Main', enabled: true },
+        ];
+        expect(suggestFixes(libProblem, { ...none, repositories })).toEqual([
+            { kind: 'enable-repository', package: 'libfoo1', repositories: ['Bookworm backports'] },
+            { kind: 'add-repository', package: 'libfoo1' },
+        ]);
+        expect(suggestFixes(libProblem, none)).toEqual([{ kind: 'add-repository', package: 'libfoo1' }]);
+    });
+
+    it('suggests upgrading or removing conflicting packages', () => {
+        const versions = [makeVersion('opencpn', '5.6.2-1', true), makeVersion('opencpn', '5.8.4-1')];
+        expect(suggestFixes(breaksProblem, { ...none, versions })).toEqual([
+            { kind: 'install-version', package: 'opencpn', packageId: versions[1].id, version: '5.8.4-1' },
+            { kind: 'remove', package: 'opencpn', packageId: versions[0].id },
+        ]);
+    });
+
+    it('suggests choosing a provider for virtual packages', () => {
+        const [, virtualProblem] = parseDependencyProblems(PK_DETAIL);
+        const providers = [makeVersion('postfix', '3.7.10'), makeVersion('exim4-daemon-light', '4.96-15'), makeVersion('postfix', '3.7.9', true)];
+        expect(suggestFixes(virtualProblem, { ...none, providers })).toEqual([
+            { kind: 'choose-provider', package: 'mail-transport-agent', providers: ['postfix', 'exim4-daemon-light'] },
+        ]);
+        expect(describeFix(suggestFixes(virtualProblem, { ...none, providers })[0]))
+            .toBe('Install a package that provides mail-transport-agent: postfix, exim4-daemon-light');
+    });
+
+    it('suggests unholding held packages', () => {
+        const fixes = suggestFixes(nodeProblem, { ...none, held: new Set(['nodejs']) });
+        expect(fixes[0]).toEqual({ kind: 'unhold', package: 'nodejs' });
+    });
+});
+
+describe('describeDependencyProblem and describeFix', () => {
+    const problems = parseDependencyProblems(APT_OUTPUT);
+
+    it('describes problems', () => {
+        expect(describeDependencyProblem(problems[0]))
+            .toBe('signalk-server depends on nodejs (>= 20.0), but version 18.19.0+dfsg-6 of nodejs would be installed');
+        expect(describeDependencyProblem(problems[1])).toBe('signalk-server depends on libfoo1, which no enabled repository offers');
+        expect(describeDependencyProblem(problems[4])).toBe('grafana conflicts with influxdb');
+    });
+
+    it('describes fixes', () => {
+        const problem: DependencyProblem = problems[0];
+        expect(describeFix({ kind: 'install-version', package: problem.target, version: '20.11.0-1' }))
+            .toBe('Install nodejs 20.11.0-1 first');
+        expect(describeFix({ kind: 'enable-repository', package: 'libfoo1', repositories: ['a', 'b'] }))
+            .toBe('Enable a disabled repository that may offer libfoo1: a, b');
+    });
+});
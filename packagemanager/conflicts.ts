@@ -0,0 +1,222 @@
+/*
+ * Dependency conflicts - parse apt's unmet dependency reports and suggest fixes
+ * PackageKit's error detail and "apt-get install --simulate" use the same format.
+ */
+
+import {
+    ConflictFix,
+    DependencyProblem,
+    DependencyRelation,
+    PackageInfo,
+    ProblemReason,
+    RepositoryInfo,
+    VersionConstraint,
+} from './types';
+import { compareDebianVersions } from './utils';
+
+const RELATIONS: Record<string, DependencyRelation> = {
+    'Depends': 'Depends',
+    'PreDepends': 'Pre-Depends',
+    'Pre-Depends': 'Pre-Depends',
+    'Recommends': 'Recommends',
+    'Breaks': 'Breaks',
+    'Conflicts': 'Conflicts',
+};
+
+// " foo : Depends: libbar (>= 2.0) but 1.5-1 is to be installed", the package is
+// only printed on the first line of each package
+const PROBLEM_LINE = /^\s*(?:(\S+?)\s*:\s+)?(Depends|PreDepends|Pre-Depends|Recommends|Breaks|Conflicts):\s+(.+?)(?:\s+but\s+(.+?))?\s*$/;
+
+function isConflictRelation(relation: DependencyRelation): boolean {
+    return relation === 'Breaks' || relation === 'Conflicts';
+}
+
+function parseReason(relation: DependencyRelation, but: string | undefined): { reason: ProblemReason; version?: string } {
+    const installed = but?.match(/^(\S+) is (?:to be )?installed/);
+    if (installed) {
+        return { reason: isConflictRelation(relation) ? 'conflict' : 'wrong-version', version: installed[1] };
+    }
+    if (but?.includes('not installable')) return { reason: 'not-installable' };
+    if (but?.includes('virtual package')) return { reason: 'virtual' };
+    return { reason: isConflictRelation(relation) ? 'conflict' : 'not-going-to-be-installed' };
+}
+
+/**
+ * Parse unmet dependencies from apt or PackageKit output
+ * Lines that are not part of the report are ignored.
+ */
+export function parseDependencyProblems(text: string): DependencyProblem[] {
+    const problems: DependencyProblem[] = [];
+    let current = '';
+
+    for (const line of text.split('\n')) {
+        const match = line.match(PROBLEM_LINE);
+        if (!match) continue;
+
+        const [, pkg, relationName, alternatives, but] = match;
+        if (pkg) {
+            current = pkg;
+        }
+        if (!current) continue;
+
+        const relation = RELATIONS[relationName];
+        const first = alternatives.split('|')[0].trim().match(/^(\S+)(?:\s+\(([<>=]+)\s*([^)]+)\))?/);
+        if (!first) continue;
+
+        problems.push({
+            package: current,
+            relation,
+            target: first[1],
+            ...(first[2] && { constraint: { operator: first[2], version: first[3].trim() } }),
+            alternatives: alternatives.trim(),
+            ...parseReason(relation, but),
+        });
+    }
+
+    return problems;
+}
+
+/**
+ * Merge problem lists, dropping problems that are already listed
+ */
+export function mergeDependencyProblems(...lists: DependencyProblem[][]): DependencyProblem[] {
+    const seen = new Set<string>();
+    return lists.flat().filter(problem => {
+        const key = `${problem.package} ${problem.relation} ${problem.alternatives}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
+
+/**
+ * Check whether a version satisfies a Debian version constraint such as ">= 2.0"
+ */
+export function satisfiesConstraint(version: string, constraint: VersionConstraint): boolean {
+    const comparison = compareDebianVersions(version, constraint.version);
+
+    switch (constraint.operator) {
+        case '>=':
+        case '>':       // Obsolete spelling of >=
+            return comparison >= 0;
+        case '<=':
+        case '<':       // Obsolete spelling of <=
+            return comparison <= 0;
+        case '>>':
+            return comparison > 0;
+        case '<<':
+            return comparison < 0;
+        case '=':
+            return comparison === 0;
+        default:
+            return false;
+    }
+}
+
+/**
+ * Describe a dependency problem in a sentence
+ */
+export function describeDependencyProblem(problem: DependencyProblem): string {
+    const verbs: Record<DependencyRelation, string> = {
+        'Depends': 'depends on',
+        'Pre-Depends': 'depends on',
+        'Recommends': 'recommends',
+        'Breaks': 'breaks',
+        'Conflicts': 'conflicts with',
+    };
+    const subject = `${problem.package} ${verbs[problem.relation]} ${problem.alternatives}`;
+
+    switch (problem.reason) {
+        case 'wrong-version':
+            return `${subject}, but version ${problem.version} of ${problem.target} would be installed`;
+        case 'conflict':
+            return problem.version
+                ? `${subject}, and ${problem.target} ${problem.version} is or would be installed`
+                : subject;
+        case 'not-installable':
+            return `${subject}, which no enabled repository offers`;
+        case 'virtual':
+            return `${subject}, a virtual package that apt did not pick a provider for`;
+        case 'not-going-to-be-installed':
+            return `${subject}, which cannot be installed itself`;
+    }
+}
+
+/**
+ * Package name of a problem's target, without an architecture qualifier such as ":any"
+ */
+export function getTargetName(problem: DependencyProblem): string {
+    return problem.target.split(':')[0];
+}
+
+/**
+ * Suggest fixes for a dependency problem
+ * versions are all versions of the problem's target the repositories offer;
+ * providers are the packages that provide it when it is a virtual package.
+ */
+export function suggestFixes(
+    problem: DependencyProblem,
+    context: { versions: PackageInfo[]; held: Set<string>; repositories: RepositoryInfo[]; providers?: PackageInfo[] }
+): ConflictFix[] {
+    const fixes: ConflictFix[] = [];
+    const target = getTargetName(problem);
+    const newestFirst = [...context.versions].sort((a, b) => compareDebianVersions(b.version, a.version));
+    const installed = context.versions.find(pkg => pkg.installed);
+
+    if (context.held.has(target) || context.held.has(problem.target)) {
+        fixes.push({ kind: 'unhold', package: target });
+    }
+
+    if (isConflictRelation(problem.relation)) {
+        // Upgrading the conflicting package out of the constraint, or removing it
+        const constraint = problem.constraint;
+        const upgrade = constraint && newestFirst.find(pkg => !pkg.installed && !satisfiesConstraint(pkg.version, constraint));
+        if (upgrade) {
+            fixes.push({ kind: 'install-version', package: target, packageId: upgrade.id, version: upgrade.version });
+        }
+        if (installed) {
+            fixes.push({ kind: 'remove', package: target, packageId: installed.id });
+        }
+        return fixes;
+    }
+
+    const providers = [...new Set((context.providers ?? []).map(pkg => pkg.name))];
+    if (problem.reason === 'virtual' && providers.length > 0) {
+        fixes.push({ kind: 'choose-provider', package: target, providers });
+        return fixes;
+    }
+
+    const constraint = problem.constraint;
+    const matching = newestFirst.find(pkg => !constraint || satisfiesConstraint(pkg.version, constraint));
+    if (matching && !matching.installed && problem.reason === 'wrong-version') {
+        fixes.push({ kind: 'install-version', package: target, packageId: matching.id, version: matching.version });
+    } else if (!matching) {
+        const disabled = context.repositories.filter(repo => !repo.enabled);
+        if (disabled.length > 0) {
+            fixes.push({ kind: 'enable-repository', package: target, repositories: disabled.map(repo => repo.description || repo.id) });
+        }
+        fixes.push({ kind: 'add-repository', package: target });
+    }
+
+    return fixes;
+}
+
+/**
+ * Describe a suggested fix in a sentence
+ */
+export function describeFix(fix: ConflictFix): string {
+    switch (fix.kind) {
+        case 'install-version':
+            return `Install ${fix.package} ${fix.version} first`;
+        case 'remove':
+            return `Remove ${fix.package}`;
+        case 'unhold':
+            return `Unhold ${fix.package}, its hold keeps it at the installed version`;
+        case 'enable-repository':
+            return `Enable a disabled repository that may offer ${fix.package}: ${fix.repositories?.join(', ')}`;
+        case 'add-repository':
+            return `Add a repository that offers a suitable version of ${fix.package}`;
+        case 'choose-provider':
+            return `Install a package that provides ${fix.package}: ${fix.providers?.join(', ')}`;
+    }
+}
@@ -0,0 +1,113 @@
+/*
+ * DebtagsFilter component - Narrow package lists by debtags facets
+ */
+
+import {
+    Button,
+    ExpandableSection,
+    Flex,
+    FlexItem,
+    Label,
+    LabelGroup,
+} from '@patternfly/react-core';
+import React, { useEffect, useState } from 'react';
+
+import { readDebtags } from './apt';
+import { countFacetTags, DEBTAGS_FACETS, getTagFacet, getTagLabel } from './debtags';
+import { Debtags } from './types';
+
+// The database only changes with package installs and is large, so it is read once per page load
+let debtagsPromise: Promise<Debtags> | null = null;
+
+/**
+ * Debtags database, loaded when the component mounts
+ * Stays empty when the debtags package is not installed.
+ */
+export function useDebtags() {
+    const [debtags, setDebtags] = useState<Debtags>({ tags: new Map(), vocabulary: new Map() });
+
+    useEffect(() => {
+        load();
+    }, []);
+
+    async function load() {
+        if (!debtagsPromise) {
+            debtagsPromise = readDebtags();
+        }
+
+        try {
+            setDebtags(await debtagsPromise);
+        } catch (err) {
+            console.warn('Failed to load debtags:', err);
+            debtagsPromise = null;
+        }
+    }
+
+    return debtags;
+}
+
+interface DebtagsFilterProps {
+    names: string[];         // Packages listed before filtering by tags
+    debtags: Debtags;
+    selected: string[];
+    onChange: (selected: string[]) => void;
+}
+
+export const DebtagsFilter: React.FC<DebtagsFilterProps> = ({ names, debtags, selected, onChange }) => {
+    const [isExpanded, setIsExpanded] = useState(selected.length > 0);
+
+    const facets = Object.entries(DEBTAGS_FACETS)
+        .map(([facet, name]) => {
+            const counts = countFacetTags(names, debtags.tags, selected, facet);
+            // Selected tags stay visible so they can be deselected, even when nothing listed matches
+            const missing = selected
+                .filter(tag => getTagFacet(tag) === facet && !counts.some(count => count.tag === tag))
+                .map(tag => ({ tag, count: 0 }));
+            return { facet, name, counts: [...counts, ...missing] };
+        })
+        .filter(({ counts }) => counts.length > 0);
+
+    if (facets.length === 0) {
+        return null;
+    }
+
+    function toggleTag(tag: string) {
+        onChange(selected.includes(tag) ? selected.filter(other => other !== tag) : [...selected, tag]);
+    }
+
+    return (
+        <ExpandableSection
+            className="debtags-filter"
+            toggleText={selected.length > 0 ? `Filter by tags (${selected.length} selected)` : 'Filter by tags'}
+            isExpanded={isExpanded}
+            onToggle={(_event, expanded) => setIsExpanded(expanded)}
+        >
+            <Flex direction={{ default: 'column' }} spaceItems={{ default: 'spaceItemsSm' }}>
+                {facets.map(({ facet, name, counts }) => (
+                    <FlexItem key={facet}>
+                        <LabelGroup categoryName={name} numLabels={8}>
+                            {counts.map(({ tag, count }) => (
+                                <Label
+                                    key={tag}
+                                    isCompact
+                                    color={selected.includes(tag) ? 'blue' : 'grey'}
+                                    onClick={() => toggleTag(tag)}
+                                    title={tag}
+                                >
+                                    {getTagLabel(tag, debtags.vocabulary)} ({count})
+                                </Label>
+                            ))}
+                        </LabelGroup>
+                    </FlexItem>
+                ))}
+                {selected.length > 0 && (
+                    <FlexItem>
+                        <Button variant="link" isInline onClick={() => onChange([])}>
+                            Clear tag filters
+                        </Button>
+                    </FlexItem>
+                )}
+            </Flex>
+        </ExpandableSection>
+    );
+};
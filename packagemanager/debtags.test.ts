@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+    countFacetTags,
+    expandTags,
+    getTagFacet,
+    getTagLabel,
+    matchesTags,
+    parsePackageTags,
+    parseVocabulary,
+} from './debtags';
+
+describe('expandTags', () => {
+    it('splits a comma separated list', () => {
+        expect(expandTags(' role::program, interface::commandline')).toEqual(['role::program', 'interface::commandline']);
+    });
+
+    it('expands grouped tags', () => {
+        expect(expandTags('use::{editing,viewing}, role::program')).toEqual([
+            'use::editing',
+            'use::viewing',
+            'role::program',
+        ]);
+    });
+
+    it('keeps tags with dots and plus signs', () => {
+        expect(expandTags('implemented-in::c++, x11::application, culture::pt_BR')).toEqual([
+            'implemented-in::c++',
+            'x11::application',
+            'culture::pt_BR',
+        ]);
+    });
+
+    it('returns nothing for an empty field', () => {
+        expect(expandTags('')).toEqual([]);
+    });
+});
+
+describe('parsePackageTags', () => {
+    it('maps packages to their tags', () => {
+        const tags = parsePackageTags([
+            'vim: devel::editor, interface::commandline, role::program, use::editing',
+            'libc6: role::shared-lib',
+            '',
+        ].join('\n'));
+
+        expect(tags.get('vim')).toEqual(['devel::editor', 'interface::commandline', 'role::program', 'use::editing']);
+        expect(tags.get('libc6')).toEqual(['role::shared-lib']);
+        expect(tags.size).toBe(2);
+    });
+
+    it('skips packages without tags and malformed lines', () => {
+        const tags = parsePackageTags('empty:\nrole::program\nnot a line');
+        expect(tags.size).toBe(0);
+    });
+});
+
+describe('parseVocabulary', () => {
+    it('reads facet and tag descriptions', () => {
+        const vocabulary = parseVocabulary([
+            'Facet: role',
+            'Description: Role',
+            ' Role performed by the package',
+            '',
+            'Tag: role::program',
+            'Description: Program',
+            ' Executable program.',
+            '',
+            'Tag: role::shared-lib',
+            'Description: Shared Library',
+        ].join('\n'));
+
+        expect(vocabulary.get('role')).toBe('Role');
+        expect(vocabulary.get('role::program')).toBe('Program');
+        expect(vocabulary.get('role::shared-lib')).toBe('Shared Library');
+    });
+
+    it('skips stanzas without a description', () => {
+        expect(parseVocabulary('Tag: role::program\n').size).toBe(0);
+    });
+});
+
+describe('getTagFacet', () => {
+    it('returns the part before the separator', () => {
+        expect(getTagFacet('implemented-in::python')).toBe('implemented-in');
+    });
+});
+
+describe('getTagLabel', () => {
+    it('prefers the vocabulary description', () => {
+        expect(getTagLabel('role::program', new Map([['role::program', 'Program']]))).toBe('Program');
+    });
+
+    it('falls back to the tag name', () => {
+        expect(getTagLabel('works-with::audio', new Map())).toBe('audio');
+    });
+});
+
+describe('matchesTags', () => {
+    const tags = ['role::program', 'interface::commandline', 'use::editing'];
+
+    it('matches everything without a selection', () => {
+        expect(matchesTags([], [])).toBe(true);
+    });
+
+    it('accepts any tag of one facet', () => {
+        expect(matchesTags(tags, ['interface::x11', 'interface::commandline'])).toBe(true);
+    });
+
+    it('requires every selected facet', () => {
+        expect(matchesTags(tags, ['role::program', 'use::editing'])).toBe(true);
+        expect(matchesTags(tags, ['role::program', 'use::viewing'])).toBe(false);
+    });
+});
+
+describe('countFacetTags', () => {
+    const tags = new Map([
+        ['vim', ['role::program', 'interface::commandline']],
+        ['gedit', ['role::program', 'interface::x11']],
+        ['nano', ['role::program', 'interface::commandline']],
+        ['libc6', ['role::shared-lib']],
+    ]);
+
+    it('counts tags of a facet, most used first', () => {
+        expect(countFacetTags(['vim', 'gedit', 'nano', 'libc6'], tags, [], 'interface')).toEqual([
+            { tag: 'interface::commandline', count: 2 },
+            { tag: 'interface::x11', count: 1 },
+        ]);
+    });
+
+    it('only counts listed packages once', () => {
+        expect(countFacetTags(['vim', 'vim', 'untagged'], tags, [], 'role')).toEqual([
+            { tag: 'role::program', count: 1 },
+        ]);
+    });
+
+    it('narrows counts by selections in other facets', () => {
+        expect(countFacetTags(['vim', 'gedit', 'nano', 'libc6'], tags, ['interface::x11'], 'role')).toEqual([
+            { tag: 'role::program', count: 1 },
+        ]);
+    });
+
+    it('ignores selections in the counted facet', () => {
+        expect(countFacetTags(['vim', 'gedit', 'nano'], tags, ['interface::x11'], 'interface')).toEqual([
+            { tag: 'interface::commandline', count: 2 },
+            { tag: 'interface::x11', count: 1 },
+        ]);
+    });
+});
@@ -0,0 +1,132 @@
+/*
+ * debtags - package tag database, vocabulary and faceted filtering
+ */
+
+import { FacetCount } from './types';
+
+export const PACKAGE_TAGS_PATH = '/var/lib/debtags/package-tags';
+
+// The debtags package keeps the vocabulary in /var/lib, older releases in /usr/share
+export const VOCABULARY_PATHS = ['/var/lib/debtags/vocabulary', '/usr/share/debtags/vocabulary'];
+
+// Facets offered for filtering, in display order
+export const DEBTAGS_FACETS: Record<string, string> = {
+    'role': 'Role',
+    'interface': 'Interface',
+    'use': 'Purpose',
+    'implemented-in': 'Implemented in',
+    'works-with': 'Works with',
+};
+
+/**
+ * Expand a tag list such as "role::program, use::{editing,viewing}"
+ * Older tag databases group tags of one facet in braces.
+ */
+export function expandTags(field: string): string[] {
+    const tags: string[] = [];
+
+    for (const match of field.matchAll(/([\w+.-]+)::(?:\{([^}]*)\}|([\w+.:-]+))/g)) {
+        const values = match[2] !== undefined ? match[2].split(',') : [match[3]];
+        for (const value of values) {
+            if (value.trim()) {
+                tags.push(`${match[1]}::${value.trim()}`);
+            }
+        }
+    }
+
+    return tags;
+}
+
+/**
+ * Parse the package-tags database ("package: tag, tag, ...") into tags by package name
+ */
+export function parsePackageTags(text: string): Map<string, string[]> {
+    const tags = new Map<string, string[]>();
+
+    for (const line of text.split('\n')) {
+        const separator = line.indexOf(':');
+        // A "::" right after the name would be a tag, not the separator
+        if (separator <= 0 || line[separator + 1] === ':') continue;
+
+        const packageTags = expandTags(line.slice(separator + 1));
+        if (packageTags.length > 0) {
+            tags.set(line.slice(0, separator).trim(), packageTags);
+        }
+    }
+
+    return tags;
+}
+
+/**
+ * Parse the debtags vocabulary into short descriptions by facet and tag
+ */
+export function parseVocabulary(text: string): Map<string, string> {
+    const descriptions = new Map<string, string>();
+
+    for (const block of text.split(/\n\s*\n/)) {
+        const id = block.match(/^(?:Facet|Tag):\s*(\S+)/m);
+        const description = block.match(/^Description:\s*(.*)$/m);
+        if (id && description) {
+            descriptions.set(id[1], description[1].trim());
+        }
+    }
+
+    return descriptions;
+}
+
+/**
+ * Facet of a tag, e.g. "role" for "role::program"
+ */
+export function getTagFacet(tag: string): string {
+    return tag.split('::')[0];
+}
+
+/**
+ * Display label of a tag, from the vocabulary or else the tag without its facet
+ */
+export function getTagLabel(tag: string, vocabulary: Map<string, string>): string {
+    return vocabulary.get(tag) ?? tag.slice(getTagFacet(tag).length + 2);
+}
+
+/**
+ * Check whether a package's tags match the selected tags
+ * Tags of one facet are alternatives; every facet with a selection has to match.
+ */
+export function matchesTags(packageTags: string[], selected: string[]): boolean {
+    const byFacet = new Map<string, string[]>();
+    for (const tag of selected) {
+        const facet = getTagFacet(tag);
+        byFacet.set(facet, [...(byFacet.get(facet) ?? []), tag]);
+    }
+
+    return [...byFacet.values()].every(alternatives => alternatives.some(tag => packageTags.includes(tag)));
+}
+
+/**
+ * Count the packages per tag of a facet, most used tags first
+ * Selections in the facet itself are ignored, so its other tags keep their counts.
+ */
+export function countFacetTags(
+    names: string[],
+    tags: Map<string, string[]>,
+    selected: string[],
+    facet: string
+): FacetCount[] {
+    const otherSelected = selected.filter(tag => getTagFacet(tag) !== facet);
+    const counts = new Map<string, number>();
+
+    for (const name of new Set(names)) {
+        const packageTags = tags.get(name) ?? [];
+        if (!matchesTags(packageTags, otherSelected)) continue;
+
+        for (const tag of packageTags) {
+            if (getTagFacet(tag) === facet) {
+                counts.set(tag, (counts.get(tag) ?? 0) + 1);
+            }
+        }
+    }
+
+    return [...counts.entries()]
+        .map(([tag, count]) => ({ tag, count }))
+        .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
@@ -0,0 +1,250 @@
+import { describe, it, expect } from 'vitest';
+import {
+    buildDependencyGraph,
+    countCyclicPackages,
+    findInstallChains,
+    formatDot,
+    formatSvg,
+    getEdgePoints,
+    getNodeLabel,
+    GRAPH_LAYOUT,
+    layoutGraph,
+    markCyclicEdges,
+    parseGraphOptions,
+    WalkLimits,
+} from './dependencies';
+import { DependencyGraph, PackageInfo } from './types';
+
+// Reverse dependencies: package -> packages that require it
+function makeLookup(requiredBy: Record<string, string[]>) {
+    const lookedUp: string[] = [];
+    const getRequiredBy = async (id: string) => {
+        lookedUp.push(id);
+        return requiredBy[id] ?? [];
+    };
+    return { getRequiredBy, lookedUp };
+}
+
+function isManualIn(manual: string[]) {
+    return (id: string) => manual.includes(id);
+}
+
+describe('findInstallChains', () => {
+    it('finds direct dependents that were installed manually', async () => {
+        const { getRequiredBy } = makeLookup({ libfoo: ['foo', 'bar'] });
+        const chains = await findInstallChains('libfoo', getRequiredBy, isManualIn(['foo', 'bar']));
+        expect(chains).toEqual([['libfoo', 'foo'], ['libfoo', 'bar']]);
+    });
+
+    it('follows automatic packages until a manual one', async () => {
+        const { getRequiredBy } = makeLookup({
+            libbase: ['libmid'],
+            libmid: ['app'],
+        });
+        const chains = await findInstallChains('libbase', getRequiredBy, isManualIn(['app']));
+        expect(chains).toEqual([['libbase', 'libmid', 'app']]);
+    });
+
+    it('returns shortest chains first', async () => {
+        const { getRequiredBy } = makeLookup({
+            lib: ['libmid', 'tool'],
+            libmid: ['app'],
+        });
+        const chains = await findInstallChains('lib', getRequiredBy, isManualIn(['app', 'tool']));
+        expect(chains).toEqual([['lib', 'tool'], ['lib', 'libmid', 'app']]);
+    });
+
+    it('does not loop on dependency cycles', async () => {
+        const { getRequiredBy, lookedUp } = makeLookup({
+            a: ['b'],
+            b: ['a', 'c'],
+            c: ['b'],
+        });
+        const chains = await findInstallChains('a', getRequiredBy, isManualIn([]));
+        expect(chains).toEqual([]);
+        expect(lookedUp).toEqual(['a', 'b', 'c']);
+    });
+
+    it('returns empty array for orphaned packages', async () => {
+        const { getRequiredBy } = makeLookup({});
+        expect(await findInstallChains('orphan', getRequiredBy, isManualIn([]))).toEqual([]);
+    });
+
+    it('stops at the configured limits', async () => {
+        const limits: WalkLimits = { maxDepth: 1, maxChains: 1, maxLookups: 10 };
+        const { getRequiredBy } = makeLookup({
+            lib: ['one', 'two', 'mid'],
+            mid: ['three'],
+        });
+        expect(await findInstallChains('lib', getRequiredBy, isManualIn(['one', 'two', 'three']), limits))
+            .toEqual([['lib', 'one']]);
+
+        const shallow: WalkLimits = { maxDepth: 1, maxChains: 5, maxLookups: 10 };
+        expect(await findInstallChains('lib', getRequiredBy, isManualIn(['three']), shallow)).toEqual([]);
+    });
+});
+
+function makePackage(name: string, installed = true): PackageInfo {
+    return {
+        id: `${name};1.0;amd64;${installed ? 'installed:debian' : 'debian'}`,
+        name,
+        version: '1.0',
+        arch: 'amd64',
+        repo: installed ? 'installed:debian' : 'debian',
+        summary: '',
+        installed,
+    };
+}
+
+// Related packages by name: depends and required-by lists
+function makeRelated(depends: Record<string, PackageInfo[]>, requiredBy: Record<string, PackageInfo[]> = {}) {
+    return async (packageId: string, reverse: boolean) => {
+        const name = packageId.split(';')[0];
+        return (reverse ? requiredBy : depends)[name] ?? [];
+    };
+}
+
+describe('buildDependencyGraph', () => {
+    const app = makePackage('app');
+
+    it('expands dependencies to the given depth', async () => {
+        const related = makeRelated({
+            app: [makePackage('libfoo'), makePackage('libbar', false)],
+            libfoo: [makePackage('libc6')],
+            libc6: [makePackage('libgcc')],
+        });
+        const graph = await buildDependencyGraph(app, related, 2, 'depends');
+        expect([...graph.nodes.keys()]).toEqual(['app', 'libfoo', 'libbar', 'libc6']);
+        expect(graph.nodes.get('libbar')!.installed).toBe(false);
+        expect(graph.nodes.get('libc6')!.level).toBe(2);
+        expect(graph.edges.map(edge => `${edge.from}>${edge.to}`)).toEqual(['app>libfoo', 'app>libbar', 'libfoo>libc6']);
+        expect(graph.truncated).toBe(false);
+    });
+
+    it('places reverse dependencies at negative levels', async () => {
+        const related = makeRelated({}, { app: [makePackage('meta')] });
+        const graph = await buildDependencyGraph(app, related, 2, 'required-by');
+        expect(graph.nodes.get('meta')!.level).toBe(-1);
+        expect(graph.edges).toEqual([{ from: 'meta', to: 'app', cyclic: false }]);
+    });
+
+    it('keeps one node per package and prefers the installed version', async () => {
+        const related = makeRelated({
+            app: [makePackage('libfoo', false), makePackage('libfoo')],
+        });
+        const graph = await buildDependencyGraph(app, related, 1, 'depends');
+        expect(graph.nodes.size).toBe(2);
+        expect(graph.nodes.get('libfoo')!.installed).toBe(true);
+        expect(graph.edges).toHaveLength(1);
+    });
+
+    it('detects cycles', async () => {
+        const related = makeRelated({
+            app: [makePackage('a')],
+            a: [makePackage('b')],
+            b: [makePackage('a')],
+        });
+        const graph = await buildDependencyGraph(app, related, 4, 'depends');
+        expect(graph.edges.map(edge => edge.cyclic)).toEqual([false, true, true]);
+        expect(countCyclicPackages(graph)).toBe(2);
+    });
+
+    it('stops at the node limit', async () => {
+        const related = makeRelated({ app: ['a', 'b', 'c'].map(name => makePackage(name)) });
+        const graph = await buildDependencyGraph(app, related, 1, 'depends', 3);
+        expect([...graph.nodes.keys()]).toEqual(['app', 'a', 'b']);
+        expect(graph.edges).toHaveLength(2);
+        expect(graph.truncated).toBe(true);
+    });
+});
+
+describe('markCyclicEdges', () => {
+    it('flags self dependencies and longer cycles only', () => {
+        const edges = markCyclicEdges([
+            { from: 'a', to: 'a', cyclic: false },
+            { from: 'b', to: 'c', cyclic: false },
+            { from: 'c', to: 'd', cyclic: false },
+            { from: 'd', to: 'b', cyclic: false },
+            { from: 'd', to: 'e', cyclic: false },
+        ]);
+        expect(edges.map(edge => edge.cyclic)).toEqual([true, true, true, true, false]);
+    });
+});
+
+describe('parseGraphOptions', () => {
+    it('accepts valid depth and direction', () => {
+        expect(parseGraphOptions({ depth: '3', direction: 'both' })).toEqual({ depth: 3, direction: 'both' });
+    });
+
+    it('ignores invalid values', () => {
+        expect(parseGraphOptions({ depth: '99', direction: 'sideways' })).toEqual({});
+        expect(parseGraphOptions({ depth: 'x' })).toEqual({});
+        expect(parseGraphOptions({})).toEqual({});
+    });
+});
+
+describe('graph layout and export', () => {
+    const graph: DependencyGraph = {
+        root: 'app',
+        nodes: new Map([
+            ['meta', { id: 'meta;1;all;installed', name: 'meta', installed: true, level: -1 }],
+            ['app', { id: 'app;1;all;installed', name: 'app', installed: true, level: 0 }],
+            ['lib<x>', { id: 'lib<x>;1;all;debian', name: 'lib<x>', installed: false, level: 1 }],
+            ['liba', { id: 'liba;1;all;installed', name: 'liba', installed: true, level: 1 }],
+        ]),
+        edges: [
+            { from: 'meta', to: 'app', cyclic: false },
+            { from: 'app', to: 'lib<x>', cyclic: false },
+            { from: 'app', to: 'liba', cyclic: true },
+        ],
+        truncated: false,
+    };
+    const { nodeWidth, nodeHeight, columnGap, rowGap, margin } = GRAPH_LAYOUT;
+
+    it('places levels in columns and names in rows', () => {
+        const layout = layoutGraph(graph);
+        expect(layout.positions.get('meta')).toEqual({ x: margin, y: margin });
+        expect(layout.positions.get('app')).toEqual({ x: margin + nodeWidth + columnGap, y: margin });
+        expect(layout.positions.get('lib<x>')!.y).toBe(margin);
+        expect(layout.positions.get('liba')!.y).toBe(margin + nodeHeight + rowGap);
+        expect(layout.width).toBe(2 * margin + 3 * nodeWidth + 2 * columnGap);
+        expect(layout.height).toBe(2 * margin + 2 * nodeHeight + rowGap);
+    });
+
+    it('connects facing sides of nodes', () => {
+        expect(getEdgePoints({ x: 0, y: 0 }, { x: 300, y: 40 })).toEqual({
+            x1: nodeWidth, y1: nodeHeight / 2, x2: 300, y2: 40 + nodeHeight / 2,
+        });
+        expect(getEdgePoints({ x: 300, y: 0 }, { x: 0, y: 0 }).x1).toBe(300);
+    });
+
+    it('shortens long names', () => {
+        expect(getNodeLabel('short')).toBe('short');
+        expect(getNodeLabel('a'.repeat(30))).toBe(`${'a'.repeat(25)}…`);
+    });
+
+    it('formats DOT with installed, missing and cyclic styles', () => {
+        const dot = formatDot(graph);
+        expect(dot.startsWith('digraph "app" {\n    rankdir=LR;')).toBe(true);
+        expect(dot).toContain('"app" [fillcolor="#d1f1d1", penwidth=2];');
+        expect(dot).toContain('"lib<x>" [fillcolor="#fde2e1", style="rounded,filled,dashed"];');
+        expect(dot).toContain('"meta" -> "app";');
+        expect(dot).toContain('"app" -> "liba" [color="#c9190b"];');
+        expect(dot.endsWith('}\n')).toBe(true);
+    });
+
+    it('quotes DOT identifiers', () => {
+        const quoted = formatDot({ ...graph, root: 'say "hi"', edges: [] });
+        expect(quoted).toContain('digraph "say \\"hi\\"" {');
+    });
+
+    it('formats a standalone SVG document', () => {
+        const svg = formatSvg(graph);
+        expect(svg.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+        expect(svg).toContain('<text x="24" y="34">meta</text>');
+        expect(svg).toContain('lib&lt;x&gt;');
+        expect(svg).not.toContain('lib<x>');
+        expect(svg).toContain('marker-end="url(#arrow-cyclic)"');
+        expect(svg.trim().endsWith('</svg>')).toBe(true);
+    });
+});
@@ -0,0 +1,387 @@
+/*
+ * Dependency walking - install chains and dependency graphs with DOT/SVG export
+ * Lookups are passed in, so the walks can run against PackageKit or test data.
+ */
+
+import { DependencyEdge, DependencyGraph, DependencyNode, GraphDirection, PackageInfo } from './types';
+
+// Limits that keep walks through heavily used packages such as libc6 short
+export interface WalkLimits {
+    maxDepth: number;        // Dependency levels to follow
+    maxChains: number;       // Stop once this many chains were found
+    maxLookups: number;      // Stop after this many packages were looked up
+}
+
+export const DEFAULT_WALK_LIMITS: WalkLimits = {
+    maxDepth: 6,
+    maxChains: 5,
+    maxLookups: 100,
+};
+
+/**
+ * Find why an automatically installed package is installed
+ * Walks reverse dependencies breadth first until it reaches manually installed
+ * packages. Each chain starts with the package and ends with a manually
+ * installed package that (indirectly) requires it; shortest chains come first.
+ * Packages already seen are skipped, so dependency cycles end the walk.
+ */
+export async function findInstallChains(
+    packageId: string,
+    getRequiredBy: (packageId: string) => Promise<string[]>,
+    isManual: (packageId: string) => boolean,
+    limits: WalkLimits = DEFAULT_WALK_LIMITS
+): Promise<string[][]> {
+    const parents = new Map<string, string | null>([[packageId, null]]);
+    const chains: string[][] = [];
+    let level = [packageId];
+    let lookups = 0;
+
+    function chainTo(id: string): string[] {
+        const chain: string[] = [];
+        for (let current: string | null = id; current !== null; current = parents.get(current) ?? null) {
+            chain.unshift(current);
+        }
+        return chain;
+    }
+
+    for (let depth = 0; depth < limits.maxDepth && level.length > 0; depth++) {
+        const next: string[] = [];
+
+        for (const id of level) {
+            if (chains.length >= limits.maxChains || lookups >= limits.maxLookups) {
+                return chains;
+            }
+            lookups++;
+
+            for (const dependent of await getRequiredBy(id)) {
+                if (parents.has(dependent)) continue;
+                parents.set(dependent, id);
+
+                if (isManual(dependent)) {
+                    chains.push(chainTo(dependent));
+                } else {
+                    next.push(dependent);
+                }
+            }
+        }
+        level = next;
+    }
+
+    return chains.slice(0, limits.maxChains);
+}
+
+export const MAX_GRAPH_DEPTH = 4;
+export const MAX_GRAPH_NODES = 150;
+
+/**
+ * Build the dependency graph around a package
+ * Dependencies are expanded downwards and reverse dependencies upwards, each up to
+ * the given depth. A package reached several times becomes one node.
+ */
+export async function buildDependencyGraph(
+    root: PackageInfo,
+    getRelated: (packageId: string, reverse: boolean) => Promise<PackageInfo[]>,
+    depth: number,
+    direction: GraphDirection,
+    maxNodes = MAX_GRAPH_NODES
+): Promise<DependencyGraph> {
+    const nodes = new Map<string, DependencyNode>([
+        [root.name, { id: root.id, name: root.name, installed: root.installed, level: 0 }],
+    ]);
+    const edgeKeys = new Set<string>();
+    const edges: DependencyEdge[] = [];
+    let truncated = false;
+
+    function addEdge(from: string, to: string) {
+        const key = `${from}\n${to}`;
+        if (!edgeKeys.has(key)) {
+            edgeKeys.add(key);
+            edges.push({ from, to, cyclic: false });
+        }
+    }
+
+    async function expand(reverse: boolean) {
+        let frontier = [root.name];
+
+        for (let level = 1; level <= depth && frontier.length > 0; level++) {
+            const next: string[] = [];
+
+            for (const name of frontier) {
+                for (const pkg of await getRelated(nodes.get(name)!.id, reverse)) {
+                    const existing = nodes.get(pkg.name);
+                    if (existing) {
+                        // Dependencies are reported once per version; the installed one wins
+                        if (pkg.installed && !existing.installed) {
+                            nodes.set(pkg.name, { ...existing, id: pkg.id, installed: true });
+                        }
+                    } else if (nodes.size >= maxNodes) {
+                        truncated = true;
+                        continue;
+                    } else {
+                        nodes.set(pkg.name, { id: pkg.id, name: pkg.name, installed: pkg.installed, level: reverse ? -level : level });
+                        next.push(pkg.name);
+                    }
+
+                    if (reverse) {
+                        addEdge(pkg.name, name);
+                    } else {
+                        addEdge(name, pkg.name);
+                    }
+                }
+            }
+            frontier = next;
+        }
+    }
+
+    if (direction !== 'required-by') {
+        await expand(false);
+    }
+    if (direction !== 'depends') {
+        await expand(true);
+    }
+
+    return { root: root.name, nodes, edges: markCyclicEdges(edges), truncated };
+}
+
+/**
+ * Read graph depth and direction from URL options, ignoring invalid values
+ */
+export function parseGraphOptions(options: Record<string, unknown>): { depth?: number; direction?: GraphDirection } {
+    const depth = Number(options.depth);
+    const direction = options.direction;
+    return {
+        ...(Number.isInteger(depth) && depth >= 1 && depth <= MAX_GRAPH_DEPTH && { depth }),
+        ...((direction === 'depends' || direction === 'required-by' || direction === 'both') && { direction }),
+    };
+}
+
+// Strongly connected components (Tarjan), as component numbers by package name
+function getComponents(edges: DependencyEdge[]): Map<string, number> {
+    const adjacency = new Map<string, string[]>();
+    for (const edge of edges) {
+        adjacency.set(edge.from, [...(adjacency.get(edge.from) ?? []), edge.to]);
+        if (!adjacency.has(edge.to)) {
+            adjacency.set(edge.to, []);
+        }
+    }
+
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components = new Map<string, number>();
+    let counter = 0;
+
+    function visit(name: string) {
+        index.set(name, counter);
+        lowLink.set(name, counter);
+        counter++;
+        stack.push(name);
+        onStack.add(name);
+
+        for (const next of adjacency.get(name)!) {
+            if (!index.has(next)) {
+                visit(next);
+                lowLink.set(name, Math.min(lowLink.get(name)!, lowLink.get(next)!));
+            } else if (onStack.has(next)) {
+                lowLink.set(name, Math.min(lowLink.get(name)!, index.get(next)!));
+            }
+        }
+
+        if (lowLink.get(name) === index.get(name)) {
+            const component = components.size;
+            let member: string;
+            do {
+                member = stack.pop()!;
+                onStack.delete(member);
+                components.set(member, component);
+            } while (member !== name);
+        }
+    }
+
+    for (const name of adjacency.keys()) {
+        if (!index.has(name)) {
+            visit(name);
+        }
+    }
+    return components;
+}
+
+/**
+ * Flag the edges that are part of a dependency cycle
+ */
+export function markCyclicEdges(edges: DependencyEdge[]): DependencyEdge[] {
+    const components = getComponents(edges);
+    return edges.map(edge => ({
+        ...edge,
+        cyclic: edge.from === edge.to || components.get(edge.from) === components.get(edge.to),
+    }));
+}
+
+/**
+ * Count the packages that are part of a dependency cycle
+ */
+export function countCyclicPackages(graph: DependencyGraph): number {
+    const names = new Set<string>();
+    graph.edges.filter(edge => edge.cyclic).forEach(edge => {
+        names.add(edge.from);
+        names.add(edge.to);
+    });
+    return names.size;
+}
+
+// Graph drawing dimensions and colors, shared by the page and the SVG export
+export const GRAPH_LAYOUT = {
+    nodeWidth: 200,
+    nodeHeight: 28,
+    columnGap: 80,
+    rowGap: 12,
+    margin: 16,
+};
+
+export const GRAPH_COLORS = {
+    installed: '#d1f1d1',
+    missing: '#fde2e1',
+    border: '#6a6e73',
+    edge: '#8a8d90',
+    cyclic: '#c9190b',
+};
+
+export interface GraphLayout {
+    positions: Map<string, { x: number; y: number }>;
+    width: number;
+    height: number;
+}
+
+/**
+ * Place nodes in columns by level, reverse dependencies left of the root
+ */
+export function layoutGraph(graph: DependencyGraph): GraphLayout {
+    const { nodeWidth, nodeHeight, columnGap, rowGap, margin } = GRAPH_LAYOUT;
+    const columns = new Map<number, string[]>();
+    for (const node of graph.nodes.values()) {
+        columns.set(node.level, [...(columns.get(node.level) ?? []), node.name]);
+    }
+
+    const levels = [...columns.keys()].sort((a, b) => a - b);
+    const positions = new Map<string, { x: number; y: number }>();
+    let rows = 0;
+
+    levels.forEach((level, column) => {
+        const names = columns.get(level)!.sort((a, b) => a.localeCompare(b));
+        names.forEach((name, row) => {
+            positions.set(name, {
+                x: margin + column * (nodeWidth + columnGap),
+                y: margin + row * (nodeHeight + rowGap),
+            });
+        });
+        rows = Math.max(rows, names.length);
+    });
+
+    return {
+        positions,
+        width: 2 * margin + levels.length * nodeWidth + Math.max(levels.length - 1, 0) * columnGap,
+        height: 2 * margin + rows * nodeHeight + Math.max(rows - 1, 0) * rowGap,
+    };
+}
+
+/**
+ * Line end points for an edge, from the facing sides of both node boxes
+ */
+export function getEdgePoints(
+    from: { x: number; y: number },
+    to: { x: number; y: number }
+): { x1: number; y1: number; x2: number; y2: number } {
+    const { nodeWidth, nodeHeight } = GRAPH_LAYOUT;
+    const forward = to.x >= from.x;
+    return {
+        x1: from.x + (forward ? nodeWidth : 0),
+        y1: from.y + nodeHeight / 2,
+        x2: to.x + (forward ? 0 : nodeWidth),
+        y2: to.y + nodeHeight / 2,
+    };
+}
+
+/**
+ * Shorten a package name to fit a node box
+ */
+export function getNodeLabel(name: string, maxLength = 26): string {
+    return name.length > maxLength ? `${name.slice(0, maxLength - 1)}…` : name;
+}
+
+function quoteDot(value: string): string {
+    return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/**
+ * Format a dependency graph as Graphviz DOT
+ */
+export function formatDot(graph: DependencyGraph): string {
+    const lines = [
+        `digraph ${quoteDot(graph.root)} {`,
+        '    rankdir=LR;',
+        '    node [shape=box, style="rounded,filled", fontname="sans-serif"];',
+    ];
+
+    for (const node of graph.nodes.values()) {
+        const attributes = [`fillcolor="${node.installed ? GRAPH_COLORS.installed : GRAPH_COLORS.missing}"`];
+        if (!node.installed) {
+            attributes.push('style="rounded,filled,dashed"');
+        }
+        if (node.name === graph.root) {
+            attributes.push('penwidth=2');
+        }
+        lines.push(`    ${quoteDot(node.name)} [${attributes.join(', ')}];`);
+    }
+
+    for (const edge of graph.edges) {
+        const attributes = edge.cyclic ? ` [color="${GRAPH_COLORS.cyclic}"]` : '';
+        lines.push(`    ${quoteDot(edge.from)} -> ${quoteDot(edge.to)}${attributes};`);
+    }
+
+    lines.push('}');
+    return lines.join('\n') + '\n';
+}
+
+function escapeXml(value: string): string {
+    return value.replace(/[&<>"]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char]!);
+}
+
+/**
+ * Format a dependency graph as a standalone SVG document
+ */
+export function formatSvg(graph: DependencyGraph): string {
+    const { nodeWidth, nodeHeight } = GRAPH_LAYOUT;
+    const { positions, width, height } = layoutGraph(graph);
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="sans-serif" font-size="12">`,
+        `<title>Dependencies of ${escapeXml(graph.root)}</title>`,
+        '<defs>',
+        `<marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto"><path d="M0,0 L10,5 L0,10 z" fill="${GRAPH_COLORS.edge}"/></marker>`,
+        `<marker id="arrow-cyclic" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto"><path d="M0,0 L10,5 L0,10 z" fill="${GRAPH_COLORS.cyclic}"/></marker>`,
+        '</defs>',
+    ];
+
+    for (const edge of graph.edges) {
+        const { x1, y1, x2, y2 } = getEdgePoints(positions.get(edge.from)!, positions.get(edge.to)!);
+        const color = edge.cyclic ? GRAPH_COLORS.cyclic : GRAPH_COLORS.edge;
+        const marker = edge.cyclic ? 'arrow-cyclic' : 'arrow';
+        lines.push(`<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="${color}" marker-end="url(#${marker})"/>`);
+    }
+
+    for (const node of graph.nodes.values()) {
+        const { x, y } = positions.get(node.name)!;
+        const fill = node.installed ? GRAPH_COLORS.installed : GRAPH_COLORS.missing;
+        const dash = node.installed ? '' : ' stroke-dasharray="4 2"';
+        const strokeWidth = node.name === graph.root ? 2 : 1;
+        lines.push(
+            `<g><title>${escapeXml(node.id)}</title>` +
+            `<rect x="${x}" y="${y}" width="${nodeWidth}" height="${nodeHeight}" rx="4" fill="${fill}" stroke="${GRAPH_COLORS.border}" stroke-width="${strokeWidth}"${dash}/>` +
+            `<text x="${x + 8}" y="${y + nodeHeight / 2 + 4}">${escapeXml(getNodeLabel(node.name))}</text></g>`
+        );
+    }
+
+    lines.push('</svg>');
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,287 @@
+/*
+ * DependencyGraphView component - Explore dependencies and reverse dependencies as a graph
+ */
+
+import {
+    Breadcrumb,
+    BreadcrumbItem,
+    Button,
+    Flex,
+    FlexItem,
+    FormSelect,
+    FormSelectOption,
+    Label,
+    Spinner,
+    Title,
+} from '@patternfly/react-core';
+import { DownloadIcon, ExclamationCircleIcon, ExclamationTriangleIcon } from '@patternfly/react-icons';
+import React, { useEffect, useState } from 'react';
+
+import {
+    buildDependencyGraph,
+    countCyclicPackages,
+    formatDot,
+    formatSvg,
+    getEdgePoints,
+    getNodeLabel,
+    GRAPH_COLORS,
+    GRAPH_LAYOUT,
+    layoutGraph,
+    MAX_GRAPH_DEPTH,
+    MAX_GRAPH_NODES,
+} from './dependencies';
+import * as PK from './packagekit';
+import { DependencyGraph, GraphDirection } from './types';
+import { getErrorMessage, getPackageName } from './utils';
+
+// Cockpit is loaded as a global via script tag
+declare const cockpit: any;
+
+const DIRECTION_LABELS: Record<GraphDirection, string> = {
+    'depends': 'Dependencies',
+    'required-by': 'Required by',
+    'both': 'Both directions',
+};
+
+// Offer a generated file for download
+function downloadFile(filename: string, type: string, content: string) {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+interface DependencyGraphViewProps {
+    packageId: string;
+    depth?: number;
+    direction?: GraphDirection;
+    onPackageSelect: (packageId: string) => void;
+}
+
+export const DependencyGraphView: React.FC<DependencyGraphViewProps> = ({
+    packageId,
+    depth = 2,
+    direction = 'depends',
+    onPackageSelect,
+}) => {
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [graph, setGraph] = useState<DependencyGraph | null>(null);
+    const name = getPackageName(packageId);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        async function load() {
+            setLoading(true);
+            setError(null);
+
+            try {
+                const result = await buildDependencyGraph(
+                    PK.parsePackageId(packageId),
+                    (id, reverse) => PK.getRelatedPackages(id, reverse),
+                    depth,
+                    direction
+                );
+                if (!cancelled) setGraph(result);
+            } catch (err) {
+                if (!cancelled) setError(getErrorMessage(err));
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        }
+
+        load();
+        return () => {
+            cancelled = true;
+        };
+    }, [packageId, depth, direction]);
+
+    function updateOptions(changes: { depth?: number; direction?: GraphDirection }) {
+        cockpit.location.go(['graph', packageId], {
+            depth: String(changes.depth ?? depth),
+            direction: changes.direction ?? direction,
+        });
+    }
+
+    const layout = graph ? layoutGraph(graph) : null;
+    const missing = graph ? [...graph.nodes.values()].filter(node => !node.installed).length : 0;
+    const cyclic = graph ? countCyclicPackages(graph) : 0;
+
+    return (
+        <Flex className="dependency-graph" direction={{ default: 'column' }} spaceItems={{ default: 'spaceItemsMd' }}>
+            <FlexItem>
+                <Breadcrumb className="pf-v6-u-mb-md">
+                    <BreadcrumbItem to="#/">
+                        Groups
+                    </BreadcrumbItem>
+                    <BreadcrumbItem to={`#/package/${encodeURIComponent(packageId)}`}>
+                        {name}
+                    </BreadcrumbItem>
+                    <BreadcrumbItem isActive>Dependency graph</BreadcrumbItem>
+                </Breadcrumb>
+            </FlexItem>
+
+            <FlexItem>
+                <Flex justifyContent={{ default: 'justifyContentSpaceBetween' }} alignItems={{ default: 'alignItemsCenter' }}>
+                    <FlexItem flex={{ default: 'flex_1' }}>
+                        <Title headingLevel="h1" size="2xl" className="pf-v6-u-mb-sm">Dependency graph of {name}</Title>
+                        {graph && (
+                            <p>
+                                {graph.nodes.size} packages, {missing} not installed
+                                {cyclic > 0 && `, ${cyclic} in dependency cycles`}
+                            </p>
+                        )}
+                    </FlexItem>
+                    <FlexItem>
+                        <Button
+                            variant="secondary"
+                            icon={<DownloadIcon />}
+                            onClick={() => graph && downloadFile(`${name}-dependencies.dot`, 'text/vnd.graphviz', formatDot(graph))}
+                            isDisabled={!graph}
+                        >
+                            Export DOT
+                        </Button>
+                    </FlexItem>
+                    <FlexItem>
+                        <Button
+                            variant="secondary"
+                            icon={<DownloadIcon />}
+                            onClick={() => graph && downloadFile(`${name}-dependencies.svg`, 'image/svg+xml', formatSvg(graph))}
+                            isDisabled={!graph}
+                        >
+                            Export SVG
+                        </Button>
+                    </FlexItem>
+                </Flex>
+            </FlexItem>
+
+            <FlexItem>
+                <Flex alignItems={{ default: 'alignItemsCenter' }}>
+                    <FlexItem>
+                        <FormSelect
+                            value={direction}
+                            onChange={(_, value) => updateOptions({ direction: value as GraphDirection })}
+                            aria-label="Relations to follow"
+                        >
+                            {(Object.keys(DIRECTION_LABELS) as GraphDirection[]).map(key => (
+                                <FormSelectOption key={key} value={key} label={DIRECTION_LABELS[key]} />
+                            ))}
+                        </FormSelect>
+                    </FlexItem>
+                    <FlexItem>
+                        <FormSelect
+                            value={String(depth)}
+                            onChange={(_, value) => updateOptions({ depth: Number(value) })}
+                            aria-label="Depth"
+                        >
+                            {Array.from({ length: MAX_GRAPH_DEPTH }, (_, index) => index + 1).map(level => (
+                                <FormSelectOption key={level} value={String(level)} label={`${level} ${level === 1 ? 'level' : 'levels'}`} />
+                            ))}
+                        </FormSelect>
+                    </FlexItem>
+                    <FlexItem>
+                        <Label isCompact color="green">Installed</Label>
+                        <Label isCompact color="red" className="pf-v6-u-ml-sm">Not installed</Label>
+                        {cyclic > 0 && <Label isCompact color="red" variant="outline" className="pf-v6-u-ml-sm">Cycle</Label>}
+                    </FlexItem>
+                </Flex>
+            </FlexItem>
+
+            {error && (
+                <FlexItem>
+                    <div className="pf-v6-c-alert pf-m-danger" role="alert" aria-live="assertive">
+                        <div className="pf-v6-c-alert__icon">
+                            <ExclamationCircleIcon />
+                        </div>
+                        <p className="pf-v6-c-alert__title">{error}</p>
+                    </div>
+                </FlexItem>
+            )}
+
+            {graph?.truncated && (
+                <FlexItem>
+                    <div className="pf-v6-c-alert pf-m-warning pf-m-inline" role="status">
+                        <div className="pf-v6-c-alert__icon">
+                            <ExclamationTriangleIcon />
+                        </div>
+                        <p className="pf-v6-c-alert__title">
+                            Only the first {MAX_GRAPH_NODES} packages are shown; choose fewer levels to see the complete graph
+                        </p>
+                    </div>
+                </FlexItem>
+            )}
+
+            <FlexItem>
+                {loading ? (
+                    <div className="pf-v6-u-text-align-center pf-v6-u-p-xl">
+                        <Spinner size="xl" aria-label="Loading dependency graph" />
+                        <p className="pf-v6-u-mt-md" aria-live="polite">Following dependencies...</p>
+                    </div>
+                ) : graph && layout && (
+                    <div style={{ overflow: 'auto' }}>
+                        <svg
+                            width={layout.width}
+                            height={layout.height}
+                            viewBox={`0 0 ${layout.width} ${layout.height}`}
+                            fontSize={12}
+                            role="img"
+                            aria-label={`Dependency graph of ${name}`}
+                        >
+                            <defs>
+                                {[['arrow', GRAPH_COLORS.edge], ['arrow-cyclic', GRAPH_COLORS.cyclic]].map(([id, color]) => (
+                                    <marker key={id} id={id} viewBox="0 0 10 10" refX={10} refY={5} markerWidth={6} markerHeight={6} orient="auto">
+                                        <path d="M0,0 L10,5 L0,10 z" fill={color} />
+                                    </marker>
+                                ))}
+                            </defs>
+                            {graph.edges.map(edge => (
+                                <line
+                                    key={`${edge.from} ${edge.to}`}
+                                    {...getEdgePoints(layout.positions.get(edge.from)!, layout.positions.get(edge.to)!)}
+                                    stroke={edge.cyclic ? GRAPH_COLORS.cyclic : GRAPH_COLORS.edge}
+                                    markerEnd={`url(#${edge.cyclic ? 'arrow-cyclic' : 'arrow'})`}
+                                />
+                            ))}
+                            {[...graph.nodes.values()].map(node => {
+                                const { x, y } = layout.positions.get(node.name)!;
+                                const label = `${node.name}, ${node.installed ? 'installed' : 'not installed'}`;
+                                return (
+                                    <g
+                                        key={node.name}
+                                        role="button"
+                                        tabIndex={0}
+                                        aria-label={label}
+                                        style={{ cursor: 'pointer' }}
+                                        onClick={() => onPackageSelect(node.id)}
+                                        onKeyDown={event => {
+                                            if (event.key === 'Enter') onPackageSelect(node.id);
+                                        }}
+                                    >
+                                        <title>{label}</title>
+                                        <rect
+                                            x={x}
+                                            y={y}
+                                            width={GRAPH_LAYOUT.nodeWidth}
+                                            height={GRAPH_LAYOUT.nodeHeight}
+                                            rx={4}
+                                            fill={node.installed ? GRAPH_COLORS.installed : GRAPH_COLORS.missing}
+                                            stroke={GRAPH_COLORS.border}
+                                            strokeWidth={node.name === graph.root ? 2 : 1}
+                                            {...(!node.installed && { strokeDasharray: '4 2' })}
+                                        />
+                                        <text x={x + 8} y={y + GRAPH_LAYOUT.nodeHeight / 2 + 4} fill="#151515">
+                                            {getNodeLabel(node.name)}
+                                        </text>
+                                    </g>
+                                );
+                            })}
+                        </svg>
+                    </div>
+                )}
+            </FlexItem>
+        </Flex>
+    );
+};
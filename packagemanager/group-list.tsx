@@ -11,11 +11,14 @@ import {
     CardTitle,
     EmptyState,
     EmptyStateBody,
+    Label,
     SearchInput,
     Spinner,
     Title,
+    ToggleGroup,
+    ToggleGroupItem,
 } from '@patternfly/react-core';
-import { ExclamationCircleIcon } from '@patternfly/react-icons';
+import { ExclamationCircleIcon, InfoCircleIcon } from '@patternfly/react-icons';
 import {
     Table,
     Tbody,
@@ -26,29 +29,61 @@ import {
 } from '@patternfly/react-table';
 import React, { useEffect, useState, useRef } from 'react';
 
+import { getSectionIndex } from './apt';
+import { useArchitectures } from './architectures';
+import { CartToggleButton } from './cart-view';
+import { matchesTags } from './debtags';
+import { DebtagsFilter, useDebtags } from './debtags-filter';
 import { getGroupInfo, isGroupHidden, PACKAGEKIT_GROUPS } from './groups';
 import * as PK from './packagekit';
-import { GroupInfo, PackageDetails, ProgressData } from './types';
-import { getErrorMessage } from './utils';
+import { PackageStatusLabels, usePackageStatus } from './package-status';
+import { getSectionInfo } from './sections';
+import { useTransactionManager } from './transaction-manager';
+import { useTransactionPreview } from './transaction-preview';
+import { BrowseMode, GroupInfo, PackageDetails, ProgressData } from './types';
+import {
+    getAptPackageName,
+    getErrorMessage,
+    getListingFilter,
+    getPackageTarget,
+    isForeignArchitecture,
+} from './utils';
+
+// Cockpit is loaded as a global via script tag
+declare const cockpit: any;
+
+// Queries that could name a (virtual) Debian package
+const PACKAGE_NAME_PATTERN = /^[a-z0-9][a-z0-9+.-]+$/;
 
 interface GroupListProps {
+    browseBy?: BrowseMode;
     onGroupSelect: (groupId: string) => void;
+    onSectionSelect?: (section: string) => void;
     onPackageSelect?: (packageId: string, groupId?: string) => void;
 }
 
-export const GroupList: React.FC<GroupListProps> = ({ onGroupSelect, onPackageSelect }) => {
+export const GroupList: React.FC<GroupListProps> = ({ browseBy = 'groups', onGroupSelect, onSectionSelect, onPackageSelect }) => {
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [groups, setGroups] = useState<GroupInfo[]>([]);
     const [searchQuery, setSearchQuery] = useState('');
     const [showHidden, setShowHidden] = useState(false);
+    const [sections, setSections] = useState<GroupInfo[] | null>(null);
+    const [sectionsError, setSectionsError] = useState<string | null>(null);
 
     // Package search state
     const [searchResults, setSearchResults] = useState<PackageDetails[]>([]);
     const [searching, setSearching] = useState(false);
     const [searchError, setSearchError] = useState<string | null>(null);
+    const [providerCount, setProviderCount] = useState(0);
+    const [selectedTags, setSelectedTags] = useState<string[]>([]);
     const [operatingOn, setOperatingOn] = useState<string | null>(null);
     const [progress, setProgress] = useState<number>(0);
+    const { confirmTransaction, previewModal } = useTransactionPreview();
+    const { runTransaction, isBusy } = useTransactionManager();
+    const { reload: reloadStatus, withStatus } = usePackageStatus();
+    const { native: nativeArch, foreign: foreignArchs } = useArchitectures();
+    const debtags = useDebtags();
     const [manualSearchTriggered, setManualSearchTriggered] = useState(false);
 
     // Debounce timer
@@ -58,6 +93,13 @@ export const GroupList: React.FC<GroupListProps> = ({ onGroupSelect, onPackageSe
         loadGroups();
     }, []);
 
+    // Sections come from apt metadata, which is only read once they are browsed
+    useEffect(() => {
+        if (browseBy === 'sections' && sections === null) {
+            loadSections();
+        }
+    }, [browseBy]);
+
     // Debounced package search effect
     useEffect(() => {
         // Clear previous timeout
@@ -71,6 +113,8 @@ export const GroupList: React.FC<GroupListProps> = ({ onGroupSelect, onPackageSe
         if (trimmedQuery.length === 0) {
             setSearchResults([]);
             setSearchError(null);
+            setProviderCount(0);
+            setSelectedTags([]);
             setSearching(false);
             setManualSearchTriggered(false);
             return;
@@ -103,7 +147,7 @@ export const GroupList: React.FC<GroupListProps> = ({ onGroupSelect, onPackageSe
         searchTimeoutRef.current = setTimeout(async () => {
             try {
                 // First, search by name to get package IDs
-                const basicResults = await PK.searchNames(trimmedQuery);
+                const basicResults = await PK.searchNames(trimmedQuery, undefined, getListingFilter(foreignArchs));
 
                 // Then get full details including group information
                 if (basicResults.length > 0) {
@@ -114,10 +158,22 @@ export const GroupList: React.FC<GroupListProps> = ({ onGroupSelect, onPackageSe
                     setSearchResults([]);
                 }
 
+                // A name no package has may be a virtual package that others provide
+                const isVirtualCandidate = PACKAGE_NAME_PATTERN.test(trimmedQuery) &&
+                    !basicResults.some(pkg => pkg.name === trimmedQuery);
+                const providers = isVirtualCandidate
+                    ? await PK.whatProvides(trimmedQuery).catch(err => {
+                        console.warn('Failed to look up providers:', err);
+                        return [];
+                    })
+                    : [];
+                setProviderCount(new Set(providers.map(pkg => pkg.name)).size);
+
                 setSearchError(null);
             } catch (err) {
                 setSearchError(getErrorMessage(err));
                 setSearchResults([]);
+                setProviderCount(0);
             } finally {
                 setSearching(false);
             }
@@ -129,7 +185,7 @@ export const GroupList: React.FC<GroupListProps> = ({ onGroupSelect, onPackageSe
                 clearTimeout(searchTimeoutRef.current);
             }
         };
-    }, [searchQuery, manualSearchTriggered]);
+    }, [searchQuery, manualSearchTriggered, foreignArchs]);
 
     async function loadGroups() {
         setLoading(true);
@@ -161,19 +217,48 @@ export const GroupList: React.FC<GroupListProps> = ({ onGroupSelect, onPackageSe
         }
     }
 
+    async function loadSections() {
+        setSectionsError(null);
+
+        try {
+            const index = await getSectionIndex();
+            const loaded: GroupInfo[] = [...index.entries()].map(([section, names]) => ({
+                ...getSectionInfo(section),
+                packageCount: names.length,
+                installedCount: 0,
+            }));
+            setSections(loaded.sort((a, b) => a.name.localeCompare(b.name)));
+        } catch (err) {
+            setSectionsError(getErrorMessage(err));
+            setSections([]);
+        }
+    }
+
     async function handleInstall(pkg: PackageDetails) {
+        const name = getAptPackageName(pkg, nativeArch);
+        const target = getPackageTarget(pkg, nativeArch);
+        const confirmed = await confirmTransaction({
+            title: `Install ${name}`,
+            confirmLabel: 'Install',
+            simulate: () => PK.previewInstallPackage(target),
+            aptArgs: [name],
+        });
+        if (!confirmed) return;
+
         setOperatingOn(pkg.id);
         setProgress(0);
         setSearchError(null);
 
         try {
-            await PK.installPackage(pkg.name, (progressData: ProgressData) => {
+            await runTransaction(`Installing ${name}`, progressCb => PK.installPackage(target, (progressData: ProgressData) => {
+                progressCb(progressData);
                 setProgress(progressData.percentage);
-            });
+            }));
+            await reloadStatus();
 
             // Refresh search results with full details
             if (searchQuery.trim()) {
-                const basicResults = await PK.searchNames(searchQuery.trim());
+                const basicResults = await PK.searchNames(searchQuery.trim(), undefined, getListingFilter(foreignArchs));
                 if (basicResults.length > 0) {
                     const packageIds = basicResults.map(p => p.id);
                     const detailedResults = await PK.getDetails(packageIds);
@@ -191,18 +276,30 @@ export const GroupList: React.FC<GroupListProps> = ({ onGroupSelect, onPackageSe
     }
 
     async function handleRemove(pkg: PackageDetails) {
+        const name = getAptPackageName(pkg, nativeArch);
+        const target = getPackageTarget(pkg, nativeArch);
+        const confirmed = await confirmTransaction({
+            title: `Remove ${name}`,
+            confirmLabel: 'Remove',
+            isDestructive: true,
+            simulate: () => PK.previewRemovePackage(target),
+        });
+        if (!confirmed) return;
+
         setOperatingOn(pkg.id);
         setProgress(0);
         setSearchError(null);
 
         try {
-            await PK.removePackage(pkg.name, (progressData: ProgressData) => {
+            await runTransaction(`Removing ${name}`, progressCb => PK.removePackage(target, (progressData: ProgressData) => {
+                progressCb(progressData);
                 setProgress(progressData.percentage);
-            });
+            }));
+            await reloadStatus();
 
             // Refresh search results with full details
             if (searchQuery.trim()) {
-                const basicResults = await PK.searchNames(searchQuery.trim());
+                const basicResults = await PK.searchNames(searchQuery.trim(), undefined, getListingFilter(foreignArchs));
                 if (basicResults.length > 0) {
                     const packageIds = basicResults.map(p => p.id);
                     const detailedResults = await PK.getDetails(packageIds);
@@ -267,9 +364,11 @@ export const GroupList: React.FC<GroupListProps> = ({ onGroupSelect, onPackageSe
     const hasResults = searchResults.length > 0;
     const isSearchMode = (trimmedQuery.length >= 4) || (trimmedQuery.length >= 2 && manualSearchTriggered);
     const isPartialSearch = trimmedQuery.length > 0 && !isSearchMode;
+    const taggedResults = searchResults.filter(pkg => matchesTags(debtags.tags.get(pkg.name) ?? [], selectedTags));
 
     return (
         <div className="group-list">
+            {previewModal}
             <div className="pf-v6-u-mb-lg">
                 <SearchInput
                     placeholder="Search packages..."
@@ -291,6 +390,21 @@ export const GroupList: React.FC<GroupListProps> = ({ onGroupSelect, onPackageSe
                 </div>
             )}
 
+            {/* Virtual package: link to the providers */}
+            {isSearchMode && providerCount > 0 && (
+                <div className="pf-v6-c-alert pf-m-info pf-m-inline pf-v6-u-mb-md" role="status">
+                    <div className="pf-v6-c-alert__icon">
+                        <InfoCircleIcon />
+                    </div>
+                    <p className="pf-v6-c-alert__title">
+                        {trimmedQuery} is a virtual package provided by {providerCount} {providerCount === 1 ? 'package' : 'packages'}.{' '}
+                        <Button variant="link" isInline onClick={() => cockpit.location.go(['provides', trimmedQuery])}>
+                            Choose a provider
+                        </Button>
+                    </p>
+                </div>
+            )}
+
             {/* Partial search: show hint to type more characters */}
             {isPartialSearch ? (
                 <EmptyState>
@@ -308,30 +422,41 @@ export const GroupList: React.FC<GroupListProps> = ({ onGroupSelect, onPackageSe
                         <p className="pf-v6-u-mt-md" aria-live="polite">Searching packages...</p>
                     </div>
                 ) : searchResults.length === 0 && !searching ? (
-                    <EmptyState>
-                        <Title headingLevel="h2" size="lg">No packages found</Title>
-                        <EmptyStateBody>
-                            No packages match "{searchQuery}"
-                        </EmptyStateBody>
-                    </EmptyState>
+                    providerCount === 0 && (
+                        <EmptyState>
+                            <Title headingLevel="h2" size="lg">No packages found</Title>
+                            <EmptyStateBody>
+                                No packages match "{searchQuery}"
+                            </EmptyStateBody>
+                        </EmptyState>
+                    )
                 ) : (
                     <div>
+                        <div className="pf-v6-u-mb-sm">
+                            <DebtagsFilter
+                                names={searchResults.map(pkg => pkg.name)}
+                                debtags={debtags}
+                                selected={selectedTags}
+                                onChange={setSelectedTags}
+                            />
+                        </div>
                         <div style={{ marginBottom: '0.5rem', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
-                            <Badge>{searchResults.length} packages found</Badge>
+                            <Badge>{taggedResults.length} packages found</Badge>
                             {searching && <Spinner size="md" aria-label="Updating search results" />}
                         </div>
                         <Table aria-label="Package search results" variant="compact">
                             <Thead>
                                 <Tr>
                                     <Th width={20}>Name</Th>
-                                    <Th width={35}>Summary</Th>
+                                    <Th width={25}>Summary</Th>
                                     <Th width={10}>Version</Th>
                                     <Th width={15}>Group</Th>
+                                    <Th width={15}>Status</Th>
                                     <Th width={10} modifier="fitContent"></Th>
                                 </Tr>
                             </Thead>
                             <Tbody>
-                                {searchResults.map((pkg) => {
+                                {taggedResults.map(withStatus).map((pkg) => {
                                     const isOperating = operatingOn === pkg.id;
                                     const groupInfo = getGroupInfo(pkg.group || 'unknown');
                                     return (
@@ -344,6 +469,9 @@ export const GroupList: React.FC<GroupListProps> = ({ onGroupSelect, onPackageSe
                                                 >
                                                     {pkg.name}
                                                 </Button>
+                                                {isForeignArchitecture(pkg.arch, nativeArch) && (
+                                                    <Label isCompact className="pf-v6-u-ml-sm">{pkg.arch}</Label>
+                                                )}
                                             </Td>
                                             <Td modifier="truncate">
                                                 {pkg.summary}
@@ -354,31 +482,39 @@ export const GroupList: React.FC<GroupListProps> = ({ onGroupSelect, onPackageSe
                                             <Td>
                                                 <Badge isRead>{groupInfo.name}</Badge>
                                             </Td>
+                                            <Td>
+                                                <PackageStatusLabels status={pkg.status} isCompact />
+                                            </Td>
                                             <Td modifier="fitContent">
                                                 {isOperating ? (
                                                     <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
                                                         <Spinner size="sm" aria-label={`Processing ${pkg.name}`} /> {progress}%
                                                     </div>
-                                                ) : pkg.installed ? (
-                                                    <Button
-                                                        variant="danger"
-                                                        size="sm"
-                                                        onClick={() => handleRemove(pkg)}
-                                                        isDisabled={operatingOn !== null}
-                                                        aria-label={`Remove ${pkg.name}`}
-                                                    >
-                                                        Remove
-                                                    </Button>
                                                 ) : (
-                                                    <Button
-                                                        variant="primary"
-                                                        size="sm"
-                                                        onClick={() => handleInstall(pkg)}
-                                                        isDisabled={operatingOn !== null}
-                                                        aria-label={`Install ${pkg.name}`}
-                                                    >
-                                                        Install
-                                                    </Button>
+                                                    <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                                                        <CartToggleButton pkg={pkg} isDisabled={operatingOn !== null || isBusy} />
+                                                        {pkg.installed ? (
+                                                            <Button
+                                                                variant="danger"
+                                                                size="sm"
+                                                                onClick={() => handleRemove(pkg)}
+                                                                isDisabled={operatingOn !== null || isBusy}
+                                                                aria-label={`Remove ${pkg.name}`}
+                                                            >
+                                                                Remove
+                                                            </Button>
+                                                        ) : (
+                                                            <Button
+                                                                variant="primary"
+                                                                size="sm"
+                                                                onClick={() => handleInstall(pkg)}
+                                                                isDisabled={operatingOn !== null || isBusy}
+                                                                aria-label={`Install ${pkg.name}`}
+                                                            >
+                                                                Install
+                                                            </Button>
+                                                        )}
+                                                    </div>
                                                 )}
                                             </Td>
                                         </Tr>
@@ -389,36 +525,89 @@ export const GroupList: React.FC<GroupListProps> = ({ onGroupSelect, onPackageSe
                     </div>
                 )
             ) : (
-                /* Group browsing mode: show group cards */
-                filteredGroups.length === 0 ? (
-                    <EmptyState>
-                        <Title headingLevel="h2" size="lg">No groups found</Title>
-                        <EmptyStateBody>
-                            No package groups available
-                        </EmptyStateBody>
-                    </EmptyState>
-                ) : (
-                    <div className="group-gallery-vertical">
-                        {filteredGroups.map(group => (
-                            <Card
-                                key={group.id}
-                                isClickable
-                                variant="secondary"
-                                className="group-card"
-                            >
-                                <CardHeader
-                                    selectableActions={{
-                                        onClickAction: () => onGroupSelect(group.id),
-                                        selectableActionAriaLabelledby: `group-card-title-${group.id}`
-                                    }}
+                /* Browsing mode: show group or section cards */
+                <>
+                    <ToggleGroup aria-label="Browse by" className="pf-v6-u-mb-md">
+                        <ToggleGroupItem
+                            text="Groups"
+                            buttonId="browse-groups"
+                            isSelected={browseBy === 'groups'}
+                            onChange={() => cockpit.location.go([])}
+                        />
+                        <ToggleGroupItem
+                            text="Debian sections"
+                            buttonId="browse-sections"
+                            isSelected={browseBy === 'sections'}
+                            onChange={() => cockpit.location.go([], { browse: 'sections' })}
+                        />
+                    </ToggleGroup>
+                    {browseBy === 'sections' ? (
+                        sections === null ? (
+                            <div className="pf-v6-u-text-align-center pf-v6-u-p-xl">
+                                <Spinner size="xl" aria-label="Loading sections" />
+                                <p className="pf-v6-u-mt-md" aria-live="polite">Reading sections from apt...</p>
+                            </div>
+                        ) : sections.length === 0 ? (
+                            <EmptyState>
+                                <Title headingLevel="h2" size="lg">No sections found</Title>
+                                <EmptyStateBody>
+                                    {sectionsError ?? 'apt lists no packages; refresh the package cache first'}
+                                </EmptyStateBody>
+                            </EmptyState>
+                        ) : (
+                            <div className="group-gallery-vertical">
+                                {sections.map(section => (
+                                    <Card
+                                        key={section.id}
+                                        isClickable
+                                        variant="secondary"
+                                        className="group-card"
+                                    >
+                                        <CardHeader
+                                            selectableActions={{
+                                                onClickAction: () => onSectionSelect?.(section.id),
+                                                selectableActionAriaLabelledby: `section-card-title-${section.id}`
+                                            }}
+                                        >
+                                            <CardTitle id={`section-card-title-${section.id}`}>
+                                                <strong>{section.name}</strong> <Badge isRead>{section.packageCount}</Badge>
+                                            </CardTitle>
+                                        </CardHeader>
+                                        <CardBody>{section.description}</CardBody>
+                                    </Card>
+                                ))}
+                            </div>
+                        )
+                    ) : filteredGroups.length === 0 ? (
+                        <EmptyState>
+                            <Title headingLevel="h2" size="lg">No groups found</Title>
+                            <EmptyStateBody>
+                                No package groups available
+                            </EmptyStateBody>
+                        </EmptyState>
+                    ) : (
+                        <div className="group-gallery-vertical">
+                            {filteredGroups.map(group => (
+                                <Card
+                                    key={group.id}
+                                    isClickable
+                                    variant="secondary"
+                                    className="group-card"
                                 >
-                                    <CardTitle id={`group-card-title-${group.id}`}><strong>{group.name}</strong></CardTitle>
-                                </CardHeader>
-                                <CardBody>{group.description}</CardBody>
-                            </Card>
-                        ))}
-                    </div>
-                )
+                                    <CardHeader
+                                        selectableActions={{
+                                            onClickAction: () => onGroupSelect(group.id),
+                                            selectableActionAriaLabelledby: `group-card-title-${group.id}`
+                                        }}
+                                    >
+                                        <CardTitle id={`group-card-title-${group.id}`}><strong>{group.name}</strong></CardTitle>
+                                    </CardHeader>
+                                    <CardBody>{group.description}</CardBody>
+                                </Card>
+                            ))}
+                        </div>
+                    )}
+                </>
             )}
         </div>
     );
@@ -0,0 +1,250 @@
+/*
+ * Held packages - apt-mark hold status, hold toggle and the held packages view
+ */
+
+import {
+    Badge,
+    Button,
+    EmptyState,
+    EmptyStateBody,
+    Flex,
+    FlexItem,
+    Spinner,
+    Title,
+} from '@patternfly/react-core';
+import { ExclamationCircleIcon, LockIcon, LockOpenIcon } from '@patternfly/react-icons';
+import {
+    Table,
+    Tbody,
+    Td,
+    Th,
+    Thead,
+    Tr,
+} from '@patternfly/react-table';
+import React, { useEffect, useState } from 'react';
+
+import { getHeldPackages, setPackagesHeld } from './apt';
+import * as PK from './packagekit';
+import { useTransactionManager } from './transaction-manager';
+import { PackageInfo } from './types';
+import { getErrorMessage, isPackageHeld, sortPackagesByName } from './utils';
+
+/**
+ * Held packages, loaded when the component mounts
+ * setHeld runs apt-mark and reloads the list; it rejects if apt-mark fails.
+ */
+export function useHeldPackages() {
+    const [held, setHeldPackages] = useState<Set<string>>(new Set());
+    const [loaded, setLoaded] = useState(false);
+
+    useEffect(() => {
+        reload();
+    }, []);
+
+    async function reload() {
+        try {
+            setHeldPackages(await getHeldPackages());
+        } catch (err) {
+            console.warn('Failed to load held packages:', err);
+        } finally {
+            setLoaded(true);
+        }
+    }
+
+    async function setHeld(names: string[], hold: boolean) {
+        await setPackagesHeld(names, hold);
+        await reload();
+    }
+
+    return { held, loaded, reload, setHeld };
+}
+
+interface HoldToggleButtonProps {
+    name: string;
+    isHeld: boolean;
+    onToggle: () => void;
+    isDisabled?: boolean;
+    showLabel?: boolean;
+}
+
+// Button that holds or releases an installed package
+export const HoldToggleButton: React.FC<HoldToggleButtonProps> = ({ name, isHeld, onToggle, isDisabled = false, showLabel = false }) => {
+    const label = isHeld ? `Unhold ${name}` : `Hold ${name} at its installed version`;
+
+    if (showLabel) {
+        return (
+            <Button
+                variant="secondary"
+                onClick={onToggle}
+                isDisabled={isDisabled}
+                icon={isHeld ? <LockOpenIcon /> : <LockIcon />}
+            >
+                {isHeld ? 'Unhold' : 'Hold'}
+            </Button>
+        );
+    }
+
+    return (
+        <Button
+            variant="plain"
+            size="sm"
+            onClick={onToggle}
+            isDisabled={isDisabled}
+            aria-label={label}
+            title={label}
+            icon={isHeld ? <LockIcon /> : <LockOpenIcon />}
+        />
+    );
+};
+
+interface HeldPackagesViewProps {
+    onPackageSelect: (packageId: string) => void;
+}
+
+export const HeldPackagesView: React.FC<HeldPackagesViewProps> = ({ onPackageSelect }) => {
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [packages, setPackages] = useState<PackageInfo[]>([]);
+    const [operatingOn, setOperatingOn] = useState<string | null>(null);
+    const { held, loaded, setHeld } = useHeldPackages();
+    const { isBusy } = useTransactionManager();
+
+    useEffect(() => {
+        if (loaded) {
+            loadPackages();
+        }
+    }, [held, loaded]);
+
+    async function loadPackages() {
+        setError(null);
+
+        try {
+            if (held.size === 0) {
+                setPackages([]);
+                return;
+            }
+            const names = [...new Set([...held].map(name => name.split(':')[0]))];
+            const versions = await PK.resolveAllVersions(names);
+            setPackages(sortPackagesByName(versions.filter(pkg => pkg.installed && isPackageHeld(pkg, held))));
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    async function handleUnhold(names: string[], key: string) {
+        setOperatingOn(key);
+        setError(null);
+
+        try {
+            await setHeld(names, false);
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setOperatingOn(null);
+        }
+    }
+
+    if (loading) {
+        return (
+            <div className="pf-v6-u-text-align-center pf-v6-u-p-xl">
+                <Spinner size="xl" aria-label="Loading held packages" />
+                <p className="pf-v6-u-mt-md" aria-live="polite">Loading held packages...</p>
+            </div>
+        );
+    }
+
+    return (
+        <Flex className="held-packages" direction={{ default: 'column' }} spaceItems={{ default: 'spaceItemsMd' }}>
+            <FlexItem>
+                <Flex justifyContent={{ default: 'justifyContentSpaceBetween' }} alignItems={{ default: 'alignItemsCenter' }}>
+                    <FlexItem flex={{ default: 'flex_1' }}>
+                        <Title headingLevel="h1" size="2xl" className="pf-v6-u-mb-sm">Held packages</Title>
+                        <p>Held packages stay at their installed version and are left out of updates</p>
+                    </FlexItem>
+                    {held.size > 0 && (
+                        <FlexItem>
+                            <Button
+                                variant="secondary"
+                                onClick={() => handleUnhold([...held], 'all')}
+                                isDisabled={operatingOn !== null || isBusy}
+                                isLoading={operatingOn === 'all'}
+                            >
+                                Unhold all
+                            </Button>
+                        </FlexItem>
+                    )}
+                </Flex>
+            </FlexItem>
+
+            {error && (
+                <FlexItem>
+                    <div className="pf-v6-c-alert pf-m-danger" role="alert" aria-live="assertive">
+                        <div className="pf-v6-c-alert__icon">
+                            <ExclamationCircleIcon />
+                        </div>
+                        <p className="pf-v6-c-alert__title">{error}</p>
+                    </div>
+                </FlexItem>
+            )}
+
+            <FlexItem>
+                {packages.length === 0 ? (
+                    <EmptyState>
+                        <Title headingLevel="h2" size="lg">No held packages</Title>
+                        <EmptyStateBody>
+                            Use Hold on a package to keep it at its installed version
+                        </EmptyStateBody>
+                    </EmptyState>
+                ) : (
+                    <div>
+                        <div style={{ marginBottom: '0.5rem' }}>
+                            <Badge>{packages.length} packages</Badge>
+                        </div>
+                        <Table aria-label="Held packages" variant="compact">
+                            <Thead>
+                                <Tr>
+                                    <Th width={25}>Name</Th>
+                                    <Th width={40}>Summary</Th>
+                                    <Th width={15}>Version</Th>
+                                    <Th width={10}>Architecture</Th>
+                                    <Th width={10} modifier="fitContent"></Th>
+                                </Tr>
+                            </Thead>
+                            <Tbody>
+                                {packages.map(pkg => (
+                                    <Tr key={pkg.id}>
+                                        <Td>
+                                            <Button variant="link" isInline onClick={() => onPackageSelect(pkg.id)}>
+                                                {pkg.name}
+                                            </Button>
+                                        </Td>
+                                        <Td modifier="truncate">{pkg.summary}</Td>
+                                        <Td modifier="truncate">{pkg.version}</Td>
+                                        <Td>{pkg.arch}</Td>
+                                        <Td modifier="fitContent">
+                                            {operatingOn === pkg.id ? (
+                                                <Spinner size="md" aria-label={`Releasing ${pkg.name}`} />
+                                            ) : (
+                                                <HoldToggleButton
+                                                    name={pkg.name}
+                                                    isHeld
+                                                    onToggle={() => handleUnhold(
+                                                        [held.has(pkg.name) ? pkg.name : `${pkg.name}:${pkg.arch}`],
+                                                        pkg.id
+                                                    )}
+                                                    isDisabled={operatingOn !== null || isBusy}
+                                                />
+                                            )}
+                                        </Td>
+                                    </Tr>
+                                ))}
+                            </Tbody>
+                        </Table>
+                    </div>
+                )}
+            </FlexItem>
+        </Flex>
+    );
+};
@@ -0,0 +1,399 @@
+/*
+ * HistoryView component - Past package changes from PackageKit, apt and dpkg
+ */
+
+import {
+    Badge,
+    Button,
+    DatePicker,
+    EmptyState,
+    EmptyStateBody,
+    Flex,
+    FlexItem,
+    FormSelect,
+    FormSelectOption,
+    SearchInput,
+    Spinner,
+    Title,
+} from '@patternfly/react-core';
+import { ExclamationCircleIcon, ExclamationTriangleIcon } from '@patternfly/react-icons';
+import {
+    ExpandableRowContent,
+    Table,
+    Tbody,
+    Td,
+    Th,
+    Thead,
+    Tr,
+} from '@patternfly/react-table';
+import React, { useEffect, useState } from 'react';
+
+import { readRotatedLog } from './apt';
+import {
+    filterHistory,
+    HISTORY_ACTION_LABELS,
+    mergeHistory,
+    parseAptHistoryLog,
+    parseDpkgLog,
+    parseOldTransaction,
+    planRollback,
+    resolveRollback,
+    summarizeHistoryEntry,
+} from './history';
+import * as PK from './packagekit';
+import { sequenceTransactions, TransactionTask, useTransactionManager } from './transaction-manager';
+import { useTransactionPreview } from './transaction-preview';
+import {
+    HistoryAction,
+    HistoryEntry,
+    HistoryFilter,
+    HistoryPackage,
+    HistorySource,
+    PkEnum,
+} from './types';
+import { EMPTY_PREVIEW, getErrorMessage, mergePreviews } from './utils';
+
+const SOURCE_LABELS: Record<HistorySource, string> = {
+    packagekit: 'PackageKit',
+    apt: 'apt',
+    dpkg: 'dpkg',
+};
+
+const EMPTY_FILTER: HistoryFilter = { from: '', to: '', packageQuery: '', action: '' };
+
+function formatPackageVersion(pkg: HistoryPackage): string {
+    return pkg.oldVersion ? `${pkg.oldVersion} → ${pkg.version}` : pkg.version;
+}
+
+export const HistoryView: React.FC = () => {
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [unavailable, setUnavailable] = useState<string[]>([]);
+    const [entries, setEntries] = useState<HistoryEntry[]>([]);
+    const [filter, setFilter] = useState<HistoryFilter>(EMPTY_FILTER);
+    const [expanded, setExpanded] = useState<Set<string>>(new Set());
+    const [reverting, setReverting] = useState<string | null>(null);
+    const [revertError, setRevertError] = useState<string | null>(null);
+    const { confirmTransaction, previewModal } = useTransactionPreview();
+    const { runTransaction, isBusy } = useTransactionManager();
+
+    useEffect(() => {
+        loadHistory();
+    }, []);
+
+    async function loadHistory() {
+        setLoading(true);
+        setError(null);
+
+        // A missing source only hides its records, the others are still shown
+        const failed: string[] = [];
+        function readSource<T>(name: string, promise: Promise<T>, fallback: T): Promise<T> {
+            return promise.catch(err => {
+                console.warn(`[HistoryView] Failed to read ${name}:`, err);
+                failed.push(name);
+                return fallback;
+            });
+        }
+
+        try {
+            const [transactions, aptLog, dpkgLog] = await Promise.all([
+                readSource('PackageKit transactions', PK.getOldTransactions(), []),
+                readSource('apt history', readRotatedLog('/var/log/apt/history.log'), ''),
+                readSource('dpkg log', readRotatedLog('/var/log/dpkg.log'), ''),
+            ]);
+
+            if (failed.length === 3) {
+                throw new Error('No package history is available');
+            }
+
+            setEntries(mergeHistory(
+                transactions.map(parseOldTransaction),
+                parseAptHistoryLog(aptLog),
+                parseDpkgLog(dpkgLog)
+            ));
+            setUnavailable(failed);
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    async function handleRevert(entry: HistoryEntry) {
+        setReverting(entry.id);
+        setRevertError(null);
+
+        try {
+            const plan = planRollback(entry);
+            const names = [...new Set([...plan.install, ...plan.remove].map(target => target.name))];
+            const { installIds, removeIds, unavailable } = resolveRollback(plan, await PK.resolveAllVersions(names));
+
+            // Changes that stay as they are: versions no repository offers and upgrades without a logged previous version
+            const leftAsIs = [
+                ...unavailable.map(target => `${target.name} ${target.version} (no longer available)`),
+                ...plan.notRevertable.map(target => `${target.name} ${target.version} (previous version unknown)`),
+            ];
+
+            if (installIds.length === 0 && removeIds.length === 0) {
+                throw new Error(leftAsIs.length > 0
+                    ? `None of the changes can be reverted: ${leftAsIs.join(', ')}`
+                    : 'The system already matches the state before this change');
+            }
+
+            const confirmed = await confirmTransaction({
+                title: `Revert changes from ${entry.start.toLocaleString()}`,
+                confirmLabel: 'Revert',
+                isDestructive: removeIds.length > 0,
+                ...(leftAsIs.length > 0 && {
+                    warning: `This is a partial revert, these packages are left as they are: ${leftAsIs.join(', ')}`,
+                }),
+                simulate: async () => mergePreviews(
+                    installIds.length > 0
+                        ? await PK.simulateInstall(installIds, undefined, PkEnum.TRANSACTION_FLAG_ALLOW_DOWNGRADE)
+                        : EMPTY_PREVIEW,
+                    removeIds.length > 0 ? await PK.simulateRemove(removeIds) : EMPTY_PREVIEW
+                ),
+            });
+            if (!confirmed) return;
+
+            // Restore previous versions before removing packages they may have needed
+            const steps: TransactionTask<void>[] = [];
+            if (installIds.length > 0) {
+                steps.push(progressCb =>
+                    PK.installPackages(installIds, progressCb, PkEnum.TRANSACTION_FLAG_ALLOW_DOWNGRADE));
+            }
+            if (removeIds.length > 0) {
+                steps.push(progressCb => PK.removePackages(removeIds, progressCb));
+            }
+
+            await runTransaction('Reverting changes', sequenceTransactions(steps));
+
+            await loadHistory();
+        } catch (err) {
+            setRevertError(getErrorMessage(err));
+        } finally {
+            setReverting(null);
+        }
+    }
+
+    function updateFilter(changes: Partial<HistoryFilter>) {
+        setFilter(prev => ({ ...prev, ...changes }));
+    }
+
+    function toggleExpanded(id: string) {
+        setExpanded(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    }
+
+    if (loading) {
+        return (
+            <div className="pf-v6-u-text-align-center pf-v6-u-p-xl">
+                <Spinner size="xl" aria-label="Loading history" />
+                <p className="pf-v6-u-mt-md" aria-live="polite">Reading package history...</p>
+            </div>
+        );
+    }
+
+    if (error) {
+        return (
+            <EmptyState>
+                <ExclamationCircleIcon />
+                <Title headingLevel="h1" size="lg">Error loading history</Title>
+                <EmptyStateBody>{error}</EmptyStateBody>
+            </EmptyState>
+        );
+    }
+
+    const filtered = filterHistory(entries, filter);
+    const isFiltered = filter.from || filter.to || filter.packageQuery || filter.action;
+
+    return (
+        <Flex className="history-view" direction={{ default: 'column' }} spaceItems={{ default: 'spaceItemsMd' }}>
+            {previewModal}
+            <FlexItem>
+                <Flex justifyContent={{ default: 'justifyContentSpaceBetween' }} alignItems={{ default: 'alignItemsCenter' }}>
+                    <FlexItem flex={{ default: 'flex_1' }}>
+                        <Title headingLevel="h1" size="2xl" className="pf-v6-u-mb-sm">History</Title>
+                        <p>Package changes made from this page, the apt command line, unattended-upgrades and dpkg</p>
+                    </FlexItem>
+                    <FlexItem>
+                        <Button variant="secondary" onClick={loadHistory}>
+                            Reload
+                        </Button>
+                    </FlexItem>
+                </Flex>
+            </FlexItem>
+
+            {revertError && (
+                <FlexItem>
+                    <div className="pf-v6-c-alert pf-m-danger" role="alert" aria-live="assertive">
+                        <div className="pf-v6-c-alert__icon">
+                            <ExclamationCircleIcon />
+                        </div>
+                        <p className="pf-v6-c-alert__title">{revertError}</p>
+                    </div>
+                </FlexItem>
+            )}
+
+            {unavailable.length > 0 && (
+                <FlexItem>
+                    <div className="pf-v6-c-alert pf-m-warning pf-m-inline" role="alert">
+                        <div className="pf-v6-c-alert__icon">
+                            <ExclamationTriangleIcon />
+                        </div>
+                        <p className="pf-v6-c-alert__title">
+                            Could not read {unavailable.join(', ')}; those changes are not shown
+                        </p>
+                    </div>
+                </FlexItem>
+            )}
+
+            <FlexItem>
+                <Flex alignItems={{ default: 'alignItemsCenter' }}>
+                    <FlexItem>
+                        <DatePicker
+                            value={filter.from}
+                            onChange={(_, value) => updateFilter({ from: value })}
+                            placeholder="From YYYY-MM-DD"
+                            aria-label="Show changes from date"
+                        />
+                    </FlexItem>
+                    <FlexItem>
+                        <DatePicker
+                            value={filter.to}
+                            onChange={(_, value) => updateFilter({ to: value })}
+                            placeholder="To YYYY-MM-DD"
+                            aria-label="Show changes until date"
+                        />
+                    </FlexItem>
+                    <FlexItem flex={{ default: 'flex_1' }}>
+                        <SearchInput
+                            placeholder="Filter by package..."
+                            value={filter.packageQuery}
+                            onChange={(_, value) => updateFilter({ packageQuery: value })}
+                            onClear={() => updateFilter({ packageQuery: '' })}
+                            aria-label="Filter by package name"
+                        />
+                    </FlexItem>
+                    <FlexItem>
+                        <FormSelect
+                            value={filter.action}
+                            onChange={(_, value) => updateFilter({ action: value as HistoryAction | '' })}
+                            aria-label="Filter by action"
+                        >
+                            <FormSelectOption value="" label="All actions" />
+                            {(Object.keys(HISTORY_ACTION_LABELS) as HistoryAction[]).map(action => (
+                                <FormSelectOption key={action} value={action} label={HISTORY_ACTION_LABELS[action]} />
+                            ))}
+                        </FormSelect>
+                    </FlexItem>
+                    {isFiltered && (
+                        <FlexItem>
+                            <Button variant="link" onClick={() => setFilter(EMPTY_FILTER)}>
+                                Clear filters
+                            </Button>
+                        </FlexItem>
+                    )}
+                </Flex>
+            </FlexItem>
+
+            <FlexItem>
+                {filtered.length === 0 ? (
+                    <EmptyState>
+                        <Title headingLevel="h2" size="lg">No changes found</Title>
+                        <EmptyStateBody>
+                            {isFiltered ? 'No recorded changes match the filters' : 'No package changes have been recorded'}
+                        </EmptyStateBody>
+                    </EmptyState>
+                ) : (
+                    <div>
+                        <div style={{ marginBottom: '0.5rem' }}>
+                            <Badge>{filtered.length} entries</Badge>
+                        </div>
+                        <Table aria-label="Package history" variant="compact">
+                            <Thead>
+                                <Tr>
+                                    <Th screenReaderText="Show packages" />
+                                    <Th width={20}>Date</Th>
+                                    <Th width={10}>Source</Th>
+                                    <Th width={30}>Operation</Th>
+                                    <Th width={25}>Changes</Th>
+                                    <Th width={15}>Result</Th>
+                                </Tr>
+                            </Thead>
+                            {filtered.map((entry, rowIndex) => {
+                                const isExpanded = expanded.has(entry.id);
+                                return (
+                                    <Tbody key={entry.id} isExpanded={isExpanded}>
+                                        <Tr>
+                                            <Td
+                                                expand={{
+                                                    rowIndex,
+                                                    isExpanded,
+                                                    onToggle: () => toggleExpanded(entry.id),
+                                                }}
+                                            />
+                                            <Td>{entry.start.toLocaleString()}</Td>
+                                            <Td>
+                                                <Badge isRead={entry.source !== 'packagekit'}>{SOURCE_LABELS[entry.source]}</Badge>
+                                            </Td>
+                                            <Td modifier="truncate">
+                                                {entry.description}
+                                                {entry.requestedBy && (
+                                                    <span className="pf-v6-u-color-200"> ({entry.requestedBy})</span>
+                                                )}
+                                            </Td>
+                                            <Td modifier="truncate">{summarizeHistoryEntry(entry)}</Td>
+                                            <Td>{entry.succeeded ? 'Succeeded' : 'Failed'}</Td>
+                                        </Tr>
+                                        <Tr isExpanded={isExpanded}>
+                                            <Td colSpan={6}>
+                                                <ExpandableRowContent>
+                                                    {entry.error && (
+                                                        <p className="pf-v6-u-mb-sm">
+                                                            <strong>Error:</strong> {entry.error}
+                                                        </p>
+                                                    )}
+                                                    <ul className="pf-v6-c-list">
+                                                        {entry.packages.map(pkg => (
+                                                            <li key={`${pkg.action}:${pkg.name}:${pkg.arch}`}>
+                                                                {HISTORY_ACTION_LABELS[pkg.action]} <strong>{pkg.name}</strong>{' '}
+                                                                <span className="pf-v6-u-color-200">
+                                                                    {formatPackageVersion(pkg)}
+                                                                    {pkg.arch && ` (${pkg.arch})`}
+                                                                    {pkg.automatic && ', automatic'}
+                                                                </span>
+                                                            </li>
+                                                        ))}
+                                                    </ul>
+                                                    <Button
+                                                        variant="secondary"
+                                                        size="sm"
+                                                        className="pf-v6-u-mt-sm"
+                                                        onClick={() => handleRevert(entry)}
+                                                        isDisabled={reverting !== null || isBusy || entry.packages.length === 0}
+                                                        isLoading={reverting === entry.id}
+                                                        aria-label={`Revert changes from ${entry.start.toLocaleString()}`}
+                                                    >
+                                                        Revert
+                                                    </Button>
+                                                </ExpandableRowContent>
+                                            </Td>
+                                        </Tr>
+                                    </Tbody>
+                                );
+                            })}
+                        </Table>
+                    </div>
+                )}
+            </FlexItem>
+        </Flex>
+    );
+};
@@ -0,0 +1,392 @@
+import { describe, it, expect } from 'vitest';
+import {
+    filterHistory,
+    formatDay,
+    mergeHistory,
+    parseAptHistoryLog,
+    parseAptPackageList,
+    parseDpkgLog,
+    parseOldTransaction,
+    planRollback,
+    resolveRollback,
+    summarizeHistoryEntry,
+} from './history';
+import { HistoryEntry, HistoryFilter, PackageInfo, PkEnum } from './types';
+
+const APT_LOG = `
+Start-Date: 2024-01-15  10:23:45
+Commandline: apt install nginx
+Requested-By: alice (1000)
+Install: nginx:amd64 (1.18.0-6), libnginx-mod-stream:amd64 (1.18.0-6, automatic)
+Upgrade: libssl3:amd64 (3.0.2-1, 3.0.11-1)
+End-Date: 2024-01-15  10:23:50
+
+Start-Date: 2024-01-16  03:00:01
+Commandline: /usr/bin/unattended-upgrade
+Remove: oldlib:armhf (0.9)
+Error: Sub-process /usr/bin/dpkg returned an error code (1)
+End-Date: 2024-01-16  03:00:09
+
+Start-Date: 2024-01-17  12:00:00
+Commandline: apt purge foo
+Purge: foo:amd64 (2.0)
+`;
+
+const DPKG_LOG = `2024-01-15 10:23:46 startup archives unpack
+2024-01-15 10:23:46 install nginx:amd64 <none> 1.18.0-6
+2024-01-15 10:23:47 status unpacked nginx:amd64 1.18.0-6
+2024-01-15 10:23:48 configure nginx:amd64 1.18.0-6 <none>
+2024-02-01 09:00:00 startup packages remove
+2024-02-01 09:00:00 remove bar:amd64 1.0 <none>
+2024-02-01 09:00:01 purge bar:amd64 1.0 <none>
+2024-02-01 09:00:02 upgrade baz:arm64 2.0 2.0
+2024-02-01 09:00:03 upgrade qux:arm64 1.0 1.1
+2024-02-01 09:00:04 upgrade quux:arm64 1:2.0 1:1.9~rc1
+`;
+
+function makeEntry(overrides: Partial<HistoryEntry>): HistoryEntry {
+    return {
+        id: 'test',
+        source: 'apt',
+        start: new Date(2024, 0, 1, 12, 0, 0),
+        end: new Date(2024, 0, 1, 12, 0, 10),
+        description: 'apt install test',
+        succeeded: true,
+        packages: [{ name: 'test', arch: 'amd64', version: '1.0', action: 'install' }],
+        ...overrides,
+    };
+}
+
+const NO_FILTER: HistoryFilter = { from: '', to: '', packageQuery: '', action: '' };
+
+describe('parseAptPackageList', () => {
+    it('parses installed packages with automatic flag', () => {
+        const packages = parseAptPackageList('vim:amd64 (2:9.0), vim-runtime:all (2:9.0, automatic)', 'install');
+        expect(packages).toEqual([
+            { name: 'vim', arch: 'amd64', version: '2:9.0', action: 'install' },
+            { name: 'vim-runtime', arch: 'all', version: '2:9.0', action: 'install', automatic: true },
+        ]);
+    });
+
+    it('parses old and new version of upgrades', () => {
+        const packages = parseAptPackageList('curl:arm64 (7.88.1-10, 7.88.1-10+deb12u5)', 'upgrade');
+        expect(packages[0].oldVersion).toBe('7.88.1-10');
+        expect(packages[0].version).toBe('7.88.1-10+deb12u5');
+    });
+
+    it('handles packages without architecture', () => {
+        const packages = parseAptPackageList('foo (1.0)', 'remove');
+        expect(packages[0]).toEqual({ name: 'foo', arch: '', version: '1.0', action: 'remove' });
+    });
+
+    it('returns empty array for empty list', () => {
+        expect(parseAptPackageList('', 'install')).toEqual([]);
+    });
+});
+
+describe('parseAptHistoryLog', () => {
+    it('parses one entry per block', () => {
+        const entries = parseAptHistoryLog(APT_LOG);
+        expect(entries).toHaveLength(3);
+    });
+
+    it('parses dates, command line and requesting user', () => {
+        const [entry] = parseAptHistoryLog(APT_LOG);
+        expect(entry.source).toBe('apt');
+        expect(entry.start).toEqual(new Date(2024, 0, 15, 10, 23, 45));
+        expect(entry.end).toEqual(new Date(2024, 0, 15, 10, 23, 50));
+        expect(entry.description).toBe('apt install nginx');
+        expect(entry.requestedBy).toBe('alice');
+        expect(entry.succeeded).toBe(true);
+    });
+
+    it('collects packages from all action fields', () => {
+        const [entry] = parseAptHistoryLog(APT_LOG);
+        expect(entry.packages.map(pkg => `${pkg.action}:${pkg.name}`)).toEqual([
+            'install:nginx',
+            'install:libnginx-mod-stream',
+            'upgrade:libssl3',
+        ]);
+    });
+
+    it('marks entries with errors as failed', () => {
+        const entry = parseAptHistoryLog(APT_LOG)[1];
+        expect(entry.succeeded).toBe(false);
+        expect(entry.error).toContain('dpkg returned an error');
+        expect(entry.requestedBy).toBeUndefined();
+    });
+
+    it('marks entries without end date as failed', () => {
+        const entry = parseAptHistoryLog(APT_LOG)[2];
+        expect(entry.succeeded).toBe(false);
+        expect(entry.end).toEqual(entry.start);
+        expect(entry.packages[0].action).toBe('purge');
+    });
+
+    it('returns empty array for empty log', () => {
+        expect(parseAptHistoryLog('')).toEqual([]);
+    });
+});
+
+describe('parseDpkgLog', () => {
+    it('groups nearby lines into one run', () => {
+        const entries = parseDpkgLog(DPKG_LOG);
+        expect(entries).toHaveLength(2);
+        expect(entries[0].source).toBe('dpkg');
+        expect(entries[0].packages).toEqual([
+            { name: 'nginx', arch: 'amd64', version: '1.18.0-6', action: 'install' },
+        ]);
+    });
+
+    it('ignores status and configure lines', () => {
+        const entries = parseDpkgLog(DPKG_LOG);
+        expect(entries[0].end).toEqual(new Date(2024, 0, 15, 10, 23, 46));
+    });
+
+    it('replaces a removal by the following purge', () => {
+        const packages = parseDpkgLog(DPKG_LOG)[1].packages;
+        expect(packages.find(pkg => pkg.name === 'bar')).toEqual(
+            { name: 'bar', arch: 'amd64', version: '1.0', action: 'purge' }
+        );
+    });
+
+    it('sorts concatenated rotations by time', () => {
+        // readRotatedLog joins dpkg.log before dpkg.log.1
+        const newest = '2024-03-10 08:00:00 install new:amd64 <none> 1.0\n';
+        const older = '2024-02-01 09:00:00 install old:amd64 <none> 1.0\n2024-02-01 09:00:30 remove gone:amd64 2.0 <none>\n';
+
+        const entries = parseDpkgLog(newest + older);
+        expect(entries).toHaveLength(2);
+        expect(entries[0].start).toEqual(new Date(2024, 1, 1, 9, 0, 0));
+        expect(entries[0].end).toEqual(new Date(2024, 1, 1, 9, 0, 30));
+        expect(entries[0].packages.map(pkg => pkg.name)).toEqual(['old', 'gone']);
+        expect(entries[1].packages.map(pkg => pkg.name)).toEqual(['new']);
+    });
+
+    it('detects reinstalls, upgrades and downgrades', () => {
+        const packages = parseDpkgLog(DPKG_LOG)[1].packages;
+        expect(packages.find(pkg => pkg.name === 'baz')?.action).toBe('reinstall');
+        expect(packages.find(pkg => pkg.name === 'qux')).toEqual(
+            { name: 'qux', arch: 'arm64', version: '1.1', oldVersion: '1.0', action: 'upgrade' }
+        );
+        expect(packages.find(pkg => pkg.name === 'quux')).toEqual(
+            { name: 'quux', arch: 'arm64', version: '1:1.9~rc1', oldVersion: '1:2.0', action: 'downgrade' }
+        );
+    });
+});
+
+describe('parseOldTransaction', () => {
+    const transaction = {
+        path: '/1_abcd',
+        timespec: '2024-01-15T10:23:40Z',
+        succeeded: true,
+        role: PkEnum.ROLE_INSTALL_PACKAGES,
+        duration: 15000,
+        data: 'installing\tnginx;1.18.0-6;amd64;debian\nupdating\tlibssl3;3.0.11-1;amd64;debian\nfinished\tfoo;1;amd64;debian',
+        uid: 1000,
+        cmdline: '/usr/libexec/cockpit-bridge',
+    };
+
+    it('converts timing and role', () => {
+        const entry = parseOldTransaction(transaction);
+        expect(entry.source).toBe('packagekit');
+        expect(entry.start.getTime()).toBe(Date.parse('2024-01-15T10:23:40Z'));
+        expect(entry.end.getTime() - entry.start.getTime()).toBe(15000);
+        expect(entry.description).toBe('Installing packages');
+        expect(entry.requestedBy).toBe('UID 1000');
+    });
+
+    it('parses package data and skips unknown info', () => {
+        const entry = parseOldTransaction(transaction);
+        expect(entry.packages).toEqual([
+            { name: 'nginx', arch: 'amd64', version: '1.18.0-6', action: 'install' },
+            { name: 'libssl3', arch: 'amd64', version: '3.0.11-1', action: 'upgrade' },
+        ]);
+    });
+
+    it('accepts numeric info values', () => {
+        const entry = parseOldTransaction({ ...transaction, data: `${PkEnum.INFO_REMOVING}\tfoo;1.0;all;installed` });
+        expect(entry.packages[0].action).toBe('remove');
+    });
+});
+
+describe('mergeHistory', () => {
+    const pk = makeEntry({ id: 'pk', source: 'packagekit' });
+    const aptDuringPk = makeEntry({ id: 'apt1', start: new Date(2024, 0, 1, 12, 0, 5) });
+    const aptLater = makeEntry({ id: 'apt2', start: new Date(2024, 0, 2, 8, 0, 0), end: new Date(2024, 0, 2, 8, 1, 0) });
+    const dpkgDuringApt = makeEntry({ id: 'dpkg1', source: 'dpkg', start: new Date(2024, 0, 2, 8, 0, 30) });
+    const dpkgAlone = makeEntry({ id: 'dpkg2', source: 'dpkg', start: new Date(2024, 0, 3, 8, 0, 0) });
+
+    it('drops records of operations already covered by another source', () => {
+        const merged = mergeHistory([pk], [aptDuringPk, aptLater], [dpkgDuringApt, dpkgAlone]);
+        expect(merged.map(entry => entry.id)).toEqual(['dpkg2', 'apt2', 'pk']);
+    });
+
+    it('adds previous versions from the apt record of a PackageKit transaction', () => {
+        const pkUpgrade = makeEntry({
+            id: 'pk',
+            source: 'packagekit',
+            packages: [{ name: 'curl', arch: 'amd64', version: '2.0', action: 'upgrade' }],
+        });
+        const aptUpgrade = makeEntry({
+            id: 'apt',
+            start: new Date(2024, 0, 1, 12, 0, 3),
+            packages: [{ name: 'curl', arch: 'amd64', version: '2.0', oldVersion: '1.0', action: 'upgrade' }],
+        });
+        const merged = mergeHistory([pkUpgrade], [aptUpgrade], []);
+        expect(merged).toHaveLength(1);
+        expect(merged[0].source).toBe('packagekit');
+        expect(merged[0].packages[0].oldVersion).toBe('1.0');
+        expect(pkUpgrade.packages[0].oldVersion).toBeUndefined();
+    });
+
+    it('ignores PackageKit transactions without package changes', () => {
+        const refresh = makeEntry({ id: 'refresh', source: 'packagekit', packages: [] });
+        const merged = mergeHistory([refresh], [aptDuringPk], []);
+        expect(merged.map(entry => entry.id)).toEqual(['apt1']);
+    });
+});
+
+describe('formatDay', () => {
+    it('formats local date with zero padding', () => {
+        expect(formatDay(new Date(2024, 2, 5, 23, 59))).toBe('2024-03-05');
+    });
+});
+
+describe('filterHistory', () => {
+    const entries = [
+        makeEntry({ id: 'a', start: new Date(2024, 0, 10, 9, 0) }),
+        makeEntry({
+            id: 'b',
+            start: new Date(2024, 0, 20, 9, 0),
+            packages: [{ name: 'nginx', arch: 'amd64', version: '1.0', action: 'remove' }],
+        }),
+    ];
+
+    it('returns all entries without criteria', () => {
+        expect(filterHistory(entries, NO_FILTER)).toHaveLength(2);
+    });
+
+    it('filters by day range inclusively', () => {
+        expect(filterHistory(entries, { ...NO_FILTER, from: '2024-01-20' }).map(e => e.id)).toEqual(['b']);
+        expect(filterHistory(entries, { ...NO_FILTER, to: '2024-01-10' }).map(e => e.id)).toEqual(['a']);
+    });
+
+    it('filters by package name case-insensitively', () => {
+        expect(filterHistory(entries, { ...NO_FILTER, packageQuery: 'NGI' }).map(e => e.id)).toEqual(['b']);
+    });
+
+    it('filters by action', () => {
+        expect(filterHistory(entries, { ...NO_FILTER, action: 'install' }).map(e => e.id)).toEqual(['a']);
+    });
+
+    it('requires package and action to match the same package', () => {
+        expect(filterHistory(entries, { ...NO_FILTER, packageQuery: 'nginx', action: 'install' })).toEqual([]);
+    });
+});
+
+describe('summarizeHistoryEntry', () => {
+    it('counts packages per action', () => {
+        const entry = makeEntry({
+            packages: [
+                { name: 'a', arch: 'amd64', version: '1', action: 'upgrade' },
+                { name: 'b', arch: 'amd64', version: '1', action: 'install' },
+                { name: 'c', arch: 'amd64', version: '1', action: 'install' },
+            ],
+        });
+        expect(summarizeHistoryEntry(entry)).toBe('2 installed, 1 upgraded');
+    });
+
+    it('handles entries without packages', () => {
+        expect(summarizeHistoryEntry(makeEntry({ packages: [] }))).toBe('No package changes');
+    });
+});
+
+describe('planRollback', () => {
+    it('reverses each kind of change', () => {
+        const plan = planRollback(makeEntry({
+            packages: [
+                { name: 'new', arch: 'amd64', version: '1.0', action: 'install' },
+                { name: 'gone', arch: 'amd64', version: '2.0', action: 'remove' },
+                { name: 'purged', arch: 'all', version: '3.0', action: 'purge' },
+                { name: 'up', arch: 'amd64', version: '1.1', oldVersion: '1.0', action: 'upgrade' },
+                { name: 'down', arch: 'amd64', version: '0.9', oldVersion: '1.0', action: 'downgrade' },
+                { name: 'same', arch: 'amd64', version: '1.0', action: 'reinstall' },
+            ],
+        }));
+        expect(plan.remove).toEqual([{ name: 'new', arch: 'amd64', version: '1.0' }]);
+        expect(plan.notRevertable).toEqual([]);
+        expect(plan.install).toEqual([
+            { name: 'gone', arch: 'amd64', version: '2.0' },
+            { name: 'purged', arch: 'all', version: '3.0' },
+            { name: 'up', arch: 'amd64', version: '1.0' },
+            { name: 'down', arch: 'amd64', version: '1.0' },
+        ]);
+    });
+
+    it('reports upgrades and downgrades without a known previous version as not revertable', () => {
+        const plan = planRollback(makeEntry({
+            packages: [
+                { name: 'up', arch: 'amd64', version: '1.1', action: 'upgrade' },
+                { name: 'down', arch: 'amd64', version: '0.9', action: 'downgrade' },
+            ],
+        }));
+        expect(plan.install).toEqual([]);
+        expect(plan.notRevertable).toEqual([
+            { name: 'up', arch: 'amd64', version: '1.1' },
+            { name: 'down', arch: 'amd64', version: '0.9' },
+        ]);
+    });
+});
+
+describe('resolveRollback', () => {
+    function pkg(name: string, version: string, arch: string, installed: boolean): PackageInfo {
+        return {
+            id: `${name};${version};${arch};${installed ? 'installed' : 'debian'}`,
+            name,
+            version,
+            arch,
+            repo: installed ? 'installed' : 'debian',
+            summary: '',
+            installed,
+        };
+    }
+
+    const packages = [
+        pkg('curl', '2.0', 'amd64', true),
+        pkg('curl', '1.0', 'amd64', false),
+        pkg('vim', '9.0', 'amd64', true),
+        pkg('nano', '7.0', 'amd64', false),
+    ];
+
+    it('finds available package IDs of the wanted versions', () => {
+        const resolved = resolveRollback({
+            install: [{ name: 'curl', arch: 'amd64', version: '1.0' }, { name: 'nano', arch: '', version: '7.0' }],
+            remove: [],
+            notRevertable: [],
+        }, packages);
+        expect(resolved.installIds).toEqual(['curl;1.0;amd64;debian', 'nano;7.0;amd64;debian']);
+        expect(resolved.unavailable).toEqual([]);
+    });
+
+    it('reports versions no repository provides', () => {
+        const resolved = resolveRollback({ install: [{ name: 'curl', arch: 'amd64', version: '0.5' }], remove: [], notRevertable: [] }, packages);
+        expect(resolved.installIds).toEqual([]);
+        expect(resolved.unavailable).toEqual([{ name: 'curl', arch: 'amd64', version: '0.5' }]);
+    });
+
+    it('skips versions that are already installed', () => {
+        const resolved = resolveRollback({ install: [{ name: 'vim', arch: 'amd64', version: '9.0' }], remove: [], notRevertable: [] }, packages);
+        expect(resolved.installIds).toEqual([]);
+        expect(resolved.unavailable).toEqual([]);
+    });
+
+    it('removes the currently installed version', () => {
+        const resolved = resolveRollback({
+            install: [],
+            remove: [{ name: 'vim', arch: 'amd64', version: '8.0' }, { name: 'nano', arch: 'amd64', version: '7.0' }],
+            notRevertable: [],
+        }, packages);
+        expect(resolved.removeIds).toEqual(['vim;9.0;amd64;installed']);
+    });
+});
@@ -0,0 +1,414 @@
+/*
+ * Transaction history - Parsing and merging of PackageKit, apt and dpkg records
+ *
+ * PackageKit only knows about transactions it ran itself. Operations from the
+ * apt CLI or unattended-upgrades are recorded in /var/log/apt/history.log, and
+ * direct dpkg calls only in /var/log/dpkg.log. The same operation usually
+ * appears in more than one of these, so mergeHistory() keeps the most
+ * descriptive record of each.
+ */
+
+import {
+    HistoryAction,
+    HistoryEntry,
+    HistoryFilter,
+    HistoryPackage,
+    OldTransaction,
+    PackageInfo,
+    PackageTarget,
+    PkEnum,
+    ResolvedRollback,
+    RollbackPlan,
+} from './types';
+import { compareDebianVersions, getRoleLabel } from './utils';
+
+// Records of one operation in different logs start within this many ms of each other
+const MATCH_TOLERANCE = 5000;
+
+// dpkg log lines further apart than this belong to different runs
+const DPKG_RUN_GAP = 60 * 1000;
+
+export const HISTORY_ACTION_LABELS: Record<HistoryAction, string> = {
+    install: 'Installed',
+    upgrade: 'Upgraded',
+    downgrade: 'Downgraded',
+    reinstall: 'Reinstalled',
+    remove: 'Removed',
+    purge: 'Purged',
+};
+
+// apt history.log field names for each action
+const APT_ACTION_FIELDS: Record<string, HistoryAction> = {
+    'Install': 'install',
+    'Upgrade': 'upgrade',
+    'Downgrade': 'downgrade',
+    'Reinstall': 'reinstall',
+    'Remove': 'remove',
+    'Purge': 'purge',
+};
+
+// PackageKit info of packages in GetOldTransactions data, as enum value or name
+const PK_INFO_ACTIONS: Record<string, HistoryAction> = {
+    [PkEnum.INFO_INSTALLING]: 'install',
+    [PkEnum.INFO_UPDATING]: 'upgrade',
+    [PkEnum.INFO_DOWNGRADING]: 'downgrade',
+    [PkEnum.INFO_REINSTALLING]: 'reinstall',
+    [PkEnum.INFO_REMOVING]: 'remove',
+    [PkEnum.INFO_OBSOLETING]: 'remove',
+    'installing': 'install',
+    'updating': 'upgrade',
+    'downgrading': 'downgrade',
+    'reinstalling': 'reinstall',
+    'removing': 'remove',
+    'obsoleting': 'remove',
+};
+
+/**
+ * Parse a local "YYYY-MM-DD HH:MM:SS" timestamp as written by apt and dpkg
+ */
+function parseLogDate(text: string): Date | null {
+    const match = text.match(/(\d{4})-(\d{2})-(\d{2})\s+(\d{2}):(\d{2}):(\d{2})/);
+    if (!match) return null;
+    const [, year, month, day, hour, minute, second] = match.map(Number);
+    return new Date(year, month - 1, day, hour, minute, second);
+}
+
+/**
+ * Split "name:arch" into its parts (arch is empty if not given)
+ */
+function splitArch(spec: string): { name: string; arch: string } {
+    const colon = spec.indexOf(':');
+    if (colon < 0) {
+        return { name: spec, arch: '' };
+    }
+    return { name: spec.slice(0, colon), arch: spec.slice(colon + 1) };
+}
+
+/**
+ * Parse an apt history.log package list
+ * Format: "nginx:amd64 (1.18.0-6), libssl3:amd64 (3.0.2, 3.0.11, automatic)"
+ */
+export function parseAptPackageList(text: string, action: HistoryAction): HistoryPackage[] {
+    const packages: HistoryPackage[] = [];
+    const pattern = /([^\s,()]+) \(([^)]*)\)/g;
+    let match;
+
+    while ((match = pattern.exec(text)) !== null) {
+        const { name, arch } = splitArch(match[1]);
+        const fields = match[2].split(',').map(field => field.trim());
+        const automatic = fields[fields.length - 1] === 'automatic';
+        const versions = automatic ? fields.slice(0, -1) : fields;
+
+        // Upgrades and downgrades list the old version first
+        const pkg: HistoryPackage = versions.length > 1
+            ? { name, arch, version: versions[1], oldVersion: versions[0], action }
+            : { name, arch, version: versions[0] || '', action };
+        if (automatic) {
+            pkg.automatic = true;
+        }
+        packages.push(pkg);
+    }
+
+    return packages;
+}
+
+/**
+ * Parse /var/log/apt/history.log contents into history entries
+ */
+export function parseAptHistoryLog(text: string): HistoryEntry[] {
+    const entries: HistoryEntry[] = [];
+
+    text.split(/\n\s*\n/).forEach(block => {
+        const fields = new Map<string, string>();
+        block.split('\n').forEach(line => {
+            const colon = line.indexOf(': ');
+            if (colon > 0) {
+                fields.set(line.slice(0, colon).trim(), line.slice(colon + 2).trim());
+            }
+        });
+
+        const start = parseLogDate(fields.get('Start-Date') || '');
+        if (!start) return;
+        const end = parseLogDate(fields.get('End-Date') || '');
+
+        const packages: HistoryPackage[] = [];
+        Object.entries(APT_ACTION_FIELDS).forEach(([field, action]) => {
+            const list = fields.get(field);
+            if (list) {
+                packages.push(...parseAptPackageList(list, action));
+            }
+        });
+
+        const entry: HistoryEntry = {
+            id: `apt-${start.getTime()}-${entries.length}`,
+            source: 'apt',
+            start,
+            end: end || start,
+            description: fields.get('Commandline') || 'apt',
+            // Interrupted runs have no End-Date
+            succeeded: !!end && !fields.has('Error'),
+            packages,
+        };
+        const requestedBy = fields.get('Requested-By');
+        if (requestedBy) {
+            // "user (1000)" -> "user"
+            entry.requestedBy = requestedBy.replace(/\s*\(\d+\)$/, '');
+        }
+        const error = fields.get('Error');
+        if (error) {
+            entry.error = error;
+        }
+        entries.push(entry);
+    });
+
+    return entries;
+}
+
+/**
+ * Parse /var/log/dpkg.log contents into history entries, one per dpkg run
+ * Only package state changes are kept, e.g. "2024-01-15 10:23:46 install nginx:amd64 <none> 1.18.0-6"
+ * Rotated logs may be concatenated in any order, so lines are sorted by time before grouping.
+ */
+export function parseDpkgLog(text: string): HistoryEntry[] {
+    const changes: { time: Date; pkg: HistoryPackage }[] = [];
+
+    text.split('\n').forEach(line => {
+        const parts = line.trim().split(/\s+/);
+        if (parts.length < 6 || !['install', 'upgrade', 'remove', 'purge'].includes(parts[2])) {
+            return;
+        }
+        const time = parseLogDate(`${parts[0]} ${parts[1]}`);
+        if (!time) return;
+
+        const [, , operation, spec, oldVersion, newVersion] = parts;
+        const { name, arch } = splitArch(spec);
+
+        let pkg: HistoryPackage;
+        if (operation === 'install') {
+            pkg = { name, arch, version: newVersion, action: 'install' };
+        } else if (operation === 'upgrade') {
+            // dpkg logs reinstalls and downgrades as upgrades
+            const comparison = compareDebianVersions(newVersion, oldVersion);
+            pkg = comparison === 0
+                ? { name, arch, version: newVersion, action: 'reinstall' }
+                : { name, arch, version: newVersion, oldVersion, action: comparison > 0 ? 'upgrade' : 'downgrade' };
+        } else {
+            pkg = { name, arch, version: oldVersion, action: operation as HistoryAction };
+        }
+        changes.push({ time, pkg });
+    });
+
+    // Array.prototype.sort is stable, so lines of the same second keep their order
+    changes.sort((a, b) => a.time.getTime() - b.time.getTime());
+
+    const entries: HistoryEntry[] = [];
+    let current: HistoryEntry | null = null;
+
+    changes.forEach(({ time, pkg }) => {
+        if (!current || time.getTime() - current.end.getTime() > DPKG_RUN_GAP) {
+            current = {
+                id: `dpkg-${time.getTime()}-${entries.length}`,
+                source: 'dpkg',
+                start: time,
+                end: time,
+                description: 'dpkg',
+                succeeded: true,
+                packages: [],
+            };
+            entries.push(current);
+        }
+        current.end = time;
+
+        // A purge following the removal of the same package replaces it
+        const existing = current.packages.findIndex(p => p.name === pkg.name && p.arch === pkg.arch);
+        if (existing >= 0) {
+            current.packages[existing] = pkg;
+        } else {
+            current.packages.push(pkg);
+        }
+    });
+
+    return entries;
+}
+
+/**
+ * Convert a transaction from PackageKit's database into a history entry
+ */
+export function parseOldTransaction(transaction: OldTransaction): HistoryEntry {
+    const start = new Date(transaction.timespec);
+    const packages: HistoryPackage[] = [];
+
+    transaction.data.split('\n').forEach(line => {
+        const [info, packageId] = line.trim().split('\t');
+        const action = PK_INFO_ACTIONS[info];
+        if (!packageId || !action) return;
+        // Package ID format: name;version;arch;repo
+        const [name, version, arch] = packageId.split(';');
+        packages.push({ name, arch: arch || '', version: version || '', action });
+    });
+
+    return {
+        id: `packagekit-${transaction.path}`,
+        source: 'packagekit',
+        start,
+        end: new Date(start.getTime() + transaction.duration),
+        description: getRoleLabel(transaction.role),
+        requestedBy: `UID ${transaction.uid}`,
+        succeeded: transaction.succeeded,
+        packages,
+    };
+}
+
+/**
+ * Check whether an entry started while another one was running
+ */
+function startedDuring(entry: HistoryEntry, other: HistoryEntry): boolean {
+    const start = entry.start.getTime();
+    return start >= other.start.getTime() - MATCH_TOLERANCE && start <= other.end.getTime() + MATCH_TOLERANCE;
+}
+
+/**
+ * Copy previous versions and automatic flags from an apt record of the same operation
+ * PackageKit only stores the version a package ended up with.
+ */
+function addAptDetails(entry: HistoryEntry, aptEntry: HistoryEntry): HistoryEntry {
+    return {
+        ...entry,
+        packages: entry.packages.map(pkg => {
+            const aptPkg = aptEntry.packages.find(other =>
+                other.name === pkg.name && other.version === pkg.version && (!pkg.arch || other.arch === pkg.arch)
+            );
+            return aptPkg ? { ...aptPkg, ...pkg, action: pkg.action } : pkg;
+        }),
+    };
+}
+
+/**
+ * Merge records from all sources into one list, newest first
+ * apt records of PackageKit transactions and dpkg records of apt runs are dropped.
+ */
+export function mergeHistory(
+    packagekit: HistoryEntry[],
+    apt: HistoryEntry[],
+    dpkg: HistoryEntry[]
+): HistoryEntry[] {
+    let pkEntries = packagekit.filter(entry => entry.packages.length > 0);
+    const aptEntries = apt.filter(entry => {
+        const pk = pkEntries.find(other => startedDuring(entry, other));
+        if (pk) {
+            pkEntries = pkEntries.map(other => other === pk ? addAptDetails(other, entry) : other);
+            return false;
+        }
+        return true;
+    });
+    const covering = [...pkEntries, ...aptEntries];
+    const dpkgEntries = dpkg.filter(entry => !covering.some(other => startedDuring(entry, other)));
+
+    return [...covering, ...dpkgEntries].sort((a, b) => b.start.getTime() - a.start.getTime());
+}
+
+/**
+ * Format a date as YYYY-MM-DD in local time
+ */
+export function formatDay(date: Date): string {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Filter history entries by day range, package name and action
+ */
+export function filterHistory(entries: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] {
+    const query = filter.packageQuery.trim().toLowerCase();
+
+    return entries.filter(entry => {
+        const day = formatDay(entry.start);
+        if (filter.from && day < filter.from) return false;
+        if (filter.to && day > filter.to) return false;
+
+        return entry.packages.some(pkg =>
+            (!query || pkg.name.toLowerCase().includes(query)) &&
+            (!filter.action || pkg.action === filter.action)
+        ) || (!query && !filter.action);
+    });
+}
+
+/**
+ * Summarize the changes of an entry, e.g. "2 installed, 1 upgraded"
+ */
+export function summarizeHistoryEntry(entry: HistoryEntry): string {
+    const counts = new Map<HistoryAction, number>();
+    entry.packages.forEach(pkg => counts.set(pkg.action, (counts.get(pkg.action) || 0) + 1));
+
+    const parts = (Object.keys(HISTORY_ACTION_LABELS) as HistoryAction[])
+        .filter(action => counts.has(action))
+        .map(action => `${counts.get(action)} ${HISTORY_ACTION_LABELS[action].toLowerCase()}`);
+
+    return parts.length > 0 ? parts.join(', ') : 'No package changes';
+}
+
+/**
+ * Work out which package versions undo the changes of a history entry
+ * Reinstalls need no undoing; upgrades and downgrades whose previous version was not logged cannot be undone.
+ */
+export function planRollback(entry: HistoryEntry): RollbackPlan {
+    const plan: RollbackPlan = { install: [], remove: [], notRevertable: [] };
+
+    entry.packages.forEach(pkg => {
+        const { name, arch } = pkg;
+        switch (pkg.action) {
+            case 'install':
+                plan.remove.push({ name, arch, version: pkg.version });
+                break;
+            case 'remove':
+            case 'purge':
+                plan.install.push({ name, arch, version: pkg.version });
+                break;
+            case 'upgrade':
+            case 'downgrade':
+                if (pkg.oldVersion) {
+                    plan.install.push({ name, arch, version: pkg.oldVersion });
+                } else {
+                    plan.notRevertable.push({ name, arch, version: pkg.version });
+                }
+                break;
+        }
+    });
+
+    return plan;
+}
+
+function matchesTarget(pkg: PackageInfo, target: PackageTarget): boolean {
+    return pkg.name === target.name && (!target.arch || pkg.arch === target.arch);
+}
+
+/**
+ * Match a rollback plan against the installed and available package versions
+ * Targets that are already in the wanted state are left out.
+ */
+export function resolveRollback(plan: RollbackPlan, packages: PackageInfo[]): ResolvedRollback {
+    const resolved: ResolvedRollback = { installIds: [], removeIds: [], unavailable: [] };
+
+    plan.install.forEach(target => {
+        const versions = packages.filter(pkg => matchesTarget(pkg, target) && pkg.version === target.version);
+        if (versions.some(pkg => pkg.installed)) return;
+
+        const available = versions.find(pkg => !pkg.installed);
+        if (available) {
+            resolved.installIds.push(available.id);
+        } else {
+            resolved.unavailable.push(target);
+        }
+    });
+
+    plan.remove.forEach(target => {
+        // Remove whatever version is installed now
+        const installed = packages.find(pkg => matchesTarget(pkg, target) && pkg.installed);
+        if (installed) {
+            resolved.removeIds.push(installed.id);
+        }
+    });
+
+    return resolved;
+}
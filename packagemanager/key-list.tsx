@@ -0,0 +1,422 @@
+/*
+ * KeyList component - Repository signing keys with their expiry, usage, removal and replacement
+ */
+
+import {
+    Badge,
+    Button,
+    EmptyState,
+    EmptyStateBody,
+    FileUpload,
+    Flex,
+    FlexItem,
+    Form,
+    FormGroup,
+    FormHelperText,
+    HelperText,
+    HelperTextItem,
+    Label,
+    Modal,
+    ModalBody,
+    ModalFooter,
+    ModalHeader,
+    ModalVariant,
+    SearchInput,
+    Spinner,
+    Title,
+} from '@patternfly/react-core';
+import { ExclamationCircleIcon, ExclamationTriangleIcon, SyncAltIcon, TrashIcon } from '@patternfly/react-icons';
+import {
+    ExpandableRowContent,
+    Table,
+    Tbody,
+    Td,
+    Th,
+    Thead,
+    Tr,
+} from '@patternfly/react-table';
+import React, { useEffect, useState } from 'react';
+
+import { readKeyrings, readSources, removeKeyring, replaceKeyring } from './apt';
+import {
+    daysUntil,
+    formatFingerprint,
+    getFirstExpiry,
+    getKeyExpiry,
+    getKeyringExpiry,
+    getSourcesUsingKeyring,
+    isTrustedByDefault,
+} from './apt-keys';
+import { isArmoredKey } from './apt-sources';
+import { ConfiguredSource, KeyExpiry, Keyring } from './types';
+import { getErrorMessage } from './utils';
+
+interface ExpiryLabelProps {
+    expiry: KeyExpiry;
+    expires: Date | null;
+}
+
+// Expiry date, highlighted once the key expired or expires soon
+export const ExpiryLabel: React.FC<ExpiryLabelProps> = ({ expiry, expires }) => {
+    if (expiry === 'expired') {
+        return <Label color="red" isCompact icon={<ExclamationCircleIcon />}>Expired</Label>;
+    }
+    if (expiry === 'expiring' && expires) {
+        return (
+            <Label color="orange" isCompact icon={<ExclamationTriangleIcon />}>
+                Expires in {daysUntil(expires)} days
+            </Label>
+        );
+    }
+    return <>{expires ? expires.toLocaleDateString() : 'Never'}</>;
+};
+
+interface ReplaceKeyModalProps {
+    keyring: Keyring;
+    onConfirm: (armoredKey: string) => void;
+    onCancel: () => void;
+}
+
+const ReplaceKeyModal: React.FC<ReplaceKeyModalProps> = ({ keyring, onConfirm, onCancel }) => {
+    const [key, setKey] = useState('');
+    const [filename, setFilename] = useState('');
+    const keyError = isArmoredKey(key) ? null : 'Paste or upload an ASCII-armored public key';
+
+    return (
+        <Modal variant={ModalVariant.medium} isOpen onClose={onCancel} aria-labelledby="replace-key-title">
+            <ModalHeader title="Replace key" labelId="replace-key-title" />
+            <ModalBody>
+                <p className="pf-v6-u-mb-md">
+                    All keys in <strong>{keyring.path}</strong> are replaced by the new key, e.g. one the vendor
+                    published after rotating its key.
+                </p>
+                <Form>
+                    <FormGroup label="New public key" isRequired fieldId="replace-key">
+                        <FileUpload
+                            id="replace-key"
+                            type="text"
+                            value={key}
+                            filename={filename}
+                            filenamePlaceholder="Drag a key file here, upload it or paste it below"
+                            browseButtonText="Upload"
+                            allowEditingUploadedText
+                            onFileInputChange={(_, file) => setFilename(file.name)}
+                            onDataChange={(_, data) => setKey(data)}
+                            onTextChange={(_, text) => setKey(text)}
+                            onClearClick={() => {
+                                setKey('');
+                                setFilename('');
+                            }}
+                            validated={key && keyError ? 'error' : 'default'}
+                        />
+                        {key && keyError && (
+                            <FormHelperText>
+                                <HelperText>
+                                    <HelperTextItem variant="error">{keyError}</HelperTextItem>
+                                </HelperText>
+                            </FormHelperText>
+                        )}
+                    </FormGroup>
+                </Form>
+            </ModalBody>
+            <ModalFooter>
+                <Button variant="primary" onClick={() => onConfirm(key)} isDisabled={!!keyError}>
+                    Replace
+                </Button>
+                <Button variant="link" onClick={onCancel}>
+                    Cancel
+                </Button>
+            </ModalFooter>
+        </Modal>
+    );
+};
+
+interface RemoveKeyModalProps {
+    keyring: Keyring;
+    usedBy: ConfiguredSource[];
+    onConfirm: () => void;
+    onCancel: () => void;
+}
+
+const RemoveKeyModal: React.FC<RemoveKeyModalProps> = ({ keyring, usedBy, onConfirm, onCancel }) => (
+    <Modal variant={ModalVariant.small} isOpen onClose={onCancel} aria-labelledby="remove-key-title">
+        <ModalHeader title="Remove key" labelId="remove-key-title" />
+        <ModalBody>
+            <p className="pf-v6-u-mb-md">
+                <strong>{keyring.path}</strong> will be deleted.
+            </p>
+            {usedBy.length > 0 && (
+                <div className="pf-v6-c-alert pf-m-warning pf-m-inline" role="alert">
+                    <div className="pf-v6-c-alert__icon">
+                        <ExclamationTriangleIcon />
+                    </div>
+                    <p className="pf-v6-c-alert__title">
+                        {usedBy.length === 1 ? '1 source' : `${usedBy.length} sources`} can no longer be verified
+                        and will fail to update
+                    </p>
+                </div>
+            )}
+        </ModalBody>
+        <ModalFooter>
+            <Button variant="danger" onClick={onConfirm}>
+                Remove
+            </Button>
+            <Button variant="link" onClick={onCancel}>
+                Cancel
+            </Button>
+        </ModalFooter>
+    </Modal>
+);
+
+export const KeyList: React.FC = () => {
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [keyrings, setKeyrings] = useState<Keyring[]>([]);
+    const [sources, setSources] = useState<ConfiguredSource[]>([]);
+    const [searchQuery, setSearchQuery] = useState('');
+    const [expanded, setExpanded] = useState<Set<string>>(new Set());
+    const [replacing, setReplacing] = useState<Keyring | null>(null);
+    const [removing, setRemoving] = useState<Keyring | null>(null);
+    const [operatingOn, setOperatingOn] = useState<string | null>(null);
+
+    useEffect(() => {
+        loadKeys();
+    }, []);
+
+    async function loadKeys() {
+        setError(null);
+
+        try {
+            const [keys, configured] = await Promise.all([readKeyrings(), readSources()]);
+            setKeyrings(keys);
+            setSources(configured);
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    function toggleExpanded(path: string) {
+        setExpanded(prev => {
+            const next = new Set(prev);
+            if (next.has(path)) {
+                next.delete(path);
+            } else {
+                next.add(path);
+            }
+            return next;
+        });
+    }
+
+    async function runOperation(keyring: Keyring, operation: () => Promise<void>) {
+        setOperatingOn(keyring.path);
+        setError(null);
+
+        try {
+            await operation();
+            await loadKeys();
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setOperatingOn(null);
+        }
+    }
+
+    if (loading) {
+        return (
+            <div className="pf-v6-u-text-align-center pf-v6-u-p-xl">
+                <Spinner size="xl" aria-label="Loading keys" />
+                <p className="pf-v6-u-mt-md" aria-live="polite">Loading keys...</p>
+            </div>
+        );
+    }
+
+    const query = searchQuery.toLowerCase();
+    const filtered = keyrings.filter(keyring => !query ||
+        keyring.path.toLowerCase().includes(query) ||
+        keyring.keys.some(key => key.fingerprint.toLowerCase().includes(query.replace(/\s/g, '')) ||
+            key.uids.some(uid => uid.toLowerCase().includes(query))));
+    const expiringCount = keyrings.filter(keyring => getKeyringExpiry(keyring) !== 'valid').length;
+
+    return (
+        <Flex className="key-list" direction={{ default: 'column' }} spaceItems={{ default: 'spaceItemsMd' }}>
+            {replacing && (
+                <ReplaceKeyModal
+                    keyring={replacing}
+                    onConfirm={armoredKey => {
+                        setReplacing(null);
+                        runOperation(replacing, () => replaceKeyring(replacing.path, armoredKey));
+                    }}
+                    onCancel={() => setReplacing(null)}
+                />
+            )}
+
+            {removing && (
+                <RemoveKeyModal
+                    keyring={removing}
+                    usedBy={getSourcesUsingKeyring(removing.path, sources)}
+                    onConfirm={() => {
+                        setRemoving(null);
+                        runOperation(removing, () => removeKeyring(removing.path));
+                    }}
+                    onCancel={() => setRemoving(null)}
+                />
+            )}
+
+            <FlexItem>
+                <Title headingLevel="h1" size="2xl" className="pf-v6-u-mb-sm">Signing keys</Title>
+                <p>
+                    {keyrings.length} keyrings
+                    {expiringCount > 0 && `, ${expiringCount} expired or expiring within 30 days`}
+                </p>
+            </FlexItem>
+
+            {error && (
+                <FlexItem>
+                    <div className="pf-v6-c-alert pf-m-danger" role="alert" aria-live="assertive">
+                        <div className="pf-v6-c-alert__icon">
+                            <ExclamationCircleIcon />
+                        </div>
+                        <p className="pf-v6-c-alert__title">{error}</p>
+                    </div>
+                </FlexItem>
+            )}
+
+            <FlexItem>
+                <SearchInput
+                    placeholder="Filter by file, fingerprint or user ID..."
+                    value={searchQuery}
+                    onChange={(_, value) => setSearchQuery(value)}
+                    onClear={() => setSearchQuery('')}
+                    aria-label="Filter keys"
+                />
+            </FlexItem>
+
+            <FlexItem>
+                {filtered.length === 0 ? (
+                    <EmptyState>
+                        <Title headingLevel="h2" size="lg">No keys found</Title>
+                        <EmptyStateBody>
+                            {searchQuery ? `No keys match "${searchQuery}"` : 'No keyrings were found'}
+                        </EmptyStateBody>
+                    </EmptyState>
+                ) : (
+                    <div>
+                        <div style={{ marginBottom: '0.5rem' }}>
+                            <Badge>{filtered.length} keyrings</Badge>
+                        </div>
+                        <Table aria-label="Signing keys" variant="compact">
+                            <Thead>
+                                <Tr>
+                                    <Th screenReaderText="Show keys" />
+                                    <Th width={40}>Keyring</Th>
+                                    <Th width={10}>Keys</Th>
+                                    <Th width={15}>Expires</Th>
+                                    <Th width={25}>Used by</Th>
+                                    <Th width={10} modifier="fitContent"></Th>
+                                </Tr>
+                            </Thead>
+                            {filtered.map((keyring, rowIndex) => {
+                                const isExpanded = expanded.has(keyring.path);
+                                const usedBy = getSourcesUsingKeyring(keyring.path, sources);
+
+                                return (
+                                    <Tbody key={keyring.path} isExpanded={isExpanded}>
+                                        <Tr>
+                                            <Td
+                                                expand={{
+                                                    rowIndex,
+                                                    isExpanded,
+                                                    onToggle: () => toggleExpanded(keyring.path),
+                                                }}
+                                            />
+                                            <Td modifier="truncate"><code>{keyring.path}</code></Td>
+                                            <Td>{keyring.keys.length}</Td>
+                                            <Td>
+                                                <ExpiryLabel expiry={getKeyringExpiry(keyring)} expires={getFirstExpiry(keyring)} />
+                                            </Td>
+                                            <Td>
+                                                {isTrustedByDefault(keyring.path)
+                                                    ? 'Sources without Signed-By'
+                                                    : usedBy.length === 0 ? 'Unused' : `${usedBy.length} sources`}
+                                            </Td>
+                                            <Td modifier="fitContent">
+                                                {operatingOn === keyring.path ? (
+                                                    <Spinner size="md" aria-label={`Updating ${keyring.path}`} />
+                                                ) : (
+                                                    <Flex flexWrap={{ default: 'nowrap' }}>
+                                                        <Button
+                                                            variant="plain"
+                                                            size="sm"
+                                                            onClick={() => setReplacing(keyring)}
+                                                            isDisabled={operatingOn !== null}
+                                                            aria-label={`Replace ${keyring.path}`}
+                                                            title="Replace key"
+                                                            icon={<SyncAltIcon />}
+                                                        />
+                                                        <Button
+                                                            variant="plain"
+                                                            size="sm"
+                                                            onClick={() => setRemoving(keyring)}
+                                                            isDisabled={operatingOn !== null}
+                                                            aria-label={`Remove ${keyring.path}`}
+                                                            title="Remove key"
+                                                            icon={<TrashIcon />}
+                                                        />
+                                                    </Flex>
+                                                )}
+                                            </Td>
+                                        </Tr>
+                                        <Tr isExpanded={isExpanded}>
+                                            <Td colSpan={6}>
+                                                <ExpandableRowContent>
+                                                    {keyring.keys.length === 0 && (
+                                                        <p className="pf-v6-u-mb-sm">No keys could be read from this file.</p>
+                                                    )}
+                                                    {keyring.keys.map(key => (
+                                                        <div key={key.fingerprint} className="pf-v6-u-mb-md">
+                                                            <p><code>{formatFingerprint(key.fingerprint)}</code></p>
+                                                            {key.uids.map(uid => <p key={uid}>{uid}</p>)}
+                                                            <p className="pf-v6-u-font-size-sm">
+                                                                Created {key.created ? key.created.toLocaleDateString() : 'unknown'}
+                                                                {' · Expires '}
+                                                                <ExpiryLabel expiry={getKeyExpiry(key)} expires={key.expires} />
+                                                                {key.revoked && ' · Revoked'}
+                                                            </p>
+                                                            {key.signingSubkeys.map(subkey => (
+                                                                <p key={subkey.fingerprint} className="pf-v6-u-font-size-sm pf-v6-u-ml-md">
+                                                                    Signing subkey <code>{formatFingerprint(subkey.fingerprint)}</code>
+                                                                    {' · Expires '}
+                                                                    <ExpiryLabel expiry={getKeyExpiry(subkey)} expires={subkey.expires} />
+                                                                    {subkey.revoked && ' · Revoked'}
+                                                                </p>
+                                                            ))}
+                                                        </div>
+                                                    ))}
+                                                    {usedBy.length > 0 && (
+                                                        <>
+                                                            <strong>Used by:</strong>
+                                                            <ul className="pf-v6-c-list">
+                                                                {usedBy.map(source => (
+                                                                    <li key={`${source.path} ${source.uris.join(' ')} ${source.suites.join(' ')}`}>
+                                                                        {source.uris.join(' ')} {source.suites.join(' ')}
+                                                                        <span className="pf-v6-u-font-size-sm"> ({source.path})</span>
+                                                                    </li>
+                                                                ))}
+                                                            </ul>
+                                                        </>
+                                                    )}
+                                                </ExpandableRowContent>
+                                            </Td>
+                                        </Tr>
+                                    </Tbody>
+                                );
+                            })}
+                        </Table>
+                    </div>
+                )}
+            </FlexItem>
+        </Flex>
+    );
+};
@@ -0,0 +1,45 @@
+/*
+ * Package cache - Package lists shared between views, cleared after transactions change the system
+ */
+
+import React, { createContext, useContext, useState } from 'react';
+
+import { PackageDetails } from './types';
+
+interface PackageCacheContextType {
+    cache: Map<string, PackageDetails[]>;
+    setCache: (groupId: string, packages: PackageDetails[]) => void;
+    clearCache: () => void;
+}
+
+const PackageCacheContext = createContext<PackageCacheContextType | undefined>(undefined);
+
+export function usePackageCache() {
+    const context = useContext(PackageCacheContext);
+    if (!context) {
+        throw new Error('usePackageCache must be used within PackageCacheProvider');
+    }
+    return context;
+}
+
+export const PackageCacheProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [cache, setPackageCache] = useState<Map<string, PackageDetails[]>>(new Map());
+
+    function setCache(groupId: string, packages: PackageDetails[]) {
+        setPackageCache(prev => {
+            const newCache = new Map(prev);
+            newCache.set(groupId, packages);
+            return newCache;
+        });
+    }
+
+    function clearCache() {
+        setPackageCache(new Map());
+    }
+
+    return (
+        <PackageCacheContext.Provider value={{ cache, setCache, clearCache }}>
+            {children}
+        </PackageCacheContext.Provider>
+    );
+};
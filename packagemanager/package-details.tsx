@@ -3,20 +3,30 @@
  */
 
 import {
-    Badge,
     Breadcrumb,
     BreadcrumbItem,
     Button,
+    Checkbox,
     EmptyState,
     EmptyStateBody,
     Flex,
     FlexItem,
-    Progress,
-    ProgressSize,
+    Label,
     Spinner,
+    Tab,
+    Tabs,
+    TabTitleText,
     Title
 } from '@patternfly/react-core';
 import { ExclamationCircleIcon } from '@patternfly/react-icons';
+import {
+    Table,
+    Tbody,
+    Td,
+    Th,
+    Thead,
+    Tr,
+} from '@patternfly/react-table';
 import React, { useEffect, useState } from 'react';
 
 // Cockpit is loaded as a global via script tag
@@ -37,10 +47,68 @@ function usePageLocation() {
     return location;
 }
 
+import { COMPONENT_TYPES } from './appstream';
+import { AppIcon, AppLabel, AppScreenshots, useAppStream } from './appstream-view';
+import { aptInstall, getInstallRecommends, getPackagePolicy, showPackage, simulateAptInstall } from './apt';
+import { formatRelation, getOptionalInstallIds, getOptionalRelations, getSourceName, resolveRelations } from './apt-cache';
+import { NO_RECOMMENDS_OPTIONS, parseAptSimulation } from './apt-get';
+import { useArchitectures } from './architectures';
+import { InstallChains } from './auto-installed';
+import { CartToggleButton } from './cart-view';
+import { PackageChangelog } from './changelog-view';
 import { getGroupInfo } from './groups';
+import { HoldToggleButton } from './held-packages';
 import * as PK from './packagekit';
-import { PackageDetails as PackageDetailsType, ProgressData } from './types';
-import { formatSize, getErrorMessage, getPackageName, getStatusLabel } from './utils';
+import { PackageStatusLabels, usePackageStatus } from './package-status';
+import { getBaseSection, getSectionInfo } from './sections';
+import { useTransactionManager } from './transaction-manager';
+import { useTransactionPreview } from './transaction-preview';
+import { PackageDetails as PackageDetailsType, PackageInfo, PkEnum, ResolvedRelation } from './types';
+import {
+    compareDebianVersions,
+    findUpdateForPackage,
+    formatSize,
+    getAptPackageName,
+    getArchitectureVariants,
+    getErrorMessage,
+    getPackageName,
+    getPackageTarget,
+    groupVersionsByRepository,
+} from './utils';
+
+interface OptionalRelationListProps {
+    title: string;
+    relations: ResolvedRelation[];
+    isSelected?: (relation: ResolvedRelation) => boolean;
+    onSelect?: (relation: ResolvedRelation, selected: boolean) => void;
+}
+
+// Recommended or suggested packages, with checkboxes when they can be chosen for installation
+const OptionalRelationList: React.FC<OptionalRelationListProps> = ({ title, relations, isSelected, onSelect }) => (
+    <ul className="pf-v6-c-list">
+        {relations.map(relation => {
+            const label = formatRelation(relation.alternatives);
+            const status = !relation.package
+                ? <Label isCompact color="grey" className="pf-v6-u-ml-sm">Not available</Label>
+                : relation.package.installed && <Label isCompact color="green" className="pf-v6-u-ml-sm">Installed</Label>;
+
+            return (
+                <li key={label}>
+                    {onSelect && isSelected && relation.package && !relation.package.installed ? (
+                        <Checkbox
+                            id={`${title}-${label}`}
+                            label={label}
+                            isChecked={isSelected(relation)}
+                            onChange={(_event, checked) => onSelect(relation, checked)}
+                        />
+                    ) : (
+                        <>{label}{status}</>
+                    )}
+                </li>
+            );
+        })}
+    </ul>
+);
 
 interface PackageDetailsProps {
     packageId: string;
@@ -55,13 +123,26 @@ export const PackageDetails: React.FC<PackageDetailsProps> = ({ packageId, onBac
     const [dependencies, setDependencies] = useState<string[]>([]);
     const [reverseDeps, setReverseDeps] = useState<string[]>([]);
     const [files, setFiles] = useState<string[]>([]);
+    const [versions, setVersions] = useState<PackageInfo[]>([]);
+    const [recommends, setRecommends] = useState<ResolvedRelation[]>([]);
+    const [suggests, setSuggests] = useState<ResolvedRelation[]>([]);
+    const [aptInstallsRecommends, setAptInstallsRecommends] = useState(true);
+    const [includeRecommends, setIncludeRecommends] = useState(true);
+    const [selectedSuggests, setSelectedSuggests] = useState<Set<string>>(new Set());
+    const [sourceName, setSourceName] = useState<string | null>(null);
+    const [activeTab, setActiveTab] = useState<'details' | 'changelog'>('details');
+    const { native: nativeArch } = useArchitectures();
+    const appstream = useAppStream();
     const [operating, setOperating] = useState(false);
-    const [progress, setProgress] = useState<ProgressData | null>(null);
+    const { confirmTransaction, previewModal } = useTransactionPreview();
+    const { runTransaction, isBusy } = useTransactionManager();
+    const { auto, autoLoaded, setAuto, setHeld, updates, reload: reloadStatus, withStatus } = usePackageStatus();
 
     // Get group context from URL options
     const groupId = typeof options.group === 'string' ? options.group : undefined;
 
     useEffect(() => {
+        setActiveTab('details');
         loadPackageDetails();
     }, [packageId]);
 
@@ -106,6 +187,40 @@ export const PackageDetails: React.FC<PackageDetailsProps> = ({ packageId, onBac
                 console.warn('Failed to load reverse dependencies:', err);
             }
 
+            // Load every version the repositories offer, including older ones and other architectures
+            try {
+                setVersions(await PK.resolveAllVersions([details[0].name]));
+            } catch (err) {
+                console.warn('Failed to load available versions:', err);
+            }
+
+            // Load the source package, section, recommended and suggested packages and whether apt installs recommends by itself
+            try {
+                const stanza = await showPackage(details[0].name);
+                setSourceName(stanza ? getSourceName(stanza) : null);
+                if (stanza?.Section) {
+                    const section = getBaseSection(stanza.Section);
+                    setPkg(current => current && { ...current, section });
+                }
+
+                const relations = getOptionalRelations(stanza);
+                const names = [...new Set([...relations.recommends, ...relations.suggests].flat().map(relation => relation.name))];
+                const [related, policies] = await Promise.all([
+                    names.length > 0 ? PK.resolveAllVersions(names) : [],
+                    getPackagePolicy(names),
+                ]);
+                const candidates = new Map(policies.flatMap(policy => policy.candidate ? [[policy.name, policy.candidate] as const] : []));
+                setRecommends(resolveRelations(relations.recommends, related, details[0].arch, candidates));
+                setSuggests(resolveRelations(relations.suggests, related, details[0].arch, candidates));
+                setSelectedSuggests(new Set());
+
+                const installsRecommends = await getInstallRecommends();
+                setAptInstallsRecommends(installsRecommends);
+                setIncludeRecommends(installsRecommends);
+            } catch (err) {
+                console.warn('Failed to load source, section, recommended and suggested packages:', err);
+            }
+
             // Load files (only if installed)
             if (details[0].installed) {
                 try {
@@ -126,42 +241,147 @@ export const PackageDetails: React.FC<PackageDetailsProps> = ({ packageId, onBac
     async function handleInstall() {
         if (!pkg) return;
 
+        const name = getAptPackageName(pkg, nativeArch);
+        const target = getPackageTarget(pkg, nativeArch);
+
+        // With APT::Install-Recommends apt installs the recommends itself, as automatically installed dependencies
+        const extraIds = getOptionalInstallIds(recommends, suggests, includeRecommends && !aptInstallsRecommends, selectedSuggests);
+        const extraNames = extraIds.map(id => getAptPackageName(PK.parsePackageId(id), nativeArch));
+        // PackageKit follows apt's configuration, so skipping recommends apt would install needs apt-get with an override
+        const skipsRecommends = aptInstallsRecommends && !includeRecommends;
+        const aptArgs = [...(skipsRecommends ? NO_RECOMMENDS_OPTIONS : []), `${name}=${pkg.version}`, ...extraNames];
+
+        const confirmed = await confirmTransaction({
+            title: extraIds.length > 0 ? `Install ${name} and ${extraIds.length} optional packages` : `Install ${name}`,
+            confirmLabel: 'Install',
+            ...(skipsRecommends && {
+                warning: 'apt is configured to install recommended packages (APT::Install-Recommends). ' +
+                    'To skip them for this installation only, it runs with apt-get instead of PackageKit.',
+            }),
+            simulate: skipsRecommends
+                ? async () => parseAptSimulation(await simulateAptInstall(aptArgs))
+                : () => PK.previewInstallPackage(target, undefined, 0, extraIds),
+            aptArgs,
+        });
+        if (!confirmed) return;
+
         setOperating(true);
         setError(null);
 
         try {
-            await PK.installPackage(pkg.name, (progressData: ProgressData) => {
-                setProgress(progressData);
-            });
+            await runTransaction(`Installing ${name}`, progressCb => skipsRecommends
+                ? aptInstall(aptArgs, progressCb)
+                : PK.installPackage(target, progressCb, 0, extraIds));
+
+            // Optional packages were requested by name, which apt marks manual; they belong to the package like its dependencies
+            if (extraIds.length > 0) {
+                await setAuto(extraNames, true);
+            }
 
             // Reload details
-            await loadPackageDetails();
+            await Promise.all([loadPackageDetails(), reloadStatus()]);
         } catch (err) {
             setError(getErrorMessage(err));
         } finally {
             setOperating(false);
-            setProgress(null);
         }
     }
 
     async function handleRemove() {
         if (!pkg) return;
 
+        const name = getAptPackageName(pkg, nativeArch);
+        const target = getPackageTarget(pkg, nativeArch);
+
+        const confirmed = await confirmTransaction({
+            title: `Remove ${name}`,
+            confirmLabel: 'Remove',
+            isDestructive: true,
+            simulate: () => PK.previewRemovePackage(target),
+        });
+        if (!confirmed) return;
+
         setOperating(true);
         setError(null);
 
         try {
-            await PK.removePackage(pkg.name, (progressData: ProgressData) => {
-                setProgress(progressData);
-            });
+            await runTransaction(`Removing ${name}`, progressCb => PK.removePackage(target, progressCb));
 
             // Reload details
-            await loadPackageDetails();
+            await Promise.all([loadPackageDetails(), reloadStatus()]);
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setOperating(false);
+        }
+    }
+
+    async function handleToggleHold() {
+        if (!pkg) return;
+
+        setOperating(true);
+        setError(null);
+
+        try {
+            await setHeld([getAptPackageName(pkg, nativeArch)], !withStatus(pkg).status.held);
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setOperating(false);
+        }
+    }
+
+    async function handleToggleAuto() {
+        if (!pkg) return;
+
+        setOperating(true);
+        setError(null);
+
+        try {
+            await setAuto([getAptPackageName(pkg, nativeArch)], !withStatus(pkg).status.auto);
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setOperating(false);
+        }
+    }
+
+    async function handleInstallVersion(version: PackageInfo) {
+        if (!pkg) return;
+
+        const installed = versions.find(candidate => candidate.installed && candidate.arch === version.arch);
+        const isDowngrade = !!installed && compareDebianVersions(version.version, installed.version) < 0;
+        const flags = isDowngrade ? PkEnum.TRANSACTION_FLAG_ALLOW_DOWNGRADE : 0;
+
+        const confirmed = await confirmTransaction({
+            title: isDowngrade ? `Downgrade ${pkg.name} to ${version.version}` : `Install ${pkg.name} ${version.version}`,
+            confirmLabel: isDowngrade ? 'Downgrade' : 'Install',
+            isDestructive: isDowngrade,
+            ...(isDowngrade && installed && {
+                warning: `${installed.version} will be replaced by the older ${version.version}. Packages that need ` +
+                    `the newer version may be removed, and the next update installs the newer version again ` +
+                    `unless ${pkg.name} is pinned.`,
+            }),
+            simulate: () => PK.previewInstallPackage(version.id, undefined, flags),
+            aptArgs: [`${getAptPackageName(version, nativeArch)}=${version.version}`],
+        });
+        if (!confirmed) return;
+
+        setOperating(true);
+        setError(null);
+
+        try {
+            await runTransaction(
+                `${isDowngrade ? 'Downgrading' : 'Installing'} ${pkg.name} ${version.version}`,
+                progressCb => PK.installPackage(version.id, progressCb, flags)
+            );
+
+            // Reload details
+            await Promise.all([loadPackageDetails(), reloadStatus()]);
         } catch (err) {
             setError(getErrorMessage(err));
         } finally {
             setOperating(false);
-            setProgress(null);
         }
     }
 
@@ -198,9 +418,16 @@ export const PackageDetails: React.FC<PackageDetailsProps> = ({ packageId, onBac
     }
 
     const groupInfo = getGroupInfo(pkg.group || 'unknown');
+    const variants = getArchitectureVariants(versions);
+    const { status } = withStatus(pkg);
+    const pendingUpdate = status.candidate ? findUpdateForPackage(pkg, updates) : undefined;
+    const app = appstream.get(pkg.name);
+    // Only installed packages have a changelog in /usr/share/doc
+    const showChangelog = pkg.installed;
 
     return (
         <Flex className="package-details" direction={{ default: 'column' }} spaceItems={{ default: 'spaceItemsMd' }}>
+            {previewModal}
             <FlexItem>
                 <Breadcrumb className="pf-v6-u-mb-md">
                     <BreadcrumbItem to="#/">
@@ -217,14 +444,23 @@ export const PackageDetails: React.FC<PackageDetailsProps> = ({ packageId, onBac
 
             <FlexItem>
                 <Flex justifyContent={{ default: 'justifyContentSpaceBetween' }} alignItems={{ default: 'alignItemsCenter' }}>
+                    {app?.icon && (
+                        <FlexItem>
+                            <AppIcon component={app} size={64} />
+                        </FlexItem>
+                    )}
                     <FlexItem flex={{ default: 'flex_1' }}>
-                        <Title headingLevel="h1" size="2xl">{pkg.name}</Title>
-                        <p className="pf-v6-u-color-200">{pkg.summary}</p>
+                        <Title headingLevel="h1" size="2xl">
+                            {app ? app.name : pkg.name}
+                            <AppLabel component={app} />
+                        </Title>
+                        <p className="pf-v6-u-color-200">
+                            {app && app.name !== pkg.name && <>{pkg.name} &middot; </>}
+                            {app?.summary || pkg.summary}
+                        </p>
                     </FlexItem>
                     <FlexItem>
-                        <Badge>
-                            {getStatusLabel(pkg.installed)}
-                        </Badge>
+                        <PackageStatusLabels status={status} showManual={autoLoaded} />
                     </FlexItem>
                 </Flex>
             </FlexItem>
@@ -240,185 +476,493 @@ export const PackageDetails: React.FC<PackageDetailsProps> = ({ packageId, onBac
                 </FlexItem>
             )}
 
-            {operating && progress && (
+            {pendingUpdate && (
                 <FlexItem>
-                    <Progress
-                        value={progress.percentage}
-                        title={progress.waiting ? 'Waiting for package manager...' : 'Processing...'}
-                        size={ProgressSize.lg}
-                    />
+                    <div className="pf-v6-c-alert pf-m-info pf-m-inline" role="status">
+                        <p className="pf-v6-c-alert__title">
+                            Version {pendingUpdate.version} is available.{' '}
+                            <Button
+                                variant="link"
+                                isInline
+                                onClick={() => cockpit.location.go(['update', pendingUpdate.id])}
+                            >
+                                View update details
+                            </Button>
+                        </p>
+                    </div>
                 </FlexItem>
             )}
 
             <FlexItem>
-                {pkg.installed ? (
-                    <Button
-                        variant="danger"
-                        onClick={handleRemove}
-                        isDisabled={operating}
-                        isLoading={operating}
-                        aria-label={`Remove ${pkg.name} package`}
-                    >
-                        Remove Package
-                    </Button>
-                ) : (
-                    <Button
-                        variant="primary"
-                        onClick={handleInstall}
-                        isDisabled={operating}
-                        isLoading={operating}
-                        aria-label={`Install ${pkg.name} package`}
-                    >
-                        Install Package
-                    </Button>
-                )}
-            </FlexItem>
-
-            <FlexItem>
-                <Flex direction={{ default: 'column' }} spaceItems={{ default: 'spaceItemsSm' }}>
+                <Flex>
                     <FlexItem>
-                        <Flex alignItems={{ default: 'alignItemsCenter' }}>
-                            <FlexItem flex={{ default: 'flex_1' }}>
-                                <strong>Version:</strong>
-                            </FlexItem>
-                            <FlexItem flex={{ default: 'flex_2' }}>
-                                {pkg.version}
-                            </FlexItem>
-                        </Flex>
+                        {pkg.installed ? (
+                            <Button
+                                variant="danger"
+                                onClick={handleRemove}
+                                isDisabled={operating || isBusy}
+                                isLoading={operating}
+                                aria-label={`Remove ${pkg.name} package`}
+                            >
+                                Remove Package
+                            </Button>
+                        ) : (
+                            <Button
+                                variant="primary"
+                                onClick={handleInstall}
+                                isDisabled={operating || isBusy}
+                                isLoading={operating}
+                                aria-label={`Install ${pkg.name} package`}
+                            >
+                                Install Package
+                            </Button>
+                        )}
                     </FlexItem>
-
                     <FlexItem>
-                        <Flex alignItems={{ default: 'alignItemsCenter' }}>
-                            <FlexItem flex={{ default: 'flex_1' }}>
-                                <strong>Architecture:</strong>
-                            </FlexItem>
-                            <FlexItem flex={{ default: 'flex_2' }}>
-                                {pkg.arch}
-                            </FlexItem>
-                        </Flex>
+                        <CartToggleButton pkg={pkg} isDisabled={operating || isBusy} showLabel />
+                    </FlexItem>
+                    {pkg.installed && (
+                        <FlexItem>
+                            <HoldToggleButton
+                                name={pkg.name}
+                                isHeld={status.held}
+                                onToggle={handleToggleHold}
+                                isDisabled={operating || isBusy}
+                                showLabel
+                            />
+                        </FlexItem>
+                    )}
+                    {pkg.installed && autoLoaded && (
+                        <FlexItem>
+                            <Button
+                                variant="secondary"
+                                onClick={handleToggleAuto}
+                                isDisabled={operating || isBusy}
+                                aria-label={status.auto
+                                    ? `Mark ${pkg.name} as manually installed`
+                                    : `Mark ${pkg.name} as automatically installed, so autoremove can remove it`}
+                            >
+                                {status.auto ? 'Mark as manual' : 'Mark as automatic'}
+                            </Button>
+                        </FlexItem>
+                    )}
+                    <FlexItem>
+                        <Button
+                            variant="secondary"
+                            onClick={() => cockpit.location.go(['pinning'], { package: pkg.name })}
+                            aria-label={`Show versions and pins of ${pkg.name}`}
+                        >
+                            Versions and pinning
+                        </Button>
                     </FlexItem>
+                    <FlexItem>
+                        <Button
+                            variant="secondary"
+                            onClick={() => cockpit.location.go(['graph', pkg.id])}
+                            aria-label={`Show dependency graph of ${pkg.name}`}
+                        >
+                            Dependency graph
+                        </Button>
+                    </FlexItem>
+                </Flex>
+            </FlexItem>
 
+            {showChangelog && (
+                <FlexItem>
+                    <Tabs
+                        activeKey={activeTab}
+                        onSelect={(_, tab) => setActiveTab(tab === 'changelog' ? 'changelog' : 'details')}
+                        aria-label={`${pkg.name} information`}
+                    >
+                        <Tab eventKey="details" title={<TabTitleText>Details</TabTitleText>} />
+                        <Tab eventKey="changelog" title={<TabTitleText>Changelog</TabTitleText>} />
+                    </Tabs>
+                </FlexItem>
+            )}
+
+            {showChangelog && activeTab === 'changelog' ? (
+                <FlexItem>
+                    <PackageChangelog
+                        name={pkg.name}
+                        installedVersion={pkg.version}
+                        {...(pendingUpdate && { candidateVersion: pendingUpdate.version, updateId: pendingUpdate.id })}
+                    />
+                </FlexItem>
+            ) : (
+                <>
                     <FlexItem>
-                        <Flex alignItems={{ default: 'alignItemsCenter' }}>
-                            <FlexItem flex={{ default: 'flex_1' }}>
-                                <strong>Group:</strong>
+                        <Flex direction={{ default: 'column' }} spaceItems={{ default: 'spaceItemsSm' }}>
+                            <FlexItem>
+                                <Flex alignItems={{ default: 'alignItemsCenter' }}>
+                                    <FlexItem flex={{ default: 'flex_1' }}>
+                                        <strong>Version:</strong>
+                                    </FlexItem>
+                                    <FlexItem flex={{ default: 'flex_2' }}>
+                                        {pkg.version}
+                                    </FlexItem>
+                                </Flex>
+                            </FlexItem>
+
+                            <FlexItem>
+                                <Flex alignItems={{ default: 'alignItemsCenter' }}>
+                                    <FlexItem flex={{ default: 'flex_1' }}>
+                                        <strong>Architecture:</strong>
+                                    </FlexItem>
+                                    <FlexItem flex={{ default: 'flex_2' }}>
+                                        {pkg.arch}
+                                        {variants.filter(variant => variant.arch !== pkg.arch).map(variant => (
+                                            <Button
+                                                key={variant.id}
+                                                variant="link"
+                                                isInline
+                                                className="pf-v6-u-ml-md"
+                                                onClick={() => cockpit.location.go(['package', variant.id])}
+                                                aria-label={`Show ${pkg.name} for ${variant.arch}`}
+                                            >
+                                                {variant.arch}{variant.installed && ' (installed)'}
+                                            </Button>
+                                        ))}
+                                    </FlexItem>
+                                </Flex>
                             </FlexItem>
-                            <FlexItem flex={{ default: 'flex_2' }}>
-                                {groupInfo.name}
+
+                            {sourceName && (
+                                <FlexItem>
+                                    <Flex alignItems={{ default: 'alignItemsCenter' }}>
+                                        <FlexItem flex={{ default: 'flex_1' }}>
+                                            <strong>Source package:</strong>
+                                        </FlexItem>
+                                        <FlexItem flex={{ default: 'flex_2' }}>
+                                            <Button
+                                                variant="link"
+                                                isInline
+                                                onClick={() => cockpit.location.go(['sources'], { source: sourceName })}
+                                                aria-label={`Show installed packages built from ${sourceName}`}
+                                            >
+                                                {sourceName}
+                                            </Button>
+                                        </FlexItem>
+                                    </Flex>
+                                </FlexItem>
+                            )}
+
+                            <FlexItem>
+                                <Flex alignItems={{ default: 'alignItemsCenter' }}>
+                                    <FlexItem flex={{ default: 'flex_1' }}>
+                                        <strong>Group:</strong>
+                                    </FlexItem>
+                                    <FlexItem flex={{ default: 'flex_2' }}>
+                                        {groupInfo.name}
+                                    </FlexItem>
+                                </Flex>
                             </FlexItem>
+
+                            {pkg.section && (
+                                <FlexItem>
+                                    <Flex alignItems={{ default: 'alignItemsCenter' }}>
+                                        <FlexItem flex={{ default: 'flex_1' }}>
+                                            <strong>Section:</strong>
+                                        </FlexItem>
+                                        <FlexItem flex={{ default: 'flex_2' }}>
+                                            <Button
+                                                variant="link"
+                                                isInline
+                                                onClick={() => cockpit.location.go(['section', pkg.section])}
+                                                aria-label={`Show packages in section ${pkg.section}`}
+                                            >
+                                                {getSectionInfo(pkg.section).name}
+                                            </Button>
+                                        </FlexItem>
+                                    </Flex>
+                                </FlexItem>
+                            )}
+
+                            {app && (
+                                <FlexItem>
+                                    <Flex alignItems={{ default: 'alignItemsCenter' }}>
+                                        <FlexItem flex={{ default: 'flex_1' }}>
+                                            <strong>Type:</strong>
+                                        </FlexItem>
+                                        <FlexItem flex={{ default: 'flex_2' }}>
+                                            {COMPONENT_TYPES[app.type] ?? app.type}
+                                        </FlexItem>
+                                    </Flex>
+                                </FlexItem>
+                            )}
+
+                            {app && app.categories.length > 0 && (
+                                <FlexItem>
+                                    <Flex alignItems={{ default: 'alignItemsCenter' }}>
+                                        <FlexItem flex={{ default: 'flex_1' }}>
+                                            <strong>Categories:</strong>
+                                        </FlexItem>
+                                        <FlexItem flex={{ default: 'flex_2' }}>
+                                            {app.categories.join(', ')}
+                                        </FlexItem>
+                                    </Flex>
+                                </FlexItem>
+                            )}
+
+                            {app && app.keywords.length > 0 && (
+                                <FlexItem>
+                                    <Flex alignItems={{ default: 'alignItemsCenter' }}>
+                                        <FlexItem flex={{ default: 'flex_1' }}>
+                                            <strong>Keywords:</strong>
+                                        </FlexItem>
+                                        <FlexItem flex={{ default: 'flex_2' }}>
+                                            {app.keywords.join(', ')}
+                                        </FlexItem>
+                                    </Flex>
+                                </FlexItem>
+                            )}
+
+                            {pkg.size !== undefined && (
+                                <FlexItem>
+                                    <Flex alignItems={{ default: 'alignItemsCenter' }}>
+                                        <FlexItem flex={{ default: 'flex_1' }}>
+                                            <strong>Size:</strong>
+                                        </FlexItem>
+                                        <FlexItem flex={{ default: 'flex_2' }}>
+                                            {formatSize(pkg.size)}
+                                        </FlexItem>
+                                    </Flex>
+                                </FlexItem>
+                            )}
+
+                            {pkg.license && (
+                                <FlexItem>
+                                    <Flex alignItems={{ default: 'alignItemsCenter' }}>
+                                        <FlexItem flex={{ default: 'flex_1' }}>
+                                            <strong>License:</strong>
+                                        </FlexItem>
+                                        <FlexItem flex={{ default: 'flex_2' }}>
+                                            {pkg.license}
+                                        </FlexItem>
+                                    </Flex>
+                                </FlexItem>
+                            )}
                         </Flex>
                     </FlexItem>
 
-                    {pkg.size !== undefined && (
+                    {pkg.url && (
                         <FlexItem>
                             <Flex alignItems={{ default: 'alignItemsCenter' }}>
                                 <FlexItem flex={{ default: 'flex_1' }}>
-                                    <strong>Size:</strong>
+                                    <strong>Homepage:</strong>
                                 </FlexItem>
                                 <FlexItem flex={{ default: 'flex_2' }}>
-                                    {formatSize(pkg.size)}
+                                    <a href={pkg.url} target="_blank" rel="noopener noreferrer" aria-label={`Visit ${pkg.name} homepage (opens in new tab)`}>{pkg.url}</a>
                                 </FlexItem>
                             </Flex>
                         </FlexItem>
                     )}
 
-                    {pkg.license && (
+                    <FlexItem>
+                        <Flex direction={{ default: 'column' }}>
+                            <FlexItem>
+                                <strong>Description:</strong>
+                            </FlexItem>
+                            <FlexItem>
+                                {app && app.description.length > 0
+                                    ? app.description.map((paragraph, index) => <p key={index}>{paragraph}</p>)
+                                    : <p>{pkg.description || pkg.summary}</p>}
+                            </FlexItem>
+                        </Flex>
+                    </FlexItem>
+
+                    {app && app.screenshots.length > 0 && (
                         <FlexItem>
-                            <Flex alignItems={{ default: 'alignItemsCenter' }}>
-                                <FlexItem flex={{ default: 'flex_1' }}>
-                                    <strong>License:</strong>
+                            <Flex direction={{ default: 'column' }}>
+                                <FlexItem>
+                                    <strong>Screenshots:</strong>
                                 </FlexItem>
-                                <FlexItem flex={{ default: 'flex_2' }}>
-                                    {pkg.license}
+                                <FlexItem>
+                                    <AppScreenshots screenshots={app.screenshots} />
                                 </FlexItem>
                             </Flex>
                         </FlexItem>
                     )}
-                </Flex>
-            </FlexItem>
 
-            {pkg.url && (
-                <FlexItem>
-                    <Flex alignItems={{ default: 'alignItemsCenter' }}>
-                        <FlexItem flex={{ default: 'flex_1' }}>
-                            <strong>Homepage:</strong>
-                        </FlexItem>
-                        <FlexItem flex={{ default: 'flex_2' }}>
-                            <a href={pkg.url} target="_blank" rel="noopener noreferrer" aria-label={`Visit ${pkg.name} homepage (opens in new tab)`}>{pkg.url}</a>
+                    {versions.length > 1 && (
+                        <FlexItem>
+                            <Flex direction={{ default: 'column' }}>
+                                <FlexItem>
+                                    <strong>Available versions ({versions.length}):</strong>
+                                </FlexItem>
+                                <FlexItem>
+                                    <Table aria-label={`Versions of ${pkg.name}`} variant="compact">
+                                        <Thead>
+                                            <Tr>
+                                                <Th width={30}>Repository</Th>
+                                                <Th width={variants.length > 1 ? 25 : 40}>Version</Th>
+                                                {variants.length > 1 && <Th width={15}>Architecture</Th>}
+                                                <Th width={30} modifier="fitContent"></Th>
+                                            </Tr>
+                                        </Thead>
+                                        <Tbody>
+                                            {[...groupVersionsByRepository(versions).entries()].flatMap(([repo, repoVersions]) =>
+                                                repoVersions.map(version => (
+                                                    <Tr key={version.id}>
+                                                        <Td modifier="truncate">{repo}</Td>
+                                                        <Td>
+                                                            {version.version}{' '}
+                                                            {version.installed && <Label isCompact color="green">Installed</Label>}
+                                                        </Td>
+                                                        {variants.length > 1 && <Td>{version.arch}</Td>}
+                                                        <Td modifier="fitContent">
+                                                            {!versions.some(other => other.installed && other.arch === version.arch && other.version === version.version) && (
+                                                                <Button
+                                                                    variant="secondary"
+                                                                    size="sm"
+                                                                    onClick={() => handleInstallVersion(version)}
+                                                                    isDisabled={operating || isBusy}
+                                                                    aria-label={`Install ${pkg.name} ${version.version} for ${version.arch}`}
+                                                                >
+                                                                    Install this version
+                                                                </Button>
+                                                            )}
+                                                        </Td>
+                                                    </Tr>
+                                                ))
+                                            )}
+                                        </Tbody>
+                                    </Table>
+                                </FlexItem>
+                            </Flex>
                         </FlexItem>
-                    </Flex>
-                </FlexItem>
-            )}
-
-            <FlexItem>
-                <Flex direction={{ default: 'column' }}>
-                    <FlexItem>
-                        <strong>Description:</strong>
-                    </FlexItem>
-                    <FlexItem>
-                        <p>{pkg.description || pkg.summary}</p>
-                    </FlexItem>
-                </Flex>
-            </FlexItem>
+                    )}
 
-            {dependencies.length > 0 && (
-                <FlexItem>
-                    <Flex direction={{ default: 'column' }}>
+                    {dependencies.length > 0 && (
                         <FlexItem>
-                            <strong>Dependencies ({dependencies.length}):</strong>
+                            <Flex direction={{ default: 'column' }}>
+                                <FlexItem>
+                                    <strong>Dependencies ({dependencies.length}):</strong>
+                                </FlexItem>
+                                <FlexItem>
+                                    <ul className="pf-v6-c-list">
+                                        {dependencies.slice(0, 10).map(dep => (
+                                            <li key={dep}>{getPackageName(dep)}</li>
+                                        ))}
+                                        {dependencies.length > 10 && (
+                                            <li>... and {dependencies.length - 10} more</li>
+                                        )}
+                                    </ul>
+                                </FlexItem>
+                            </Flex>
                         </FlexItem>
+                    )}
+
+                    {recommends.length > 0 && (
                         <FlexItem>
-                            <ul className="pf-v6-c-list">
-                                {dependencies.slice(0, 10).map(dep => (
-                                    <li key={dep}>{getPackageName(dep)}</li>
-                                ))}
-                                {dependencies.length > 10 && (
-                                    <li>... and {dependencies.length - 10} more</li>
+                            <Flex direction={{ default: 'column' }}>
+                                <FlexItem>
+                                    <strong>Recommends ({recommends.length}):</strong>
+                                </FlexItem>
+                                {!pkg.installed && (
+                                    <FlexItem>
+                                        <Checkbox
+                                            id="install-recommends"
+                                            label="Install recommended packages"
+                                            isChecked={includeRecommends}
+                                            onChange={(_event, checked) => setIncludeRecommends(checked)}
+                                            {...(aptInstallsRecommends && !includeRecommends && {
+                                                description: 'Overrides APT::Install-Recommends for this installation, which then runs with apt-get',
+                                            })}
+                                        />
+                                    </FlexItem>
                                 )}
-                            </ul>
+                                <FlexItem>
+                                    <OptionalRelationList title="recommends" relations={recommends} />
+                                </FlexItem>
+                            </Flex>
                         </FlexItem>
-                    </Flex>
-                </FlexItem>
-            )}
+                    )}
 
-            {reverseDeps.length > 0 && (
-                <FlexItem>
-                    <Flex direction={{ default: 'column' }}>
+                    {suggests.length > 0 && (
                         <FlexItem>
-                            <strong>Required by ({reverseDeps.length}):</strong>
+                            <Flex direction={{ default: 'column' }}>
+                                <FlexItem>
+                                    <strong>Suggests ({suggests.length}):</strong>
+                                </FlexItem>
+                                <FlexItem>
+                                    <OptionalRelationList
+                                        title="suggests"
+                                        relations={suggests}
+                                        {...(!pkg.installed && {
+                                            isSelected: (relation: ResolvedRelation) => selectedSuggests.has(relation.package!.name),
+                                            onSelect: (relation: ResolvedRelation, selected: boolean) => setSelectedSuggests(prev => {
+                                                const next = new Set(prev);
+                                                if (selected) {
+                                                    next.add(relation.package!.name);
+                                                } else {
+                                                    next.delete(relation.package!.name);
+                                                }
+                                                return next;
+                                            }),
+                                        })}
+                                    />
+                                </FlexItem>
+                            </Flex>
                         </FlexItem>
+                    )}
+
+                    {reverseDeps.length > 0 && (
                         <FlexItem>
-                            <ul className="pf-v6-c-list">
-                                {reverseDeps.slice(0, 10).map(dep => (
-                                    <li key={dep}>{getPackageName(dep)}</li>
-                                ))}
-                                {reverseDeps.length > 10 && (
-                                    <li>... and {reverseDeps.length - 10} more</li>
-                                )}
-                            </ul>
+                            <Flex direction={{ default: 'column' }}>
+                                <FlexItem>
+                                    <strong>Required by ({reverseDeps.length}):</strong>
+                                </FlexItem>
+                                <FlexItem>
+                                    <ul className="pf-v6-c-list">
+                                        {reverseDeps.slice(0, 10).map(dep => (
+                                            <li key={dep}>{getPackageName(dep)}</li>
+                                        ))}
+                                        {reverseDeps.length > 10 && (
+                                            <li>... and {reverseDeps.length - 10} more</li>
+                                        )}
+                                    </ul>
+                                </FlexItem>
+                            </Flex>
                         </FlexItem>
-                    </Flex>
-                </FlexItem>
-            )}
+                    )}
 
-            {files.length > 0 && (
-                <FlexItem>
-                    <Flex direction={{ default: 'column' }}>
+                    {status.auto && (
                         <FlexItem>
-                            <strong>Installed Files ({files.length}):</strong>
+                            <Flex direction={{ default: 'column' }}>
+                                <FlexItem>
+                                    <strong>Why is this installed:</strong>
+                                </FlexItem>
+                                <FlexItem>
+                                    <InstallChains
+                                        packageId={pkg.id}
+                                        auto={auto}
+                                        onPackageSelect={id => cockpit.location.go(['package', id])}
+                                    />
+                                </FlexItem>
+                            </Flex>
                         </FlexItem>
+                    )}
+
+                    {files.length > 0 && (
                         <FlexItem>
-                            <details>
-                                <summary>Show file list</summary>
-                                <ul className="pf-v6-c-list pf-v6-u-font-size-sm">
-                                    {files.map(file => (
-                                        <li key={file}><code>{file}</code></li>
-                                    ))}
-                                </ul>
-                            </details>
+                            <Flex direction={{ default: 'column' }}>
+                                <FlexItem>
+                                    <strong>Installed Files ({files.length}):</strong>
+                                </FlexItem>
+                                <FlexItem>
+                                    <details>
+                                        <summary>Show file list</summary>
+                                        <ul className="pf-v6-c-list pf-v6-u-font-size-sm">
+                                            {files.map(file => (
+                                                <li key={file}><code>{file}</code></li>
+                                            ))}
+                                        </ul>
+                                    </details>
+                                </FlexItem>
+                            </Flex>
                         </FlexItem>
-                    </Flex>
-                </FlexItem>
+                    )}
+                </>
             )}
         </Flex>
     );
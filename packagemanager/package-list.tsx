@@ -11,6 +11,7 @@ import {
     EmptyStateBody,
     Flex,
     FlexItem,
+    Label,
     Progress,
     ProgressVariant,
     SearchInput,
@@ -28,33 +29,75 @@ import {
 } from '@patternfly/react-table';
 import React, { useEffect, useState } from 'react';
 
+import { getSearchTerms } from './appstream';
+import { AppIcon, AppLabel, useAppStream } from './appstream-view';
+import { getSectionIndex } from './apt';
+import { useArchitectures } from './architectures';
+import { CartToggleButton } from './cart-view';
+import { matchesTags } from './debtags';
+import { DebtagsFilter, useDebtags } from './debtags-filter';
 import { getGroupInfo } from './groups';
+import { HoldToggleButton } from './held-packages';
 import * as PK from './packagekit';
-import { usePackageCache } from './packagemanager';
-import { PackageDetails, ProgressData } from './types';
-import { filterPackages, getErrorMessage, sortPackagesByName } from './utils';
+import { usePackageCache } from './package-cache';
+import { PackageStatusLabels, usePackageStatus } from './package-status';
+import { getSectionInfo } from './sections';
+import { useTransactionManager } from './transaction-manager';
+import { useTransactionPreview } from './transaction-preview';
+import { BrowseMode, PackageDetails, PackageInfo, PackageStatus, ProgressData } from './types';
+import {
+    filterPackages,
+    getAptPackageName,
+    getErrorMessage,
+    getListingFilter,
+    getPackageTarget,
+    isForeignArchitecture,
+    sortPackagesByName,
+} from './utils';
 
 interface PackageListProps {
-    groupId: string;
+    groupId: string;         // PackageKit group, or Debian section when browsing by section
+    browseBy?: BrowseMode;
     onBack: () => void;
     onPackageSelect: (packageId: string) => void;
 }
 
-export const PackageList: React.FC<PackageListProps> = ({ groupId, onBack, onPackageSelect }) => {
+export const PackageList: React.FC<PackageListProps> = ({ groupId, browseBy = 'groups', onBack, onPackageSelect }) => {
     const [loading, setLoading] = useState(true);
     const [loadingProgress, setLoadingProgress] = useState(0);
     const [error, setError] = useState<string | null>(null);
     const [packages, setPackages] = useState<PackageDetails[]>([]);
     const [searchQuery, setSearchQuery] = useState('');
+    const [selectedTags, setSelectedTags] = useState<string[]>([]);
     const [operatingOn, setOperatingOn] = useState<string | null>(null);
     const [progress, setProgress] = useState<number>(0);
+    const { confirmTransaction, previewModal } = useTransactionPreview();
+    const { runTransaction, isBusy } = useTransactionManager();
+    const { setHeld, reload: reloadStatus, withStatus } = usePackageStatus();
+    const { native: nativeArch, foreign: foreignArchs, loaded: archsLoaded } = useArchitectures();
+    const debtags = useDebtags();
+    const appstream = useAppStream();
 
-    const groupInfo = getGroupInfo(groupId);
+    const groupInfo = browseBy === 'sections' ? getSectionInfo(groupId) : getGroupInfo(groupId);
+    const cacheKey = browseBy === 'sections' ? `section:${groupId}` : groupId;
     const { cache: packageCache, setCache } = usePackageCache();
 
     useEffect(() => {
-        loadPackages();
-    }, [groupId]);
+        if (archsLoaded) {
+            loadPackages();
+        }
+    }, [groupId, browseBy, archsLoaded]);
+
+    useEffect(() => {
+        setSelectedTags([]);
+    }, [groupId, browseBy]);
+
+    // Reload once a finished transaction invalidated the cached listing
+    useEffect(() => {
+        if (!loading && archsLoaded && !packageCache.has(cacheKey)) {
+            loadPackages();
+        }
+    }, [packageCache]);
 
     // Keyboard navigation: Escape key goes back
     useEffect(() => {
@@ -75,33 +118,41 @@ export const PackageList: React.FC<PackageListProps> = ({ groupId, onBack, onPac
 
         try {
             // Check cache first
-            if (packageCache.has(groupId)) {
-                const cached = packageCache.get(groupId)!;
+            if (packageCache.has(cacheKey)) {
+                const cached = packageCache.get(cacheKey)!;
                 const sorted = sortPackagesByName(cached);
                 setPackages(sorted);
                 setLoading(false);
                 return;
             }
 
-            // Use SearchGroups to query only packages in this group
+            // Use SearchGroups to query only packages in this group, or resolve the names apt lists in the section
             // This returns basic info (name, version, summary, installed) - enough for the list!
             setLoadingProgress(50);
-            const groupPackages = await PK.searchGroups([groupId], undefined, (progressData) => {
+            const onProgress = (progressData: ProgressData) => {
                 const searchProgress = 50 + (progressData.percentage * 0.5); // 50% to 100%
                 setLoadingProgress(Math.min(searchProgress, 100));
-            });
+            };
+            let groupPackages: PackageInfo[];
+            if (browseBy === 'sections') {
+                const names = (await getSectionIndex()).get(groupId) ?? [];
+                groupPackages = names.length > 0 ? await PK.resolvePackages(names, getListingFilter(foreignArchs), onProgress) : [];
+            } else {
+                groupPackages = await PK.searchGroups([groupId], getListingFilter(foreignArchs), onProgress);
+            }
 
             // Cast to PackageDetails (detail fields are optional and loaded on-demand)
             const packagesWithGroup: PackageDetails[] = groupPackages.map(pkg => ({
                 ...pkg,
-                group: groupId, // We know the group from context
+                // We know the group or section from context
+                ...(browseBy === 'sections' ? { section: groupId } : { group: groupId }),
             }));
 
             // Sort by name
             const sorted = sortPackagesByName(packagesWithGroup);
 
             // Cache for next time
-            setCache(groupId, sorted);
+            setCache(cacheKey, sorted);
 
             setPackages(sorted);
             setLoadingProgress(100);
@@ -113,16 +164,25 @@ export const PackageList: React.FC<PackageListProps> = ({ groupId, onBack, onPac
     }
 
     async function handleInstall(pkg: PackageDetails) {
+        const name = getAptPackageName(pkg, nativeArch);
+        const target = getPackageTarget(pkg, nativeArch);
+        const confirmed = await confirmTransaction({
+            title: `Install ${name}`,
+            confirmLabel: 'Install',
+            simulate: () => PK.previewInstallPackage(target),
+            aptArgs: [name],
+        });
+        if (!confirmed) return;
+
         setOperatingOn(pkg.id);
         setProgress(0);
 
         try {
-            await PK.installPackage(pkg.name, (progressData: ProgressData) => {
+            await runTransaction(`Installing ${name}`, progressCb => PK.installPackage(target, (progressData: ProgressData) => {
+                progressCb(progressData);
                 setProgress(progressData.percentage);
-            });
-
-            // Reload to update status
-            await loadPackages();
+            }));
+            await reloadStatus();
         } catch (err) {
             setError(getErrorMessage(err));
         } finally {
@@ -132,16 +192,25 @@ export const PackageList: React.FC<PackageListProps> = ({ groupId, onBack, onPac
     }
 
     async function handleRemove(pkg: PackageDetails) {
+        const name = getAptPackageName(pkg, nativeArch);
+        const target = getPackageTarget(pkg, nativeArch);
+        const confirmed = await confirmTransaction({
+            title: `Remove ${name}`,
+            confirmLabel: 'Remove',
+            isDestructive: true,
+            simulate: () => PK.previewRemovePackage(target),
+        });
+        if (!confirmed) return;
+
         setOperatingOn(pkg.id);
         setProgress(0);
 
         try {
-            await PK.removePackage(pkg.name, (progressData: ProgressData) => {
+            await runTransaction(`Removing ${name}`, progressCb => PK.removePackage(target, (progressData: ProgressData) => {
+                progressCb(progressData);
                 setProgress(progressData.percentage);
-            });
-
-            // Reload to update status
-            await loadPackages();
+            }));
+            await reloadStatus();
         } catch (err) {
             setError(getErrorMessage(err));
         } finally {
@@ -150,7 +219,23 @@ export const PackageList: React.FC<PackageListProps> = ({ groupId, onBack, onPac
         }
     }
 
-    const filteredPackages = filterPackages(packages, searchQuery);
+    async function handleToggleHold(pkg: PackageDetails & { status: PackageStatus }) {
+        setOperatingOn(pkg.id);
+        setError(null);
+
+        try {
+            await setHeld([getAptPackageName(pkg, nativeArch)], !pkg.status.held);
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setOperatingOn(null);
+        }
+    }
+
+    const searchedPackages = filterPackages(packages, searchQuery, pkg => getSearchTerms(appstream.get(pkg.name)));
+    const filteredPackages = searchedPackages
+        .filter(pkg => matchesTags(debtags.tags.get(pkg.name) ?? [], selectedTags))
+        .map(withStatus);
 
     if (loading) {
         return (
@@ -173,10 +258,11 @@ export const PackageList: React.FC<PackageListProps> = ({ groupId, onBack, onPac
 
     return (
         <div className="package-list">
+            {previewModal}
             <Flex className="package-list-header" direction={{ default: 'column' }} >
                 <Breadcrumb className="pf-v6-u-mb-md">
-                    <BreadcrumbItem to="#/">
-                        Groups
+                    <BreadcrumbItem to={browseBy === 'sections' ? '#/?browse=sections' : '#/'}>
+                        {browseBy === 'sections' ? 'Sections' : 'Groups'}
                     </BreadcrumbItem>
                     <BreadcrumbItem isActive>{groupInfo.name}</BreadcrumbItem>
                 </Breadcrumb>
@@ -210,6 +296,14 @@ export const PackageList: React.FC<PackageListProps> = ({ groupId, onBack, onPac
             </Flex>
 
             <Flex className="package-list-content" direction={{ default: 'column' }} flex={{ default: 'flex_1' }}>
+                <FlexItem>
+                    <DebtagsFilter
+                        names={searchedPackages.map(pkg => pkg.name)}
+                        debtags={debtags}
+                        selected={selectedTags}
+                        onChange={setSelectedTags}
+                    />
+                </FlexItem>
                 <FlexItem>
                     {filteredPackages.length === 0 ? (
                         <EmptyState>
@@ -217,7 +311,9 @@ export const PackageList: React.FC<PackageListProps> = ({ groupId, onBack, onPac
                             <EmptyStateBody>
                                 {searchQuery
                                     ? `No packages match "${searchQuery}"`
-                                    : `No packages in ${groupInfo.name}`}
+                                    : selectedTags.length > 0
+                                        ? 'No packages have the selected tags'
+                                        : `No packages in ${groupInfo.name}`}
                             </EmptyStateBody>
                         </EmptyState>
                     ) : (
@@ -233,54 +329,81 @@ export const PackageList: React.FC<PackageListProps> = ({ groupId, onBack, onPac
                                         <Th width={25}>Name</Th>
                                         <Th width={40}>Summary</Th>
                                         <Th width={10}>Version</Th>
+                                        <Th width={15}>Status</Th>
                                         <Th width={10} modifier="fitContent"></Th>
                                     </Tr>
                                 </Thead>
                                 <Tbody>
                                     {filteredPackages.map((pkg, index) => {
                                         const isOperating = operatingOn === pkg.id;
+                                        const app = appstream.get(pkg.name);
                                         return (
                                             <Tr key={pkg.id}>
                                                 <Td>
+                                                    {app && <AppIcon component={app} size={24} />}
                                                     <Button
                                                         variant="link"
                                                         isInline
+                                                        className={app ? 'pf-v6-u-ml-sm' : ''}
                                                         onClick={() => onPackageSelect(pkg.id)}
                                                     >
-                                                        {pkg.name}
+                                                        {app ? app.name : pkg.name}
                                                     </Button>
+                                                    {app && app.name !== pkg.name && (
+                                                        <span className="pf-v6-u-color-200 pf-v6-u-ml-sm">{pkg.name}</span>
+                                                    )}
+                                                    <AppLabel component={app} />
+                                                    {isForeignArchitecture(pkg.arch, nativeArch) && (
+                                                        <Label isCompact className="pf-v6-u-ml-sm">{pkg.arch}</Label>
+                                                    )}
                                                 </Td>
                                                 <Td modifier="truncate">
-                                                    {pkg.summary}
+                                                    {app?.summary || pkg.summary}
                                                 </Td>
                                                 <Td modifier="truncate">
                                                     {pkg.version}
                                                 </Td>
+                                                <Td>
+                                                    <PackageStatusLabels status={pkg.status} isCompact />
+                                                </Td>
                                                 <Td modifier="fitContent">
                                                     {isOperating ? (
                                                         <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
                                                             <Spinner size="sm" aria-label={`Processing ${pkg.name}`} /> {progress}%
                                                         </div>
-                                                    ) : pkg.installed ? (
-                                                        <Button
-                                                            variant="danger"
-                                                            size="sm"
-                                                            onClick={() => handleRemove(pkg)}
-                                                            isDisabled={operatingOn !== null}
-                                                            aria-label={`Remove ${pkg.name}`}
-                                                        >
-                                                            Remove
-                                                        </Button>
                                                     ) : (
-                                                        <Button
-                                                            variant="primary"
-                                                            size="sm"
-                                                            onClick={() => handleInstall(pkg)}
-                                                            isDisabled={operatingOn !== null}
-                                                            aria-label={`Install ${pkg.name}`}
-                                                        >
-                                                            Install
-                                                        </Button>
+                                                        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                                                            <CartToggleButton pkg={pkg} isDisabled={operatingOn !== null || isBusy} />
+                                                            {pkg.installed && (
+                                                                <HoldToggleButton
+                                                                    name={pkg.name}
+                                                                    isHeld={pkg.status.held}
+                                                                    onToggle={() => handleToggleHold(pkg)}
+                                                                    isDisabled={operatingOn !== null || isBusy}
+                                                                />
+                                                            )}
+                                                            {pkg.installed ? (
+                                                                <Button
+                                                                    variant="danger"
+                                                                    size="sm"
+                                                                    onClick={() => handleRemove(pkg)}
+                                                                    isDisabled={operatingOn !== null || isBusy}
+                                                                    aria-label={`Remove ${pkg.name}`}
+                                                                >
+                                                                    Remove
+                                                                </Button>
+                                                            ) : (
+                                                                <Button
+                                                                    variant="primary"
+                                                                    size="sm"
+                                                                    onClick={() => handleInstall(pkg)}
+                                                                    isDisabled={operatingOn !== null || isBusy}
+                                                                    aria-label={`Install ${pkg.name}`}
+                                                                >
+                                                                    Install
+                                                                </Button>
+                                                            )}
+                                                        </div>
                                                     )}
                                                 </Td>
                                             </Tr>
@@ -0,0 +1,83 @@
+/*
+ * Package status - state from PackageKit, dpkg, holds, auto marks and updates, and its badges
+ */
+
+import { Label } from '@patternfly/react-core';
+import React, { useEffect, useState } from 'react';
+
+import { getDpkgStatus } from './apt';
+import { InstallReasonLabel, useAutoInstalledPackages } from './auto-installed';
+import { useHeldPackages } from './held-packages';
+import * as PK from './packagekit';
+import { DpkgState, PackageInfo, PackageStatus, UpdateInfo } from './types';
+import { getPackageStatus, getStatusLabel, getStatusVariant } from './utils';
+
+/**
+ * Everything needed to tell the detailed status of packages, loaded when the component mounts
+ * Sources that fail to load are left empty, so statuses fall back to PackageKit's installed flag.
+ */
+export function usePackageStatus() {
+    const heldPackages = useHeldPackages();
+    const autoPackages = useAutoInstalledPackages();
+    const [dpkg, setDpkg] = useState<Map<string, DpkgState>>(new Map());
+    const [updates, setUpdates] = useState<UpdateInfo[]>([]);
+
+    useEffect(() => {
+        reload();
+    }, []);
+
+    async function reload() {
+        await Promise.all([
+            getDpkgStatus().then(setDpkg, err => console.warn('Failed to load dpkg status:', err)),
+            PK.getUpdates().then(setUpdates, err => console.warn('Failed to load updates:', err)),
+        ]);
+    }
+
+    // Reload everything, e.g. after a transaction changed installed packages
+    async function reloadAll() {
+        await Promise.all([reload(), heldPackages.reload(), autoPackages.reload()]);
+    }
+
+    function withStatus<T extends PackageInfo>(pkg: T): T & { status: PackageStatus } {
+        return {
+            ...pkg,
+            status: getPackageStatus(pkg, { dpkg, held: heldPackages.held, auto: autoPackages.auto, updates }),
+        };
+    }
+
+    return {
+        held: heldPackages.held,
+        setHeld: heldPackages.setHeld,
+        auto: autoPackages.auto,
+        autoLoaded: autoPackages.loaded,
+        setAuto: autoPackages.setAuto,
+        updates,
+        reload: reloadAll,
+        withStatus,
+    };
+}
+
+interface PackageStatusLabelsProps {
+    status: PackageStatus;
+    isCompact?: boolean;
+    showManual?: boolean;
+}
+
+// State badge plus held and install reason badges
+export const PackageStatusLabels: React.FC<PackageStatusLabelsProps> = ({ status, isCompact = false, showManual = false }) => (
+    <>
+        <Label
+            isCompact={isCompact}
+            status={getStatusVariant(status)}
+            {...(status.candidate && { title: `Version ${status.candidate} is available` })}
+        >
+            {getStatusLabel(status)}
+        </Label>
+        {status.held && (
+            <Label isCompact={isCompact} color="orange" className="pf-v6-u-ml-sm">Held</Label>
+        )}
+        {(status.auto || (showManual && status.state !== 'available' && status.state !== 'config-files')) && (
+            <InstallReasonLabel isAuto={status.auto} isCompact={isCompact} />
+        )}
+    </>
+);
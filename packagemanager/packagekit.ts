@@ -9,9 +9,16 @@ import {
     PackageDetails,
     ProgressData,
     TransactionError,
-    PackageDependency
+    PackageDependency,
+    UpdateInfo,
+    UpdateDetail,
+    TransactionPreview,
+    TransactionState,
+    OldTransaction,
+    RepositoryInfo
 } from './types';
 import { mapGroupEnumToId } from './groups';
+import { calculatePreviewSizes, compareDebianVersions, getPackageVersion } from './utils';
 
 const PACKAGEKIT_SERVICE = 'org.freedesktop.PackageKit';
 const PACKAGEKIT_OBJECT = '/org/freedesktop/PackageKit';
@@ -64,12 +71,13 @@ export function parsePackageId(packageId: string): PackageInfo {
 
 /**
  * Watch a running PackageKit transaction
+ * Watching ends when it finishes or when stop is called; ready resolves once property changes are watched.
  */
 function watchTransaction(
     transactionPath: string,
     signalHandlers: Record<string, (...args: any[]) => void>,
     notifyHandler?: (props: any, path: string) => void
-): Promise<void> | null {
+): { ready: Promise<void> | null; stop: () => void } {
     const subscriptions: any[] = [];
     let notifyReturn: Promise<void> | null = null;
     const client = getDbusClient();
@@ -100,29 +108,36 @@ function watchTransaction(
     }
 
     // Watch for property changes
+    function onNotify(reply: any) {
+        const iface = reply?.detail?.[transactionPath]?.[TRANSACTION_INTERFACE];
+        if (iface && notifyHandler) {
+            notifyHandler(iface, transactionPath);
+        }
+    }
     if (notifyHandler) {
         notifyReturn = client.watch(transactionPath);
         subscriptions.push(notifyReturn);
-        client.addEventListener('notify', (reply: any) => {
-            const iface = reply?.detail?.[transactionPath]?.[TRANSACTION_INTERFACE];
-            if (iface) {
-                notifyHandler(iface, transactionPath);
-            }
-        });
+        client.addEventListener('notify', onNotify);
+    }
+
+    let stopped = false;
+    function stop() {
+        if (stopped) return;
+        stopped = true;
+        subscriptions.forEach(s => s.remove());
+        client.removeEventListener('close', onClose);
+        client.removeEventListener('notify', onNotify);
     }
 
     // Unsubscribe when transaction finishes
     subscriptions.push(
         client.subscribe(
             { interface: TRANSACTION_INTERFACE, path: transactionPath, member: 'Finished' },
-            () => {
-                subscriptions.forEach(s => s.remove());
-                client.removeEventListener('close', onClose);
-            }
+            stop
         )
     );
 
-    return notifyReturn;
+    return { ready: notifyReturn, stop };
 }
 
 /**
@@ -140,7 +155,7 @@ function transaction(
                 return transactionPath;
             }
 
-            const watchPromise = watchTransaction(transactionPath, signalHandlers || {}, notifyHandler) || Promise.resolve();
+            const watchPromise = watchTransaction(transactionPath, signalHandlers || {}, notifyHandler).ready || Promise.resolve();
             return watchPromise.then(() => {
                 if (method) {
                     return call(transactionPath, TRANSACTION_INTERFACE, method, arglist)
@@ -182,6 +197,9 @@ export function cancellableTransaction(
             }
 
             if (progressCb) {
+                if (transactionPath) {
+                    progressData.transactionPath = transactionPath;
+                }
                 if ('Status' in props) {
                     status = props.Status;
                 }
@@ -226,18 +244,91 @@ export function cancellableTransaction(
     });
 }
 
+/**
+ * Get the D-Bus object paths of all running PackageKit transactions
+ */
+export function getTransactionList(): Promise<string[]> {
+    return call(PACKAGEKIT_OBJECT, PACKAGEKIT_INTERFACE, 'GetTransactionList', [])
+        .then(([transactions]: [string[]]) => transactions);
+}
+
+/**
+ * Subscribe to changes of the running transaction list
+ * Returns a function that removes the subscription.
+ */
+export function watchTransactionList(callback: (transactions: string[]) => void): () => void {
+    const subscription = getDbusClient().subscribe(
+        { interface: PACKAGEKIT_INTERFACE, path: PACKAGEKIT_OBJECT, member: 'TransactionListChanged' },
+        (path: string, iface: string, signal: string, args: any[]) => callback(args[0])
+    );
+    return () => subscription.remove();
+}
+
+/**
+ * Follow the progress of an already running transaction, e.g. one started
+ * before a page reload or by another client
+ * Returns a function that stops following it; it also stops when the transaction finishes.
+ */
+export function monitorTransaction(
+    transactionPath: string,
+    stateCb: (state: TransactionState) => void
+): () => void {
+    const state: TransactionState = {
+        path: transactionPath,
+        role: PkEnum.ROLE_UNKNOWN,
+        status: PkEnum.STATUS_UNKNOWN,
+        percentage: 101,
+        allowCancel: false,
+        lastPackage: '',
+        transactionFlags: 0,
+    };
+
+    const { ready, stop } = watchTransaction(
+        transactionPath,
+        {
+            // Errors are reported to the client that started the transaction
+            ErrorCode: () => {},
+        },
+        (props: any) => {
+            if ('Role' in props) state.role = props.Role;
+            if ('Status' in props) state.status = props.Status;
+            if ('Percentage' in props) state.percentage = props.Percentage;
+            if ('AllowCancel' in props) state.allowCancel = props.AllowCancel;
+            if ('LastPackage' in props) state.lastPackage = props.LastPackage;
+            if ('TransactionFlags' in props) state.transactionFlags = props.TransactionFlags;
+            stateCb({ ...state });
+        }
+    );
+
+    ready?.catch(ex => {
+        console.warn('[PackageKit] Failed to watch transaction', transactionPath, ex);
+        stop();
+    });
+
+    return stop;
+}
+
+/**
+ * Cancel a running transaction
+ */
+export function cancelTransaction(transactionPath: string): Promise<void> {
+    return call(transactionPath, TRANSACTION_INTERFACE, 'Cancel', []).then(() => undefined);
+}
+
 /**
  * Search for packages by name
+ * Leave FILTER_ARCH out of the filter to include foreign architecture variants.
  */
 export function searchNames(
     query: string,
-    progressCb?: (progress: ProgressData) => void
+    progressCb?: (progress: ProgressData) => void,
+    filter: number = PkEnum.FILTER_ARCH | PkEnum.FILTER_NOT_SOURCE | PkEnum.FILTER_NEWEST
 ): Promise<PackageInfo[]> {
     const packages: PackageInfo[] = [];
 
     return cancellableTransaction(
         'SearchNames',
-        [PkEnum.FILTER_ARCH | PkEnum.FILTER_NOT_SOURCE | PkEnum.FILTER_NEWEST, [query]],
+        [filter, [query]],
         progressCb,
         {
             Package: (info: number, packageId: string, summary: string) => {
@@ -348,6 +439,7 @@ export function getDetails(
                 const description = data.description?.v || data.summary?.v || '';
                 const url = data.url?.v || '';
                 const size = data.size?.v || 0;
+                const downloadSize = data['download-size']?.v;
 
                 if (!packageId) {
                     console.error('[PackageKit] Details callback missing package-id:', data);
@@ -360,6 +452,9 @@ export function getDetails(
                 pkg.group = mapGroupEnumToId(groupEnum);  // Map group enum to ID string
                 pkg.url = url;
                 pkg.size = size;
+                if (typeof downloadSize === 'number') {
+                    pkg.downloadSize = downloadSize;
+                }
                 details.push(pkg);
             }
         }
@@ -388,44 +483,266 @@ export function resolve(
         if (ids.length === 0) {
             throw new TransactionError('not-found', `Package ${name} not found`);
         }
-        return ids[0];
+        // Installed and available versions may both be reported, prefer the newest
+        return ids.reduce((newest, id) =>
+            compareDebianVersions(getPackageVersion(id), getPackageVersion(newest)) > 0 ? id : newest);
     });
 }
 
 /**
- * Install a package
+ * Resolve a package name to its package ID, or pass an exact package ID through
  */
-export function installPackage(
+function resolvePackageId(
+    nameOrId: string,
+    progressCb?: (progress: ProgressData) => void
+): Promise<string> {
+    // Package IDs have four fields: name;version;arch;repo
+    if (nameOrId.split(';').length === 4) {
+        return Promise.resolve(nameOrId);
+    }
+    return resolve(nameOrId, progressCb);
+}
+
+/**
+ * Get all installed and available versions of a package for the native architecture
+ * Unlike resolve() this does not filter for the newest version, so older
+ * versions still offered by any repository are included.
+ */
+export function getAvailableVersions(
     name: string,
     progressCb?: (progress: ProgressData) => void
+): Promise<PackageInfo[]> {
+    const packages: PackageInfo[] = [];
+
+    return cancellableTransaction(
+        'Resolve',
+        [PkEnum.FILTER_ARCH | PkEnum.FILTER_NOT_SOURCE, [name]],
+        progressCb,
+        {
+            Package: (info: number, packageId: string, summary: string) => {
+                const pkg = parsePackageId(packageId);
+                pkg.summary = summary;
+                pkg.installed = info === PkEnum.INFO_INSTALLED;
+                packages.push(pkg);
+            }
+        }
+    ).then(() => packages);
+}
+
+/**
+ * Resolve many package names at once, e.g. the packages of a Debian section
+ */
+export function resolvePackages(
+    names: string[],
+    filter: number = PkEnum.FILTER_ARCH | PkEnum.FILTER_NOT_SOURCE | PkEnum.FILTER_NEWEST,
+    progressCb?: (progress: ProgressData) => void
+): Promise<PackageInfo[]> {
+    const packages: PackageInfo[] = [];
+
+    return cancellableTransaction(
+        'Resolve',
+        [filter, names],
+        progressCb,
+        {
+            Package: (info: number, packageId: string, summary: string) => {
+                const pkg = parsePackageId(packageId);
+                pkg.summary = summary;
+                pkg.installed = info === PkEnum.INFO_INSTALLED;
+                packages.push(pkg);
+            }
+        }
+    ).then(() => packages);
+}
+
+/**
+ * Resolve package names to all installed and available versions, for every architecture
+ */
+export function resolveAllVersions(
+    names: string[],
+    progressCb?: (progress: ProgressData) => void
+): Promise<PackageInfo[]> {
+    const packages: PackageInfo[] = [];
+
+    return cancellableTransaction(
+        'Resolve',
+        [PkEnum.FILTER_NOT_SOURCE, names],
+        progressCb,
+        {
+            Package: (info: number, packageId: string, summary: string) => {
+                const pkg = parsePackageId(packageId);
+                pkg.summary = summary;
+                pkg.installed = info === PkEnum.INFO_INSTALLED;
+                packages.push(pkg);
+            }
+        }
+    ).then(() => packages);
+}
+
+/**
+ * Run a transaction with the simulate flag and collect the packages it would affect
+ * The transaction flags must be the first argument of the method.
+ */
+function simulateTransaction(
+    method: string,
+    arglist: any[],
+    progressCb?: (progress: ProgressData) => void
+): Promise<TransactionPreview> {
+    const preview: TransactionPreview = {
+        install: [],
+        update: [],
+        remove: [],
+        downgrade: [],
+        reinstall: [],
+        downloadSize: 0,
+        installSize: 0,
+    };
+
+    const [flags, ...rest] = arglist;
+    return cancellableTransaction(
+        method,
+        [flags | PkEnum.TRANSACTION_FLAG_SIMULATE, ...rest],
+        progressCb,
+        {
+            Package: (info: number, packageId: string) => {
+                switch (info) {
+                    case PkEnum.INFO_INSTALLING:
+                        preview.install.push(packageId);
+                        break;
+                    case PkEnum.INFO_UPDATING:
+                        preview.update.push(packageId);
+                        break;
+                    case PkEnum.INFO_REMOVING:
+                    case PkEnum.INFO_OBSOLETING:
+                        preview.remove.push(packageId);
+                        break;
+                    case PkEnum.INFO_DOWNGRADING:
+                        preview.downgrade.push(packageId);
+                        break;
+                    case PkEnum.INFO_REINSTALLING:
+                        preview.reinstall.push(packageId);
+                        break;
+                }
+            }
+        }
+    ).then(() => {
+        const affected = [
+            ...preview.install, ...preview.update, ...preview.remove,
+            ...preview.downgrade, ...preview.reinstall,
+        ];
+        if (affected.length === 0) {
+            return preview;
+        }
+
+        // Sizes are not part of the simulation, look them up separately
+        return getDetails(affected)
+            .then(details => ({ ...preview, ...calculatePreviewSizes(preview, details) }))
+            .catch(ex => {
+                console.warn('[PackageKit] Failed to get sizes for transaction preview:', ex);
+                return preview;
+            });
+    });
+}
+
+/**
+ * Simulate installing packages
+ * Pass PkEnum.TRANSACTION_FLAG_ALLOW_DOWNGRADE to allow installing older versions.
+ */
+export function simulateInstall(
+    packageIds: string[],
+    progressCb?: (progress: ProgressData) => void,
+    transactionFlags = 0
+): Promise<TransactionPreview> {
+    return simulateTransaction('InstallPackages', [transactionFlags, packageIds], progressCb);
+}
+
+/**
+ * Simulate removing packages, including packages that depend on them
+ */
+export function simulateRemove(
+    packageIds: string[],
+    progressCb?: (progress: ProgressData) => void
+): Promise<TransactionPreview> {
+    return simulateTransaction('RemovePackages', [0, packageIds, true, false], progressCb);
+}
+
+/**
+ * Preview what installing a package by name or exact package ID would do
+ * Extra package IDs, e.g. chosen recommends and suggests, are installed alongside.
+ */
+export function previewInstallPackage(
+    nameOrId: string,
+    progressCb?: (progress: ProgressData) => void,
+    transactionFlags = 0,
+    extraIds: string[] = []
+): Promise<TransactionPreview> {
+    return resolvePackageId(nameOrId, progressCb)
+        .then(packageId => simulateInstall([packageId, ...extraIds], progressCb, transactionFlags));
+}
+
+/**
+ * Preview what removing a package by name or exact package ID would do
+ */
+export function previewRemovePackage(
+    nameOrId: string,
+    progressCb?: (progress: ProgressData) => void
+): Promise<TransactionPreview> {
+    return resolvePackageId(nameOrId, progressCb)
+        .then(packageId => simulateRemove([packageId], progressCb));
+}
+
+/**
+ * Install packages by package ID in a single transaction
+ * Pass PkEnum.TRANSACTION_FLAG_ALLOW_DOWNGRADE to allow installing older versions.
+ */
+export function installPackages(
+    packageIds: string[],
+    progressCb?: (progress: ProgressData) => void,
+    transactionFlags = 0
 ): Promise<void> {
-    return resolve(name, progressCb)
-        .then(packageId => {
-            return cancellableTransaction(
-                'InstallPackages',
-                [0, [packageId]],
-                progressCb
-            );
-        })
-        .then(() => undefined);
+    return cancellableTransaction(
+        'InstallPackages',
+        [transactionFlags, packageIds],
+        progressCb
+    ).then(() => undefined);
 }
 
 /**
- * Remove a package
+ * Remove packages by package ID in a single transaction, including packages that depend on them
+ */
+export function removePackages(
+    packageIds: string[],
+    progressCb?: (progress: ProgressData) => void
+): Promise<void> {
+    return cancellableTransaction(
+        'RemovePackages',
+        [0, packageIds, true, false],
+        progressCb
+    ).then(() => undefined);
+}
+
+/**
+ * Install a package by name (newest version) or by exact package ID
+ * Extra package IDs are installed in the same transaction.
+ */
+export function installPackage(
+    nameOrId: string,
+    progressCb?: (progress: ProgressData) => void,
+    transactionFlags = 0,
+    extraIds: string[] = []
+): Promise<void> {
+    return resolvePackageId(nameOrId, progressCb)
+        .then(packageId => installPackages([packageId, ...extraIds], progressCb, transactionFlags));
+}
+
+/**
+ * Remove a package by name or by exact package ID
  */
 export function removePackage(
-    name: string,
+    nameOrId: string,
     progressCb?: (progress: ProgressData) => void
 ): Promise<void> {
-    return resolve(name, progressCb)
-        .then(packageId => {
-            return cancellableTransaction(
-                'RemovePackages',
-                [0, [packageId], true, false],
-                progressCb
-            );
-        })
-        .then(() => undefined);
+    return resolvePackageId(nameOrId, progressCb)
+        .then(packageId => removePackages([packageId], progressCb));
 }
 
 /**
@@ -470,6 +787,61 @@ export function getReverseDependencies(
     ).then(() => deps);
 }
 
+/**
+ * Get the packages related to a package for the dependency graph
+ * Dependencies include packages that are not installed yet; reverse dependencies
+ * are limited to installed packages, as all available ones would be far too many.
+ */
+export function getRelatedPackages(
+    packageId: string,
+    reverse: boolean,
+    progressCb?: (progress: ProgressData) => void
+): Promise<PackageInfo[]> {
+    const packages: PackageInfo[] = [];
+    const filter = reverse
+        ? PkEnum.FILTER_INSTALLED | PkEnum.FILTER_NOT_SOURCE
+        : PkEnum.FILTER_ARCH | PkEnum.FILTER_NOT_SOURCE;
+
+    return cancellableTransaction(
+        reverse ? 'RequiredBy' : 'DependsOn',
+        [[packageId], filter, false],
+        progressCb,
+        {
+            Package: (info: number, relatedId: string, summary: string) => {
+                const pkg = parsePackageId(relatedId);
+                pkg.summary = summary;
+                pkg.installed = info === PkEnum.INFO_INSTALLED;
+                packages.push(pkg);
+            }
+        }
+    ).then(() => packages);
+}
+
+/**
+ * Find the packages that provide a virtual package such as mail-transport-agent
+ * Installed providers and the newest available ones are both reported.
+ */
+export function whatProvides(
+    name: string,
+    progressCb?: (progress: ProgressData) => void
+): Promise<PackageInfo[]> {
+    const packages: PackageInfo[] = [];
+
+    return cancellableTransaction(
+        'WhatProvides',
+        [PkEnum.FILTER_ARCH | PkEnum.FILTER_NOT_SOURCE | PkEnum.FILTER_NEWEST, [name]],
+        progressCb,
+        {
+            Package: (info: number, packageId: string, summary: string) => {
+                const pkg = parsePackageId(packageId);
+                pkg.summary = summary;
+                pkg.installed = info === PkEnum.INFO_INSTALLED;
+                packages.push(pkg);
+            }
+        }
+    ).then(() => packages);
+}
+
 /**
  * Get files installed by a package
  */
@@ -491,6 +863,94 @@ export function getFiles(
     ).then(() => files);
 }
 
+/**
+ * Get available updates
+ * The info value of each update is its severity (PkEnum.INFO_SECURITY, INFO_BUGFIX, ...)
+ */
+export function getUpdates(
+    progressCb?: (progress: ProgressData) => void
+): Promise<UpdateInfo[]> {
+    const updates: UpdateInfo[] = [];
+
+    return cancellableTransaction(
+        'GetUpdates',
+        [PkEnum.FILTER_NOT_SOURCE],
+        progressCb,
+        {
+            Package: (info: number, packageId: string, summary: string) => {
+                const pkg = parsePackageId(packageId);
+                updates.push({
+                    ...pkg,
+                    summary,
+                    installed: false,
+                    severity: info,
+                });
+            }
+        }
+    ).then(() => updates);
+}
+
+/**
+ * Update packages to the versions given by their package IDs (as returned by getUpdates)
+ */
+export function updatePackages(
+    packageIds: string[],
+    progressCb?: (progress: ProgressData) => void
+): Promise<void> {
+    return cancellableTransaction(
+        'UpdatePackages',
+        [0, packageIds],
+        progressCb
+    ).then(() => undefined);
+}
+
+/**
+ * Get changelog, advisory references and restart requirements for updates
+ */
+export function getUpdateDetail(
+    packageIds: string[],
+    progressCb?: (progress: ProgressData) => void
+): Promise<UpdateDetail[]> {
+    const details: UpdateDetail[] = [];
+
+    return cancellableTransaction(
+        'GetUpdateDetail',
+        [packageIds],
+        progressCb,
+        {
+            UpdateDetail: (
+                packageId: string,
+                updates: string[],
+                obsoletes: string[],
+                vendorUrls: string[],
+                bugzillaUrls: string[],
+                cveUrls: string[],
+                restart: number,
+                updateText: string,
+                changelog: string,
+                state: number,
+                issued: string,
+                updated: string
+            ) => {
+                details.push({
+                    packageId,
+                    updates: updates || [],
+                    obsoletes: obsoletes || [],
+                    vendorUrls: vendorUrls || [],
+                    bugzillaUrls: bugzillaUrls || [],
+                    cveUrls: cveUrls || [],
+                    restart,
+                    updateText: updateText || '',
+                    changelog: changelog || '',
+                    state,
+                    issued: issued || '',
+                    updated: updated || '',
+                });
+            }
+        }
+    ).then(() => details);
+}
+
 /**
  * Refresh package cache
  */
@@ -504,6 +964,99 @@ export function refreshCache(
     ).then(() => undefined);
 }
 
+/**
+ * Get finished transactions from PackageKit's database, newest first
+ * A count of 0 returns all stored transactions.
+ */
+export function getOldTransactions(
+    count = 0,
+    progressCb?: (progress: ProgressData) => void
+): Promise<OldTransaction[]> {
+    const transactions: OldTransaction[] = [];
+
+    return cancellableTransaction(
+        'GetOldTransactions',
+        [count],
+        progressCb,
+        {
+            Transaction: (
+                path: string,
+                timespec: string,
+                succeeded: boolean,
+                role: number,
+                duration: number,
+                data: string,
+                uid: number,
+                cmdline: string
+            ) => {
+                transactions.push({ path, timespec, succeeded, role, duration, data: data || '', uid, cmdline: cmdline || '' });
+            }
+        }
+    ).then(() => transactions);
+}
+
+/**
+ * Get the configured repositories
+ */
+export function getRepoList(
+    progressCb?: (progress: ProgressData) => void
+): Promise<RepositoryInfo[]> {
+    const repos: RepositoryInfo[] = [];
+
+    return cancellableTransaction(
+        'GetRepoList',
+        [PkEnum.FILTER_NONE],
+        progressCb,
+        {
+            RepoDetail: (id: string, description: string, enabled: boolean) => {
+                repos.push({ id, description: description || id, enabled });
+            }
+        }
+    ).then(() => repos);
+}
+
+/**
+ * Enable or disable a repository
+ */
+export function setRepoEnabled(
+    repoId: string,
+    enabled: boolean,
+    progressCb?: (progress: ProgressData) => void
+): Promise<void> {
+    return cancellableTransaction(
+        'RepoEnable',
+        [repoId, enabled],
+        progressCb
+    ).then(() => undefined);
+}
+
+/**
+ * Remove a repository, optionally with the packages installed from it
+ */
+export function removeRepo(
+    repoId: string,
+    autoremove: boolean,
+    progressCb?: (progress: ProgressData) => void
+): Promise<void> {
+    return cancellableTransaction(
+        'RepoRemove',
+        [0, repoId, autoremove],
+        progressCb
+    ).then(() => undefined);
+}
+
+/**
+ * Subscribe to changes of the repository configuration
+ * Returns a function that removes the subscription.
+ */
+export function watchRepoList(callback: () => void): () => void {
+    const subscription = getDbusClient().subscribe(
+        { interface: PACKAGEKIT_INTERFACE, path: PACKAGEKIT_OBJECT, member: 'RepoListChanged' },
+        () => callback()
+    );
+    return () => subscription.remove();
+}
+
 /**
  * Detect if PackageKit is available
  */
@@ -4,12 +4,27 @@
 
 import React, { useState, useEffect, createContext, useContext } from 'react';
 import { createRoot } from 'react-dom/client';
-import { Page, PageSection } from '@patternfly/react-core';
+import { Badge, Page, PageSection, Tab, Tabs, TabTitleText } from '@patternfly/react-core';
 
-import { PackageDetails as PackageDetailsType } from './types';
+import { CartItem } from './types';
+import { ArchitecturesView } from './architectures';
+import { CartView } from './cart-view';
+import { parseGraphOptions } from './dependencies';
+import { DependencyGraphView } from './dependency-graph';
 import { GroupList } from './group-list';
+import { HeldPackagesView } from './held-packages';
+import { HistoryView } from './history-view';
+import { KeyList } from './key-list';
+import { PackageCacheProvider } from './package-cache';
 import { PackageList } from './package-list';
 import { PackageDetails } from './package-details';
+import { PinningView } from './pinning-view';
+import { ProviderChooser } from './provider-chooser';
+import { RepositoryList } from './repository-list';
+import { SourcePackagesView } from './source-packages';
+import { TransactionManagerProvider, TransactionProgressPanel } from './transaction-manager';
+import { UpdateDetailView } from './update-detail';
+import { UpdateList } from './update-list';
 
 // Cockpit is loaded as a global via script tag
 declare const cockpit: any;
@@ -29,33 +44,55 @@ function usePageLocation() {
     return location;
 }
 
-// Package cache context for sharing data between components
-interface PackageCacheContextType {
-    cache: Map<string, PackageDetailsType[]>;
-    setCache: (groupId: string, packages: PackageDetailsType[]) => void;
-    clearCache: () => void;
+// Views addressed by a single path segment: #/<view>
+const SINGLE_SEGMENT_VIEWS = ['updates', 'sources', 'held', 'cart', 'history', 'repositories', 'keys', 'pinning', 'architectures'];
+
+// Views addressed by a view name and an identifier: #/<view>/<id>
+const TWO_SEGMENT_VIEWS = ['group', 'section', 'package', 'update', 'graph', 'provides'];
+
+function isValidPath(path: string[]): boolean {
+    if (path.length === 0) return true;
+    if (path.length === 1) return SINGLE_SEGMENT_VIEWS.includes(path[0]);
+    if (path.length === 2) return TWO_SEGMENT_VIEWS.includes(path[0]);
+    return false;
+}
+
+// Top-level navigation tab for the current path
+function getActiveTab(path: string[]): string {
+    if (path[0] === 'update') {
+        return 'updates';
+    }
+    if (path.length > 0 && SINGLE_SEGMENT_VIEWS.includes(path[0])) {
+        return path[0];
+    }
+    return 'packages';
+}
+
+// Transaction cart context for queueing changes across views
+interface CartContextType {
+    items: CartItem[];
+    addItem: (item: CartItem) => void;
+    removeItem: (packageId: string) => void;
+    clear: () => void;
 }
 
-const PackageCacheContext = createContext<PackageCacheContextType | undefined>(undefined);
+const CartContext = createContext<CartContextType | undefined>(undefined);
 
-export function usePackageCache() {
-    const context = useContext(PackageCacheContext);
+export function useCart() {
+    const context = useContext(CartContext);
     if (!context) {
-        throw new Error('usePackageCache must be used within PackageCacheProvider');
+        throw new Error('useCart must be used within CartContext provider');
     }
     return context;
 }
 
 const PackageManager: React.FC = () => {
     const { path, options } = usePageLocation();
-    const [packageCache, setPackageCache] = useState<Map<string, PackageDetailsType[]>>(new Map());
+    const [cartItems, setCartItems] = useState<CartItem[]>([]);
 
     // Handle invalid paths
     useEffect(() => {
-        const isInvalidPath = path.length > 2 ||
-                              (path.length === 2 && path[0] !== 'group' && path[0] !== 'package') ||
-                              path.length === 1;
-        if (isInvalidPath) {
+        if (!isValidPath(path)) {
             console.warn('[PackageManager] Invalid path:', path);
             cockpit.location.go([]);
         }
@@ -65,6 +102,10 @@ const PackageManager: React.FC = () => {
         cockpit.location.go(['group', groupId]);
     }
 
+    function handleSectionSelect(section: string) {
+        cockpit.location.go(['section', section]);
+    }
+
     function handlePackageSelect(packageId: string, groupId?: string) {
         // Preserve group context in URL options for better back navigation
         if (groupId) {
@@ -74,70 +115,210 @@ const PackageManager: React.FC = () => {
         }
     }
 
+    function handleTabSelect(tab: string | number) {
+        cockpit.location.go(tab === 'packages' ? [] : [tab]);
+    }
+
+    function handleUpdateSelect(packageId: string) {
+        cockpit.location.go(['update', packageId]);
+    }
+
+    function handleBackToUpdates() {
+        cockpit.location.go(['updates']);
+    }
+
     function handleBackToGroups() {
         cockpit.location.go([]);
     }
 
+    function handleBackToSections() {
+        cockpit.location.go([], { browse: 'sections' });
+    }
+
     function handleBackFromDetails() {
-        // Try to navigate back to the group if context is available
+        // Try to navigate back to the group or section if context is available
         const groupId = options.group;
         if (groupId && typeof groupId === 'string') {
             cockpit.location.go(['group', groupId]);
+        } else if (typeof options.section === 'string') {
+            cockpit.location.go(['section', options.section]);
         } else {
             cockpit.location.go([]);
         }
     }
 
-    // Cache management functions
-    function setCachedPackages(groupId: string, packages: PackageDetailsType[]) {
-        setPackageCache(prev => {
-            const newCache = new Map(prev);
-            newCache.set(groupId, packages);
-            return newCache;
-        });
+    // Cart management functions
+    function addCartItem(item: CartItem) {
+        setCartItems(prev => [
+            ...prev.filter(existing => existing.packageId !== item.packageId),
+            item,
+        ]);
     }
 
-    function clearPackageCache() {
-        setPackageCache(new Map());
+    function removeCartItem(packageId: string) {
+        setCartItems(prev => prev.filter(item => item.packageId !== packageId));
     }
 
-    const cacheContextValue: PackageCacheContextType = {
-        cache: packageCache,
-        setCache: setCachedPackages,
-        clearCache: clearPackageCache,
+    function clearCart() {
+        setCartItems([]);
+    }
+
+    const cartContextValue: CartContextType = {
+        items: cartItems,
+        addItem: addCartItem,
+        removeItem: removeCartItem,
+        clear: clearCart,
     };
 
     return (
-        <PackageCacheContext.Provider value={cacheContextValue}>
-            <Page>
-                <PageSection>
-                    {/* Groups view: #/ */}
-                    {path.length === 0 && (
-                        <GroupList
-                            onGroupSelect={handleGroupSelect}
-                            onPackageSelect={handlePackageSelect}
-                        />
-                    )}
-
-                    {/* Package list view: #/group/<groupId> */}
-                    {path.length === 2 && path[0] === 'group' && (
-                        <PackageList
-                            groupId={path[1]}
-                            onBack={handleBackToGroups}
-                            onPackageSelect={(packageId) => handlePackageSelect(packageId, path[1])}
-                        />
-                    )}
-
-                    {/* Package details view: #/package/<packageId> */}
-                    {path.length === 2 && path[0] === 'package' && (
-                        <PackageDetails
-                            packageId={path[1]}
-                            onBack={handleBackFromDetails}
-                        />
-                    )}
-                </PageSection>
-            </Page>
-        </PackageCacheContext.Provider>
+        <PackageCacheProvider>
+            <CartContext.Provider value={cartContextValue}>
+                <TransactionManagerProvider>
+                    <Page>
+                        <PageSection>
+                            <Tabs
+                                activeKey={getActiveTab(path)}
+                                onSelect={(_, tab) => handleTabSelect(tab)}
+                                aria-label="Package manager views"
+                                className="pf-v6-u-mb-md"
+                            >
+                                <Tab eventKey="packages" title={<TabTitleText>Packages</TabTitleText>} />
+                                <Tab eventKey="updates" title={<TabTitleText>Updates</TabTitleText>} />
+                                <Tab eventKey="sources" title={<TabTitleText>Sources</TabTitleText>} />
+                                <Tab eventKey="held" title={<TabTitleText>Held</TabTitleText>} />
+                                <Tab eventKey="history" title={<TabTitleText>History</TabTitleText>} />
+                                <Tab eventKey="repositories" title={<TabTitleText>Repositories</TabTitleText>} />
+                                <Tab eventKey="keys" title={<TabTitleText>Keys</TabTitleText>} />
+                                <Tab eventKey="pinning" title={<TabTitleText>Pinning</TabTitleText>} />
+                                <Tab eventKey="architectures" title={<TabTitleText>Architectures</TabTitleText>} />
+                                <Tab
+                                    eventKey="cart"
+                                    title={
+                                        <TabTitleText>
+                                            Cart {cartItems.length > 0 && <Badge isRead>{cartItems.length}</Badge>}
+                                        </TabTitleText>
+                                    }
+                                />
+                            </Tabs>
+
+                            {/* Running transactions, shown on every view */}
+                            <TransactionProgressPanel />
+
+                            {/* Groups view: #/, or sections with #/?browse=sections */}
+                            {path.length === 0 && (
+                                <GroupList
+                                    browseBy={options.browse === 'sections' ? 'sections' : 'groups'}
+                                    onGroupSelect={handleGroupSelect}
+                                    onSectionSelect={handleSectionSelect}
+                                    onPackageSelect={handlePackageSelect}
+                                />
+                            )}
+
+                            {/* Package list view: #/group/<groupId> */}
+                            {path.length === 2 && path[0] === 'group' && (
+                                <PackageList
+                                    groupId={path[1]}
+                                    onBack={handleBackToGroups}
+                                    onPackageSelect={(packageId) => handlePackageSelect(packageId, path[1])}
+                                />
+                            )}
+
+                            {/* Package list by Debian section: #/section/<name> */}
+                            {path.length === 2 && path[0] === 'section' && (
+                                <PackageList
+                                    groupId={path[1]}
+                                    browseBy="sections"
+                                    onBack={handleBackToSections}
+                                    onPackageSelect={(packageId) => cockpit.location.go(['package', packageId], { section: path[1] })}
+                                />
+                            )}
+
+                            {/* Updates view: #/updates */}
+                            {path.length === 1 && path[0] === 'updates' && (
+                                <UpdateList onUpdateSelect={handleUpdateSelect} />
+                            )}
+
+                            {/* Update details view: #/update/<packageId> */}
+                            {path.length === 2 && path[0] === 'update' && (
+                                <UpdateDetailView
+                                    packageId={path[1]}
+                                    onBack={handleBackToUpdates}
+                                />
+                            )}
+
+                            {/* Source packages view: #/sources?source=<name> */}
+                            {path.length === 1 && path[0] === 'sources' && (
+                                <SourcePackagesView
+                                    {...(typeof options.source === 'string' && { source: options.source })}
+                                />
+                            )}
+
+                            {/* Transaction cart view: #/cart */}
+                            {path.length === 1 && path[0] === 'cart' && (
+                                <CartView onPackageSelect={handlePackageSelect} />
+                            )}
+
+                            {/* Held packages view: #/held */}
+                            {path.length === 1 && path[0] === 'held' && (
+                                <HeldPackagesView onPackageSelect={handlePackageSelect} />
+                            )}
+
+                            {/* Transaction history view: #/history */}
+                            {path.length === 1 && path[0] === 'history' && (
+                                <HistoryView />
+                            )}
+
+                            {/* Repository manager view: #/repositories */}
+                            {path.length === 1 && path[0] === 'repositories' && (
+                                <RepositoryList />
+                            )}
+
+                            {/* Signing key manager: #/keys */}
+                            {path.length === 1 && path[0] === 'keys' && (
+                                <KeyList />
+                            )}
+
+                            {/* Pinning editor: #/pinning?package=<name> */}
+                            {path.length === 1 && path[0] === 'pinning' && (
+                                <PinningView
+                                    {...(typeof options.package === 'string' && { packageName: options.package })}
+                                />
+                            )}
+
+                            {/* Multiarch settings: #/architectures */}
+                            {path.length === 1 && path[0] === 'architectures' && (
+                                <ArchitecturesView />
+                            )}
+
+                            {/* Package details view: #/package/<packageId> */}
+                            {path.length === 2 && path[0] === 'package' && (
+                                <PackageDetails
+                                    packageId={path[1]}
+                                    onBack={handleBackFromDetails}
+                                />
+                            )}
+
+                            {/* Dependency graph: #/graph/<packageId>?depth=<n>&direction=<direction> */}
+                            {path.length === 2 && path[0] === 'graph' && (
+                                <DependencyGraphView
+                                    packageId={path[1]}
+                                    {...parseGraphOptions(options)}
+                                    onPackageSelect={handlePackageSelect}
+                                />
+                            )}
+
+                            {/* Providers of a virtual package: #/provides/<name> */}
+                            {path.length === 2 && path[0] === 'provides' && (
+                                <ProviderChooser
+                                    name={path[1]}
+                                    onPackageSelect={handlePackageSelect}
+                                />
+                            )}
+                        </PageSection>
+                    </Page>
+                </TransactionManagerProvider>
+            </CartContext.Provider>
+        </PackageCacheProvider>
     );
 };
 
@@ -0,0 +1,514 @@
+/*
+ * PinningView component - Edit apt pins in /etc/apt/preferences.d and show the resulting candidates
+ */
+
+import {
+    Badge,
+    Button,
+    EmptyState,
+    EmptyStateBody,
+    Flex,
+    FlexItem,
+    Form,
+    FormGroup,
+    FormHelperText,
+    FormSelect,
+    FormSelectOption,
+    HelperText,
+    HelperTextItem,
+    Label,
+    Modal,
+    ModalBody,
+    ModalFooter,
+    ModalHeader,
+    ModalVariant,
+    SearchInput,
+    Spinner,
+    TextInput,
+    Title,
+} from '@patternfly/react-core';
+import { ExclamationCircleIcon, PencilAltIcon, TrashIcon } from '@patternfly/react-icons';
+import {
+    Table,
+    Tbody,
+    Td,
+    Th,
+    Thead,
+    Tr,
+} from '@patternfly/react-table';
+import React, { useEffect, useState } from 'react';
+
+import { getPackagePolicy, readPreferences, writePreferences } from './apt';
+import {
+    describePinPriority,
+    formatPin,
+    getPinnedPackageNames,
+    getPreferencesPath,
+    parsePin,
+    PIN_KINDS,
+    pinAppliesToPackage,
+    validatePinPriority,
+    validatePinValue,
+} from './apt-preferences';
+import { validateRepositoryName } from './apt-sources';
+import { AptPin, PackagePolicy, PinKind, PreferencesFile } from './types';
+import { getErrorMessage } from './utils';
+
+// Cockpit is loaded as a global via script tag
+declare const cockpit: any;
+
+const NEW_FILE = '';
+
+// Pin together with the file it is stored in
+interface PinLocation {
+    path: string;
+    index: number;
+    pin: AptPin;
+}
+
+interface PinModalProps {
+    editing: PinLocation | null;   // null to add a new pin
+    paths: string[];               // Existing preferences files
+    initialPackages: string;
+    onSave: (path: string, pin: AptPin) => void;
+    onCancel: () => void;
+}
+
+const PinModal: React.FC<PinModalProps> = ({ editing, paths, initialPackages, onSave, onCancel }) => {
+    const parsed = editing ? parsePin(editing.pin.pin) : null;
+    const [path, setPath] = useState(editing ? editing.path : NEW_FILE);
+    const [fileName, setFileName] = useState(initialPackages ? `${initialPackages}-pin` : '');
+    const [packages, setPackages] = useState(editing ? editing.pin.packages : initialPackages);
+    const [kind, setKind] = useState<PinKind>(parsed ? parsed.kind : 'release');
+    const [value, setValue] = useState(parsed ? parsed.value : '');
+    const [priority, setPriority] = useState(editing ? String(editing.pin.priority) : '990');
+    const [explanation, setExplanation] = useState(editing ? editing.pin.explanation.join(' ') : '');
+
+    const fileError = path === NEW_FILE ? validateRepositoryName(fileName) : null;
+    const packagesError = packages.trim() ? null : 'Enter package names, e.g. "nginx", "nginx-*" or "*"';
+    const valueError = validatePinValue(kind, value.trim());
+    const priorityError = validatePinPriority(priority);
+    const isValid = !fileError && !packagesError && !valueError && !priorityError;
+
+    function handleSave() {
+        onSave(path === NEW_FILE ? getPreferencesPath(fileName) : path, {
+            packages: packages.trim(),
+            pin: formatPin(kind, value.trim()),
+            priority: Number(priority),
+            explanation: explanation.trim() ? [explanation.trim()] : [],
+            comments: editing ? editing.pin.comments : [],
+        });
+    }
+
+    return (
+        <Modal variant={ModalVariant.medium} isOpen onClose={onCancel} aria-labelledby="pin-modal-title">
+            <ModalHeader title={editing ? 'Edit pin' : 'Add pin'} labelId="pin-modal-title" />
+            <ModalBody>
+                <Form>
+                    <FormGroup label="File" fieldId="pin-file">
+                        <FormSelect
+                            id="pin-file"
+                            value={path}
+                            onChange={(_, newPath) => setPath(newPath)}
+                            isDisabled={editing !== null}
+                        >
+                            <FormSelectOption value={NEW_FILE} label="New file" />
+                            {paths.map(existing => (
+                                <FormSelectOption key={existing} value={existing} label={existing} />
+                            ))}
+                        </FormSelect>
+                    </FormGroup>
+                    {path === NEW_FILE && (
+                        <FormGroup label="File name" isRequired fieldId="pin-file-name">
+                            <TextInput
+                                id="pin-file-name"
+                                value={fileName}
+                                onChange={(_, newValue) => setFileName(newValue.trim())}
+                                validated={fileName && fileError ? 'error' : 'default'}
+                            />
+                            <FormHelperText>
+                                <HelperText>
+                                    <HelperTextItem variant={fileName && fileError ? 'error' : 'default'}>
+                                        {fileName && fileError ? fileError : `Saved as ${getPreferencesPath(fileName)}`}
+                                    </HelperTextItem>
+                                </HelperText>
+                            </FormHelperText>
+                        </FormGroup>
+                    )}
+                    <FormGroup label="Packages" isRequired fieldId="pin-packages">
+                        <TextInput
+                            id="pin-packages"
+                            value={packages}
+                            placeholder="nginx nginx-*"
+                            onChange={(_, newValue) => setPackages(newValue)}
+                        />
+                        <FormHelperText>
+                            <HelperText>
+                                <HelperTextItem>
+                                    {packagesError || 'Names, glob patterns or /regular expressions/, "*" for all packages'}
+                                </HelperTextItem>
+                            </HelperText>
+                        </FormHelperText>
+                    </FormGroup>
+                    <FormGroup label="Pin by" fieldId="pin-kind">
+                        <FormSelect id="pin-kind" value={kind} onChange={(_, newKind) => setKind(newKind as PinKind)}>
+                            {(Object.keys(PIN_KINDS) as PinKind[]).map(option => (
+                                <FormSelectOption key={option} value={option} label={PIN_KINDS[option].name} />
+                            ))}
+                        </FormSelect>
+                    </FormGroup>
+                    <FormGroup label={PIN_KINDS[kind].name} isRequired fieldId="pin-value">
+                        <TextInput
+                            id="pin-value"
+                            value={value}
+                            placeholder={PIN_KINDS[kind].placeholder}
+                            onChange={(_, newValue) => setValue(newValue)}
+                            validated={value && valueError ? 'error' : 'default'}
+                        />
+                        {value && valueError && (
+                            <FormHelperText>
+                                <HelperText>
+                                    <HelperTextItem variant="error">{valueError}</HelperTextItem>
+                                </HelperText>
+                            </FormHelperText>
+                        )}
+                    </FormGroup>
+                    <FormGroup label="Priority" isRequired fieldId="pin-priority">
+                        <TextInput
+                            id="pin-priority"
+                            type="number"
+                            value={priority}
+                            onChange={(_, newValue) => setPriority(newValue)}
+                            validated={priorityError ? 'error' : 'default'}
+                        />
+                        <FormHelperText>
+                            <HelperText>
+                                <HelperTextItem variant={priorityError ? 'error' : 'default'}>
+                                    {priorityError || describePinPriority(Number(priority))}
+                                </HelperTextItem>
+                            </HelperText>
+                        </FormHelperText>
+                    </FormGroup>
+                    <FormGroup label="Explanation" fieldId="pin-explanation">
+                        <TextInput
+                            id="pin-explanation"
+                            value={explanation}
+                            placeholder="Why this pin exists"
+                            onChange={(_, newValue) => setExplanation(newValue)}
+                        />
+                    </FormGroup>
+                </Form>
+            </ModalBody>
+            <ModalFooter>
+                <Button variant="primary" onClick={handleSave} isDisabled={!isValid}>
+                    Save
+                </Button>
+                <Button variant="link" onClick={onCancel}>
+                    Cancel
+                </Button>
+            </ModalFooter>
+        </Modal>
+    );
+};
+
+interface PolicyDetailsProps {
+    policy: PackagePolicy;
+    pins: PinLocation[];           // Pins that apply to the package
+}
+
+const PolicyDetails: React.FC<PolicyDetailsProps> = ({ policy, pins }) => (
+    <div>
+        <p className="pf-v6-u-mb-sm">
+            <strong>Installed:</strong> {policy.installed || 'not installed'}
+            {' · '}
+            <strong>Candidate:</strong> {policy.candidate || 'none'}
+        </p>
+        <Table aria-label={`Versions of ${policy.name}`} variant="compact">
+            <Thead>
+                <Tr>
+                    <Th width={25}>Version</Th>
+                    <Th width={15}>Priority</Th>
+                    <Th width={60}>Sources</Th>
+                </Tr>
+            </Thead>
+            <Tbody>
+                {policy.versions.map(version => (
+                    <Tr key={version.version}>
+                        <Td>
+                            {version.version}{' '}
+                            {version.installed && <Label isCompact color="green">Installed</Label>}{' '}
+                            {version.version === policy.candidate && <Label isCompact color="blue">Candidate</Label>}
+                        </Td>
+                        <Td>{version.priority}</Td>
+                        <Td>
+                            {version.sources.map(source => (
+                                <div key={source.source} className="pf-v6-u-font-size-sm">
+                                    {source.priority} {source.source}
+                                </div>
+                            ))}
+                        </Td>
+                    </Tr>
+                ))}
+            </Tbody>
+        </Table>
+        <p className="pf-v6-u-mt-sm">
+            {pins.length === 0
+                ? 'No pin applies to this package.'
+                : `Applying pins: ${pins.map(({ pin }) => `${pin.pin} (${pin.priority})`).join(', ')}`}
+        </p>
+    </div>
+);
+
+interface PinningViewProps {
+    packageName?: string;          // Package to show the policy of, e.g. when opened from its details
+}
+
+export const PinningView: React.FC<PinningViewProps> = ({ packageName = '' }) => {
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [files, setFiles] = useState<PreferencesFile[]>([]);
+    const [policies, setPolicies] = useState<Map<string, PackagePolicy>>(new Map());
+    const [lookup, setLookup] = useState(packageName);
+    const [editing, setEditing] = useState<PinLocation | null>(null);
+    const [adding, setAdding] = useState(false);
+    const [deleting, setDeleting] = useState<PinLocation | null>(null);
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        setLookup(packageName);
+        loadPins();
+    }, [packageName]);
+
+    async function loadPins() {
+        setError(null);
+
+        try {
+            const preferences = await readPreferences();
+            setFiles(preferences);
+
+            // Candidates of the packages named by pins, and of the one looked up
+            const names = new Set(preferences.flatMap(file => file.pins.flatMap(pin => getPinnedPackageNames(pin.packages))));
+            if (packageName) {
+                names.add(packageName);
+            }
+            const results = await getPackagePolicy([...names]);
+            setPolicies(new Map(results.map(policy => [policy.name, policy])));
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    function handleLookup(name: string) {
+        // Keep the looked up package in the URL so reloads and links show it
+        cockpit.location.go(['pinning'], name ? { package: name } : {});
+    }
+
+    async function savePins(path: string, pins: AptPin[]) {
+        setSaving(true);
+        setError(null);
+
+        try {
+            await writePreferences(path, pins, files.find(file => file.path === path)?.unparsed);
+            await loadPins();
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setSaving(false);
+        }
+    }
+
+    function handleSave(path: string, pin: AptPin) {
+        const existing = files.find(file => file.path === path)?.pins || [];
+        const pins = editing
+            ? existing.map((current, index) => index === editing.index ? pin : current)
+            : [...existing, pin];
+
+        setEditing(null);
+        setAdding(false);
+        savePins(path, pins);
+    }
+
+    function handleDelete(location: PinLocation) {
+        const existing = files.find(file => file.path === location.path)?.pins || [];
+
+        setDeleting(null);
+        savePins(location.path, existing.filter((_, index) => index !== location.index));
+    }
+
+    if (loading) {
+        return (
+            <div className="pf-v6-u-text-align-center pf-v6-u-p-xl">
+                <Spinner size="xl" aria-label="Loading pins" />
+                <p className="pf-v6-u-mt-md" aria-live="polite">Loading pins...</p>
+            </div>
+        );
+    }
+
+    const allPins: PinLocation[] = files.flatMap(file => file.pins.map((pin, index) => ({ path: file.path, index, pin })));
+    const lookupPolicy = packageName ? policies.get(packageName) : undefined;
+
+    return (
+        <Flex className="pinning-view" direction={{ default: 'column' }} spaceItems={{ default: 'spaceItemsMd' }}>
+            {(adding || editing) && (
+                <PinModal
+                    editing={editing}
+                    paths={files.map(file => file.path)}
+                    initialPackages={packageName}
+                    onSave={handleSave}
+                    onCancel={() => {
+                        setAdding(false);
+                        setEditing(null);
+                    }}
+                />
+            )}
+
+            {deleting && (
+                <Modal variant={ModalVariant.small} isOpen onClose={() => setDeleting(null)} aria-labelledby="delete-pin-title">
+                    <ModalHeader title="Delete pin" labelId="delete-pin-title" />
+                    <ModalBody>
+                        The pin <strong>{deleting.pin.pin}</strong> for <strong>{deleting.pin.packages}</strong> will
+                        be removed from {deleting.path}.
+                    </ModalBody>
+                    <ModalFooter>
+                        <Button variant="danger" onClick={() => handleDelete(deleting)}>
+                            Delete
+                        </Button>
+                        <Button variant="link" onClick={() => setDeleting(null)}>
+                            Cancel
+                        </Button>
+                    </ModalFooter>
+                </Modal>
+            )}
+
+            <FlexItem>
+                <Flex justifyContent={{ default: 'justifyContentSpaceBetween' }} alignItems={{ default: 'alignItemsCenter' }}>
+                    <FlexItem flex={{ default: 'flex_1' }}>
+                        <Title headingLevel="h1" size="2xl" className="pf-v6-u-mb-sm">Pinning</Title>
+                        <p>{allPins.length} pins in {files.length} preferences files</p>
+                    </FlexItem>
+                    <FlexItem>
+                        <Button variant="primary" onClick={() => setAdding(true)} isDisabled={saving}>
+                            Add pin
+                        </Button>
+                    </FlexItem>
+                </Flex>
+            </FlexItem>
+
+            {error && (
+                <FlexItem>
+                    <div className="pf-v6-c-alert pf-m-danger" role="alert" aria-live="assertive">
+                        <div className="pf-v6-c-alert__icon">
+                            <ExclamationCircleIcon />
+                        </div>
+                        <p className="pf-v6-c-alert__title">{error}</p>
+                    </div>
+                </FlexItem>
+            )}
+
+            <FlexItem>
+                <Title headingLevel="h2" size="lg" className="pf-v6-u-mb-sm">Candidate version</Title>
+                <SearchInput
+                    placeholder="Package name, press Enter to show its versions"
+                    value={lookup}
+                    onChange={(_, value) => setLookup(value)}
+                    onSearch={(_, value) => handleLookup(value.trim())}
+                    onClear={() => handleLookup('')}
+                    aria-label="Package to show versions of"
+                />
+                {packageName && (
+                    <div className="pf-v6-u-mt-md">
+                        {lookupPolicy ? (
+                            <PolicyDetails
+                                policy={lookupPolicy}
+                                pins={allPins.filter(({ pin }) => pinAppliesToPackage(pin.packages, packageName))}
+                            />
+                        ) : (
+                            <p>apt knows no package named {packageName}.</p>
+                        )}
+                    </div>
+                )}
+            </FlexItem>
+
+            <FlexItem>
+                <Title headingLevel="h2" size="lg" className="pf-v6-u-mb-sm">Pins</Title>
+                {allPins.length === 0 ? (
+                    <EmptyState>
+                        <Title headingLevel="h3" size="md">No pins</Title>
+                        <EmptyStateBody>
+                            All packages follow the default priorities of their repositories
+                        </EmptyStateBody>
+                    </EmptyState>
+                ) : (
+                    <div>
+                        <div style={{ marginBottom: '0.5rem' }}>
+                            <Badge>{allPins.length} pins</Badge>
+                        </div>
+                        <Table aria-label="Pins" variant="compact">
+                            <Thead>
+                                <Tr>
+                                    <Th width={20}>Packages</Th>
+                                    <Th width={20}>Pin</Th>
+                                    <Th width={15}>Priority</Th>
+                                    <Th width={20}>Candidate</Th>
+                                    <Th width={15}>File</Th>
+                                    <Th width={10} modifier="fitContent"></Th>
+                                </Tr>
+                            </Thead>
+                            <Tbody>
+                                {allPins.map(location => (
+                                    <Tr key={`${location.path}:${location.index}`}>
+                                        <Td>
+                                            <code>{location.pin.packages}</code>
+                                            {location.pin.explanation.length > 0 && (
+                                                <div className="pf-v6-u-font-size-sm">{location.pin.explanation.join(' ')}</div>
+                                            )}
+                                        </Td>
+                                        <Td modifier="truncate">{location.pin.pin}</Td>
+                                        <Td>
+                                            {location.pin.priority}
+                                            <div className="pf-v6-u-font-size-sm">{describePinPriority(location.pin.priority)}</div>
+                                        </Td>
+                                        <Td>
+                                            {getPinnedPackageNames(location.pin.packages).map(name => (
+                                                <div key={name}>
+                                                    <Button variant="link" isInline onClick={() => handleLookup(name)}>
+                                                        {name}
+                                                    </Button>: {policies.get(name)?.candidate || 'none'}
+                                                </div>
+                                            ))}
+                                        </Td>
+                                        <Td modifier="truncate">{location.path}</Td>
+                                        <Td modifier="fitContent">
+                                            <Flex flexWrap={{ default: 'nowrap' }}>
+                                                <Button
+                                                    variant="plain"
+                                                    size="sm"
+                                                    onClick={() => setEditing(location)}
+                                                    isDisabled={saving}
+                                                    aria-label={`Edit pin ${location.pin.pin}`}
+                                                    title="Edit pin"
+                                                    icon={<PencilAltIcon />}
+                                                />
+                                                <Button
+                                                    variant="plain"
+                                                    size="sm"
+                                                    onClick={() => setDeleting(location)}
+                                                    isDisabled={saving}
+                                                    aria-label={`Delete pin ${location.pin.pin}`}
+                                                    title="Delete pin"
+                                                    icon={<TrashIcon />}
+                                                />
+                                            </Flex>
+                                        </Td>
+                                    </Tr>
+                                ))}
+                            </Tbody>
+                        </Table>
+                    </div>
+                )}
+            </FlexItem>
+        </Flex>
+    );
+};
@@ -0,0 +1,187 @@
+/*
+ * ProviderChooser component - Pick the package that provides a virtual package
+ */
+
+import {
+    Badge,
+    Breadcrumb,
+    BreadcrumbItem,
+    Button,
+    EmptyState,
+    EmptyStateBody,
+    Flex,
+    FlexItem,
+    Label,
+    Spinner,
+    Title,
+} from '@patternfly/react-core';
+import { ExclamationCircleIcon } from '@patternfly/react-icons';
+import {
+    Table,
+    Tbody,
+    Td,
+    Th,
+    Thead,
+    Tr,
+} from '@patternfly/react-table';
+import React, { useEffect, useState } from 'react';
+
+import * as PK from './packagekit';
+import { useTransactionManager } from './transaction-manager';
+import { useTransactionPreview } from './transaction-preview';
+import { PackageInfo } from './types';
+import { getErrorMessage, getProviderChoices } from './utils';
+
+interface ProviderChooserProps {
+    name: string;
+    onPackageSelect: (packageId: string) => void;
+}
+
+export const ProviderChooser: React.FC<ProviderChooserProps> = ({ name, onPackageSelect }) => {
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [providers, setProviders] = useState<PackageInfo[]>([]);
+    const [operatingOn, setOperatingOn] = useState<string | null>(null);
+    const { confirmTransaction, previewModal } = useTransactionPreview();
+    const { runTransaction, isBusy } = useTransactionManager();
+
+    useEffect(() => {
+        loadProviders();
+    }, [name]);
+
+    async function loadProviders() {
+        setError(null);
+
+        try {
+            setProviders(getProviderChoices(await PK.whatProvides(name)));
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    async function handleInstall(provider: PackageInfo) {
+        const confirmed = await confirmTransaction({
+            title: `Install ${provider.name} to provide ${name}`,
+            confirmLabel: 'Install',
+            simulate: () => PK.previewInstallPackage(provider.id),
+            aptArgs: [provider.name],
+        });
+        if (!confirmed) return;
+
+        setOperatingOn(provider.id);
+        setError(null);
+
+        try {
+            await runTransaction(`Installing ${provider.name}`, progressCb => PK.installPackage(provider.id, progressCb));
+            await loadProviders();
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setOperatingOn(null);
+        }
+    }
+
+    if (loading) {
+        return (
+            <div className="pf-v6-u-text-align-center pf-v6-u-p-xl">
+                <Spinner size="xl" aria-label="Loading providers" />
+                <p className="pf-v6-u-mt-md" aria-live="polite">Looking up packages that provide {name}...</p>
+            </div>
+        );
+    }
+
+    const installed = providers.filter(provider => provider.installed);
+
+    return (
+        <Flex className="provider-chooser" direction={{ default: 'column' }} spaceItems={{ default: 'spaceItemsMd' }}>
+            {previewModal}
+            <FlexItem>
+                <Breadcrumb className="pf-v6-u-mb-md">
+                    <BreadcrumbItem to="#/">
+                        Groups
+                    </BreadcrumbItem>
+                    <BreadcrumbItem isActive>Providers of {name}</BreadcrumbItem>
+                </Breadcrumb>
+            </FlexItem>
+
+            <FlexItem>
+                <Title headingLevel="h1" size="2xl" className="pf-v6-u-mb-sm">Packages providing {name}</Title>
+                <p>
+                    {name} is a virtual package; install one of the packages below to provide it.
+                    {installed.length > 0 && ` Currently provided by ${installed.map(provider => provider.name).join(', ')}.`}
+                </p>
+            </FlexItem>
+
+            {error && (
+                <FlexItem>
+                    <div className="pf-v6-c-alert pf-m-danger" role="alert" aria-live="assertive">
+                        <div className="pf-v6-c-alert__icon">
+                            <ExclamationCircleIcon />
+                        </div>
+                        <p className="pf-v6-c-alert__title">{error}</p>
+                    </div>
+                </FlexItem>
+            )}
+
+            <FlexItem>
+                {providers.length === 0 ? (
+                    <EmptyState>
+                        <Title headingLevel="h2" size="lg">No providers found</Title>
+                        <EmptyStateBody>
+                            No package in the enabled repositories provides {name}
+                        </EmptyStateBody>
+                    </EmptyState>
+                ) : (
+                    <div>
+                        <div style={{ marginBottom: '0.5rem' }}>
+                            <Badge>{providers.length} packages</Badge>
+                        </div>
+                        <Table aria-label={`Packages providing ${name}`} variant="compact">
+                            <Thead>
+                                <Tr>
+                                    <Th width={25}>Name</Th>
+                                    <Th width={40}>Summary</Th>
+                                    <Th width={15}>Version</Th>
+                                    <Th width={10}>Status</Th>
+                                    <Th width={10} modifier="fitContent"></Th>
+                                </Tr>
+                            </Thead>
+                            <Tbody>
+                                {providers.map(provider => (
+                                    <Tr key={provider.id}>
+                                        <Td>
+                                            <Button variant="link" isInline onClick={() => onPackageSelect(provider.id)}>
+                                                {provider.name}
+                                            </Button>
+                                        </Td>
+                                        <Td modifier="truncate">{provider.summary}</Td>
+                                        <Td modifier="truncate">{provider.version}</Td>
+                                        <Td>
+                                            {provider.installed && <Label isCompact color="green">Installed</Label>}
+                                        </Td>
+                                        <Td modifier="fitContent">
+                                            {!provider.installed && (
+                                                <Button
+                                                    variant="primary"
+                                                    size="sm"
+                                                    onClick={() => handleInstall(provider)}
+                                                    isDisabled={operatingOn !== null || isBusy}
+                                                    isLoading={operatingOn === provider.id}
+                                                    aria-label={`Install ${provider.name}`}
+                                                >
+                                                    Install
+                                                </Button>
+                                            )}
+                                        </Td>
+                                    </Tr>
+                                ))}
+                            </Tbody>
+                        </Table>
+                    </div>
+                )}
+            </FlexItem>
+        </Flex>
+    );
+};
@@ -0,0 +1,315 @@
+/*
+ * RepositoryList component - View, enable/disable and remove configured repositories
+ */
+
+import {
+    Badge,
+    Button,
+    Checkbox,
+    EmptyState,
+    EmptyStateBody,
+    Flex,
+    FlexItem,
+    Label,
+    Modal,
+    ModalBody,
+    ModalFooter,
+    ModalHeader,
+    ModalVariant,
+    SearchInput,
+    Spinner,
+    Switch,
+    Title,
+} from '@patternfly/react-core';
+import { ExclamationCircleIcon, ExclamationTriangleIcon, TrashIcon } from '@patternfly/react-icons';
+import {
+    Table,
+    Tbody,
+    Td,
+    Th,
+    Thead,
+    Tr,
+} from '@patternfly/react-table';
+import React, { useEffect, useState } from 'react';
+
+import { readKeyrings, readSources } from './apt';
+import { daysUntil, getExpiringKeyrings, getFirstExpiry } from './apt-keys';
+import * as PK from './packagekit';
+import { RepositoryWizard } from './repository-wizard';
+import { useTransactionManager } from './transaction-manager';
+import { ConfiguredSource, Keyring, RepositoryInfo } from './types';
+import { filterRepositories, getErrorMessage, sortRepositories } from './utils';
+
+interface RemoveRepositoryModalProps {
+    repo: RepositoryInfo;
+    onConfirm: (autoremove: boolean) => void;
+    onCancel: () => void;
+}
+
+const RemoveRepositoryModal: React.FC<RemoveRepositoryModalProps> = ({ repo, onConfirm, onCancel }) => {
+    const [autoremove, setAutoremove] = useState(false);
+
+    return (
+        <Modal
+            variant={ModalVariant.small}
+            isOpen
+            onClose={onCancel}
+            aria-labelledby="remove-repository-title"
+        >
+            <ModalHeader title="Remove repository" labelId="remove-repository-title" />
+            <ModalBody>
+                <p className="pf-v6-u-mb-md">
+                    <strong>{repo.description}</strong> will be removed from the apt sources.
+                </p>
+                <Checkbox
+                    id="remove-repository-autoremove"
+                    label="Also remove packages installed from this repository"
+                    isChecked={autoremove}
+                    onChange={(_, checked) => setAutoremove(checked)}
+                />
+            </ModalBody>
+            <ModalFooter>
+                <Button variant="danger" onClick={() => onConfirm(autoremove)}>
+                    Remove
+                </Button>
+                <Button variant="link" onClick={onCancel}>
+                    Cancel
+                </Button>
+            </ModalFooter>
+        </Modal>
+    );
+};
+
+export const RepositoryList: React.FC = () => {
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [repos, setRepos] = useState<RepositoryInfo[]>([]);
+    const [searchQuery, setSearchQuery] = useState('');
+    const [operatingOn, setOperatingOn] = useState<string | null>(null);
+    const [removing, setRemoving] = useState<RepositoryInfo | null>(null);
+    const [showWizard, setShowWizard] = useState(false);
+    const [keyrings, setKeyrings] = useState<Keyring[]>([]);
+    const [sources, setSources] = useState<ConfiguredSource[]>([]);
+    const { runTransaction, isBusy } = useTransactionManager();
+
+    useEffect(() => {
+        loadRepos();
+        loadKeys();
+
+        // Stay current when sources change, e.g. from apt or another client
+        const unsubscribe = PK.watchRepoList(() => loadRepos());
+        return unsubscribe;
+    }, []);
+
+    async function loadRepos() {
+        setError(null);
+
+        try {
+            setRepos(sortRepositories(await PK.getRepoList()));
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    // Keys are only needed for expiry warnings, the list works without them
+    async function loadKeys() {
+        try {
+            const [keys, configured] = await Promise.all([readKeyrings(), readSources()]);
+            setKeyrings(keys);
+            setSources(configured);
+        } catch (err) {
+            console.warn('Failed to load signing keys:', err);
+        }
+    }
+
+    async function handleToggle(repo: RepositoryInfo, enabled: boolean) {
+        setOperatingOn(repo.id);
+        setError(null);
+
+        try {
+            await runTransaction(
+                `${enabled ? 'Enabling' : 'Disabling'} ${repo.description}`,
+                progressCb => PK.setRepoEnabled(repo.id, enabled, progressCb)
+            );
+            await loadRepos();
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setOperatingOn(null);
+        }
+    }
+
+    async function handleRemove(repo: RepositoryInfo, autoremove: boolean) {
+        setRemoving(null);
+        setOperatingOn(repo.id);
+        setError(null);
+
+        try {
+            await runTransaction(
+                `Removing ${repo.description}`,
+                progressCb => PK.removeRepo(repo.id, autoremove, progressCb)
+            );
+            await loadRepos();
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setOperatingOn(null);
+        }
+    }
+
+    if (loading) {
+        return (
+            <div className="pf-v6-u-text-align-center pf-v6-u-p-xl">
+                <Spinner size="xl" aria-label="Loading repositories" />
+                <p className="pf-v6-u-mt-md" aria-live="polite">Loading repositories...</p>
+            </div>
+        );
+    }
+
+    const filteredRepos = filterRepositories(repos, searchQuery);
+    const enabledCount = repos.filter(repo => repo.enabled).length;
+
+    return (
+        <Flex className="repository-list" direction={{ default: 'column' }} spaceItems={{ default: 'spaceItemsMd' }}>
+            {removing && (
+                <RemoveRepositoryModal
+                    repo={removing}
+                    onConfirm={autoremove => handleRemove(removing, autoremove)}
+                    onCancel={() => setRemoving(null)}
+                />
+            )}
+
+            {showWizard && (
+                <RepositoryWizard
+                    onClose={() => setShowWizard(false)}
+                    onAdded={() => {
+                        loadRepos();
+                        loadKeys();
+                    }}
+                />
+            )}
+
+            <FlexItem>
+                <Flex justifyContent={{ default: 'justifyContentSpaceBetween' }} alignItems={{ default: 'alignItemsCenter' }}>
+                    <FlexItem flex={{ default: 'flex_1' }}>
+                        <Title headingLevel="h1" size="2xl" className="pf-v6-u-mb-sm">Repositories</Title>
+                        <p>{repos.length} repositories configured, {enabledCount} enabled</p>
+                    </FlexItem>
+                    <FlexItem>
+                        <Button
+                            variant="primary"
+                            onClick={() => setShowWizard(true)}
+                            isDisabled={isBusy}
+                        >
+                            Add repository
+                        </Button>
+                    </FlexItem>
+                </Flex>
+            </FlexItem>
+
+            {error && (
+                <FlexItem>
+                    <div className="pf-v6-c-alert pf-m-danger" role="alert" aria-live="assertive">
+                        <div className="pf-v6-c-alert__icon">
+                            <ExclamationCircleIcon />
+                        </div>
+                        <p className="pf-v6-c-alert__title">{error}</p>
+                    </div>
+                </FlexItem>
+            )}
+
+            <FlexItem>
+                <SearchInput
+                    placeholder="Filter repositories..."
+                    value={searchQuery}
+                    onChange={(_, value) => setSearchQuery(value)}
+                    onClear={() => setSearchQuery('')}
+                    aria-label="Filter repositories"
+                />
+            </FlexItem>
+
+            <FlexItem>
+                {filteredRepos.length === 0 ? (
+                    <EmptyState>
+                        <Title headingLevel="h2" size="lg">No repositories found</Title>
+                        <EmptyStateBody>
+                            {searchQuery ? `No repositories match "${searchQuery}"` : 'No repositories are configured'}
+                        </EmptyStateBody>
+                    </EmptyState>
+                ) : (
+                    <div>
+                        <div style={{ marginBottom: '0.5rem' }}>
+                            <Badge>{filteredRepos.length} repositories</Badge>
+                        </div>
+                        <Table aria-label="Repositories" variant="compact">
+                            <Thead>
+                                <Tr>
+                                    <Th width={10}>Enabled</Th>
+                                    <Th width={40}>Description</Th>
+                                    <Th width={40}>Source</Th>
+                                    <Th width={10} modifier="fitContent"></Th>
+                                </Tr>
+                            </Thead>
+                            <Tbody>
+                                {filteredRepos.map(repo => (
+                                    <Tr key={repo.id}>
+                                        <Td>
+                                            {operatingOn === repo.id ? (
+                                                <Spinner size="md" aria-label={`Updating ${repo.description}`} />
+                                            ) : (
+                                                <Switch
+                                                    id={`repo-enabled-${repo.id}`}
+                                                    isChecked={repo.enabled}
+                                                    onChange={(_, checked) => handleToggle(repo, checked)}
+                                                    isDisabled={operatingOn !== null || isBusy}
+                                                    aria-label={`${repo.enabled ? 'Disable' : 'Enable'} ${repo.description}`}
+                                                />
+                                            )}
+                                        </Td>
+                                        <Td modifier="truncate">
+                                            {repo.description}
+                                            {getExpiringKeyrings(repo, sources, keyrings).map(keyring => {
+                                                // Expiring keyrings always have a date, expired ones none left
+                                                const expires = getFirstExpiry(keyring);
+
+                                                return (
+                                                    <Label
+                                                        key={keyring.path}
+                                                        color={expires ? 'orange' : 'red'}
+                                                        isCompact
+                                                        icon={<ExclamationTriangleIcon />}
+                                                        href="#/keys"
+                                                        className="pf-v6-u-ml-sm"
+                                                        title={keyring.path}
+                                                    >
+                                                        {expires ? `Key expires in ${daysUntil(expires)} days` : 'Key expired'}
+                                                    </Label>
+                                                );
+                                            })}
+                                        </Td>
+                                        <Td modifier="truncate">
+                                            <code>{repo.id}</code>
+                                        </Td>
+                                        <Td modifier="fitContent">
+                                            <Button
+                                                variant="plain"
+                                                size="sm"
+                                                onClick={() => setRemoving(repo)}
+                                                isDisabled={operatingOn !== null || isBusy}
+                                                aria-label={`Remove ${repo.description}`}
+                                                title="Remove repository"
+                                                icon={<TrashIcon />}
+                                            />
+                                        </Td>
+                                    </Tr>
+                                ))}
+                            </Tbody>
+                        </Table>
+                    </div>
+                )}
+            </FlexItem>
+        </Flex>
+    );
+};
@@ -0,0 +1,350 @@
+/*
+ * RepositoryWizard component - Add a third-party apt repository with its signing key
+ */
+
+import {
+    Button,
+    FileUpload,
+    Form,
+    FormGroup,
+    FormHelperText,
+    HelperText,
+    HelperTextItem,
+    Modal,
+    ModalBody,
+    ModalFooter,
+    ModalHeader,
+    ModalVariant,
+    Spinner,
+    TextInput,
+    Wizard,
+    WizardHeader,
+    WizardStep,
+} from '@patternfly/react-core';
+import { CheckCircleIcon, ExclamationCircleIcon, ExclamationTriangleIcon } from '@patternfly/react-icons';
+import React, { useState } from 'react';
+
+import { addRepositoryFiles } from './apt';
+import {
+    dearmorKey,
+    formatDeb822Source,
+    getKeyringPath,
+    getSourcePath,
+    groupFetchErrors,
+    isArmoredKey,
+    isSameRepositoryUri,
+    splitList,
+    validateRepositoryName,
+    validateRepositoryUri,
+    validateSuites,
+} from './apt-sources';
+import * as PK from './packagekit';
+import { useTransactionManager } from './transaction-manager';
+import { TransactionError } from './types';
+import { getErrorMessage } from './utils';
+
+interface FieldProps {
+    label: string;
+    fieldId: string;
+    value: string;
+    placeholder: string;
+    helperText: string;
+    error: string | null;
+    onChange: (value: string) => void;
+}
+
+// Text field that shows its validation error once something was entered
+const Field: React.FC<FieldProps> = ({ label, fieldId, value, placeholder, helperText, error, onChange }) => {
+    const showError = value !== '' && error !== null;
+
+    return (
+        <FormGroup label={label} isRequired fieldId={fieldId}>
+            <TextInput
+                id={fieldId}
+                value={value}
+                placeholder={placeholder}
+                onChange={(_, newValue) => onChange(newValue.trim())}
+                validated={showError ? 'error' : 'default'}
+            />
+            <FormHelperText>
+                <HelperText>
+                    <HelperTextItem variant={showError ? 'error' : 'default'}>
+                        {showError ? error : helperText}
+                    </HelperTextItem>
+                </HelperText>
+            </FormHelperText>
+        </FormGroup>
+    );
+};
+
+interface RepositoryWizardProps {
+    onClose: () => void;
+    onAdded: () => void;     // Called once the files are written
+}
+
+type WizardPhase = 'edit' | 'saving' | 'done';
+
+export const RepositoryWizard: React.FC<RepositoryWizardProps> = ({ onClose, onAdded }) => {
+    const [name, setName] = useState('');
+    const [uri, setUri] = useState('');
+    const [suites, setSuites] = useState('');
+    const [components, setComponents] = useState('main');
+    const [key, setKey] = useState('');
+    const [keyFilename, setKeyFilename] = useState('');
+    const [phase, setPhase] = useState<WizardPhase>('edit');
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const [refreshError, setRefreshError] = useState<string | null>(null);
+    const [fetchErrors, setFetchErrors] = useState<Map<string, string[]>>(new Map());
+    const { runTransaction } = useTransactionManager();
+
+    const suiteList = splitList(suites);
+    const componentList = splitList(components);
+    const nameError = validateRepositoryName(name);
+    const uriError = validateRepositoryUri(uri);
+    const suitesError = validateSuites(suiteList, componentList);
+    const keyError = isArmoredKey(key) ? null : 'Paste or upload an ASCII-armored public key';
+    const sourcePath = getSourcePath(name);
+    const keyringPath = getKeyringPath(name);
+
+    const sourceText = formatDeb822Source({
+        types: ['deb'],
+        uris: [uri],
+        suites: suiteList,
+        components: componentList,
+        signedBy: keyringPath,
+    });
+
+    async function handleSave() {
+        setPhase('saving');
+        setSaveError(null);
+
+        try {
+            await addRepositoryFiles(sourcePath, sourceText, keyringPath, dearmorKey(key));
+        } catch (err) {
+            setSaveError(getErrorMessage(err));
+            setPhase('edit');
+            return;
+        }
+        onAdded();
+
+        try {
+            await runTransaction('Refreshing package cache', progressCb => PK.refreshCache(progressCb));
+        } catch (err) {
+            // apt reports every repository that failed to fetch in the error detail
+            const grouped = groupFetchErrors(err instanceof TransactionError ? err.detail : getErrorMessage(err));
+            setFetchErrors(grouped);
+            if (grouped.size === 0) {
+                setRefreshError(getErrorMessage(err));
+            }
+        }
+        setPhase('done');
+    }
+
+    if (phase !== 'edit') {
+        const newRepoErrors = [...fetchErrors.entries()].filter(([errorUri]) => isSameRepositoryUri(errorUri, uri));
+        const otherErrors = [...fetchErrors.entries()].filter(([errorUri]) => !isSameRepositoryUri(errorUri, uri));
+
+        return (
+            <Modal variant={ModalVariant.medium} isOpen onClose={onClose} aria-labelledby="repository-wizard-title">
+                <ModalHeader title="Add repository" labelId="repository-wizard-title" />
+                <ModalBody>
+                    {phase === 'saving' ? (
+                        <div className="pf-v6-u-text-align-center pf-v6-u-p-lg">
+                            <Spinner size="lg" aria-label="Adding repository" />
+                            <p className="pf-v6-u-mt-md" aria-live="polite">Adding repository and refreshing package cache...</p>
+                        </div>
+                    ) : (
+                        <>
+                            {newRepoErrors.length === 0 ? (
+                                <p className="pf-v6-u-mb-md">
+                                    <CheckCircleIcon color="var(--pf-t--global--icon--color--status--success--default)" />{' '}
+                                    <strong>{name}</strong> was added and its package lists were fetched.
+                                </p>
+                            ) : (
+                                <div className="pf-v6-c-alert pf-m-danger pf-m-inline pf-v6-u-mb-md" role="alert">
+                                    <div className="pf-v6-c-alert__icon">
+                                        <ExclamationCircleIcon />
+                                    </div>
+                                    <p className="pf-v6-c-alert__title">
+                                        {name} was added, but its package lists could not be fetched
+                                    </p>
+                                    <div className="pf-v6-c-alert__description">
+                                        <ul className="pf-v6-c-list">
+                                            {newRepoErrors.flatMap(([, messages]) => messages).map(message => (
+                                                <li key={message}>{message}</li>
+                                            ))}
+                                        </ul>
+                                        <p>Check the URI, suites and key, or remove {sourcePath}.</p>
+                                    </div>
+                                </div>
+                            )}
+
+                            {otherErrors.length > 0 && (
+                                <div className="pf-v6-c-alert pf-m-warning pf-m-inline pf-v6-u-mb-md" role="alert">
+                                    <div className="pf-v6-c-alert__icon">
+                                        <ExclamationTriangleIcon />
+                                    </div>
+                                    <p className="pf-v6-c-alert__title">Other repositories failed to fetch</p>
+                                    <div className="pf-v6-c-alert__description">
+                                        {otherErrors.map(([errorUri, messages]) => (
+                                            <div key={errorUri} className="pf-v6-u-mb-sm">
+                                                <strong>{errorUri}</strong>
+                                                <ul className="pf-v6-c-list">
+                                                    {messages.map(message => <li key={message}>{message}</li>)}
+                                                </ul>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+
+                            {refreshError && (
+                                <div className="pf-v6-c-alert pf-m-danger pf-m-inline" role="alert">
+                                    <div className="pf-v6-c-alert__icon">
+                                        <ExclamationCircleIcon />
+                                    </div>
+                                    <p className="pf-v6-c-alert__title">Refreshing the package cache failed: {refreshError}</p>
+                                </div>
+                            )}
+                        </>
+                    )}
+                </ModalBody>
+                <ModalFooter>
+                    <Button variant="primary" onClick={onClose} isDisabled={phase === 'saving'}>
+                        Close
+                    </Button>
+                </ModalFooter>
+            </Modal>
+        );
+    }
+
+    return (
+        <Modal variant={ModalVariant.large} isOpen onClose={onClose} aria-label="Add repository">
+            <Wizard
+                height={520}
+                header={
+                    <WizardHeader
+                        title="Add repository"
+                        description="Add a vendor or third-party apt repository signed by its own key"
+                        onClose={onClose}
+                        closeButtonAriaLabel="Close wizard"
+                    />
+                }
+                onClose={onClose}
+                onSave={handleSave}
+            >
+                <WizardStep
+                    name="Repository"
+                    id="repository-wizard-source"
+                    footer={{ isNextDisabled: !!(nameError || uriError || suitesError) }}
+                >
+                    <Form>
+                        <Field
+                            label="Name"
+                            fieldId="repository-name"
+                            value={name}
+                            placeholder="halos"
+                            helperText={`Saved as ${sourcePath}`}
+                            error={nameError}
+                            onChange={setName}
+                        />
+                        <Field
+                            label="URI"
+                            fieldId="repository-uri"
+                            value={uri}
+                            placeholder="https://apt.example.com/debian"
+                            helperText="Base address of the repository"
+                            error={uriError}
+                            onChange={setUri}
+                        />
+                        <FormGroup label="Suites" isRequired fieldId="repository-suites">
+                            <TextInput
+                                id="repository-suites"
+                                value={suites}
+                                placeholder="bookworm"
+                                onChange={(_, value) => setSuites(value)}
+                            />
+                        </FormGroup>
+                        <FormGroup label="Components" fieldId="repository-components">
+                            <TextInput
+                                id="repository-components"
+                                value={components}
+                                placeholder="main"
+                                onChange={(_, value) => setComponents(value)}
+                                validated={suites && suitesError ? 'error' : 'default'}
+                            />
+                            <FormHelperText>
+                                <HelperText>
+                                    <HelperTextItem variant={suites && suitesError ? 'error' : 'default'}>
+                                        {suites && suitesError
+                                            ? suitesError
+                                            : 'Separate several suites or components with spaces. For flat repositories enter a path ending in "/" as suite and leave components empty.'}
+                                    </HelperTextItem>
+                                </HelperText>
+                            </FormHelperText>
+                        </FormGroup>
+                    </Form>
+                </WizardStep>
+
+                <WizardStep
+                    name="Signing key"
+                    id="repository-wizard-key"
+                    footer={{ isNextDisabled: !!keyError }}
+                >
+                    <Form>
+                        <FormGroup label="Public key" isRequired fieldId="repository-key">
+                            <FileUpload
+                                id="repository-key"
+                                type="text"
+                                value={key}
+                                filename={keyFilename}
+                                filenamePlaceholder="Drag a key file here, upload it or paste it below"
+                                browseButtonText="Upload"
+                                allowEditingUploadedText
+                                onFileInputChange={(_, file) => setKeyFilename(file.name)}
+                                onDataChange={(_, data) => setKey(data)}
+                                onTextChange={(_, text) => setKey(text)}
+                                onClearClick={() => {
+                                    setKey('');
+                                    setKeyFilename('');
+                                }}
+                                validated={key && keyError ? 'error' : 'default'}
+                            />
+                            <FormHelperText>
+                                <HelperText>
+                                    <HelperTextItem variant={key && keyError ? 'error' : 'default'}>
+                                        {key && keyError
+                                            ? keyError
+                                            : `Saved as ${keyringPath} and used only for this repository`}
+                                    </HelperTextItem>
+                                </HelperText>
+                            </FormHelperText>
+                        </FormGroup>
+                    </Form>
+                </WizardStep>
+
+                <WizardStep
+                    name="Review"
+                    id="repository-wizard-review"
+                    footer={{ nextButtonText: 'Add repository' }}
+                >
+                    {saveError && (
+                        <div className="pf-v6-c-alert pf-m-danger pf-m-inline pf-v6-u-mb-md" role="alert" aria-live="assertive">
+                            <div className="pf-v6-c-alert__icon">
+                                <ExclamationCircleIcon />
+                            </div>
+                            <p className="pf-v6-c-alert__title">{saveError}</p>
+                        </div>
+                    )}
+                    <p className="pf-v6-u-mb-sm">
+                        <strong>{sourcePath}</strong>
+                    </p>
+                    <pre className="pf-v6-u-mb-md">{sourceText}</pre>
+                    <p>
+                        The key is saved to <strong>{keyringPath}</strong>, then the package cache is refreshed.
+                    </p>
+                </WizardStep>
+            </Wizard>
+        </Modal>
+    );
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+    DEBIAN_SECTIONS,
+    getBaseSection,
+    getSectionInfo,
+    parseSectionIndex,
+} from './sections';
+
+describe('DEBIAN_SECTIONS', () => {
+    it('has admin section', () => {
+        expect(DEBIAN_SECTIONS['admin'].name).toBe('Administration Utilities');
+    });
+
+    it('has hamradio section', () => {
+        expect(DEBIAN_SECTIONS['hamradio'].name).toBe('Ham Radio');
+    });
+
+    it('uses the section as ID', () => {
+        Object.entries(DEBIAN_SECTIONS).forEach(([id, section]) => {
+            expect(section.id).toBe(id);
+            expect(section.description.length).toBeGreaterThan(0);
+        });
+    });
+});
+
+describe('getSectionInfo', () => {
+    it('returns known sections', () => {
+        expect(getSectionInfo('net').name).toBe('Network');
+    });
+
+    it('describes unknown sections generically', () => {
+        expect(getSectionInfo('marine')).toEqual({
+            id: 'marine',
+            name: 'marine',
+            description: 'Packages in the marine section',
+        });
+    });
+});
+
+describe('getBaseSection', () => {
+    it('strips the archive area', () => {
+        expect(getBaseSection('contrib/net')).toBe('net');
+        expect(getBaseSection('non-free-firmware/kernel')).toBe('kernel');
+        expect(getBaseSection('utils')).toBe('utils');
+    });
+});
+
+describe('parseSectionIndex', () => {
+    it('groups package names by section', () => {
+        const index = parseSectionIndex([
+            'Package: signalk-server',
+            'Section: net',
+            'Package: chrony',
+            'Section: net',
+            'Package: chrony',
+            'Section: net',
+            'Package: firmware-misc-nonfree',
+            'Section: non-free-firmware/kernel',
+            'Package: no-section',
+            'Package: htop',
+            'Section: utils',
+        ].join('\n'));
+
+        expect([...index.keys()]).toEqual(['net', 'kernel', 'utils']);
+        expect(index.get('net')).toEqual(['signalk-server', 'chrony']);
+        expect(index.get('kernel')).toEqual(['firmware-misc-nonfree']);
+        expect(index.get('utils')).toEqual(['htop']);
+    });
+
+    it('returns empty map for empty output', () => {
+        expect(parseSectionIndex('').size).toBe(0);
+    });
+});
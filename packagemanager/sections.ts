@@ -0,0 +1,122 @@
+/*
+ * Debian section definitions
+ * Maps Debian archive sections to user-friendly names and descriptions
+ */
+
+import { PackageGroup } from './groups';
+
+// Debian archive sections, as listed on packages.debian.org
+const SECTIONS: [string, string, string][] = [
+    ['admin', 'Administration Utilities', 'Utilities to administer system resources, manage user accounts, etc.'],
+    ['cli-mono', 'Mono/CLI', 'Everything about Mono and the Common Language Infrastructure'],
+    ['comm', 'Communication Programs', 'Software for using faxes, modems, etc.'],
+    ['database', 'Databases', 'Database servers and clients'],
+    ['debian-installer', 'debian-installer udeb packages', 'Special packages for building customized debian-installer variants'],
+    ['debug', 'Debug packages', 'Packages providing debugging information for executables and shared libraries'],
+    ['devel', 'Development', 'Development utilities, compilers, development environments, libraries, etc.'],
+    ['doc', 'Documentation', 'FAQs, HOWTOs and other documents trying to explain everything related to Debian'],
+    ['editors', 'Editors', 'Software to edit files, programming environments'],
+    ['education', 'Education', 'Software for learning and teaching'],
+    ['electronics', 'Electronics', 'Electronics utilities'],
+    ['embedded', 'Embedded software', 'Software suitable for use in embedded applications'],
+    ['fonts', 'Fonts', 'Font packages'],
+    ['games', 'Games', 'Programs to spend a nice time with after all this setting up'],
+    ['gnome', 'GNOME', 'The GNOME desktop environment'],
+    ['gnu-r', 'GNU R', 'Everything about GNU R, a statistical computation and graphics system'],
+    ['gnustep', 'GNUstep', 'The GNUstep environment'],
+    ['golang', 'Go', 'Go programming language, libraries, and development tools'],
+    ['graphics', 'Graphics', 'Editors, viewers, converters... Everything to become an artist'],
+    ['hamradio', 'Ham Radio', 'Software for ham radio'],
+    ['haskell', 'Haskell', 'Everything about Haskell'],
+    ['httpd', 'Web Servers', 'Web servers and their modules'],
+    ['interpreters', 'Interpreters', 'All kind of interpreters for interpreted languages, macro processors, etc.'],
+    ['introspection', 'Introspection', 'Machine readable introspection data for use by development tools'],
+    ['java', 'Java', 'Everything about Java'],
+    ['javascript', 'JavaScript', 'JavaScript programming language, libraries, and development tools'],
+    ['kde', 'KDE', 'The K Desktop Environment'],
+    ['kernel', 'Kernels', 'Operating system kernels and related modules'],
+    ['libdevel', 'Library development', 'Libraries necessary for developers to write programs that use them'],
+    ['libs', 'Libraries', 'Libraries to make other programs work'],
+    ['lisp', 'Lisp', 'Everything about Lisp'],
+    ['localization', 'Language packs', 'Localization support for big software packages'],
+    ['mail', 'Mail', 'Programs to route, read, and compose e-mail messages'],
+    ['math', 'Mathematics', 'Math software'],
+    ['metapackages', 'Meta packages', 'Packages that mainly provide dependencies on other packages'],
+    ['misc', 'Miscellaneous', 'Miscellaneous software'],
+    ['net', 'Network', 'Daemons and clients to connect your system to the world'],
+    ['news', 'Newsgroups', 'Software to access Usenet, to set up news servers, etc.'],
+    ['ocaml', 'OCaml', 'Everything about OCaml, an ML language implementation'],
+    ['oldlibs', 'Old Libraries', 'Old versions of libraries, kept for backward compatibility'],
+    ['otherosfs', 'Other OS\'s and file systems', 'Software to run programs compiled for other operating systems, and to use their filesystems'],
+    ['perl', 'Perl', 'Everything about Perl, an interpreted scripting language'],
+    ['php', 'PHP', 'Everything about PHP'],
+    ['python', 'Python', 'Everything about Python, an interpreted, interactive object oriented language'],
+    ['ruby', 'Ruby', 'Everything about Ruby, an interpreted object oriented language'],
+    ['rust', 'Rust', 'Rust programming language, library crates, and development tools'],
+    ['science', 'Science', 'Basic tools for scientific work'],
+    ['shells', 'Shells', 'Command shells. Friendly user interfaces for beginners'],
+    ['sound', 'Sound', 'Utilities to deal with sound: mixers, players, recorders, CD players, etc.'],
+    ['tasks', 'Tasks', 'Packages that are used by tasksel, a simple interface for users who want to configure their system'],
+    ['tex', 'TeX', 'The famous typesetting software and related programs'],
+    ['text', 'Text Processing', 'Utilities to format and print text documents'],
+    ['utils', 'Utilities', 'Utilities for file/disk manipulation, backup and archive tools, system monitoring, input systems, etc.'],
+    ['vcs', 'Version Control Systems', 'Version control systems and related utilities'],
+    ['video', 'Video', 'Video viewers, editors, recording, streaming'],
+    ['web', 'Web Software', 'Web servers, browsers, proxies, download tools etc.'],
+    ['x11', 'X Window System software', 'X servers, libraries, fonts, window managers, terminal emulators and many related applications'],
+    ['xfce', 'Xfce', 'Xfce, a fast and lightweight Desktop Environment'],
+    ['zope', 'Zope/Plone Framework', 'Zope Application Server and Plone Content Management System'],
+];
+
+/**
+ * Debian section mappings
+ */
+export const DEBIAN_SECTIONS: Record<string, PackageGroup> = Object.fromEntries(
+    SECTIONS.map(([id, name, description]) => [id, { id, name, description }])
+);
+
+/**
+ * Get section info by ID
+ * Sections Debian does not list, e.g. from third-party repositories, get a generic entry.
+ */
+export function getSectionInfo(sectionId: string): PackageGroup {
+    return DEBIAN_SECTIONS[sectionId] || {
+        id: sectionId,
+        name: sectionId,
+        description: `Packages in the ${sectionId} section`,
+    };
+}
+
+/**
+ * Strip the archive area from a section, e.g. "contrib/net" becomes "net"
+ */
+export function getBaseSection(section: string): string {
+    return section.split('/').pop()!.trim();
+}
+
+/**
+ * Parse "Package:" and "Section:" lines from apt-cache dumpavail into package names by section
+ * Packages available for several architectures are listed once.
+ */
+export function parseSectionIndex(output: string): Map<string, string[]> {
+    const sections = new Map<string, Set<string>>();
+    let name = '';
+
+    for (const line of output.split('\n')) {
+        const match = line.match(/^(Package|Section):\s*(\S+)/);
+        if (!match) continue;
+
+        if (match[1] === 'Package') {
+            name = match[2];
+        } else if (name) {
+            const section = getBaseSection(match[2]);
+            if (!sections.has(section)) {
+                sections.set(section, new Set());
+            }
+            sections.get(section)!.add(name);
+            name = '';
+        }
+    }
+
+    return new Map([...sections.entries()].map(([section, names]) => [section, [...names]]));
+}
@@ -0,0 +1,247 @@
+/*
+ * SourcePackagesView component - Installed binary packages grouped by source package
+ */
+
+import {
+    Badge,
+    Button,
+    Checkbox,
+    EmptyState,
+    EmptyStateBody,
+    Flex,
+    FlexItem,
+    Label,
+    SearchInput,
+    Spinner,
+    Title,
+} from '@patternfly/react-core';
+import { ExclamationCircleIcon } from '@patternfly/react-icons';
+import {
+    Table,
+    Tbody,
+    Td,
+    Th,
+    Thead,
+    Tr,
+} from '@patternfly/react-table';
+import React, { useEffect, useState } from 'react';
+
+import { getHeldPackages, getInstalledSources } from './apt';
+import * as PK from './packagekit';
+import { useTransactionManager } from './transaction-manager';
+import { SourcePackage, UpdateInfo } from './types';
+import {
+    filterSourcePackages,
+    getDefaultUpdateSelection,
+    getErrorMessage,
+    getSourceUpdates,
+    getUpdateCategory,
+    isPackageHeld,
+} from './utils';
+
+interface SourcePackagesViewProps {
+    source?: string;         // Initial filter, e.g. the source package named in an advisory
+}
+
+export const SourcePackagesView: React.FC<SourcePackagesViewProps> = ({ source = '' }) => {
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [sources, setSources] = useState<SourcePackage[]>([]);
+    const [updates, setUpdates] = useState<UpdateInfo[]>([]);
+    const [held, setHeld] = useState<Set<string>>(new Set());
+    const [filter, setFilter] = useState(source);
+    const [onlyUpdates, setOnlyUpdates] = useState(false);
+    const [operatingOn, setOperatingOn] = useState<string | null>(null);
+    const { runTransaction, isBusy } = useTransactionManager();
+
+    useEffect(() => {
+        loadSources();
+    }, []);
+
+    useEffect(() => {
+        setFilter(source);
+    }, [source]);
+
+    async function loadSources() {
+        setError(null);
+
+        try {
+            const [installed, available, heldPackages] = await Promise.all([
+                getInstalledSources(),
+                PK.getUpdates().catch(err => {
+                    console.warn('Failed to load updates:', err);
+                    return [] as UpdateInfo[];
+                }),
+                getHeldPackages().catch(err => {
+                    console.warn('Failed to load held packages:', err);
+                    return new Set<string>();
+                }),
+            ]);
+            setSources(installed);
+            setUpdates(available);
+            setHeld(heldPackages);
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    async function handleUpdate(sourcePackage: SourcePackage, sourceUpdates: UpdateInfo[]) {
+        setOperatingOn(sourcePackage.name);
+        setError(null);
+
+        try {
+            await runTransaction(
+                `Updating ${sourceUpdates.length} packages built from ${sourcePackage.name}`,
+                progressCb => PK.updatePackages(sourceUpdates.map(update => update.id), progressCb)
+            );
+            await loadSources();
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setOperatingOn(null);
+        }
+    }
+
+    if (loading) {
+        return (
+            <div className="pf-v6-u-text-align-center pf-v6-u-p-xl">
+                <Spinner size="xl" aria-label="Loading source packages" />
+                <p className="pf-v6-u-mt-md" aria-live="polite">Loading source packages...</p>
+            </div>
+        );
+    }
+
+    const rows = filterSourcePackages(sources, filter.trim())
+        .map(sourcePackage => {
+            const sourceUpdates = getSourceUpdates(sourcePackage, updates);
+            // Held packages and blocked updates are left alone, as in the default update selection
+            const selection = getDefaultUpdateSelection(sourceUpdates, held);
+            return {
+                sourcePackage,
+                sourceUpdates,
+                toUpdate: sourceUpdates.filter(update => selection.has(update.id)),
+                skipped: sourceUpdates.filter(update => !selection.has(update.id)),
+            };
+        })
+        .filter(({ sourceUpdates }) => !onlyUpdates || sourceUpdates.length > 0);
+
+    return (
+        <Flex className="source-packages" direction={{ default: 'column' }} spaceItems={{ default: 'spaceItemsMd' }}>
+            <FlexItem>
+                <Title headingLevel="h1" size="2xl" className="pf-v6-u-mb-sm">Source packages</Title>
+                <p>Advisories name source packages; each one lists the installed binary packages built from it</p>
+            </FlexItem>
+
+            <FlexItem>
+                <Flex alignItems={{ default: 'alignItemsCenter' }}>
+                    <FlexItem flex={{ default: 'flex_1' }}>
+                        <SearchInput
+                            placeholder="Filter by source or binary package..."
+                            value={filter}
+                            onChange={(_, value) => setFilter(value)}
+                            onClear={() => setFilter('')}
+                            aria-label="Filter source packages"
+                        />
+                    </FlexItem>
+                    <FlexItem>
+                        <Checkbox
+                            id="source-packages-only-updates"
+                            label="Only with updates"
+                            isChecked={onlyUpdates}
+                            onChange={(_event, checked) => setOnlyUpdates(checked)}
+                        />
+                    </FlexItem>
+                </Flex>
+            </FlexItem>
+
+            {error && (
+                <FlexItem>
+                    <div className="pf-v6-c-alert pf-m-danger" role="alert" aria-live="assertive">
+                        <div className="pf-v6-c-alert__icon">
+                            <ExclamationCircleIcon />
+                        </div>
+                        <p className="pf-v6-c-alert__title">{error}</p>
+                    </div>
+                </FlexItem>
+            )}
+
+            <FlexItem>
+                {rows.length === 0 ? (
+                    <EmptyState>
+                        <Title headingLevel="h2" size="lg">No source packages found</Title>
+                        <EmptyStateBody>
+                            {filter.trim()
+                                ? `No installed package is built from or named like "${filter.trim()}"`
+                                : 'No installed source packages match the filter'}
+                        </EmptyStateBody>
+                    </EmptyState>
+                ) : (
+                    <div>
+                        <div style={{ marginBottom: '0.5rem' }}>
+                            <Badge>{rows.length} source packages</Badge>
+                        </div>
+                        <Table aria-label="Source packages" variant="compact">
+                            <Thead>
+                                <Tr>
+                                    <Th width={20}>Source</Th>
+                                    <Th width={15}>Version</Th>
+                                    <Th width={40}>Installed binaries</Th>
+                                    <Th width={15}>Updates</Th>
+                                    <Th width={10} modifier="fitContent"></Th>
+                                </Tr>
+                            </Thead>
+                            <Tbody>
+                                {rows.map(({ sourcePackage, sourceUpdates, toUpdate, skipped }) => (
+                                    <Tr key={sourcePackage.name}>
+                                        <Td>{sourcePackage.name}</Td>
+                                        <Td modifier="truncate">{sourcePackage.version}</Td>
+                                        <Td>
+                                            {sourcePackage.binaries.map(binary => `${binary.name}:${binary.arch}`).join(', ')}
+                                        </Td>
+                                        <Td>
+                                            {sourceUpdates.length > 0 && (
+                                                <>
+                                                    {sourceUpdates.length} {sourceUpdates.length === 1 ? 'update' : 'updates'}
+                                                    {sourceUpdates.some(update => getUpdateCategory(update.severity) === 'security') && (
+                                                        <Label isCompact color="red" className="pf-v6-u-ml-sm">Security</Label>
+                                                    )}
+                                                    {skipped.map(update => (
+                                                        <Label
+                                                            key={update.id}
+                                                            isCompact
+                                                            color={isPackageHeld(update, held) ? 'orange' : 'red'}
+                                                            className="pf-v6-u-ml-sm"
+                                                            title="Not updated by Update all"
+                                                        >
+                                                            {update.name}: {isPackageHeld(update, held) ? 'Held' : 'Blocked'}
+                                                        </Label>
+                                                    ))}
+                                                </>
+                                            )}
+                                        </Td>
+                                        <Td modifier="fitContent">
+                                            {sourceUpdates.length > 0 && (
+                                                <Button
+                                                    variant="primary"
+                                                    size="sm"
+                                                    onClick={() => handleUpdate(sourcePackage, toUpdate)}
+                                                    isDisabled={operatingOn !== null || isBusy || toUpdate.length === 0}
+                                                    isLoading={operatingOn === sourcePackage.name}
+                                                    aria-label={`Update packages built from ${sourcePackage.name}`}
+                                                >
+                                                    Update all
+                                                </Button>
+                                            )}
+                                        </Td>
+                                    </Tr>
+                                ))}
+                            </Tbody>
+                        </Table>
+                    </div>
+                )}
+            </FlexItem>
+        </Flex>
+    );
+};
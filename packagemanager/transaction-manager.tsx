@@ -0,0 +1,257 @@
+/*
+ * Transaction manager - App-wide owner of running PackageKit transactions
+ *
+ * Transactions started through runTransaction() live here instead of in the
+ * view that started them, so their progress and cancel button survive
+ * navigation. Transactions started elsewhere (before a page reload, in another
+ * browser tab or by another PackageKit client) are picked up from
+ * GetTransactionList and followed until they finish.
+ */
+
+import {
+    Button,
+    Flex,
+    FlexItem,
+    Progress,
+    ProgressMeasureLocation,
+    Spinner,
+} from '@patternfly/react-core';
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+
+import { usePackageCache } from './package-cache';
+import * as PK from './packagekit';
+import { PkEnum, ProgressData, TransactionState } from './types';
+import { getPackageName, getRoleLabel, getTransactionStatusLabel, isSystemChangingRole, scaleProgress } from './utils';
+
+// Transaction started from this page
+export interface TransactionJob {
+    id: number;
+    description: string;     // e.g. "Installing nginx"
+    progress: ProgressData;
+}
+
+// Transaction in PackageKit's list: its role and how to stop following it
+interface MonitoredTransaction {
+    role: number;
+    stop: () => void;
+}
+
+export type TransactionTask<T> = (progressCb: (progress: ProgressData) => void) => Promise<T>;
+
+interface TransactionManagerContextType {
+    jobs: TransactionJob[];
+    external: TransactionState[];   // System-changing transactions not started from this page
+    isBusy: boolean;                // Any system-changing transaction is running
+    runTransaction: <T>(description: string, task: TransactionTask<T>) => Promise<T>;
+}
+
+// Roles of transactions by other clients that are shown; queries and the rest are not followed
+const SHOWN_ROLES: number[] = [
+    PkEnum.ROLE_INSTALL_PACKAGES,
+    PkEnum.ROLE_REMOVE_PACKAGES,
+    PkEnum.ROLE_UPDATE_PACKAGES,
+    PkEnum.ROLE_REFRESH_CACHE,
+];
+
+const TransactionManagerContext = createContext<TransactionManagerContextType | undefined>(undefined);
+
+/**
+ * Combine transactions that run one after another into a single task
+ * Their progress is reported as one bar, each step weighing the same.
+ */
+export function sequenceTransactions(steps: TransactionTask<unknown>[]): TransactionTask<void> {
+    return async progressCb => {
+        for (let step = 0; step < steps.length; step++) {
+            await steps[step](progress => progressCb({
+                ...progress,
+                percentage: scaleProgress(progress.percentage, step, steps.length),
+            }));
+        }
+    };
+}
+
+export function useTransactionManager() {
+    const context = useContext(TransactionManagerContext);
+    if (!context) {
+        throw new Error('useTransactionManager must be used within TransactionManagerProvider');
+    }
+    return context;
+}
+
+export const TransactionManagerProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [jobs, setJobs] = useState<TransactionJob[]>([]);
+    const [transactions, setTransactions] = useState<Map<string, TransactionState>>(new Map());
+    const { clearCache } = usePackageCache();
+
+    const nextJobId = useRef(1);
+    // D-Bus paths of transactions started from this page
+    const ownPaths = useRef<Set<string>>(new Set());
+    // Transactions in PackageKit's list by D-Bus path
+    const monitored = useRef<Map<string, MonitoredTransaction>>(new Map());
+
+    // Follow every running transaction and drop the ones that finished
+    useEffect(() => {
+        let active = true;
+
+        function sync(paths: string[]) {
+            if (!active) return;
+
+            let changedSystem = false;
+            monitored.current.forEach(({ role, stop }, path) => {
+                if (!paths.includes(path)) {
+                    stop();
+                    monitored.current.delete(path);
+                    changedSystem = changedSystem || isSystemChangingRole(role);
+                }
+            });
+            // Package states may have changed, cached listings are stale
+            if (changedSystem) {
+                clearCache();
+            }
+
+            setTransactions(prev => new Map([...prev].filter(([path]) => paths.includes(path))));
+
+            paths.filter(path => !monitored.current.has(path)).forEach(path => {
+                const entry: MonitoredTransaction = { role: PkEnum.ROLE_UNKNOWN, stop: () => {} };
+                monitored.current.set(path, entry);
+                entry.stop = PK.monitorTransaction(path, state => {
+                    if (!active || monitored.current.get(path) !== entry) return;
+                    entry.role = state.role;
+                    // The entry stays until the path leaves the list, so the transaction is not picked up again
+                    if (state.role !== PkEnum.ROLE_UNKNOWN && !SHOWN_ROLES.includes(state.role)) {
+                        entry.stop();
+                        return;
+                    }
+                    setTransactions(prev => new Map(prev).set(path, state));
+                });
+            });
+        }
+
+        PK.getTransactionList()
+            .then(sync)
+            .catch(err => console.warn('[TransactionManager] Failed to get transaction list:', err));
+        const unsubscribe = PK.watchTransactionList(sync);
+
+        return () => {
+            active = false;
+            unsubscribe();
+            monitored.current.forEach(({ stop }) => stop());
+            monitored.current.clear();
+        };
+    }, []);
+
+    function updateJob(id: number, progress: ProgressData) {
+        if (progress.transactionPath) {
+            ownPaths.current.add(progress.transactionPath);
+        }
+        setJobs(prev => prev.map(job => job.id === id ? { ...job, progress: { ...progress } } : job));
+    }
+
+    async function runTransaction<T>(description: string, task: TransactionTask<T>): Promise<T> {
+        const id = nextJobId.current++;
+        setJobs(prev => [...prev, { id, description, progress: { waiting: false, percentage: 0, cancel: null } }]);
+
+        try {
+            const result = await task(progress => updateJob(id, progress));
+            clearCache();
+            return result;
+        } finally {
+            setJobs(prev => prev.filter(job => job.id !== id));
+        }
+    }
+
+    const external = [...transactions.values()].filter(state =>
+        !ownPaths.current.has(state.path) &&
+        SHOWN_ROLES.includes(state.role) &&
+        !(state.transactionFlags & PkEnum.TRANSACTION_FLAG_SIMULATE)
+    );
+
+    const contextValue: TransactionManagerContextType = {
+        jobs,
+        external,
+        isBusy: jobs.length > 0 || external.length > 0,
+        runTransaction,
+    };
+
+    return (
+        <TransactionManagerContext.Provider value={contextValue}>
+            {children}
+        </TransactionManagerContext.Provider>
+    );
+};
+
+/**
+ * Progress bars and cancel buttons for all running transactions
+ */
+export const TransactionProgressPanel: React.FC = () => {
+    const { jobs, external } = useTransactionManager();
+
+    if (jobs.length === 0 && external.length === 0) {
+        return null;
+    }
+
+    return (
+        <Flex className="transaction-progress pf-v6-u-mb-md" direction={{ default: 'column' }} spaceItems={{ default: 'spaceItemsSm' }}>
+            {jobs.map(job => (
+                <FlexItem key={job.id}>
+                    <Flex alignItems={{ default: 'alignItemsCenter' }}>
+                        <FlexItem flex={{ default: 'flex_1' }}>
+                            <Progress
+                                value={job.progress.percentage}
+                                title={job.progress.waiting ? `${job.description}: waiting for package manager...` : job.description}
+                                measureLocation={ProgressMeasureLocation.outside}
+                                aria-live="polite"
+                            />
+                        </FlexItem>
+                        {job.progress.cancel && (
+                            <FlexItem>
+                                <Button variant="secondary" size="sm" onClick={job.progress.cancel}>
+                                    Cancel
+                                </Button>
+                            </FlexItem>
+                        )}
+                    </Flex>
+                </FlexItem>
+            ))}
+
+            {external.map(state => {
+                const title = state.lastPackage
+                    ? `${getRoleLabel(state.role)}: ${getPackageName(state.lastPackage)}`
+                    : getRoleLabel(state.role);
+                return (
+                    <FlexItem key={state.path}>
+                        <Flex alignItems={{ default: 'alignItemsCenter' }}>
+                            <FlexItem flex={{ default: 'flex_1' }}>
+                                {state.percentage <= 100 ? (
+                                    <Progress
+                                        value={state.percentage}
+                                        title={`${title} (${getTransactionStatusLabel(state.status)})`}
+                                        measureLocation={ProgressMeasureLocation.outside}
+                                        aria-live="polite"
+                                    />
+                                ) : (
+                                    <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                                        <Spinner size="md" aria-label={title} />
+                                        {title} ({getTransactionStatusLabel(state.status)})
+                                    </div>
+                                )}
+                            </FlexItem>
+                            {state.allowCancel && (
+                                <FlexItem>
+                                    <Button
+                                        variant="secondary"
+                                        size="sm"
+                                        onClick={() => PK.cancelTransaction(state.path)
+                                            .catch(err => console.warn('[TransactionManager] Failed to cancel:', err))}
+                                    >
+                                        Cancel
+                                    </Button>
+                                </FlexItem>
+                            )}
+                        </Flex>
+                    </FlexItem>
+                );
+            })}
+        </Flex>
+    );
+};
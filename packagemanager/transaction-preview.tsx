@@ -0,0 +1,210 @@
+/*
+ * TransactionPreview - Confirmation dialog listing the packages a transaction will affect
+ */
+
+import {
+    Button,
+    Flex,
+    FlexItem,
+    Modal,
+    ModalBody,
+    ModalFooter,
+    ModalHeader,
+    ModalVariant,
+    Spinner,
+} from '@patternfly/react-core';
+import { ExclamationCircleIcon, ExclamationTriangleIcon } from '@patternfly/react-icons';
+import React, { useRef, useState } from 'react';
+
+import { ConflictExplanation } from './conflict-explanation';
+import * as PK from './packagekit';
+import { TransactionError, TransactionPreview } from './types';
+import { countPreviewPackages, formatSize, getErrorMessage } from './utils';
+
+export interface PreviewRequest {
+    title: string;                                  // Dialog title, e.g. "Install nginx"
+    confirmLabel: string;                           // Confirm button label, e.g. "Install"
+    isDestructive?: boolean;                        // Use danger styling for the confirm button
+    warning?: string;                               // Shown above the list of changes
+    simulate: () => Promise<TransactionPreview>;    // Runs the simulated transaction
+    aptArgs?: string[];                             // Same change for apt-get install, to explain dependency failures
+}
+
+interface TransactionPreviewModalProps {
+    request: PreviewRequest;
+    preview: TransactionPreview | null;
+    error: unknown;
+    onConfirm: () => void;
+    onCancel: () => void;
+}
+
+const PREVIEW_SECTIONS: { key: 'install' | 'update' | 'downgrade' | 'reinstall' | 'remove'; title: string }[] = [
+    { key: 'install', title: 'Install' },
+    { key: 'update', title: 'Upgrade' },
+    { key: 'downgrade', title: 'Downgrade' },
+    { key: 'reinstall', title: 'Reinstall' },
+    { key: 'remove', title: 'Remove' },
+];
+
+export const TransactionPreviewModal: React.FC<TransactionPreviewModalProps> = ({
+    request,
+    preview,
+    error,
+    onConfirm,
+    onCancel,
+}) => {
+    const loading = !preview && error === null;
+
+    return (
+        <Modal
+            variant={ModalVariant.medium}
+            isOpen
+            onClose={onCancel}
+            aria-labelledby="transaction-preview-title"
+        >
+            <ModalHeader title={request.title} labelId="transaction-preview-title" />
+            <ModalBody>
+                {request.warning && (
+                    <div className="pf-v6-c-alert pf-m-warning pf-m-inline pf-v6-u-mb-md" role="alert">
+                        <div className="pf-v6-c-alert__icon">
+                            <ExclamationTriangleIcon />
+                        </div>
+                        <p className="pf-v6-c-alert__title">{request.warning}</p>
+                    </div>
+                )}
+
+                {loading && (
+                    <div className="pf-v6-u-text-align-center pf-v6-u-p-lg">
+                        <Spinner size="lg" aria-label="Calculating changes" />
+                        <p className="pf-v6-u-mt-md" aria-live="polite">Calculating changes...</p>
+                    </div>
+                )}
+
+                {error !== null && (
+                    <div className="pf-v6-c-alert pf-m-danger" role="alert" aria-live="assertive">
+                        <div className="pf-v6-c-alert__icon">
+                            <ExclamationCircleIcon />
+                        </div>
+                        <p className="pf-v6-c-alert__title">{getErrorMessage(error)}</p>
+                    </div>
+                )}
+
+                {error instanceof TransactionError && error.code === 'dep-resolution-failed' && (
+                    <ConflictExplanation
+                        detail={error.detail}
+                        {...(request.aptArgs && { aptArgs: request.aptArgs })}
+                        onNavigate={onCancel}
+                    />
+                )}
+
+                {preview && (
+                    <Flex direction={{ default: 'column' }} spaceItems={{ default: 'spaceItemsMd' }}>
+                        {countPreviewPackages(preview) === 0 && (
+                            <FlexItem>
+                                <p>No packages will be changed.</p>
+                            </FlexItem>
+                        )}
+
+                        {PREVIEW_SECTIONS.filter(section => preview[section.key].length > 0).map(section => (
+                            <FlexItem key={section.key}>
+                                <strong>{section.title} ({preview[section.key].length}):</strong>
+                                <ul className="pf-v6-c-list">
+                                    {preview[section.key].map(packageId => {
+                                        const pkg = PK.parsePackageId(packageId);
+                                        return (
+                                            <li key={packageId}>
+                                                {pkg.name} <span className="pf-v6-u-color-200">{pkg.version} ({pkg.arch})</span>
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
+                            </FlexItem>
+                        ))}
+
+                        <FlexItem>
+                            <Flex>
+                                <FlexItem flex={{ default: 'flex_1' }}>
+                                    <strong>Download size:</strong> {formatSize(preview.downloadSize)}
+                                </FlexItem>
+                                <FlexItem flex={{ default: 'flex_1' }}>
+                                    <strong>Disk space:</strong>{' '}
+                                    {preview.installSize < 0
+                                        ? `${formatSize(-preview.installSize)} freed`
+                                        : `${formatSize(preview.installSize)} used`}
+                                </FlexItem>
+                            </Flex>
+                        </FlexItem>
+                    </Flex>
+                )}
+            </ModalBody>
+            <ModalFooter>
+                <Button
+                    variant={request.isDestructive ? 'danger' : 'primary'}
+                    onClick={onConfirm}
+                    isDisabled={!preview}
+                >
+                    {request.confirmLabel}
+                </Button>
+                <Button variant="link" onClick={onCancel}>
+                    Cancel
+                </Button>
+            </ModalFooter>
+        </Modal>
+    );
+};
+
+/**
+ * Hook for confirming a transaction after a simulated run
+ * confirmTransaction() opens the dialog and resolves to true when the user confirms.
+ * The returned previewModal must be rendered by the calling component.
+ */
+export function useTransactionPreview() {
+    const [request, setRequest] = useState<PreviewRequest | null>(null);
+    const [preview, setPreview] = useState<TransactionPreview | null>(null);
+    const [error, setError] = useState<unknown>(null);
+    const resolveRef = useRef<((confirmed: boolean) => void) | null>(null);
+    // Ignore simulation results that arrive after their dialog was closed
+    const requestCounter = useRef(0);
+
+    function confirmTransaction(newRequest: PreviewRequest): Promise<boolean> {
+        // A new request replaces an open dialog, which counts as cancelled
+        resolveRef.current?.(false);
+        resolveRef.current = null;
+
+        const requestId = ++requestCounter.current;
+        setRequest(newRequest);
+        setPreview(null);
+        setError(null);
+
+        newRequest.simulate()
+            .then(result => {
+                if (requestId === requestCounter.current) setPreview(result);
+            })
+            .catch(err => {
+                if (requestId === requestCounter.current) setError(err ?? new Error('Simulation failed'));
+            });
+
+        return new Promise(resolve => {
+            resolveRef.current = resolve;
+        });
+    }
+
+    function close(confirmed: boolean) {
+        requestCounter.current++;
+        setRequest(null);
+        resolveRef.current?.(confirmed);
+        resolveRef.current = null;
+    }
+
+    const previewModal = request ? (
+        <TransactionPreviewModal
+            request={request}
+            preview={preview}
+            error={error}
+            onConfirm={() => close(true)}
+            onCancel={() => close(false)}
+        />
+    ) : null;
+
+    return { confirmTransaction, previewModal };
+}
@@ -17,29 +17,76 @@ export const PkEnum = {
     INFO_BUGFIX: 6,
     INFO_IMPORTANT: 7,
     INFO_SECURITY: 8,
+    INFO_BLOCKED: 9,
     INFO_DOWNLOADING: 10,
     INFO_UPDATING: 11,
     INFO_INSTALLING: 12,
     INFO_REMOVING: 13,
+    INFO_OBSOLETING: 15,
     INFO_REINSTALLING: 19,
     INFO_DOWNGRADING: 20,
 
+    STATUS_UNKNOWN: 0,
     STATUS_WAIT: 1,
+    STATUS_SETUP: 2,
+    STATUS_RUNNING: 3,
+    STATUS_QUERY: 4,
+    STATUS_INFO: 5,
+    STATUS_REMOVE: 6,
+    STATUS_REFRESH_CACHE: 7,
     STATUS_DOWNLOAD: 8,
     STATUS_INSTALL: 9,
     STATUS_UPDATE: 10,
     STATUS_CLEANUP: 11,
+    STATUS_DEP_RESOLVE: 13,
     STATUS_SIGCHECK: 14,
+    STATUS_TEST_COMMIT: 15,
+    STATUS_COMMIT: 16,
+    STATUS_FINISHED: 18,
+    STATUS_CANCEL: 19,
+    STATUS_LOADING_CACHE: 27,
     STATUS_WAITING_FOR_LOCK: 30,
 
+    // PackageKit transaction roles (PkRoleEnum from pk-enum.h)
+    ROLE_UNKNOWN: 0,
+    ROLE_CANCEL: 1,
+    ROLE_GET_UPDATES: 9,
+    ROLE_INSTALL_FILES: 10,
+    ROLE_INSTALL_PACKAGES: 11,
+    ROLE_INSTALL_SIGNATURE: 12,
+    ROLE_REFRESH_CACHE: 13,
+    ROLE_REMOVE_PACKAGES: 14,
+    ROLE_REPO_ENABLE: 15,
+    ROLE_REPO_SET_DATA: 16,
+    ROLE_UPDATE_PACKAGES: 22,
+    ROLE_DOWNLOAD_PACKAGES: 25,
+    ROLE_UPGRADE_SYSTEM: 29,
+    ROLE_REPAIR_SYSTEM: 30,
+    ROLE_REPO_REMOVE: 33,
+
+    FILTER_NONE: (1 << 1),
     FILTER_INSTALLED: (1 << 2),
     FILTER_NOT_INSTALLED: (1 << 3),
     FILTER_NEWEST: (1 << 16),
     FILTER_ARCH: (1 << 18),
     FILTER_NOT_SOURCE: (1 << 21),
 
+    RESTART_UNKNOWN: 0,
+    RESTART_NONE: 1,
+    RESTART_APPLICATION: 2,
+    RESTART_SESSION: 3,
+    RESTART_SYSTEM: 4,
+    RESTART_SECURITY_SESSION: 5,
+    RESTART_SECURITY_SYSTEM: 6,
+
+    UPDATE_STATE_UNKNOWN: 0,
+    UPDATE_STATE_STABLE: 1,
+    UPDATE_STATE_UNSTABLE: 2,
+    UPDATE_STATE_TESTING: 3,
+
     ERROR_ALREADY_INSTALLED: 9,
     TRANSACTION_FLAG_SIMULATE: (1 << 2),
+    TRANSACTION_FLAG_ALLOW_DOWNGRADE: (1 << 6),
 
     // PackageKit group enums (PkGroupEnum from pk-enum.h)
     GROUP_UNKNOWN: 0,
@@ -89,6 +136,35 @@ export interface PackageInfo {
     summary: string;         // Short description
     section?: string;        // Debian section
     installed: boolean;      // Installation status
+    status?: PackageStatus;  // Detailed status (from usePackageStatus)
+}
+
+// Package state from PackageKit info and dpkg status
+export type PackageState = 'available' | 'installed' | 'half-configured' | 'config-files';
+
+// Package state as recorded by dpkg; half-configured covers every unfinished install
+export type DpkgState = 'installed' | 'half-configured' | 'config-files' | 'not-installed';
+
+// Installed binary package built from a source package
+export interface SourceBinary {
+    name: string;
+    arch: string;
+    version: string;
+}
+
+// Source package with the binaries installed from it
+export interface SourcePackage {
+    name: string;
+    version: string;         // Newest source version among the installed binaries
+    binaries: SourceBinary[];
+}
+
+// Detailed package status
+export interface PackageStatus {
+    state: PackageState;
+    candidate?: string;      // Newer version offered by updates
+    held: boolean;           // Held with apt-mark hold
+    auto: boolean;           // Installed automatically as a dependency
 }
 
 // Detailed package information
@@ -100,8 +176,54 @@ export interface PackageDetails extends PackageInfo {
     license?: string;        // Package license (from GetDetails)
     group?: string;          // PackageKit group (from GetDetails or context)
     url?: string;            // Homepage URL (from GetDetails)
+    downloadSize?: number;   // Download size in bytes (from GetDetails, newer PackageKit only)
 }
 
+// Available update (package ID is the version that would be installed)
+export interface UpdateInfo extends PackageInfo {
+    severity: number;        // PkEnum.INFO_SECURITY, INFO_BUGFIX, INFO_ENHANCEMENT, ...
+}
+
+// Update details (from GetUpdateDetail)
+export interface UpdateDetail {
+    packageId: string;       // Package ID of the update
+    updates: string[];       // Package IDs being updated by this one
+    obsoletes: string[];     // Package IDs obsoleted by this one
+    vendorUrls: string[];    // Vendor advisory URLs
+    bugzillaUrls: string[];  // Bug tracker URLs
+    cveUrls: string[];       // CVE URLs
+    restart: number;         // PkEnum.RESTART_*
+    updateText: string;      // Update description
+    changelog: string;       // Changelog text
+    state: number;           // PkEnum.UPDATE_STATE_*
+    issued: string;          // ISO 8601 date the update was issued (may be empty)
+    updated: string;         // ISO 8601 date the update was last changed (may be empty)
+}
+
+// Packages affected by a transaction, from a simulated run
+export interface TransactionPreview {
+    install: string[];       // Package IDs to be newly installed
+    update: string[];        // Package IDs to be upgraded to
+    remove: string[];        // Package IDs to be removed
+    downgrade: string[];     // Package IDs to be downgraded to
+    reinstall: string[];     // Package IDs to be reinstalled
+    downloadSize: number;    // Total bytes to download
+    installSize: number;     // Approximate change in disk usage in bytes (negative frees space)
+}
+
+// Queued change in the transaction cart
+export type CartAction = 'install' | 'remove';
+
+export interface CartItem {
+    packageId: string;       // Package ID to install or remove
+    name: string;            // Package name
+    arch: string;            // Package architecture
+    action: CartAction;
+}
+
+// Catalog to browse: PackageKit groups or Debian sections
+export type BrowseMode = 'groups' | 'sections';
+
 // PackageKit group information with counts
 export interface GroupInfo {
     id: string;              // Group ID (e.g., "network", "admin-tools")
@@ -127,6 +249,174 @@ export interface ProgressData {
     info?: number;           // PkEnum.INFO_*
     package?: string;        // Current package name
     status?: number;         // PkEnum.STATUS_*
+    transactionPath?: string;  // D-Bus object path of the transaction
+}
+
+// State of a running PackageKit transaction, started by any client
+export interface TransactionState {
+    path: string;            // D-Bus object path
+    role: number;            // PkEnum.ROLE_*
+    status: number;          // PkEnum.STATUS_*
+    percentage: number;      // 0-100, 101 when unknown
+    allowCancel: boolean;
+    lastPackage: string;     // Package ID currently being processed
+    transactionFlags: number;  // PkEnum.TRANSACTION_FLAG_*
+}
+
+// Configured package repository (from GetRepoList)
+export interface RepositoryInfo {
+    id: string;              // Repository ID, for apt the sources file and entry
+    description: string;     // Human readable description
+    enabled: boolean;
+}
+
+// Single stanza of a deb822 apt source file (/etc/apt/sources.list.d/*.sources)
+export interface AptSource {
+    types: string[];         // "deb" and/or "deb-src"
+    uris: string[];
+    suites: string[];        // Distribution codenames, or a path ending in "/" for flat repositories
+    components: string[];    // Empty for flat repositories
+    signedBy?: string;       // Path of the keyring that signs the repository
+}
+
+// apt source together with the file it is configured in
+export interface ConfiguredSource extends AptSource {
+    path: string;
+}
+
+// OpenPGP public key in a keyring
+export interface SigningKey {
+    fingerprint: string;
+    uids: string[];
+    created: Date | null;
+    expires: Date | null;    // null if the key never expires
+    revoked: boolean;
+    canSign: boolean;        // false if only its subkeys sign
+    signingSubkeys: SigningSubkey[];
+}
+
+// Subkey that can sign, so repositories may be signed with it instead of the primary key
+export interface SigningSubkey {
+    fingerprint: string;
+    expires: Date | null;
+    revoked: boolean;
+}
+
+// Keyring file apt can verify repositories with
+export interface Keyring {
+    path: string;
+    keys: SigningKey[];
+}
+
+export type KeyExpiry = 'valid' | 'expiring' | 'expired';
+
+// What an apt pin selects versions by
+export type PinKind = 'release' | 'origin' | 'version';
+
+// Single stanza of an apt preferences file (/etc/apt/preferences.d/*)
+export interface AptPin {
+    packages: string;        // Space separated names, globs or /regex/, "*" for all
+    pin: string;             // e.g. "release a=bookworm-backports", "origin example.com", "version 1.2*"
+    priority: number;
+    explanation: string[];   // Explanation lines, apt ignores them
+    comments: string[];      // "#" lines kept in front of the stanza
+}
+
+// apt preferences file and its pins
+export interface PreferencesFile {
+    path: string;
+    pins: AptPin[];
+    unparsed: string[];      // Comment-only and unreadable blocks, kept verbatim
+}
+
+// Source of a version in `apt-cache policy` output
+export interface PolicySource {
+    priority: number;
+    source: string;          // e.g. "http://deb.debian.org/debian bookworm/main amd64 Packages"
+}
+
+// Version of a package in `apt-cache policy` output
+export interface PolicyVersion {
+    version: string;
+    priority: number;        // Priority after pinning
+    installed: boolean;
+    sources: PolicySource[];
+}
+
+// Parsed `apt-cache policy <package>` output
+export interface PackagePolicy {
+    name: string;
+    installed: string | null;
+    candidate: string | null;
+    versions: PolicyVersion[];
+}
+
+// Finished transaction from PackageKit's database (GetOldTransactions)
+export interface OldTransaction {
+    path: string;            // D-Bus object path the transaction had
+    timespec: string;        // ISO 8601 start time
+    succeeded: boolean;
+    role: number;            // PkEnum.ROLE_*
+    duration: number;        // Run time in milliseconds
+    data: string;            // One "info\tpackage_id" line per affected package
+    uid: number;             // User that started the transaction
+    cmdline: string;         // Command line of the client that started it
+}
+
+// Package change recorded in the transaction history
+export type HistoryAction = 'install' | 'upgrade' | 'downgrade' | 'reinstall' | 'remove' | 'purge';
+
+// Where a history entry was read from
+export type HistorySource = 'packagekit' | 'apt' | 'dpkg';
+
+export interface HistoryPackage {
+    name: string;
+    arch: string;
+    version: string;         // Version after the change (removed version for removals)
+    oldVersion?: string;     // Version before an upgrade or downgrade
+    action: HistoryAction;
+    automatic?: boolean;     // Installed as a dependency
+}
+
+export interface HistoryEntry {
+    id: string;              // Unique within one history listing
+    source: HistorySource;
+    start: Date;
+    end: Date;
+    description: string;     // Command line or PackageKit role
+    requestedBy?: string;    // User name or uid that started it
+    succeeded: boolean;
+    error?: string;          // apt error message of a failed run
+    packages: HistoryPackage[];
+}
+
+// Criteria for filtering the transaction history (empty values match everything)
+export interface HistoryFilter {
+    from: string;            // First day to include, YYYY-MM-DD
+    to: string;              // Last day to include, YYYY-MM-DD
+    packageQuery: string;    // Substring of a package name
+    action: HistoryAction | '';
+}
+
+// Package version a rollback installs or removes
+export interface PackageTarget {
+    name: string;
+    arch: string;            // Empty if not recorded
+    version: string;
+}
+
+// Changes that undo a history entry
+export interface RollbackPlan {
+    install: PackageTarget[];  // Removed packages and previous versions of upgraded or downgraded ones
+    remove: PackageTarget[];   // Newly installed packages
+    notRevertable: PackageTarget[];  // Upgrades and downgrades without a known previous version, at their new version
+}
+
+// Rollback plan matched against the packages known to PackageKit
+export interface ResolvedRollback {
+    installIds: string[];    // Package IDs to install, may include downgrades
+    removeIds: string[];     // Installed package IDs to remove
+    unavailable: PackageTarget[];  // Versions no repository provides anymore
 }
 
 // PackageKit transaction error
@@ -147,7 +437,132 @@ export type ViewState =
     | { view: 'groups' }
     | { view: 'packages'; group: string }
     | { view: 'details'; packageId: string }
-    | { view: 'search'; query: string };
+    | { view: 'search'; query: string }
+    | { view: 'updates' }
+    | { view: 'update'; packageId: string }
+    | { view: 'cart' }
+    | { view: 'history' }
+    | { view: 'repositories' }
+    | { view: 'pinning'; packageName?: string }
+    | { view: 'keys' }
+    | { view: 'graph'; packageId: string; depth?: number; direction?: GraphDirection };
+
+// Which relations a dependency graph follows from its root package
+export type GraphDirection = 'depends' | 'required-by' | 'both';
+
+// Package in a dependency graph, keyed by name
+export interface DependencyNode {
+    id: string;              // Package ID used for navigation
+    name: string;
+    installed: boolean;      // False for dependencies that would have to be installed
+    level: number;           // Distance from the root; negative for reverse dependencies
+}
+
+// Dependency relation: "from" depends on "to" (both package names)
+export interface DependencyEdge {
+    from: string;
+    to: string;
+    cyclic: boolean;         // Part of a dependency cycle
+}
+
+export interface DependencyGraph {
+    root: string;
+    nodes: Map<string, DependencyNode>;
+    edges: DependencyEdge[];
+    truncated: boolean;      // Node limit reached before the requested depth
+}
+
+// Package relation reported by apt when dependencies cannot be resolved
+export type DependencyRelation = 'Depends' | 'Pre-Depends' | 'Recommends' | 'Breaks' | 'Conflicts';
+
+// Why a relation cannot be satisfied, from the "but ..." part of apt's message
+export type ProblemReason = 'wrong-version' | 'not-installable' | 'not-going-to-be-installed' | 'virtual' | 'conflict';
+
+// Version constraint of a package relation, e.g. ">= 2.0"
+export interface VersionConstraint {
+    operator: string;
+    version: string;
+}
+
+// Package named in a Depends/Recommends/Suggests field
+export interface PackageRelation {
+    name: string;
+    constraint?: VersionConstraint;
+}
+
+// Alternatives of a relation ("a | b") with the package that would satisfy it
+export interface ResolvedRelation {
+    alternatives: PackageRelation[];
+    package?: PackageInfo;   // Installed alternative, else the first available one
+}
+
+// One unmet dependency, e.g. "foo : Depends: libbar (>= 2.0) but 1.5-1 is to be installed"
+export interface DependencyProblem {
+    package: string;         // Package whose relation is unmet
+    relation: DependencyRelation;
+    target: string;          // First package named by the relation
+    constraint?: VersionConstraint;
+    alternatives: string;    // The relation as apt printed it, with any alternatives
+    reason: ProblemReason;
+    version?: string;        // Version of the target that is installed or to be installed
+}
+
+export type ConflictFixKind = 'install-version' | 'remove' | 'unhold' | 'enable-repository' | 'add-repository' | 'choose-provider';
+
+// Suggested way to resolve a dependency problem
+export interface ConflictFix {
+    kind: ConflictFixKind;
+    package: string;
+    packageId?: string;      // Version to install, or the installed package to remove
+    version?: string;
+    repositories?: string[]; // Disabled repositories worth enabling
+    providers?: string[];    // Packages that provide a virtual target
+}
+
+// Entry of a changelog in debian/changelog format
+export interface ChangelogEntry {
+    package: string;         // Source package name
+    version: string;
+    distributions: string[]; // e.g. ["unstable"] or ["bookworm-security"]
+    urgency: string;         // low, medium, high, emergency or critical
+    changes: string;         // Change details without the entry's indentation
+    maintainer: string;      // "Name <email>"
+    date: string;            // As written in the changelog, e.g. "Mon, 22 Mar 2010 00:37:31 +0100"
+}
+
+// Screenshot listed in the AppStream catalog
+export interface AppStreamScreenshot {
+    caption: string;
+    image?: string;          // Remote URL of the full size image, only ever linked
+    thumbnail?: string;      // Media path of a scaled down image, shown if a local media directory has it
+    isDefault: boolean;
+}
+
+// AppStream component shipped by a package
+export interface AppStreamComponent {
+    id: string;              // AppStream ID, e.g. "org.gnome.gedit"
+    type: string;            // desktop-application, console-application, addon, font, ...
+    pkgname: string;
+    name: string;            // Human-friendly name
+    summary: string;
+    description: string[];   // Paragraphs; list items start with a bullet
+    keywords: string[];
+    categories: string[];    // freedesktop.org menu categories
+    icon?: string;           // Cached icon path below an AppStream icon directory
+    screenshots: AppStreamScreenshot[];
+}
+
+// Debtags database: tags by package name and vocabulary descriptions by facet and tag
+export interface Debtags {
+    tags: Map<string, string[]>;
+    vocabulary: Map<string, string>;
+}
+
+// Number of listed packages carrying a tag, e.g. "role::program"
+export interface FacetCount {
+    tag: string;
+    count: number;
+}
 
 // Filter options for package lists
 export interface PackageFilter {
@@ -169,12 +584,17 @@ export interface OperationResult {
 
 // Cockpit types (minimal definitions for what we need)
 declare global {
+    // Resolves with the output of a process; stream() passes the output on as it arrives instead
+    interface CockpitProcess extends Promise<string> {
+        stream: (callback: (data: string) => void) => CockpitProcess;
+    }
+
     const cockpit: {
         gettext: (text: string) => string;
         dbus: (service: string | null, options?: any) => any;
         location: any;
-        file: (path: string) => any;
-        spawn: (args: string[], options?: any) => Promise<string>;
+        file: (path: string, options?: any) => any;
+        spawn: (args: string[], options?: any) => CockpitProcess;
     };
 }
 
@@ -0,0 +1,214 @@
+/*
+ * UpdateDetailView component - Changelog and advisory references for a pending update
+ */
+
+import {
+    Breadcrumb,
+    BreadcrumbItem,
+    EmptyState,
+    EmptyStateBody,
+    Flex,
+    FlexItem,
+    Spinner,
+    Title,
+} from '@patternfly/react-core';
+import { ExclamationCircleIcon } from '@patternfly/react-icons';
+import React, { useEffect, useState } from 'react';
+
+import * as PK from './packagekit';
+import { UpdateDetail } from './types';
+import { getErrorMessage, getPackageVersion, getRestartLabel, getUpdateStateLabel } from './utils';
+
+interface UpdateDetailViewProps {
+    packageId: string;
+    onBack: () => void;
+}
+
+// Format an ISO 8601 date from PackageKit, which may be empty
+function formatDate(isoDate: string): string {
+    if (!isoDate) return 'Unknown';
+    const date = new Date(isoDate);
+    return isNaN(date.getTime()) ? isoDate : date.toLocaleDateString();
+}
+
+const DetailRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+    <FlexItem>
+        <Flex alignItems={{ default: 'alignItemsCenter' }}>
+            <FlexItem flex={{ default: 'flex_1' }}>
+                <strong>{label}:</strong>
+            </FlexItem>
+            <FlexItem flex={{ default: 'flex_2' }}>
+                {children}
+            </FlexItem>
+        </Flex>
+    </FlexItem>
+);
+
+const UrlList: React.FC<{ title: string; urls: string[] }> = ({ title, urls }) => {
+    if (urls.length === 0) return null;
+
+    return (
+        <FlexItem>
+            <Flex direction={{ default: 'column' }}>
+                <FlexItem>
+                    <strong>{title} ({urls.length}):</strong>
+                </FlexItem>
+                <FlexItem>
+                    <ul className="pf-v6-c-list">
+                        {urls.map(url => (
+                            <li key={url}>
+                                <a href={url} target="_blank" rel="noopener noreferrer">{url}</a>
+                            </li>
+                        ))}
+                    </ul>
+                </FlexItem>
+            </Flex>
+        </FlexItem>
+    );
+};
+
+export const UpdateDetailView: React.FC<UpdateDetailViewProps> = ({ packageId, onBack }) => {
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [detail, setDetail] = useState<UpdateDetail | null>(null);
+
+    const update = PK.parsePackageId(packageId);
+
+    useEffect(() => {
+        loadUpdateDetail();
+    }, [packageId]);
+
+    // Keyboard navigation: Escape key goes back
+    useEffect(() => {
+        function handleKeyDown(event: KeyboardEvent) {
+            if (event.key === 'Escape') {
+                event.preventDefault();
+                onBack();
+            }
+        }
+        document.addEventListener('keydown', handleKeyDown);
+        return () => document.removeEventListener('keydown', handleKeyDown);
+    }, [onBack]);
+
+    async function loadUpdateDetail() {
+        setLoading(true);
+        setError(null);
+
+        try {
+            const details = await PK.getUpdateDetail([packageId]);
+            if (details.length === 0) {
+                throw new Error('No details available for this update');
+            }
+            setDetail(details[0]);
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    const breadcrumb = (
+        <Breadcrumb className="pf-v6-u-mb-md">
+            <BreadcrumbItem to="#/updates">
+                Updates
+            </BreadcrumbItem>
+            <BreadcrumbItem isActive>{update.name}</BreadcrumbItem>
+        </Breadcrumb>
+    );
+
+    if (loading) {
+        return (
+            <div className="pf-v6-u-text-align-center pf-v6-u-p-xl">
+                <Spinner size="xl" aria-label="Loading update details" />
+                <p className="pf-v6-u-mt-md" aria-live="polite">Loading update details...</p>
+            </div>
+        );
+    }
+
+    if (error || !detail) {
+        return (
+            <div>
+                {breadcrumb}
+                <EmptyState>
+                    <ExclamationCircleIcon />
+                    <Title headingLevel="h1" size="lg">Error loading update details</Title>
+                    <EmptyStateBody>{error || 'No details available for this update'}</EmptyStateBody>
+                </EmptyState>
+            </div>
+        );
+    }
+
+    const currentVersions = detail.updates.map(getPackageVersion).filter(Boolean);
+
+    return (
+        <Flex className="update-detail" direction={{ default: 'column' }} spaceItems={{ default: 'spaceItemsMd' }}>
+            <FlexItem>
+                {breadcrumb}
+            </FlexItem>
+
+            <FlexItem>
+                <Title headingLevel="h1" size="2xl">{update.name} {update.version}</Title>
+            </FlexItem>
+
+            <FlexItem>
+                <Flex direction={{ default: 'column' }} spaceItems={{ default: 'spaceItemsSm' }}>
+                    {currentVersions.length > 0 && (
+                        <DetailRow label="Installed version">
+                            {currentVersions.join(', ')}
+                        </DetailRow>
+                    )}
+                    <DetailRow label="New version">
+                        {update.version}
+                    </DetailRow>
+                    <DetailRow label="Repository">
+                        {update.repo}
+                    </DetailRow>
+                    <DetailRow label="Restart required">
+                        {getRestartLabel(detail.restart)}
+                    </DetailRow>
+                    <DetailRow label="Update state">
+                        {getUpdateStateLabel(detail.state)}
+                    </DetailRow>
+                    <DetailRow label="Issued">
+                        {formatDate(detail.issued)}
+                    </DetailRow>
+                    <DetailRow label="Updated">
+                        {formatDate(detail.updated)}
+                    </DetailRow>
+                </Flex>
+            </FlexItem>
+
+            {detail.updateText && (
+                <FlexItem>
+                    <Flex direction={{ default: 'column' }}>
+                        <FlexItem>
+                            <strong>Description:</strong>
+                        </FlexItem>
+                        <FlexItem>
+                            <p style={{ whiteSpace: 'pre-wrap' }}>{detail.updateText}</p>
+                        </FlexItem>
+                    </Flex>
+                </FlexItem>
+            )}
+
+            <UrlList title="CVEs" urls={detail.cveUrls} />
+            <UrlList title="Vendor advisories" urls={detail.vendorUrls} />
+            <UrlList title="Bug reports" urls={detail.bugzillaUrls} />
+
+            <FlexItem>
+                <Flex direction={{ default: 'column' }}>
+                    <FlexItem>
+                        <strong>Changelog:</strong>
+                    </FlexItem>
+                    <FlexItem>
+                        {detail.changelog ? (
+                            <pre className="pf-v6-u-font-size-sm" style={{ whiteSpace: 'pre-wrap' }}>{detail.changelog}</pre>
+                        ) : (
+                            <p>No changelog available</p>
+                        )}
+                    </FlexItem>
+                </Flex>
+            </FlexItem>
+        </Flex>
+    );
+};
@@ -0,0 +1,272 @@
+/*
+ * UpdateList component - Review and apply available updates
+ */
+
+import {
+    Badge,
+    Button,
+    EmptyState,
+    EmptyStateBody,
+    Flex,
+    FlexItem,
+    Label,
+    Spinner,
+    Title,
+} from '@patternfly/react-core';
+import { CheckCircleIcon, ExclamationCircleIcon } from '@patternfly/react-icons';
+import {
+    Table,
+    Tbody,
+    Td,
+    Th,
+    Thead,
+    Tr,
+} from '@patternfly/react-table';
+import React, { useEffect, useState } from 'react';
+
+import { getHeldPackages } from './apt';
+import * as PK from './packagekit';
+import { useTransactionManager } from './transaction-manager';
+import { UpdateInfo } from './types';
+import {
+    getDefaultUpdateSelection,
+    getErrorMessage,
+    groupUpdatesBySeverity,
+    isPackageHeld,
+    isUpdateBlocked,
+    UPDATE_CATEGORIES,
+} from './utils';
+
+interface UpdateListProps {
+    onUpdateSelect: (packageId: string) => void;
+}
+
+export const UpdateList: React.FC<UpdateListProps> = ({ onUpdateSelect }) => {
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [updates, setUpdates] = useState<UpdateInfo[]>([]);
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [held, setHeld] = useState<Set<string>>(new Set());
+    const [operating, setOperating] = useState(false);
+
+    const { runTransaction, isBusy } = useTransactionManager();
+
+    useEffect(() => {
+        loadUpdates();
+    }, []);
+
+    async function loadUpdates() {
+        setLoading(true);
+        setError(null);
+
+        try {
+            const [available, heldPackages] = await Promise.all([
+                PK.getUpdates(),
+                getHeldPackages().catch(err => {
+                    console.warn('Failed to load held packages:', err);
+                    return new Set<string>();
+                }),
+            ]);
+            setUpdates(available);
+            setHeld(heldPackages);
+            // Select everything except held packages and blocked updates by default
+            setSelected(getDefaultUpdateSelection(available, heldPackages));
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    async function handleRefresh() {
+        setOperating(true);
+        setError(null);
+
+        try {
+            await runTransaction('Refreshing package cache', progressCb => PK.refreshCache(progressCb));
+            await loadUpdates();
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setOperating(false);
+        }
+    }
+
+    async function handleApply() {
+        setOperating(true);
+        setError(null);
+
+        try {
+            await runTransaction(
+                `Updating ${selected.size} packages`,
+                progressCb => PK.updatePackages([...selected], progressCb)
+            );
+            await loadUpdates();
+        } catch (err) {
+            setError(getErrorMessage(err));
+        } finally {
+            setOperating(false);
+        }
+    }
+
+    function setRowsSelected(ids: string[], isSelected: boolean) {
+        setSelected(prev => {
+            const next = new Set(prev);
+            ids.forEach(id => {
+                if (isSelected) {
+                    next.add(id);
+                } else {
+                    next.delete(id);
+                }
+            });
+            return next;
+        });
+    }
+
+    if (loading) {
+        return (
+            <div className="pf-v6-u-text-align-center pf-v6-u-p-xl">
+                <Spinner size="xl" aria-label="Loading updates" />
+                <p className="pf-v6-u-mt-md" aria-live="polite">Checking for updates...</p>
+            </div>
+        );
+    }
+
+    const grouped = groupUpdatesBySeverity(updates);
+
+    return (
+        <Flex className="update-list" direction={{ default: 'column' }} spaceItems={{ default: 'spaceItemsMd' }}>
+            <FlexItem>
+                <Flex justifyContent={{ default: 'justifyContentSpaceBetween' }} alignItems={{ default: 'alignItemsCenter' }}>
+                    <FlexItem flex={{ default: 'flex_1' }}>
+                        <Title headingLevel="h1" size="2xl" className="pf-v6-u-mb-sm">Updates</Title>
+                        <p>
+                            {updates.length} updates available
+                            {updates.some(update => isPackageHeld(update, held)) && ', held packages are not selected'}
+                        </p>
+                    </FlexItem>
+                    <FlexItem>
+                        <Button
+                            variant="secondary"
+                            onClick={handleRefresh}
+                            isDisabled={operating || isBusy}
+                            aria-label="Refresh package cache and check for updates"
+                        >
+                            Check for updates
+                        </Button>
+                    </FlexItem>
+                    <FlexItem>
+                        <Button
+                            variant="primary"
+                            onClick={handleApply}
+                            isDisabled={operating || isBusy || selected.size === 0}
+                            isLoading={operating}
+                            aria-label={`Apply ${selected.size} selected updates`}
+                        >
+                            Apply {selected.size} updates
+                        </Button>
+                    </FlexItem>
+                </Flex>
+            </FlexItem>
+
+            {error && (
+                <FlexItem>
+                    <div className="pf-v6-c-alert pf-m-danger" role="alert" aria-live="assertive">
+                        <div className="pf-v6-c-alert__icon">
+                            <ExclamationCircleIcon />
+                        </div>
+                        <p className="pf-v6-c-alert__title">{error}</p>
+                    </div>
+                </FlexItem>
+            )}
+
+            {updates.length === 0 ? (
+                <FlexItem>
+                    <EmptyState>
+                        <CheckCircleIcon />
+                        <Title headingLevel="h2" size="lg">System is up to date</Title>
+                        <EmptyStateBody>
+                            No updates are available
+                        </EmptyStateBody>
+                    </EmptyState>
+                </FlexItem>
+            ) : (
+                [...grouped.entries()].map(([category, categoryUpdates]) => {
+                    const categoryInfo = UPDATE_CATEGORIES[category];
+                    // Select all leaves held packages and blocked updates alone, they can still be selected one by one
+                    const ids = categoryUpdates
+                        .filter(update => !isPackageHeld(update, held) && !isUpdateBlocked(update))
+                        .map(update => update.id);
+                    const allSelected = ids.length > 0 && ids.every(id => selected.has(id));
+
+                    return (
+                        <FlexItem key={category}>
+                            <div style={{ marginBottom: '0.5rem', display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                                <Title headingLevel="h2" size="lg">{categoryInfo.name}</Title>
+                                <Badge>{categoryUpdates.length}</Badge>
+                            </div>
+                            <p className="pf-v6-u-mb-sm">{categoryInfo.description}</p>
+                            <Table aria-label={categoryInfo.name} variant="compact">
+                                <Thead>
+                                    <Tr>
+                                        <Th
+                                            select={{
+                                                onSelect: (_event, isSelected) => setRowsSelected(ids, isSelected),
+                                                isSelected: allSelected,
+                                                isDisabled: operating || ids.length === 0,
+                                            }}
+                                            aria-label={`Select all ${categoryInfo.name.toLowerCase()}`}
+                                        />
+                                        <Th width={25}>Name</Th>
+                                        <Th width={45}>Summary</Th>
+                                        <Th width={15}>New version</Th>
+                                        <Th width={15}>Repository</Th>
+                                    </Tr>
+                                </Thead>
+                                <Tbody>
+                                    {categoryUpdates.map((update, rowIndex) => (
+                                        <Tr key={update.id}>
+                                            <Td
+                                                select={{
+                                                    rowIndex,
+                                                    onSelect: (_event, isSelected) => setRowsSelected([update.id], isSelected),
+                                                    isSelected: selected.has(update.id),
+                                                    isDisabled: operating,
+                                                }}
+                                            />
+                                            <Td>
+                                                <Button
+                                                    variant="link"
+                                                    isInline
+                                                    onClick={() => onUpdateSelect(update.id)}
+                                                >
+                                                    {update.name}
+                                                </Button>
+                                                {isPackageHeld(update, held) && (
+                                                    <Label isCompact color="orange" className="pf-v6-u-ml-sm">Held</Label>
+                                                )}
+                                                {isUpdateBlocked(update) && (
+                                                    <Label
+                                                        isCompact
+                                                        color="red"
+                                                        className="pf-v6-u-ml-sm"
+                                                        title="Kept back: installing it needs other packages to be added or removed"
+                                                    >
+                                                        Blocked
+                                                    </Label>
+                                                )}
+                                            </Td>
+                                            <Td modifier="truncate">{update.summary}</Td>
+                                            <Td modifier="truncate">{update.version}</Td>
+                                            <Td modifier="truncate">{update.repo}</Td>
+                                        </Tr>
+                                    ))}
+                                </Tbody>
+                            </Table>
+                        </FlexItem>
+                    );
+                })
+            )}
+        </Flex>
+    );
+};
@@ -14,8 +14,40 @@ import {
     countPackagesByGroup,
     getStatusLabel,
     getStatusVariant,
+    getPackageStatus,
+    parseDpkgStatus,
+    getUpdateCategory,
+    groupUpdatesBySeverity,
+    findUpdateForPackage,
+    getRestartLabel,
+    getUpdateStateLabel,
+    calculatePreviewSizes,
+    countPreviewPackages,
+    mergePreviews,
+    scaleProgress,
+    isSystemChangingRole,
+    getRoleLabel,
+    getTransactionStatusLabel,
+    filterRepositories,
+    sortRepositories,
+    compareDebianVersions,
+    getRepositoryLabel,
+    groupVersionsByRepository,
+    parsePackageNameList,
+    isPackageHeld,
+    isPackageAutoInstalled,
+    getDefaultUpdateSelection,
+    getProviderChoices,
+    parseInstalledSources,
+    filterSourcePackages,
+    getSourceUpdates,
+    isForeignArchitecture,
+    getPackageTarget,
+    getAptPackageName,
+    getListingFilter,
+    getArchitectureVariants,
 } from './utils';
-import { PackageInfo, PackageDetails, TransactionError } from './types';
+import { PkEnum, PackageInfo, PackageDetails, RepositoryInfo, TransactionError, UpdateInfo } from './types';
 
 describe('formatSize', () => {
     it('formats 0 bytes', () => {
@@ -78,6 +110,63 @@ describe('getPackageVersion', () => {
     });
 });
 
+describe('compareDebianVersions', () => {
+    it('compares numeric parts numerically', () => {
+        expect(compareDebianVersions('1.10', '1.9')).toBeGreaterThan(0);
+        expect(compareDebianVersions('1.2.3', '1.2.3')).toBe(0);
+        expect(compareDebianVersions('1.02', '1.2')).toBe(0);
+    });
+
+    it('compares epochs first', () => {
+        expect(compareDebianVersions('1:1.0', '2.0')).toBeGreaterThan(0);
+        expect(compareDebianVersions('1.0', '0:1.0')).toBe(0);
+    });
+
+    it('compares revisions after the upstream version', () => {
+        expect(compareDebianVersions('1.22.1-9', '1.22.1-10')).toBeLessThan(0);
+        expect(compareDebianVersions('1.0-1', '1.0')).toBeGreaterThan(0);
+        expect(compareDebianVersions('2.0-1-2', '2.0-1-10')).toBeLessThan(0);
+    });
+
+    it('sorts tilde before everything', () => {
+        expect(compareDebianVersions('1.0~rc1', '1.0')).toBeLessThan(0);
+        expect(compareDebianVersions('1.0~rc1', '1.0~rc2')).toBeLessThan(0);
+        expect(compareDebianVersions('1.24.0-1~bpo12+1', '1.24.0-1')).toBeLessThan(0);
+    });
+
+    it('sorts letters before other characters', () => {
+        expect(compareDebianVersions('1.0a', '1.0+')).toBeLessThan(0);
+        expect(compareDebianVersions('1.0+dfsg', '1.0')).toBeGreaterThan(0);
+    });
+});
+
+describe('getRepositoryLabel', () => {
+    it('strips the installed prefixes', () => {
+        expect(getRepositoryLabel('debian-bookworm-main')).toBe('debian-bookworm-main');
+        expect(getRepositoryLabel('installed:debian-bookworm-main')).toBe('debian-bookworm-main');
+        expect(getRepositoryLabel('manual:debian-bookworm-main')).toBe('debian-bookworm-main');
+        expect(getRepositoryLabel('auto:backports')).toBe('backports');
+    });
+
+    it('labels packages without repository', () => {
+        expect(getRepositoryLabel('installed')).toBe('Installed');
+        expect(getRepositoryLabel('')).toBe('Installed');
+    });
+});
+
+describe('groupVersionsByRepository', () => {
+    it('groups by repository with newest versions first', () => {
+        const versions: PackageInfo[] = [
+            { id: 'nginx;1.22.1-9;amd64;debian', name: 'nginx', version: '1.22.1-9', arch: 'amd64', repo: 'debian', summary: '', installed: false },
+            { id: 'nginx;1.24.0-1;amd64;backports', name: 'nginx', version: '1.24.0-1', arch: 'amd64', repo: 'backports', summary: '', installed: false },
+            { id: 'nginx;1.22.1-10;amd64;manual:debian', name: 'nginx', version: '1.22.1-10', arch: 'amd64', repo: 'manual:debian', summary: '', installed: true },
+        ];
+        const groups = groupVersionsByRepository(versions);
+        expect([...groups.keys()]).toEqual(['backports', 'debian']);
+        expect(groups.get('debian')!.map(pkg => pkg.version)).toEqual(['1.22.1-10', '1.22.1-9']);
+    });
+});
+
 describe('isSamePackage', () => {
     it('returns true for same package with different versions', () => {
         expect(isSamePackage('nginx;1.18.0;arm64;debian', 'nginx;1.20.0;arm64;debian')).toBe(true);
@@ -112,6 +201,95 @@ describe('getStatusVariant', () => {
     });
 });
 
+describe('getStatusLabel and getStatusVariant with a detailed status', () => {
+    const base = { held: false, auto: false };
+
+    it('labels upgradable packages', () => {
+        const status = { ...base, state: 'installed' as const, candidate: '2.0-1' };
+        expect(getStatusLabel(status)).toBe('Update available');
+        expect(getStatusVariant(status)).toBe('custom');
+    });
+
+    it('labels broken and removed packages', () => {
+        expect(getStatusLabel({ ...base, state: 'half-configured' })).toBe('Half-configured');
+        expect(getStatusVariant({ ...base, state: 'half-configured' })).toBe('danger');
+        expect(getStatusLabel({ ...base, state: 'config-files' })).toBe('Config files only');
+        expect(getStatusVariant({ ...base, state: 'config-files' })).toBe('warning');
+    });
+
+    it('matches the installed flag for plain states', () => {
+        expect(getStatusLabel({ ...base, state: 'installed' })).toBe(getStatusLabel(true));
+        expect(getStatusVariant({ ...base, state: 'available' })).toBe(getStatusVariant(false));
+    });
+});
+
+describe('parseDpkgStatus', () => {
+    it('maps status abbreviations to states', () => {
+        const states = parseDpkgStatus([
+            'nginx:arm64 ii ',
+            'apache2:arm64 rc ',
+            'broken:all iF ',
+            'unpacked:arm64 iU ',
+            'purged:arm64 un ',
+            'reinst:arm64 iHR',
+            '',
+        ].join('\n'));
+        expect(states.get('nginx:arm64')).toBe('installed');
+        expect(states.get('apache2:arm64')).toBe('config-files');
+        expect(states.get('broken:all')).toBe('half-configured');
+        expect(states.get('unpacked:arm64')).toBe('half-configured');
+        expect(states.get('purged:arm64')).toBe('not-installed');
+        expect(states.get('reinst:arm64')).toBe('half-configured');
+        expect(states.size).toBe(6);
+    });
+
+    it('returns empty map for empty output', () => {
+        expect(parseDpkgStatus('').size).toBe(0);
+    });
+});
+
+describe('getPackageStatus', () => {
+    const installed: PackageInfo = {
+        id: 'nginx;1.0-1;arm64;installed:debian',
+        name: 'nginx',
+        version: '1.0-1',
+        arch: 'arm64',
+        repo: 'installed:debian',
+        summary: '',
+        installed: true,
+    };
+    const available: PackageInfo = { ...installed, id: 'apache2;2.4;arm64;debian', name: 'apache2', installed: false };
+    const empty = { dpkg: new Map(), held: new Set<string>(), auto: new Set<string>(), updates: [] };
+
+    it('follows the PackageKit installed flag', () => {
+        expect(getPackageStatus(installed, empty)).toEqual({ state: 'installed', held: false, auto: false });
+        expect(getPackageStatus(available, empty)).toEqual({ state: 'available', held: false, auto: false });
+    });
+
+    it('adds holds, auto marks and update candidates to installed packages', () => {
+        const update = { ...installed, id: 'nginx;1.1-1;arm64;debian', version: '1.1-1' } as UpdateInfo;
+        const status = getPackageStatus(installed, {
+            ...empty,
+            held: new Set(['nginx']),
+            auto: new Set(['nginx']),
+            updates: [update],
+        });
+        expect(status).toEqual({ state: 'installed', candidate: '1.1-1', held: true, auto: true });
+    });
+
+    it('uses dpkg for half-configured and config-files states', () => {
+        expect(getPackageStatus(installed, { ...empty, dpkg: new Map([['nginx:arm64', 'half-configured']]) }).state)
+            .toBe('half-configured');
+        expect(getPackageStatus(available, { ...empty, dpkg: new Map([['apache2:arm64', 'config-files']]) }).state)
+            .toBe('config-files');
+    });
+
+    it('ignores holds and auto marks of packages that are not installed', () => {
+        const status = getPackageStatus(available, { ...empty, held: new Set(['apache2']), auto: new Set(['apache2']) });
+        expect(status).toEqual({ state: 'available', held: false, auto: false });
+    });
+});
+
 describe('getErrorMessage', () => {
     it('maps TransactionError codes to friendly messages', () => {
         const error = new TransactionError('cancelled', 'Transaction was cancelled');
@@ -169,6 +347,12 @@ describe('filterPackages', () => {
         const result = filterPackages(packages, 'nonexistent');
         expect(result).toHaveLength(0);
     });
+
+    it('matches extra terms', () => {
+        const result = filterPackages(packages, 'MariaDB', pkg => pkg.name === 'mysql-server' ? ['mariadb', 'sql'] : []);
+        expect(result).toHaveLength(1);
+        expect(result[0].name).toBe('mysql-server');
+    });
 });
 
 describe('sortPackagesByName', () => {
@@ -323,3 +507,363 @@ describe('countPackagesByGroup', () => {
         expect(unknownGroup?.packageCount).toBe(1);
     });
 });
+
+describe('getUpdateCategory', () => {
+    it('maps severity enums to categories', () => {
+        expect(getUpdateCategory(PkEnum.INFO_SECURITY)).toBe('security');
+        expect(getUpdateCategory(PkEnum.INFO_BUGFIX)).toBe('bugfix');
+        expect(getUpdateCategory(PkEnum.INFO_ENHANCEMENT)).toBe('enhancement');
+    });
+
+    it('maps unclassified severities to other', () => {
+        expect(getUpdateCategory(PkEnum.INFO_NORMAL)).toBe('other');
+        expect(getUpdateCategory(PkEnum.INFO_IMPORTANT)).toBe('other');
+        expect(getUpdateCategory(PkEnum.INFO_UNKNOWN)).toBe('other');
+    });
+});
+
+describe('groupUpdatesBySeverity', () => {
+    const updates: UpdateInfo[] = [
+        { id: '1', name: 'openssl', summary: 'TLS', version: '3.0.1', arch: 'arm64', repo: 'debian-security', installed: false, severity: PkEnum.INFO_SECURITY },
+        { id: '2', name: 'curl', summary: 'HTTP', version: '8.0.1', arch: 'arm64', repo: 'debian', installed: false, severity: PkEnum.INFO_BUGFIX },
+        { id: '3', name: 'libssl3', summary: 'TLS', version: '3.0.1', arch: 'arm64', repo: 'debian-security', installed: false, severity: PkEnum.INFO_SECURITY },
+        { id: '4', name: 'vim', summary: 'Editor', version: '9.1', arch: 'arm64', repo: 'debian', installed: false, severity: PkEnum.INFO_NORMAL },
+    ];
+
+    it('groups updates by category in display order', () => {
+        const result = groupUpdatesBySeverity(updates);
+        expect([...result.keys()]).toEqual(['security', 'bugfix', 'other']);
+    });
+
+    it('sorts updates by name within a category', () => {
+        const result = groupUpdatesBySeverity(updates);
+        expect(result.get('security')!.map(u => u.name)).toEqual(['libssl3', 'openssl']);
+    });
+
+    it('omits empty categories', () => {
+        const result = groupUpdatesBySeverity(updates);
+        expect(result.has('enhancement')).toBe(false);
+    });
+});
+
+describe('findUpdateForPackage', () => {
+    const installed: PackageInfo = { id: 'curl;7.88.1;arm64;installed:debian', name: 'curl', summary: 'HTTP', version: '7.88.1', arch: 'arm64', repo: 'installed:debian', installed: true };
+    const updates: UpdateInfo[] = [
+        { id: 'curl;7.88.1-10;armhf;debian', name: 'curl', summary: 'HTTP', version: '7.88.1-10', arch: 'armhf', repo: 'debian', installed: false, severity: PkEnum.INFO_NORMAL },
+        { id: 'curl;7.88.1-10;arm64;debian', name: 'curl', summary: 'HTTP', version: '7.88.1-10', arch: 'arm64', repo: 'debian', installed: false, severity: PkEnum.INFO_NORMAL },
+    ];
+
+    it('finds the update with the same name and architecture', () => {
+        expect(findUpdateForPackage(installed, updates)?.id).toBe('curl;7.88.1-10;arm64;debian');
+    });
+
+    it('returns undefined when there is no update', () => {
+        expect(findUpdateForPackage({ ...installed, name: 'wget' }, updates)).toBeUndefined();
+    });
+});
+
+describe('getRestartLabel', () => {
+    it('describes known restart requirements', () => {
+        expect(getRestartLabel(PkEnum.RESTART_NONE)).toBe('None');
+        expect(getRestartLabel(PkEnum.RESTART_SYSTEM)).toBe('System reboot');
+    });
+
+    it('returns "Unknown" for unknown values', () => {
+        expect(getRestartLabel(PkEnum.RESTART_UNKNOWN)).toBe('Unknown');
+        expect(getRestartLabel(99)).toBe('Unknown');
+    });
+});
+
+describe('getUpdateStateLabel', () => {
+    it('describes known update states', () => {
+        expect(getUpdateStateLabel(PkEnum.UPDATE_STATE_STABLE)).toBe('Stable');
+        expect(getUpdateStateLabel(PkEnum.UPDATE_STATE_TESTING)).toBe('Testing');
+    });
+
+    it('returns "Unknown" for unknown values', () => {
+        expect(getUpdateStateLabel(PkEnum.UPDATE_STATE_UNKNOWN)).toBe('Unknown');
+    });
+});
+
+describe('calculatePreviewSizes', () => {
+    const details: PackageDetails[] = [
+        { id: 'new', name: 'new', summary: '', version: '1', arch: 'arm64', repo: 'debian', installed: false, size: 4000, downloadSize: 1000 },
+        { id: 'upd', name: 'upd', summary: '', version: '2', arch: 'arm64', repo: 'debian', installed: false, size: 3000 },
+        { id: 'old', name: 'old', summary: '', version: '1', arch: 'arm64', repo: 'installed', installed: true, size: 2500 },
+    ];
+    const empty = { install: [], update: [], remove: [], downgrade: [], reinstall: [] };
+
+    it('prefers download size and falls back to size', () => {
+        const result = calculatePreviewSizes({ ...empty, install: ['new'], update: ['upd'] }, details);
+        expect(result.downloadSize).toBe(4000);
+    });
+
+    it('adds installed packages and subtracts removed packages from disk usage', () => {
+        const result = calculatePreviewSizes({ ...empty, install: ['new'], remove: ['old'] }, details);
+        expect(result.installSize).toBe(1500);
+    });
+
+    it('counts packages without details as zero', () => {
+        const result = calculatePreviewSizes({ ...empty, install: ['missing'] }, details);
+        expect(result).toEqual({ downloadSize: 0, installSize: 0 });
+    });
+});
+
+describe('countPreviewPackages', () => {
+    it('counts packages in all categories', () => {
+        expect(countPreviewPackages({
+            install: ['a', 'b'], update: ['c'], remove: ['d'], downgrade: [], reinstall: ['e'],
+            downloadSize: 0, installSize: 0,
+        })).toBe(5);
+    });
+});
+
+describe('mergePreviews', () => {
+    it('concatenates package lists and adds sizes', () => {
+        const result = mergePreviews(
+            { install: ['a'], update: [], remove: [], downgrade: [], reinstall: [], downloadSize: 100, installSize: 400 },
+            { install: [], update: [], remove: ['b'], downgrade: [], reinstall: [], downloadSize: 0, installSize: -300 },
+        );
+        expect(result.install).toEqual(['a']);
+        expect(result.remove).toEqual(['b']);
+        expect(result.downloadSize).toBe(100);
+        expect(result.installSize).toBe(100);
+    });
+});
+
+describe('scaleProgress', () => {
+    it('maps step progress onto the whole sequence', () => {
+        expect(scaleProgress(0, 0, 2)).toBe(0);
+        expect(scaleProgress(50, 0, 2)).toBe(25);
+        expect(scaleProgress(50, 1, 2)).toBe(75);
+        expect(scaleProgress(100, 1, 2)).toBe(100);
+    });
+
+    it('returns the percentage unchanged for a single step', () => {
+        expect(scaleProgress(40, 0, 1)).toBe(40);
+    });
+});
+
+describe('isSystemChangingRole', () => {
+    it('returns true for roles that modify the system', () => {
+        expect(isSystemChangingRole(PkEnum.ROLE_INSTALL_PACKAGES)).toBe(true);
+        expect(isSystemChangingRole(PkEnum.ROLE_REMOVE_PACKAGES)).toBe(true);
+        expect(isSystemChangingRole(PkEnum.ROLE_UPDATE_PACKAGES)).toBe(true);
+        expect(isSystemChangingRole(PkEnum.ROLE_REFRESH_CACHE)).toBe(true);
+    });
+
+    it('returns false for query roles', () => {
+        expect(isSystemChangingRole(PkEnum.ROLE_GET_UPDATES)).toBe(false);
+        expect(isSystemChangingRole(PkEnum.ROLE_UNKNOWN)).toBe(false);
+    });
+});
+
+describe('getRoleLabel', () => {
+    it('describes known roles', () => {
+        expect(getRoleLabel(PkEnum.ROLE_INSTALL_PACKAGES)).toBe('Installing packages');
+        expect(getRoleLabel(PkEnum.ROLE_UPDATE_PACKAGES)).toBe('Updating packages');
+    });
+
+    it('falls back to a generic label', () => {
+        expect(getRoleLabel(PkEnum.ROLE_UNKNOWN)).toBe('Package operation');
+    });
+});
+
+describe('getTransactionStatusLabel', () => {
+    it('describes known statuses', () => {
+        expect(getTransactionStatusLabel(PkEnum.STATUS_DOWNLOAD)).toBe('Downloading');
+        expect(getTransactionStatusLabel(PkEnum.STATUS_WAITING_FOR_LOCK)).toBe('Waiting for package manager lock');
+    });
+
+    it('falls back to a generic label', () => {
+        expect(getTransactionStatusLabel(PkEnum.STATUS_UNKNOWN)).toBe('Working');
+    });
+});
+
+describe('filterRepositories', () => {
+    const repos: RepositoryInfo[] = [
+        { id: '/etc/apt/sources.list:deb http://deb.debian.org/debian bookworm main', description: 'Debian bookworm main', enabled: true },
+        { id: '/etc/apt/sources.list.d/influx.list:deb https://repos.influxdata.com/debian stable main', description: 'InfluxData', enabled: false },
+    ];
+
+    it('returns all repositories for empty query', () => {
+        expect(filterRepositories(repos, '')).toHaveLength(2);
+    });
+
+    it('matches description case-insensitively', () => {
+        expect(filterRepositories(repos, 'BOOKWORM').map(r => r.description)).toEqual(['Debian bookworm main']);
+    });
+
+    it('matches repository ID', () => {
+        expect(filterRepositories(repos, 'influxdata.com').map(r => r.description)).toEqual(['InfluxData']);
+    });
+});
+
+describe('sortRepositories', () => {
+    it('sorts enabled repositories first, then by description', () => {
+        const repos: RepositoryInfo[] = [
+            { id: 'c', description: 'Charlie', enabled: false },
+            { id: 'b', description: 'Bravo', enabled: true },
+            { id: 'a', description: 'Alpha', enabled: false },
+        ];
+        expect(sortRepositories(repos).map(r => r.id)).toEqual(['b', 'a', 'c']);
+    });
+
+    it('does not modify the input', () => {
+        const repos: RepositoryInfo[] = [
+            { id: 'b', description: 'B', enabled: false },
+            { id: 'a', description: 'A', enabled: true },
+        ];
+        sortRepositories(repos);
+        expect(repos[0].id).toBe('b');
+    });
+});
+
+describe('parsePackageNameList', () => {
+    it('returns one name per line', () => {
+        expect(parsePackageNameList('linux-image-amd64\nopencpn\n\nlibc6:i386\n')).toEqual([
+            'linux-image-amd64', 'opencpn', 'libc6:i386',
+        ]);
+    });
+
+    it('returns empty array for empty output', () => {
+        expect(parsePackageNameList('')).toEqual([]);
+    });
+});
+
+describe('isPackageHeld', () => {
+    const held = new Set(['opencpn', 'libc6:i386']);
+
+    it('matches native packages by name', () => {
+        expect(isPackageHeld({ name: 'opencpn', arch: 'arm64' }, held)).toBe(true);
+        expect(isPackageHeld({ name: 'nginx', arch: 'arm64' }, held)).toBe(false);
+    });
+
+    it('matches foreign packages by name and architecture', () => {
+        expect(isPackageHeld({ name: 'libc6', arch: 'i386' }, held)).toBe(true);
+        expect(isPackageHeld({ name: 'libc6', arch: 'amd64' }, held)).toBe(false);
+    });
+});
+
+describe('isPackageAutoInstalled', () => {
+    const auto = new Set(['libfoo1', 'libbar:i386']);
+
+    it('matches packages by name or name and architecture', () => {
+        expect(isPackageAutoInstalled({ name: 'libfoo1', arch: 'amd64' }, auto)).toBe(true);
+        expect(isPackageAutoInstalled({ name: 'libbar', arch: 'i386' }, auto)).toBe(true);
+        expect(isPackageAutoInstalled({ name: 'libbar', arch: 'amd64' }, auto)).toBe(false);
+    });
+});
+
+describe('getDefaultUpdateSelection', () => {
+    it('selects all updates except held packages', () => {
+        const updates: UpdateInfo[] = [
+            { id: 'opencpn;5.8;arm64;debian', name: 'opencpn', version: '5.8', arch: 'arm64', repo: 'debian', summary: '', installed: false, severity: PkEnum.INFO_NORMAL },
+            { id: 'nginx;1.24;arm64;debian', name: 'nginx', version: '1.24', arch: 'arm64', repo: 'debian', summary: '', installed: false, severity: PkEnum.INFO_SECURITY },
+        ];
+        expect(getDefaultUpdateSelection(updates, new Set(['opencpn']))).toEqual(new Set(['nginx;1.24;arm64;debian']));
+        expect(getDefaultUpdateSelection(updates, new Set()).size).toBe(2);
+    });
+
+    it('leaves blocked updates out', () => {
+        const updates: UpdateInfo[] = [
+            { id: 'nginx;1.24;arm64;debian', name: 'nginx', version: '1.24', arch: 'arm64', repo: 'debian', summary: '', installed: false, severity: PkEnum.INFO_NORMAL },
+            { id: 'libc6;2.37;arm64;debian', name: 'libc6', version: '2.37', arch: 'arm64', repo: 'debian', summary: '', installed: false, severity: PkEnum.INFO_BLOCKED },
+        ];
+        expect(getDefaultUpdateSelection(updates, new Set())).toEqual(new Set(['nginx;1.24;arm64;debian']));
+    });
+});
+
+describe('getProviderChoices', () => {
+    function makeProvider(name: string, version: string, installed = false): PackageInfo {
+        return { id: `${name};${version};amd64;debian`, name, version, arch: 'amd64', repo: 'debian', summary: '', installed };
+    }
+
+    it('keeps one entry per package, installed providers first', () => {
+        const choices = getProviderChoices([
+            makeProvider('postfix', '3.7.10'),
+            makeProvider('exim4-daemon-light', '4.96-15'),
+            makeProvider('exim4-daemon-light', '4.96-16'),
+            makeProvider('postfix', '3.7.9', true),
+        ]);
+        expect(choices.map(pkg => `${pkg.name} ${pkg.version}`)).toEqual(['postfix 3.7.9', 'exim4-daemon-light 4.96-16']);
+    });
+
+    it('returns empty array without providers', () => {
+        expect(getProviderChoices([])).toEqual([]);
+    });
+});
+
+describe('source packages', () => {
+    const output = [
+        'ii \tlibssl3\tamd64\t3.0.11-1\topenssl\t3.0.11-1',
+        'ii \topenssl\tamd64\t3.0.11-1\topenssl\t3.0.11-1',
+        'ii \tlibssl3\ti386\t3.0.13-1\topenssl\t3.0.13-1',
+        'rc \tlibssl1.1\tamd64\t1.1.1n-0\topenssl\t1.1.1n-0',
+        'ii \tnginx\tamd64\t1.24.0-1\tnginx\t1.24.0-1',
+        '',
+    ].join('\n');
+    const sources = parseInstalledSources(output);
+
+    it('groups installed binaries by source package', () => {
+        expect(sources.map(source => source.name)).toEqual(['nginx', 'openssl']);
+        expect(sources[1].binaries).toEqual([
+            { name: 'libssl3', arch: 'amd64', version: '3.0.11-1' },
+            { name: 'libssl3', arch: 'i386', version: '3.0.13-1' },
+            { name: 'openssl', arch: 'amd64', version: '3.0.11-1' },
+        ]);
+        expect(sources[1].version).toBe('3.0.13-1');
+    });
+
+    it('filters by source or binary name', () => {
+        expect(filterSourcePackages(sources, 'LIBSSL').map(source => source.name)).toEqual(['openssl']);
+        expect(filterSourcePackages(sources, '')).toHaveLength(2);
+    });
+
+    it('finds updates for binaries by name and architecture', () => {
+        const updates: UpdateInfo[] = [
+            { id: 'libssl3;3.0.14-1;amd64;debian', name: 'libssl3', version: '3.0.14-1', arch: 'amd64', repo: 'debian', summary: '', installed: false, severity: PkEnum.INFO_SECURITY },
+            { id: 'libssl3;3.0.14-1;arm64;debian', name: 'libssl3', version: '3.0.14-1', arch: 'arm64', repo: 'debian', summary: '', installed: false, severity: PkEnum.INFO_SECURITY },
+            { id: 'nginx;1.26.0-1;amd64;debian', name: 'nginx', version: '1.26.0-1', arch: 'amd64', repo: 'debian', summary: '', installed: false, severity: PkEnum.INFO_NORMAL },
+        ];
+        expect(getSourceUpdates(sources[1], updates).map(update => update.id)).toEqual(['libssl3;3.0.14-1;amd64;debian']);
+    });
+});
+
+describe('multiarch', () => {
+    function makeVariant(arch: string, version: string, installed = false): PackageInfo {
+        return { id: `libc6;${version};${arch};debian`, name: 'libc6', version, arch, repo: 'debian', summary: '', installed };
+    }
+
+    it('treats native and architecture independent packages as native', () => {
+        expect(isForeignArchitecture('armhf', 'arm64')).toBe(true);
+        expect(isForeignArchitecture('arm64', 'arm64')).toBe(false);
+        expect(isForeignArchitecture('all', 'arm64')).toBe(false);
+        expect(isForeignArchitecture('armhf', '')).toBe(false);
+    });
+
+    it('addresses foreign variants by package ID and qualified name', () => {
+        const foreign = makeVariant('armhf', '2.36-9');
+        const native = makeVariant('arm64', '2.36-9');
+        expect(getPackageTarget(foreign, 'arm64')).toBe(foreign.id);
+        expect(getPackageTarget(native, 'arm64')).toBe('libc6');
+        expect(getAptPackageName(foreign, 'arm64')).toBe('libc6:armhf');
+        expect(getAptPackageName(native, 'arm64')).toBe('libc6');
+    });
+
+    it('drops the architecture filter once foreign architectures exist', () => {
+        expect(getListingFilter([]) & PkEnum.FILTER_ARCH).toBe(PkEnum.FILTER_ARCH);
+        expect(getListingFilter(['armhf']) & PkEnum.FILTER_ARCH).toBe(0);
+        expect(getListingFilter(['armhf']) & PkEnum.FILTER_NEWEST).toBe(PkEnum.FILTER_NEWEST);
+    });
+
+    it('keeps one variant per architecture, installed first', () => {
+        const variants = getArchitectureVariants([
+            makeVariant('armhf', '2.36-9'),
+            makeVariant('arm64', '2.36-9', true),
+            makeVariant('arm64', '2.37-1'),
+            makeVariant('armhf', '2.37-1'),
+        ]);
+        expect(variants.map(variant => `${variant.arch} ${variant.version}`)).toEqual(['arm64 2.36-9', 'armhf 2.37-1']);
+    });
+});
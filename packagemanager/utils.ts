@@ -2,7 +2,20 @@
  * Utility functions for Cockpit Package Manager
  */
 
-import { PackageInfo, PackageDetails, GroupInfo, TransactionError } from './types';
+import {
+    DpkgState,
+    PkEnum,
+    PackageInfo,
+    PackageDetails,
+    PackageState,
+    PackageStatus,
+    GroupInfo,
+    TransactionError,
+    RepositoryInfo,
+    SourcePackage,
+    TransactionPreview,
+    UpdateInfo,
+} from './types';
 import { getGroupInfo, PACKAGEKIT_GROUPS } from './groups';
 
 /**
@@ -113,14 +126,20 @@ export function getErrorMessage(error: unknown): string {
 
 /**
  * Filter packages by search query
+ * getExtraTerms adds text to match besides name and summary, such as AppStream keywords.
  */
-export function filterPackages<T extends PackageInfo>(packages: T[], query: string): T[] {
+export function filterPackages<T extends PackageInfo>(
+    packages: T[],
+    query: string,
+    getExtraTerms: (pkg: T) => string[] = () => []
+): T[] {
     if (!query) return packages;
 
     const lowerQuery = query.toLowerCase();
     return packages.filter(pkg =>
         pkg.name.toLowerCase().includes(lowerQuery) ||
-        pkg.summary.toLowerCase().includes(lowerQuery)
+        pkg.summary.toLowerCase().includes(lowerQuery) ||
+        getExtraTerms(pkg).some(term => term.toLowerCase().includes(lowerQuery))
     );
 }
 
@@ -190,18 +209,142 @@ export function hasSuperuserPrivilege(): boolean {
     return true; // Default to true for now
 }
 
+export type StatusVariant = 'success' | 'info' | 'warning' | 'danger' | 'custom';
+
+// Label status and text of each package state
+const STATUS_LABELS: Record<PackageState | 'upgradable', { label: string; variant: StatusVariant }> = {
+    'available': { label: 'Available', variant: 'info' },
+    'installed': { label: 'Installed', variant: 'success' },
+    'upgradable': { label: 'Update available', variant: 'custom' },
+    'half-configured': { label: 'Half-configured', variant: 'danger' },
+    'config-files': { label: 'Config files only', variant: 'warning' },
+};
+
+function getStatusKey(status: PackageStatus | boolean): PackageState | 'upgradable' {
+    if (typeof status === 'boolean') {
+        return status ? 'installed' : 'available';
+    }
+    return status.state === 'installed' && status.candidate ? 'upgradable' : status.state;
+}
+
 /**
  * Get package status badge variant
+ * Accepts the installed flag or a detailed status.
  */
-export function getStatusVariant(installed: boolean): 'success' | 'info' {
-    return installed ? 'success' : 'info';
+export function getStatusVariant(status: PackageStatus | boolean): StatusVariant {
+    return STATUS_LABELS[getStatusKey(status)].variant;
 }
 
 /**
  * Get package status label
  */
-export function getStatusLabel(installed: boolean): string {
-    return installed ? 'Installed' : 'Available';
+export function getStatusLabel(status: PackageStatus | boolean): string {
+    return STATUS_LABELS[getStatusKey(status)].label;
+}
+
+/**
+ * Parse dpkg-query output into package states by name:arch
+ * Expects lines formatted with '${Package}:${Architecture} ${db:Status-Abbrev}'.
+ */
+export function parseDpkgStatus(output: string): Map<string, DpkgState> {
+    const states = new Map<string, DpkgState>();
+
+    for (const line of output.split('\n')) {
+        const match = line.match(/^(\S+)\s+[a-z]([a-zA-Z])/);
+        if (!match) continue;
+
+        switch (match[2]) {
+            case 'i':
+                states.set(match[1], 'installed');
+                break;
+            case 'c':
+                states.set(match[1], 'config-files');
+                break;
+            case 'n':
+                states.set(match[1], 'not-installed');
+                break;
+            default:
+                // Unpacked, half-installed, half-configured or waiting for triggers
+                states.set(match[1], 'half-configured');
+        }
+    }
+
+    return states;
+}
+
+/**
+ * Parse dpkg-query output into installed binaries grouped by source package, sorted by name
+ * Expects tab-separated lines of '${db:Status-Abbrev}', '${Package}', '${Architecture}',
+ * '${Version}', '${source:Package}' and '${source:Version}'.
+ */
+export function parseInstalledSources(output: string): SourcePackage[] {
+    const sources = new Map<string, SourcePackage>();
+
+    for (const line of output.split('\n')) {
+        const [status, name, arch, version, sourceName, sourceVersion] = line.split('\t');
+        if (!status?.startsWith('ii') || !name || !sourceName) continue;
+
+        const source = sources.get(sourceName);
+        if (!source) {
+            sources.set(sourceName, { name: sourceName, version: sourceVersion, binaries: [{ name, arch, version }] });
+            continue;
+        }
+        source.binaries.push({ name, arch, version });
+        if (compareDebianVersions(sourceVersion, source.version) > 0) {
+            source.version = sourceVersion;
+        }
+    }
+
+    return [...sources.values()]
+        .map(source => ({ ...source, binaries: source.binaries.sort((a, b) => a.name.localeCompare(b.name)) }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Filter source packages by their own name or the name of one of their binaries
+ */
+export function filterSourcePackages(sources: SourcePackage[], query: string): SourcePackage[] {
+    if (!query) return sources;
+
+    const lowerQuery = query.toLowerCase();
+    return sources.filter(source =>
+        source.name.toLowerCase().includes(lowerQuery) ||
+        source.binaries.some(binary => binary.name.toLowerCase().includes(lowerQuery))
+    );
+}
+
+/**
+ * Pending updates for the binaries of a source package
+ */
+export function getSourceUpdates<T extends PackageInfo>(source: SourcePackage, updates: T[]): T[] {
+    return updates.filter(update => source.binaries.some(binary => binary.name === update.name && binary.arch === update.arch));
+}
+
+/**
+ * Work out the detailed status of a package
+ * PackageKit's installed flag is refined with dpkg states, holds, auto marks and updates.
+ */
+export function getPackageStatus(
+    pkg: PackageInfo,
+    context: { dpkg: Map<string, DpkgState>; held: Set<string>; auto: Set<string>; updates: UpdateInfo[] }
+): PackageStatus {
+    const dpkgState = context.dpkg.get(`${pkg.name}:${pkg.arch}`);
+    let state: PackageState = pkg.installed ? 'installed' : 'available';
+    if (dpkgState === 'half-configured') {
+        state = 'half-configured';
+    } else if (!pkg.installed && dpkgState === 'config-files') {
+        state = 'config-files';
+    }
+
+    const isInstalled = state === 'installed' || state === 'half-configured';
+    const update = isInstalled ? findUpdateForPackage(pkg, context.updates) : undefined;
+
+    return {
+        state,
+        ...(update && { candidate: update.version }),
+        held: isInstalled && isPackageHeld(pkg, context.held),
+        auto: isInstalled && isPackageAutoInstalled(pkg, context.auto),
+    };
 }
 
 /**
@@ -219,9 +362,455 @@ export function getPackageVersion(packageId: string): string {
     return packageId.split(';')[1] || '';
 }
 
+// Sort weight of a character in a Debian version, as in dpkg: "~" sorts before
+// everything, even the end of the string, and letters sort before other characters
+function versionCharOrder(char: string | undefined): number {
+    if (char === undefined || /\d/.test(char)) return 0;
+    if (char === '~') return -1;
+    if (/[A-Za-z]/.test(char)) return char.charCodeAt(0);
+    return char.charCodeAt(0) + 256;
+}
+
+// Compare upstream versions or revisions, alternating non-digit and digit runs
+function compareVersionPart(a: string, b: string): number {
+    const isDigit = (char: string | undefined) => char !== undefined && /\d/.test(char);
+    let i = 0;
+    let j = 0;
+
+    while (i < a.length || j < b.length) {
+        while ((i < a.length && !isDigit(a[i])) || (j < b.length && !isDigit(b[j]))) {
+            const diff = versionCharOrder(a[i]) - versionCharOrder(b[j]);
+            if (diff !== 0) return Math.sign(diff);
+            i++;
+            j++;
+        }
+
+        while (a[i] === '0') i++;
+        while (b[j] === '0') j++;
+
+        let firstDiff = 0;
+        while (isDigit(a[i]) && isDigit(b[j])) {
+            if (!firstDiff) firstDiff = a.charCodeAt(i) - b.charCodeAt(j);
+            i++;
+            j++;
+        }
+        if (isDigit(a[i])) return 1;
+        if (isDigit(b[j])) return -1;
+        if (firstDiff) return Math.sign(firstDiff);
+    }
+    return 0;
+}
+
+// Split a Debian version into epoch, upstream version and revision
+function splitDebianVersion(version: string): [number, string, string] {
+    const colon = version.indexOf(':');
+    const epoch = colon > 0 ? Number(version.slice(0, colon)) || 0 : 0;
+    const rest = version.slice(colon + 1);
+    const dash = rest.lastIndexOf('-');
+    return dash >= 0 ? [epoch, rest.slice(0, dash), rest.slice(dash + 1)] : [epoch, rest, ''];
+}
+
+/**
+ * Compare two Debian package versions like `dpkg --compare-versions`
+ * Returns a negative number if a is older, positive if it is newer, 0 if equal.
+ */
+export function compareDebianVersions(a: string, b: string): number {
+    const [epochA, upstreamA, revisionA] = splitDebianVersion(a);
+    const [epochB, upstreamB, revisionB] = splitDebianVersion(b);
+
+    if (epochA !== epochB) return Math.sign(epochA - epochB);
+    return compareVersionPart(upstreamA, upstreamB) || compareVersionPart(revisionA, revisionB);
+}
+
+/**
+ * Repository name of a package, without the "installed:", "manual:" or "auto:"
+ * prefix PackageKit adds to installed versions
+ * Installed packages no repository provides anymore are labeled "Installed".
+ */
+export function getRepositoryLabel(repo: string): string {
+    const name = repo.replace(/^(installed|manual|auto)(:|$)/, '');
+    return name || 'Installed';
+}
+
+/**
+ * Group the versions of a package by repository, newest versions first
+ */
+export function groupVersionsByRepository<T extends PackageInfo>(packages: T[]): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    const sorted = [...packages].sort((a, b) => compareDebianVersions(b.version, a.version));
+
+    for (const pkg of sorted) {
+        const repo = getRepositoryLabel(pkg.repo);
+        groups.set(repo, [...(groups.get(repo) || []), pkg]);
+    }
+    return groups;
+}
+
 /**
  * Check if two package IDs refer to the same package (same name)
  */
 export function isSamePackage(id1: string, id2: string): boolean {
     return getPackageName(id1) === getPackageName(id2);
 }
+
+/**
+ * Update categories, in display order
+ */
+export type UpdateCategory = 'security' | 'bugfix' | 'enhancement' | 'other';
+
+export const UPDATE_CATEGORIES: Record<UpdateCategory, { name: string; description: string }> = {
+    'security': {
+        name: 'Security updates',
+        description: 'Fixes for security vulnerabilities',
+    },
+    'bugfix': {
+        name: 'Bug fix updates',
+        description: 'Fixes for known problems',
+    },
+    'enhancement': {
+        name: 'Enhancements',
+        description: 'New features and improvements',
+    },
+    'other': {
+        name: 'Other updates',
+        description: 'Updates without a specific classification',
+    },
+};
+
+/**
+ * Map a PackageKit update severity (PkEnum.INFO_*) to an update category
+ */
+export function getUpdateCategory(severity: number): UpdateCategory {
+    switch (severity) {
+        case PkEnum.INFO_SECURITY:
+            return 'security';
+        case PkEnum.INFO_BUGFIX:
+            return 'bugfix';
+        case PkEnum.INFO_ENHANCEMENT:
+            return 'enhancement';
+        default:
+            return 'other';
+    }
+}
+
+/**
+ * Group updates by category
+ * Only non-empty categories are included, in UPDATE_CATEGORIES order
+ */
+export function groupUpdatesBySeverity(updates: UpdateInfo[]): Map<UpdateCategory, UpdateInfo[]> {
+    const grouped = new Map<UpdateCategory, UpdateInfo[]>();
+
+    (Object.keys(UPDATE_CATEGORIES) as UpdateCategory[]).forEach(category => {
+        const inCategory = updates.filter(update => getUpdateCategory(update.severity) === category);
+        if (inCategory.length > 0) {
+            grouped.set(category, sortPackagesByName(inCategory));
+        }
+    });
+
+    return grouped;
+}
+
+/**
+ * Find the pending update for a package (same name and architecture)
+ */
+export function findUpdateForPackage<T extends PackageInfo>(pkg: PackageInfo, updates: T[]): T | undefined {
+    return updates.find(update => update.name === pkg.name && update.arch === pkg.arch);
+}
+
+/**
+ * Get a description of the restart an update requires (PkEnum.RESTART_*)
+ */
+export function getRestartLabel(restart: number): string {
+    const labels: Record<number, string> = {
+        [PkEnum.RESTART_NONE]: 'None',
+        [PkEnum.RESTART_APPLICATION]: 'Application restart',
+        [PkEnum.RESTART_SESSION]: 'Session restart',
+        [PkEnum.RESTART_SYSTEM]: 'System reboot',
+        [PkEnum.RESTART_SECURITY_SESSION]: 'Session restart (security)',
+        [PkEnum.RESTART_SECURITY_SYSTEM]: 'System reboot (security)',
+    };
+
+    return labels[restart] || 'Unknown';
+}
+
+/**
+ * Get a description of an update's state (PkEnum.UPDATE_STATE_*)
+ */
+export function getUpdateStateLabel(state: number): string {
+    const labels: Record<number, string> = {
+        [PkEnum.UPDATE_STATE_STABLE]: 'Stable',
+        [PkEnum.UPDATE_STATE_UNSTABLE]: 'Unstable',
+        [PkEnum.UPDATE_STATE_TESTING]: 'Testing',
+    };
+
+    return labels[state] || 'Unknown';
+}
+
+/**
+ * Calculate download size and disk usage change for a transaction preview
+ * Details must cover the package IDs in the preview; missing ones count as zero.
+ * Disk usage is approximate: the size of replaced versions is not known.
+ */
+export function calculatePreviewSizes(
+    preview: Pick<TransactionPreview, 'install' | 'update' | 'remove' | 'downgrade' | 'reinstall'>,
+    details: PackageDetails[]
+): { downloadSize: number; installSize: number } {
+    const byId = new Map(details.map(pkg => [pkg.id, pkg]));
+    const incoming = [...preview.install, ...preview.update, ...preview.downgrade, ...preview.reinstall];
+
+    let downloadSize = 0;
+    let installSize = 0;
+
+    incoming.forEach(id => {
+        const pkg = byId.get(id);
+        downloadSize += pkg?.downloadSize ?? pkg?.size ?? 0;
+    });
+    preview.install.forEach(id => {
+        installSize += byId.get(id)?.size ?? 0;
+    });
+    preview.remove.forEach(id => {
+        installSize -= byId.get(id)?.size ?? 0;
+    });
+
+    return { downloadSize, installSize };
+}
+
+/**
+ * Count all packages affected by a transaction preview
+ */
+export function countPreviewPackages(preview: TransactionPreview): number {
+    return preview.install.length + preview.update.length + preview.remove.length +
+        preview.downgrade.length + preview.reinstall.length;
+}
+
+// Preview of a transaction that changes nothing
+export const EMPTY_PREVIEW: TransactionPreview = {
+    install: [],
+    update: [],
+    remove: [],
+    downgrade: [],
+    reinstall: [],
+    downloadSize: 0,
+    installSize: 0,
+};
+
+/**
+ * Combine previews of transactions that run one after another
+ */
+export function mergePreviews(first: TransactionPreview, second: TransactionPreview): TransactionPreview {
+    return {
+        install: [...first.install, ...second.install],
+        update: [...first.update, ...second.update],
+        remove: [...first.remove, ...second.remove],
+        downgrade: [...first.downgrade, ...second.downgrade],
+        reinstall: [...first.reinstall, ...second.reinstall],
+        downloadSize: first.downloadSize + second.downloadSize,
+        installSize: first.installSize + second.installSize,
+    };
+}
+
+/**
+ * Scale the percentage of one step in a sequence of equally weighted steps
+ * to the percentage of the whole sequence
+ */
+export function scaleProgress(percentage: number, step: number, stepCount: number): number {
+    if (stepCount <= 0) return percentage;
+    return (step * 100 + percentage) / stepCount;
+}
+
+/**
+ * Check if a transaction role changes the system (as opposed to only querying it)
+ */
+export function isSystemChangingRole(role: number): boolean {
+    const changingRoles: number[] = [
+        PkEnum.ROLE_INSTALL_FILES,
+        PkEnum.ROLE_INSTALL_PACKAGES,
+        PkEnum.ROLE_INSTALL_SIGNATURE,
+        PkEnum.ROLE_REFRESH_CACHE,
+        PkEnum.ROLE_REMOVE_PACKAGES,
+        PkEnum.ROLE_REPO_ENABLE,
+        PkEnum.ROLE_REPO_SET_DATA,
+        PkEnum.ROLE_UPDATE_PACKAGES,
+        PkEnum.ROLE_UPGRADE_SYSTEM,
+        PkEnum.ROLE_REPAIR_SYSTEM,
+        PkEnum.ROLE_REPO_REMOVE,
+    ];
+    return changingRoles.includes(role);
+}
+
+/**
+ * Get a description of a transaction role (PkEnum.ROLE_*)
+ */
+export function getRoleLabel(role: number): string {
+    const labels: Record<number, string> = {
+        [PkEnum.ROLE_INSTALL_FILES]: 'Installing files',
+        [PkEnum.ROLE_INSTALL_PACKAGES]: 'Installing packages',
+        [PkEnum.ROLE_INSTALL_SIGNATURE]: 'Installing signature',
+        [PkEnum.ROLE_REFRESH_CACHE]: 'Refreshing package cache',
+        [PkEnum.ROLE_REMOVE_PACKAGES]: 'Removing packages',
+        [PkEnum.ROLE_REPO_ENABLE]: 'Changing repository',
+        [PkEnum.ROLE_REPO_SET_DATA]: 'Changing repository',
+        [PkEnum.ROLE_UPDATE_PACKAGES]: 'Updating packages',
+        [PkEnum.ROLE_DOWNLOAD_PACKAGES]: 'Downloading packages',
+        [PkEnum.ROLE_UPGRADE_SYSTEM]: 'Upgrading system',
+        [PkEnum.ROLE_REPAIR_SYSTEM]: 'Repairing system',
+        [PkEnum.ROLE_REPO_REMOVE]: 'Removing repository',
+    };
+
+    return labels[role] || 'Package operation';
+}
+
+/**
+ * Get a description of a transaction status (PkEnum.STATUS_*)
+ */
+export function getTransactionStatusLabel(status: number): string {
+    const labels: Record<number, string> = {
+        [PkEnum.STATUS_WAIT]: 'Waiting',
+        [PkEnum.STATUS_SETUP]: 'Setting up',
+        [PkEnum.STATUS_RUNNING]: 'Running',
+        [PkEnum.STATUS_QUERY]: 'Querying',
+        [PkEnum.STATUS_INFO]: 'Getting information',
+        [PkEnum.STATUS_REMOVE]: 'Removing',
+        [PkEnum.STATUS_REFRESH_CACHE]: 'Refreshing cache',
+        [PkEnum.STATUS_DOWNLOAD]: 'Downloading',
+        [PkEnum.STATUS_INSTALL]: 'Installing',
+        [PkEnum.STATUS_UPDATE]: 'Updating',
+        [PkEnum.STATUS_CLEANUP]: 'Cleaning up',
+        [PkEnum.STATUS_DEP_RESOLVE]: 'Resolving dependencies',
+        [PkEnum.STATUS_SIGCHECK]: 'Checking signatures',
+        [PkEnum.STATUS_TEST_COMMIT]: 'Testing changes',
+        [PkEnum.STATUS_COMMIT]: 'Committing changes',
+        [PkEnum.STATUS_FINISHED]: 'Finished',
+        [PkEnum.STATUS_CANCEL]: 'Cancelling',
+        [PkEnum.STATUS_LOADING_CACHE]: 'Loading cache',
+        [PkEnum.STATUS_WAITING_FOR_LOCK]: 'Waiting for package manager lock',
+    };
+
+    return labels[status] || 'Working';
+}
+
+/**
+ * Filter repositories by description or ID
+ */
+export function filterRepositories(repos: RepositoryInfo[], query: string): RepositoryInfo[] {
+    if (!query) return repos;
+
+    const lowerQuery = query.toLowerCase();
+    return repos.filter(repo =>
+        repo.description.toLowerCase().includes(lowerQuery) ||
+        repo.id.toLowerCase().includes(lowerQuery)
+    );
+}
+
+/**
+ * Sort repositories with enabled ones first, then by description
+ */
+export function sortRepositories(repos: RepositoryInfo[]): RepositoryInfo[] {
+    return [...repos].sort((a, b) => {
+        if (a.enabled !== b.enabled) {
+            return a.enabled ? -1 : 1;
+        }
+        return a.description.localeCompare(b.description);
+    });
+}
+
+/**
+ * Parse a list of package names, one per line, as printed by apt-mark
+ */
+export function parsePackageNameList(text: string): string[] {
+    return text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+}
+
+/**
+ * Check whether a package is built for a foreign architecture
+ * Architecture independent packages and an unknown native architecture count as native.
+ */
+export function isForeignArchitecture(arch: string, nativeArch: string): boolean {
+    return nativeArch !== '' && arch !== nativeArch && arch !== 'all';
+}
+
+/**
+ * PackageKit filter for package searches and listings
+ * Foreign architecture variants are included once dpkg has a foreign architecture.
+ */
+export function getListingFilter(foreignArchitectures: string[]): number {
+    const filter = PkEnum.FILTER_NOT_SOURCE | PkEnum.FILTER_NEWEST;
+    return foreignArchitectures.length > 0 ? filter : filter | PkEnum.FILTER_ARCH;
+}
+
+/**
+ * One version of a package per architecture, the installed one or else the newest
+ */
+export function getArchitectureVariants<T extends PackageInfo>(versions: T[]): T[] {
+    const byArch = new Map<string, T>();
+    for (const version of versions) {
+        const existing = byArch.get(version.arch);
+        if (!existing || (version.installed && !existing.installed) ||
+            (version.installed === existing.installed && compareDebianVersions(version.version, existing.version) > 0)) {
+            byArch.set(version.arch, version);
+        }
+    }
+    return [...byArch.values()].sort((a, b) => a.arch.localeCompare(b.arch));
+}
+
+/**
+ * Name or package ID to install or remove a package by
+ * Names resolve to the native architecture, so foreign variants need their exact ID.
+ */
+export function getPackageTarget(pkg: PackageInfo, nativeArch: string): string {
+    return isForeignArchitecture(pkg.arch, nativeArch) ? pkg.id : pkg.name;
+}
+
+/**
+ * Package name as apt expects it, qualified with the architecture for foreign variants
+ */
+export function getAptPackageName(pkg: { name: string; arch: string }, nativeArch: string): string {
+    return isForeignArchitecture(pkg.arch, nativeArch) ? `${pkg.name}:${pkg.arch}` : pkg.name;
+}
+
+/**
+ * Check whether a package is held
+ * apt-mark lists packages of foreign architectures as name:arch.
+ */
+export function isPackageHeld(pkg: { name: string; arch: string }, held: Set<string>): boolean {
+    return held.has(pkg.name) || held.has(`${pkg.name}:${pkg.arch}`);
+}
+
+/**
+ * Check whether a package was installed automatically as a dependency
+ */
+export function isPackageAutoInstalled(pkg: { name: string; arch: string }, auto: Set<string>): boolean {
+    return auto.has(pkg.name) || auto.has(`${pkg.name}:${pkg.arch}`);
+}
+
+/**
+ * Check whether PackageKit reports an update as blocked, e.g. kept back because it needs other packages removed
+ */
+export function isUpdateBlocked(update: UpdateInfo): boolean {
+    return update.severity === PkEnum.INFO_BLOCKED;
+}
+
+/**
+ * Updates selected by default: all except blocked ones and those of held packages
+ */
+export function getDefaultUpdateSelection(updates: UpdateInfo[], held: Set<string>): Set<string> {
+    return new Set(updates
+        .filter(update => !isPackageHeld(update, held) && !isUpdateBlocked(update))
+        .map(update => update.id));
+}
+
+/**
+ * One entry per package providing a virtual package, installed providers first
+ * An installed version is kept over newer available ones of the same package.
+ */
+export function getProviderChoices<T extends PackageInfo>(packages: T[]): T[] {
+    const byName = new Map<string, T>();
+    for (const pkg of packages) {
+        const existing = byName.get(pkg.name);
+        if (!existing || (pkg.installed && !existing.installed) ||
+            (pkg.installed === existing.installed && compareDebianVersions(pkg.version, existing.version) > 0)) {
+            byName.set(pkg.name, pkg);
+        }
+    }
+    return sortPackagesByStatus([...byName.values()]);
+}